@@ -7,6 +7,7 @@ echo "🔐 Testing Silent Scribe Admin Security"
 echo "====================================="
 
 BASE_URL="http://localhost:3000"
+ADMIN_EMAIL="${ADMIN_EMAIL:-}" # Leave empty to use the bootstrap ADMIN_PASSWORD login
 ADMIN_PASSWORD="${ADMIN_PASSWORD:-your-admin-password}"
 ADMIN_API_KEY="${ADMIN_API_KEY:-your-admin-api-key}"
 
@@ -47,7 +48,7 @@ echo "🔑 Testing Authentication..."
 echo "   • Testing admin login..."
 LOGIN_RESPONSE=$(curl -s -X POST "$BASE_URL/api/admin/auth" \
     -H "Content-Type: application/json" \
-    -d "{\"password\":\"$ADMIN_PASSWORD\"}")
+    -d "{\"email\":\"$ADMIN_EMAIL\",\"password\":\"$ADMIN_PASSWORD\"}")
 
 if echo "$LOGIN_RESPONSE" | grep -q '"success":true'; then
     echo "   ✅ Admin login successful"
@@ -128,6 +129,29 @@ if [ -n "$TOKEN" ]; then
     else
         echo "   ❌ Logout failed"
     fi
+
+    # Test that the token is revoked after logout
+    echo "   • Testing token revocation after logout..."
+    STATUS=$(curl -s -o /dev/null -w "%{http_code}" "$BASE_URL/api/admin/auth" \
+        -H "Authorization: Bearer $TOKEN")
+
+    if [ "$STATUS" -eq 401 ]; then
+        echo "   ✅ Revoked token rejected"
+    else
+        echo "   ❌ Revoked token still accepted (status: $STATUS)"
+    fi
+fi
+
+# Test that a self-minted legacy token is rejected
+echo "   • Testing forged token..."
+FORGED_TOKEN=$(echo -n "admin:$(date +%s)000:0.5" | base64)
+STATUS=$(curl -s -o /dev/null -w "%{http_code}" "$BASE_URL/api/live-analytics" \
+    -H "Authorization: Bearer $FORGED_TOKEN")
+
+if [ "$STATUS" -eq 401 ]; then
+    echo "   ✅ Forged token rejected"
+else
+    echo "   ❌ Forged token accepted (status: $STATUS)"
 fi
 
 echo ""
@@ -166,6 +190,22 @@ else
     echo "   ❌ Webhook doesn't reject invalid secret (status: $INVALID_WEBHOOK)"
 fi
 
+echo ""
+echo "🧱 Testing Login Lockout (runs last - locks this IP out briefly)..."
+
+LOCKOUT_STATUS=""
+for attempt in 1 2 3 4 5 6; do
+    LOCKOUT_STATUS=$(curl -s -o /dev/null -w "%{http_code}" -X POST "$BASE_URL/api/admin/auth" \
+        -H "Content-Type: application/json" \
+        -d '{"password":"wrong-password"}')
+done
+
+if [ "$LOCKOUT_STATUS" -eq 429 ]; then
+    echo "   ✅ Repeated failures locked out (429)"
+else
+    echo "   ❌ Repeated failures not locked out (status: $LOCKOUT_STATUS)"
+fi
+
 echo ""
 echo "📊 Security Test Summary:"
 echo "========================"
@@ -175,17 +215,19 @@ echo "   • Admin dashboard UI authentication implemented"
 echo "   • API endpoints require authentication"
 echo "   • Session management with token expiry"
 echo "   • Secure logout functionality"
+echo "   • Login backoff and lockout with Retry-After"
 
 echo ""
 echo "🔐 Authentication Methods:"
-echo "   • Password-based login for dashboard"
+echo "   • Named admin accounts with viewer/marketer/owner roles"
 echo "   • API key authentication for programmatic access"
-echo "   • Session tokens with 24-hour expiry"
+echo "   • Signed session tokens with 24-hour expiry and server-side revocation"
 echo "   • Webhook signature verification"
 
 echo ""
 echo "⚠️  Security Recommendations:"
 echo "   • Ensure strong ADMIN_PASSWORD is set"
+echo "   • Set a long random ADMIN_SESSION_SECRET for token signing"
 echo "   • Use unique ADMIN_API_KEY for production"
 echo "   • Set secure WEBHOOK_SECRET"
 echo "   • Monitor authentication logs for suspicious activity"
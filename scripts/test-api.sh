@@ -132,27 +132,35 @@ curl -X POST "$BASE_URL/api/feedback" \
     "rating": 4
   }' | jq '.'
 
-# Test 8: User Preferences Update
+# Test 8: Preference Center Magic Link
 echo ""
-echo "⚙️  Test 8: User Preferences Update"
-echo "----------------------------------"
+echo "🔗 Test 8: Preference Center Magic Link"
+echo "---------------------------------------"
 
-curl -X PUT "$BASE_URL/api/user-preferences" \
+curl -X POST "$BASE_URL/api/user-preferences/link" \
   -H "Content-Type: application/json" \
-  -d '{
-    "email": "test@example.com",
-    "communicationFrequency": "weekly",
-    "technicalBackground": "intermediate",
-    "areasOfInterest": ["VS Code extensions", "documentation tools", "privacy tools"],
-    "timezone": "America/New_York"
-  }' | jq '.'
+  -d '{"email": "test@example.com"}' | jq '.'
 
-# Test 9: Get User Preferences
+# Test 9: User Preferences (needs the token from the emailed link)
 echo ""
-echo "📋 Test 9: Get User Preferences"
-echo "-------------------------------"
+echo "⚙️  Test 9: User Preferences"
+echo "----------------------------"
 
-curl -X GET "$BASE_URL/api/user-preferences?email=test@example.com" | jq '.'
+if [ -n "$PREFERENCE_TOKEN" ]; then
+  curl -X GET "$BASE_URL/api/user-preferences?token=$PREFERENCE_TOKEN" | jq '.'
+
+  curl -X PUT "$BASE_URL/api/user-preferences" \
+    -H "Content-Type: application/json" \
+    -d '{
+      "token": "'"$PREFERENCE_TOKEN"'",
+      "communicationFrequency": "weekly",
+      "technicalBackground": "intermediate",
+      "areasOfInterest": ["VS Code extensions", "documentation tools", "privacy tools"],
+      "timezone": "America/New_York"
+    }' | jq '.'
+else
+  echo "Skipped: set PREFERENCE_TOKEN to the token from a preference center link"
+fi
 
 echo ""
 echo "✅ API testing complete!"
@@ -11,6 +11,8 @@ import {
   PrivacyAnalyticsDashboard,
   PerformanceMonitoringDashboard,
   ErrorMonitoringDashboard,
+  AuditLogViewer,
+  ReferralLeaderboard,
 } from '../../components/admin'
 
 /**
@@ -427,6 +429,16 @@ export default function AdminDashboard() {
           <ErrorMonitoringDashboard />
         </div>
 
+        {/* Referral Leaderboard */}
+        <div className="mb-8">
+          <ReferralLeaderboard />
+        </div>
+
+        {/* Admin Audit Log */}
+        <div className="mb-8">
+          <AuditLogViewer />
+        </div>
+
         {/* Additional Admin Tools */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div className="bg-white rounded-lg shadow p-6">
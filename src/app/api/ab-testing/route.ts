@@ -1,212 +1,272 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
+import { adminApiMiddleware } from '@/lib/admin-middleware'
 import { supabaseAdmin } from '@/lib/supabase'
-import { sendEmail, getUserSegments, createCampaign } from '@/lib/email'
+import { EmailCampaignService } from '@/lib/services/email-campaigns'
+import { ABTestService, AB_TEST_MIN_GROUP_SIZE } from '@/lib/services/ab-tests'
+import { SegmentService } from '@/lib/services/segments'
+import { resolveTestSend, testSendSchema } from '@/lib/campaign-test-send'
 
 // Validation schema for A/B test
-const abTestSchema = z.object({
-  testName: z.string().min(1, 'Test name is required'),
-  segmentFilter: z
-    .enum([
-      'all',
-      'high_engagement',
-      'has_github',
-      'large_teams',
-      'recent_signups',
-    ])
-    .default('all'),
-  variantA: z.object({
-    subject: z.string().min(1, 'Subject A is required'),
-    content: z.string().min(1, 'Content A is required'),
-    templateId: z.string().optional(),
-  }),
-  variantB: z.object({
-    subject: z.string().min(1, 'Subject B is required'),
-    content: z.string().min(1, 'Content B is required'),
-    templateId: z.string().optional(),
-  }),
-  splitPercentage: z.number().min(10).max(90).default(50), // Percentage for variant A
-  emailType: z
-    .enum(['development_update', 'feedback_request', 'custom'])
-    .default('custom'),
-  testMode: z.boolean().default(false),
+const abTestSchema = z
+  .object({
+    testName: z.string().min(1, 'Test name is required'),
+    segmentFilter: z
+      .enum([
+        'all',
+        'high_engagement',
+        'has_github',
+        'large_teams',
+        'recent_signups',
+      ])
+      .default('all'),
+    segmentId: z.string().uuid().optional(), // A saved segment
+    variantA: z.object({
+      subject: z.string().min(1, 'Subject A is required'),
+      content: z.string().min(1, 'Content A is required'),
+      templateId: z.string().optional(),
+    }),
+    variantB: z.object({
+      subject: z.string().min(1, 'Subject B is required'),
+      content: z.string().min(1, 'Content B is required'),
+      templateId: z.string().optional(),
+    }),
+    splitPercentage: z.number().min(10).max(90).default(50), // Percentage for variant A
+    emailType: z
+      .enum(['development_update', 'feedback_request', 'custom'])
+      .default('custom'),
+    // Test on part of the segment and send the winner to the rest later
+    testPercentage: z.number().min(10).max(100).default(100),
+    rolloutAfterHours: z.number().min(1).max(168).optional(),
+    winnerMetric: z.enum(['open_rate', 'click_rate']).default('open_rate'),
+    confidenceLevel: z
+      .union([z.literal(90), z.literal(95), z.literal(99)])
+      .default(95),
+    // Absolute lift the sample-size guidance is sized for, e.g. 0.05
+    minimumDetectableEffect: z.number().min(0.005).max(0.5).optional(),
+    test: testSendSchema.optional(), // Send both variants to internal addresses
+  })
+  .refine((test) => test.testPercentage === 100 || test.rolloutAfterHours, {
+    message: 'rolloutAfterHours is required when testPercentage is below 100',
+    path: ['rolloutAfterHours'],
+  })
+  .refine((test) => !test.segmentId || test.segmentFilter === 'all', {
+    message: 'Use either segmentFilter or segmentId, not both',
+    path: ['segmentId'],
+  })
+
+const rolloutActionSchema = z.object({
+  testId: z.string().min(1),
+  action: z.literal('cancel_rollout'),
 })
 
+type SegmentName = z.infer<typeof abTestSchema>['segmentFilter']
+
+/**
+ * Segment filter for EmailCampaignService.getSegmentedUsers
+ */
+function getSegmentFilter(
+  segment: SegmentName
+): Parameters<typeof EmailCampaignService.getSegmentedUsers>[0] {
+  switch (segment) {
+    case 'high_engagement':
+      return { engagement_level: 'high' }
+    case 'has_github':
+      return { has_github: true }
+    case 'large_teams':
+      return { team_size: ['medium_team', 'large_team', 'enterprise'] }
+    case 'recent_signups':
+      return {
+        signed_up_after: new Date(
+          Date.now() - 7 * 24 * 60 * 60 * 1000
+        ).toISOString(),
+      }
+    default:
+      return {}
+  }
+}
+
 /**
  * Create and run A/B test email campaign
  */
 export async function POST(request: NextRequest) {
   try {
-    // Basic auth check
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || authHeader !== `Bearer ${process.env.ADMIN_API_KEY}`) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    // Check admin authentication and role
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
     }
 
     const body = await request.json()
     const testData = abTestSchema.parse(body)
 
+    const { testSend, response: testSendResponse } = await resolveTestSend(
+      request,
+      testData.test
+    )
+    if (testSendResponse) {
+      return testSendResponse
+    }
+
+    if (testData.segmentId) {
+      const { error: segmentError } = await SegmentService.getById(
+        testData.segmentId
+      )
+      if (segmentError) {
+        return NextResponse.json(
+          { success: false, error: segmentError },
+          { status: 400 }
+        )
+      }
+    }
+
     // Get target users for the segment
-    const segments = await getUserSegments()
-    let targetEmails: string[] = []
+    const targetUsers = await EmailCampaignService.getSegmentedUsers(
+      testData.segmentId
+        ? { segment_id: testData.segmentId }
+        : getSegmentFilter(testData.segmentFilter)
+    )
 
-    if (testData.segmentFilter === 'all') {
-      if (!supabaseAdmin) {
+    // Recorded on the test and its campaigns
+    const segmentFilter = testData.segmentId
+      ? JSON.stringify({ segment_id: testData.segmentId })
+      : testData.segmentFilter
+
+    // A test send goes to the seed list only, with both variants to every
+    // seed address, and doesn't start an A/B test
+    if (testSend) {
+      const audience = EmailCampaignService.getAudience(targetUsers, testSend)
+      if (audience.length === 0) {
         return NextResponse.json(
-          { error: 'Database connection failed' },
-          { status: 500 }
+          { success: false, error: 'No users in segment to personalize for' },
+          { status: 400 }
         )
       }
 
-      const { data: users } = await supabaseAdmin
-        .from('beta_signups')
-        .select('email')
-        .eq('opted_in_marketing', true)
-        .eq('email_status', 'active')
+      const variants = []
+      for (const [name, variant] of [
+        ['variant_a', testData.variantA],
+        ['variant_b', testData.variantB],
+      ] as const) {
+        const { campaign_id: campaignId, error: campaignError } =
+          await EmailCampaignService.createCampaign({
+            campaign_type: `${testData.emailType}_ab_${name}`,
+            subject: variant.subject,
+            segment_filter: segmentFilter,
+            total_recipients: audience.length,
+            is_test: true,
+          })
+
+        if (campaignError) {
+          return NextResponse.json(
+            { success: false, error: campaignError },
+            { status: 500 }
+          )
+        }
+
+        const { sent, errors } = await ABTestService.sendVariant(
+          audience,
+          variant,
+          campaignId,
+          true
+        )
 
-      targetEmails = (users as any[])?.map((u) => u.email) || []
-    } else {
-      targetEmails =
-        segments[testData.segmentFilter as keyof typeof segments] || []
+        await (supabaseAdmin.from('email_campaigns') as any)
+          .update({
+            sent_count: sent,
+            error_count: errors.length,
+            status: 'sent',
+            sent_at: new Date().toISOString(),
+          })
+          .eq('campaign_id', campaignId)
+
+        variants.push({ campaignId, sent, errors: errors.length })
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: `Test sent to ${testSend.recipients.length} address(es)`,
+        is_test: true,
+        data: { variantA: variants[0], variantB: variants[1] },
+      })
     }
 
-    if (targetEmails.length < 20) {
+    // Seeded shuffle, so the split can be reproduced from the recorded seed
+    const split = ABTestService.splitAudience(targetUsers, {
+      splitPercentage: testData.splitPercentage,
+      testPercentage: testData.testPercentage,
+    })
+
+    if (
+      split.variant_a.length + split.variant_b.length <
+      AB_TEST_MIN_GROUP_SIZE
+    ) {
       return NextResponse.json(
         {
           success: false,
-          error: 'Insufficient users for A/B test (minimum 20 required)',
+          error: `Insufficient users for A/B test (minimum ${AB_TEST_MIN_GROUP_SIZE} in the test group required)`,
         },
         { status: 400 }
       )
     }
 
-    // Shuffle emails and split into variants
-    const shuffledEmails = targetEmails.sort(() => Math.random() - 0.5)
-    const splitIndex = Math.floor(
-      (shuffledEmails.length * testData.splitPercentage) / 100
+    const sampleSize = ABTestService.getSampleSizeGuidance(
+      testData.winnerMetric,
+      Math.min(split.variant_a.length, split.variant_b.length),
+      {
+        minimumDetectableEffect: testData.minimumDetectableEffect,
+        confidenceLevel: testData.confidenceLevel,
+      }
     )
-    const variantAEmails = shuffledEmails.slice(0, splitIndex)
-    const variantBEmails = shuffledEmails.slice(splitIndex)
-
-    // Create campaigns for both variants
-    const { campaignId: campaignIdA } = await createCampaign({
-      type: `${testData.emailType}_ab_variant_a`,
-      subject: testData.variantA.subject,
-      segmentFilter: testData.segmentFilter,
-      testMode: testData.testMode,
-    })
 
-    const { campaignId: campaignIdB } = await createCampaign({
-      type: `${testData.emailType}_ab_variant_b`,
-      subject: testData.variantB.subject,
-      segmentFilter: testData.segmentFilter,
-      testMode: testData.testMode,
-    })
+    const { data: launched, error: launchError } = await ABTestService.launch(
+      {
+        test_name: testData.testName,
+        segment_filter: segmentFilter,
+        email_type: testData.emailType,
+        variant_a: testData.variantA,
+        variant_b: testData.variantB,
+        split_percentage: testData.splitPercentage,
+        test_percentage: testData.testPercentage,
+        winner_metric: testData.winnerMetric,
+        confidence_level: testData.confidenceLevel,
+        rollout_after_hours: testData.rolloutAfterHours,
+      },
+      split
+    )
 
-    // Create A/B test record
-    if (!supabaseAdmin) {
+    if (launchError || !launched) {
       return NextResponse.json(
-        { error: 'Database connection failed' },
+        { success: false, error: launchError || 'Failed to launch A/B test' },
         { status: 500 }
       )
     }
 
-    const { data: abTest } = await (supabaseAdmin.from('ab_tests') as any)
-      .insert({
-        test_name: testData.testName,
-        campaign_a_id: campaignIdA,
-        campaign_b_id: campaignIdB,
-        variant_a_count: variantAEmails.length,
-        variant_b_count: variantBEmails.length,
-        split_percentage: testData.splitPercentage,
-        status: 'running',
-        test_type: 'subject_line',
-        created_at: new Date().toISOString(),
-      })
-      .select()
-      .single()
-
-    // Send variant A emails
-    let sentCountA = 0
-    const errorsA: string[] = []
-
-    for (const email of variantAEmails) {
-      try {
-        await sendEmail({
-          to: email,
-          subject: testData.variantA.subject,
-          html: testData.variantA.content,
-          templateId: testData.variantA.templateId,
-        })
-        sentCountA++
-      } catch (error) {
-        errorsA.push(`${email}: ${error}`)
-      }
-
-      // Rate limiting
-      if (sentCountA % 10 === 0) {
-        await new Promise((resolve) => setTimeout(resolve, 1000))
-      }
-    }
-
-    // Send variant B emails
-    let sentCountB = 0
-    const errorsB: string[] = []
-
-    for (const email of variantBEmails) {
-      try {
-        await sendEmail({
-          to: email,
-          subject: testData.variantB.subject,
-          html: testData.variantB.content,
-          templateId: testData.variantB.templateId,
-        })
-        sentCountB++
-      } catch (error) {
-        errorsB.push(`${email}: ${error}`)
-      }
-
-      // Rate limiting
-      if (sentCountB % 10 === 0) {
-        await new Promise((resolve) => setTimeout(resolve, 1000))
-      }
-    }
-
-    // Update campaign records with results
-    await (supabaseAdmin?.from('email_campaigns') as any)
-      ?.update({
-        sent_count: sentCountA,
-        error_count: errorsA.length,
-        status: 'sent',
-        sent_at: new Date().toISOString(),
-      })
-      ?.eq('campaign_id', campaignIdA)
-
-    await (supabaseAdmin?.from('email_campaigns') as any)
-      ?.update({
-        sent_count: sentCountB,
-        error_count: errorsB.length,
-        status: 'sent',
-        sent_at: new Date().toISOString(),
-      })
-      ?.eq('campaign_id', campaignIdB)
-
     return NextResponse.json({
       success: true,
       message: 'A/B test campaign launched successfully',
       data: {
-        testId: abTest?.id,
+        testId: launched.test.id,
+        shuffleSeed: split.seed,
         variantA: {
-          campaignId: campaignIdA,
-          sent: sentCountA,
-          errors: errorsA.length,
+          campaignId: launched.variant_a.campaign_id,
+          queued: launched.variant_a.queued,
         },
         variantB: {
-          campaignId: campaignIdB,
-          sent: sentCountB,
-          errors: errorsB.length,
+          campaignId: launched.variant_b.campaign_id,
+          queued: launched.variant_b.queued,
         },
+        holdout: {
+          count: split.holdout.length,
+          rolloutAt: launched.test.rollout_at || null,
+        },
+        sampleSize,
       },
+      ...(!sampleSize.sufficient && {
+        warnings: [
+          `Each variant has ${sampleSize.current_per_variant} recipients; about ${sampleSize.required_per_variant} are needed to detect a ${+(sampleSize.minimum_detectable_effect * 100).toFixed(1)} point change in ${testData.winnerMetric.replace('_', ' ')}`,
+        ],
+      }),
     })
   } catch (error) {
     console.error('A/B test error:', error)
@@ -230,63 +290,32 @@ export async function POST(request: NextRequest) {
  */
 export async function GET(request: NextRequest) {
   try {
-    // Basic auth check
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || authHeader !== `Bearer ${process.env.ADMIN_API_KEY}`) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    // Check admin authentication and role
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
     }
 
     const { searchParams } = new URL(request.url)
     const testId = searchParams.get('testId')
 
     if (testId) {
-      // Get specific test results
-      if (!supabaseAdmin) {
-        return NextResponse.json(
-          { error: 'Database connection failed' },
-          { status: 500 }
-        )
-      }
-
-      const { data: test } = await supabaseAdmin
-        .from('ab_tests')
-        .select(
-          `
-          *,
-          campaign_a:email_campaigns!campaign_a_id(*),
-          campaign_b:email_campaigns!campaign_b_id(*)
-        `
-        )
-        .eq('id', testId)
-        .single()
+      // Significance on opens and clicks, and sample-size guidance
+      const mde = Number(searchParams.get('minimumDetectableEffect'))
+      const { data: results, error } = await ABTestService.getResults(testId, {
+        minimumDetectableEffect: mde > 0 && mde < 1 ? mde : undefined,
+      })
 
-      if (!test) {
+      if (error || !results) {
         return NextResponse.json(
-          { success: false, error: 'Test not found' },
-          { status: 404 }
+          { success: false, error: error || 'Test not found' },
+          { status: error === 'Test not found' ? 404 : 500 }
         )
       }
 
-      // Get email events for both campaigns to calculate metrics
-      const { data: eventsA } = await supabaseAdmin
-        .from('email_events')
-        .select('event_type, count(*)')
-        .eq('campaign_id', (test as any)?.campaign_a_id)
-
-      const { data: eventsB } = await supabaseAdmin
-        .from('email_events')
-        .select('event_type, count(*)')
-        .eq('campaign_id', (test as any)?.campaign_b_id)
-
       return NextResponse.json({
         success: true,
-        data: {
-          test,
-          metrics: {
-            variantA: eventsA,
-            variantB: eventsB,
-          },
-        },
+        data: results,
       })
     } else {
       // Get all A/B tests
@@ -316,3 +345,45 @@ export async function GET(request: NextRequest) {
     )
   }
 }
+
+/**
+ * Cancel a test's pending winner rollout, leaving the holdout unsent
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const body = await request.json()
+    const { testId } = rolloutActionSchema.parse(body)
+
+    const { data: test, error } = await ABTestService.cancelRollout(testId)
+    if (error || !test) {
+      return NextResponse.json(
+        { success: false, error: error || 'Failed to cancel rollout' },
+        { status: error === 'No pending rollout for this test' ? 409 : 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Rollout cancelled',
+      data: { testId: test.id, rolloutStatus: test.rollout_status },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request', details: error.issues },
+        { status: 400 }
+      )
+    }
+
+    console.error('A/B test rollout cancel error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to cancel rollout' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { adminApiMiddleware } from '@/lib/admin-middleware'
+import { AdminAuditService } from '@/lib/services/admin'
+
+/**
+ * Admin Audit Log API
+ * Read-only view of the append-only record of admin actions
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200)
+    const offset = parseInt(searchParams.get('offset') || '0')
+
+    const { data, error, count } = await AdminAuditService.getRecent({
+      adminUserId: searchParams.get('admin_user_id') || undefined,
+      path: searchParams.get('path') || undefined,
+      limit,
+      offset,
+    })
+
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data,
+      pagination: { limit, offset, total: count },
+    })
+  } catch (error) {
+    console.error('Audit log fetch error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch audit log' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,12 +1,107 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { AdminUserService } from '@/lib/services/admin'
+import type { AdminUser } from '@/types'
+import {
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_TTL_MS,
+  BOOTSTRAP_ADMIN_EMAIL,
+  createAdminSession,
+  decodeAdminSessionToken,
+  getAdminTokenFromRequest,
+  revokeAdminSession,
+  verifyAdminSessionToken,
+} from '@/lib/admin-session'
+import {
+  adminLoginThrottle,
+  getPlatformClientIP,
+  type LoginThrottleStatus,
+} from '@/lib/admin-login-throttle'
+import {
+  ErrorCategory,
+  ErrorSeverity,
+  serverErrorLogger,
+} from '@/lib/server-error-logger'
+
+/**
+ * Build the 429 response for a throttled login attempt
+ */
+function tooManyAttempts(status: LoginThrottleStatus) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Too many failed login attempts. Please try again later.',
+      retryAfter: status.retryAfterSeconds,
+    },
+    {
+      status: 429,
+      headers: { 'Retry-After': status.retryAfterSeconds.toString() },
+    }
+  )
+}
+
+/**
+ * Record a failed login, report it to the auth-errors alert rule and
+ * build the response (401, or 429 once the attempt triggers a lockout)
+ */
+async function handleFailedLogin(
+  request: NextRequest,
+  clientIP: string,
+  email: string | undefined,
+  error: string
+) {
+  const status = await adminLoginThrottle.recordFailure(clientIP, email)
+
+  // Log failed authentication attempts for security monitoring
+  console.warn('Failed admin login attempt from:', clientIP)
+
+  await serverErrorLogger.logError(
+    status.allowed
+      ? 'Failed admin auth attempt'
+      : `Admin auth lockout (${status.scope}) after ${status.failures} failed attempts`,
+    {
+      category: ErrorCategory.AUTHENTICATION,
+      severity: status.allowed ? ErrorSeverity.MEDIUM : ErrorSeverity.HIGH,
+      endpoint: '/api/admin/auth',
+      method: 'POST',
+      statusCode: status.allowed ? 401 : 429,
+      ip: clientIP,
+      userAgent: request.headers.get('user-agent') || undefined,
+      metadata: {
+        failures: status.failures,
+        lockoutScope: status.scope,
+        retryAfterSeconds: status.retryAfterSeconds,
+      },
+    }
+  )
+
+  if (!status.allowed) {
+    return tooManyAttempts(status)
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error,
+    },
+    { status: 401 }
+  )
+}
 
 /**
  * Admin Authentication API
- * Handles admin login with password validation and JWT token generation
+ * Handles admin login for named accounts (or the ADMIN_PASSWORD bootstrap
+ * while no accounts exist) and issues signed session tokens
  */
 export async function POST(request: NextRequest) {
   try {
-    const { password } = await request.json()
+    const clientIP = getPlatformClientIP(request)
+    const { email, password } = await request.json()
+
+    // Reject attempts while this IP or this account is locked out
+    const throttle = await adminLoginThrottle.check(clientIP, email)
+    if (!throttle.allowed) {
+      return tooManyAttempts(throttle)
+    }
 
     if (!password) {
       return NextResponse.json(
@@ -18,60 +113,126 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check admin password (from environment variable)
-    const adminPassword = process.env.ADMIN_PASSWORD
-    if (!adminPassword) {
-      console.error('ADMIN_PASSWORD environment variable not set')
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Admin authentication not configured',
-        },
-        { status: 500 }
+    let adminUser: AdminUser | null = null
+
+    if (email) {
+      // Named admin account login
+      const { data, error } = await AdminUserService.authenticate(
+        email,
+        password
       )
+
+      if (error === 'Invalid email or password') {
+        return await handleFailedLogin(request, clientIP, email, error)
+      }
+
+      if (!data) {
+        console.error('Admin account lookup failed:', error)
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Authentication service unavailable',
+          },
+          { status: 500 }
+        )
+      }
+
+      adminUser = data
+    } else {
+      // The shared ADMIN_PASSWORD only bootstraps the first owner account
+      const { count, error: countError } = await AdminUserService.count()
+      if (countError) {
+        console.error('Failed to count admin accounts:', countError)
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Authentication service unavailable',
+          },
+          { status: 500 }
+        )
+      }
+
+      if (count > 0) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Email is required',
+          },
+          { status: 400 }
+        )
+      }
+
+      const adminPassword = process.env.ADMIN_PASSWORD
+      if (!adminPassword) {
+        console.error('ADMIN_PASSWORD environment variable not set')
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Admin authentication not configured',
+          },
+          { status: 500 }
+        )
+      }
+
+      if (password !== adminPassword) {
+        return await handleFailedLogin(
+          request,
+          clientIP,
+          undefined,
+          'Invalid password'
+        )
+      }
     }
 
-    if (password !== adminPassword) {
-      // Log failed authentication attempts for security monitoring
-      const clientIP =
-        request.headers.get('x-forwarded-for') ||
-        request.headers.get('x-real-ip') ||
-        'unknown IP'
-      console.warn('Failed admin login attempt from:', clientIP)
+    await adminLoginThrottle.recordSuccess(clientIP, email)
+
+    // Issue a signed session token backed by the admin_sessions store
+    const { data: session, error: sessionError } = await createAdminSession({
+      adminUserId: adminUser?.id || null,
+      ip: clientIP,
+      userAgent: request.headers.get('user-agent') || undefined,
+    })
 
+    if (!session) {
+      console.error('Failed to create admin session:', sessionError)
       return NextResponse.json(
         {
           success: false,
-          error: 'Invalid password',
+          error: 'Authentication service unavailable',
         },
-        { status: 401 }
+        { status: 500 }
       )
     }
 
-    // Generate a simple session token (in production, use proper JWT)
-    const token = Buffer.from(`admin:${Date.now()}:${Math.random()}`).toString(
-      'base64'
-    )
-
-    // Set secure HTTP-only cookie (additional security layer)
-    // Remove unused cookieStore declaration for now
     const response = NextResponse.json({
       success: true,
-      token,
+      token: session.token,
       message: 'Authentication successful',
       expiresIn: '24h',
+      expiresAt: new Date(session.claims.exp).toISOString(),
+      user: adminUser
+        ? { email: adminUser.email, name: adminUser.name, role: adminUser.role }
+        : {
+            email: BOOTSTRAP_ADMIN_EMAIL,
+            name: 'Bootstrap Admin',
+            role: 'owner',
+          },
     })
 
     // Set secure cookie with 24-hour expiry
-    response.cookies.set('admin_session', token, {
+    response.cookies.set(ADMIN_SESSION_COOKIE, session.token, {
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
       sameSite: 'strict',
-      maxAge: 24 * 60 * 60, // 24 hours
+      maxAge: ADMIN_SESSION_TTL_MS / 1000,
       path: '/admin',
     })
 
-    console.log('Successful admin login at:', new Date().toISOString())
+    console.log(
+      'Successful admin login at:',
+      new Date().toISOString(),
+      adminUser?.email || BOOTSTRAP_ADMIN_EMAIL
+    )
     return response
   } catch (error) {
     console.error('Admin authentication error:', error)
@@ -90,13 +251,9 @@ export async function POST(request: NextRequest) {
  */
 export async function GET(request: NextRequest) {
   try {
-    const authToken = request.headers
-      .get('authorization')
-      ?.replace('Bearer ', '')
-    const cookieToken = request.cookies.get('admin_session')?.value
+    const token = getAdminTokenFromRequest(request)
 
-    // Check either header token or cookie token
-    if (!authToken && !cookieToken) {
+    if (!token) {
       return NextResponse.json(
         {
           success: false,
@@ -106,57 +263,27 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // In production, validate JWT token here
-    // For now, we'll do basic validation
-    const token = authToken || cookieToken
+    const verification = await verifyAdminSessionToken(token)
 
-    if (!token) {
+    if (!verification.valid || !verification.claims || !verification.actor) {
       return NextResponse.json(
         {
           success: false,
-          error: 'Invalid authentication token',
+          error: verification.error || 'Invalid authentication token',
         },
         { status: 401 }
       )
     }
 
-    // Decode and validate token timestamp (24-hour expiry)
-    try {
-      const decoded = Buffer.from(token, 'base64').toString()
-      const [prefix, timestamp] = decoded.split(':')
-
-      if (prefix !== 'admin' || !timestamp) {
-        throw new Error('Invalid token format')
-      }
-
-      const tokenTime = parseInt(timestamp)
-      const now = Date.now()
-      const twentyFourHours = 24 * 60 * 60 * 1000
-
-      if (now - tokenTime > twentyFourHours) {
-        return NextResponse.json(
-          {
-            success: false,
-            error: 'Authentication token expired',
-          },
-          { status: 401 }
-        )
-      }
-
-      return NextResponse.json({
-        success: true,
-        valid: true,
-        expiresAt: new Date(tokenTime + twentyFourHours).toISOString(),
-      })
-    } catch {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Invalid authentication token format',
-        },
-        { status: 401 }
-      )
-    }
+    return NextResponse.json({
+      success: true,
+      valid: true,
+      expiresAt: new Date(verification.claims.exp).toISOString(),
+      user: {
+        email: verification.actor.email,
+        role: verification.actor.role,
+      },
+    })
   } catch (error) {
     console.error('Admin session validation error:', error)
     return NextResponse.json(
@@ -172,15 +299,33 @@ export async function GET(request: NextRequest) {
 /**
  * Admin logout
  */
-export async function DELETE(_request: NextRequest) {
+export async function DELETE(request: NextRequest) {
   try {
+    // Revoke the server-side session so the token stops working everywhere
+    const token = getAdminTokenFromRequest(request)
+    const decoded = token ? decodeAdminSessionToken(token) : null
+
+    if (decoded?.claims) {
+      const { error } = await revokeAdminSession(decoded.claims.sid)
+      if (error) {
+        console.error('Failed to revoke admin session:', error)
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Logout failed',
+          },
+          { status: 500 }
+        )
+      }
+    }
+
     const response = NextResponse.json({
       success: true,
       message: 'Logged out successfully',
     })
 
     // Clear the admin session cookie
-    response.cookies.set('admin_session', '', {
+    response.cookies.set(ADMIN_SESSION_COOKIE, '', {
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
       sameSite: 'strict',
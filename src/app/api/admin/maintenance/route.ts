@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { adminApiMiddleware } from '@/lib/admin-middleware'
+import { DatabaseMaintenanceService } from '@/lib/services/maintenance'
+
+const maintenanceSchema = z.object({
+  task: z.enum([
+    'expire_unverified_signups',
+    'cleanup_old_analytics',
+    'cleanup_old_email_events',
+  ]),
+})
+
+/**
+ * Admin Maintenance API
+ * Runs periodic database maintenance tasks on demand (or from a scheduler
+ * using ADMIN_API_KEY)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const body = await request.json()
+    const { task } = maintenanceSchema.parse(body)
+
+    let result: { deleted: number; error: string | null }
+    switch (task) {
+      case 'expire_unverified_signups':
+        result = await DatabaseMaintenanceService.expireUnverifiedSignups()
+        break
+      case 'cleanup_old_analytics':
+        result = await DatabaseMaintenanceService.cleanupOldAnalytics()
+        break
+      case 'cleanup_old_email_events':
+        result = await DatabaseMaintenanceService.cleanupOldEmailEvents()
+        break
+    }
+
+    if (result.error) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      task,
+      deleted: result.deleted,
+    })
+  } catch (error) {
+    console.error('Maintenance task error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid maintenance task',
+          details: error.issues,
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Maintenance task failed' },
+      { status: 500 }
+    )
+  }
+}
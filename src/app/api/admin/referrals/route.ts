@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { adminApiMiddleware } from '@/lib/admin-middleware'
+import { ReferralService } from '@/lib/services/referrals'
+
+/**
+ * Admin Referral Leaderboard API
+ * Top referrers ranked by confirmed signups through their invite links
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100)
+
+    const { data, error } = await ReferralService.getLeaderboard(limit)
+
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    console.error('Referral leaderboard fetch error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch referral leaderboard' },
+      { status: 500 }
+    )
+  }
+}
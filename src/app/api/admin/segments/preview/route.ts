@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { adminApiMiddleware } from '@/lib/admin-middleware'
+import { SegmentService } from '@/lib/services/segments'
+import { segmentRulesSchema } from '@/lib/segment-rules'
+
+const previewSchema = z
+  .object({
+    segmentId: z.string().uuid('Invalid segment ID').optional(),
+    rules: segmentRulesSchema.optional(),
+    sampleSize: z.number().int().min(0).max(50).default(10),
+  })
+  .refine(
+    (preview) => !!preview.segmentId !== !!preview.rules,
+    'Provide either segmentId or rules'
+  )
+
+/**
+ * Segment Preview API
+ * How many signups a saved segment, or rules that haven't been saved yet,
+ * would reach right now, with a sample of them. Previewing a saved segment
+ * also records its count.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const body = await request.json()
+    const { segmentId, rules, sampleSize } = previewSchema.parse(body)
+
+    const { data, error } = segmentId
+      ? await SegmentService.previewSegment(segmentId, sampleSize)
+      : await SegmentService.preview(rules!, sampleSize)
+
+    if (error) {
+      return NextResponse.json(
+        { success: false, error },
+        { status: error === 'Segment not found' ? 404 : 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid preview request',
+          details: error.issues,
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Segment preview error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to preview segment' },
+      { status: 500 }
+    )
+  }
+}
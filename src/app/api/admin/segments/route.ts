@@ -0,0 +1,207 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { adminApiMiddleware, getAdminActor } from '@/lib/admin-middleware'
+import { SegmentService } from '@/lib/services/segments'
+import { segmentRulesSchema } from '@/lib/segment-rules'
+
+const createSegmentSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().max(500).optional(),
+  rules: segmentRulesSchema,
+})
+
+const updateSegmentSchema = z
+  .object({
+    id: z.string().uuid('Invalid segment ID'),
+    name: z.string().trim().min(1).max(100).optional(),
+    description: z.string().max(500).optional(),
+    rules: segmentRulesSchema.optional(),
+  })
+  .refine(
+    (update) => update.name || update.description !== undefined || update.rules,
+    'Nothing to update'
+  )
+
+const segmentIdSchema = z.string().uuid('Invalid segment ID')
+
+function invalidRequest(error: z.ZodError) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Invalid segment data',
+      details: error.issues,
+    },
+    { status: 400 }
+  )
+}
+
+/**
+ * Saved Segments API
+ * Named audiences defined by a rule tree, which campaigns and A/B tests
+ * can target by ID. Use /api/admin/segments/preview to see who matches.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const id = new URL(request.url).searchParams.get('id')
+    if (id) {
+      const parsedId = segmentIdSchema.safeParse(id)
+      if (!parsedId.success) {
+        return invalidRequest(parsedId.error)
+      }
+
+      const { data, error } = await SegmentService.getById(parsedId.data)
+      if (error) {
+        return NextResponse.json(
+          { success: false, error },
+          { status: error === 'Segment not found' ? 404 : 500 }
+        )
+      }
+
+      return NextResponse.json({ success: true, data })
+    }
+
+    const { data, error } = await SegmentService.getAll()
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    console.error('Segment fetch error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch segments' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Save a new segment
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const body = await request.json()
+    const validatedData = createSegmentSchema.parse(body)
+    const actor = await getAdminActor(request)
+
+    const { data, error } = await SegmentService.create({
+      ...validatedData,
+      created_by: actor?.email,
+    })
+
+    if (error) {
+      return NextResponse.json(
+        { success: false, error },
+        { status: error.endsWith('already exists') ? 409 : 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, data }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return invalidRequest(error)
+    }
+
+    console.error('Segment creation error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to save segment' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Rename a segment or change its rules
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const body = await request.json()
+    const { id, ...updates } = updateSegmentSchema.parse(body)
+
+    const { data, error } = await SegmentService.update(id, updates)
+
+    if (error) {
+      return NextResponse.json(
+        { success: false, error },
+        {
+          status:
+            error === 'Segment not found'
+              ? 404
+              : error.endsWith('already exists')
+                ? 409
+                : 500,
+        }
+      )
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return invalidRequest(error)
+    }
+
+    console.error('Segment update error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update segment' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Delete a segment no scheduled campaign depends on
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const parsedId = segmentIdSchema.safeParse(
+      new URL(request.url).searchParams.get('id')
+    )
+    if (!parsedId.success) {
+      return invalidRequest(parsedId.error)
+    }
+
+    const { error } = await SegmentService.delete(parsedId.data)
+
+    if (error) {
+      return NextResponse.json(
+        { success: false, error },
+        {
+          status:
+            error === 'Segment not found'
+              ? 404
+              : error.startsWith('Segment is used by')
+                ? 409
+                : 500,
+        }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Segment deletion error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete segment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { adminApiMiddleware, getAdminActor } from '@/lib/admin-middleware'
+import { SuppressionService } from '@/lib/services/suppressions'
+
+const reasonSchema = z.enum([
+  'hard_bounce',
+  'soft_bounce',
+  'spam_complaint',
+  'manual',
+])
+
+const addSuppressionSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  details: z.string().max(500).optional(),
+})
+
+const liftSuppressionSchema = z.object({
+  id: z.string().uuid('Invalid suppression ID'),
+  reason: z.string().max(500).optional(),
+})
+
+/**
+ * Admin Suppression List API
+ * Addresses we never send to. Bounces and complaints are added by the
+ * SendGrid webhook; admins can add manual entries and lift any entry.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const { searchParams } = new URL(request.url)
+    const reason = searchParams.get('reason')
+    const parsedReason = reason ? reasonSchema.safeParse(reason) : null
+    if (parsedReason && !parsedReason.success) {
+      return NextResponse.json(
+        { success: false, error: `Unknown suppression reason: ${reason}` },
+        { status: 400 }
+      )
+    }
+
+    const { data, total, error } = await SuppressionService.getAll({
+      reason: parsedReason?.data,
+      search: searchParams.get('search') || undefined,
+      includeLifted: searchParams.get('include_lifted') === 'true',
+      limit: Math.min(parseInt(searchParams.get('limit') || '50'), 200),
+      offset: parseInt(searchParams.get('offset') || '0'),
+    })
+
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data, total })
+  } catch (error) {
+    console.error('Suppression list fetch error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch suppression list' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Manually suppress an address
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const body = await request.json()
+    const validatedData = addSuppressionSchema.parse(body)
+    const actor = await getAdminActor(request)
+
+    const { data, error } = await SuppressionService.suppress({
+      email: validatedData.email,
+      reason: 'manual',
+      details: validatedData.details,
+      created_by: actor?.email,
+    })
+
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues,
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Suppression creation error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to suppress address' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Lift a suppression so the address can be emailed again
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const body = await request.json()
+    const { id, reason } = liftSuppressionSchema.parse(body)
+    const actor = await getAdminActor(request)
+
+    const { data, error } = await SuppressionService.lift(id, {
+      lifted_by: actor?.email || 'unknown',
+      reason,
+    })
+
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues,
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Suppression lift error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to lift suppression' },
+      { status: 500 }
+    )
+  }
+}
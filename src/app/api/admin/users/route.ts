@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { adminApiMiddleware, getAdminActor } from '@/lib/admin-middleware'
+import { AdminUserService } from '@/lib/services/admin'
+
+const roleSchema = z.enum(['viewer', 'marketer', 'owner'])
+
+const createUserSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  name: z.string().min(1, 'Name is required'),
+  password: z.string().min(12, 'Password must be at least 12 characters'),
+  role: roleSchema.default('viewer'),
+})
+
+const updateUserSchema = z.object({
+  id: z.string().uuid('Invalid admin user ID'),
+  name: z.string().min(1).optional(),
+  role: roleSchema.optional(),
+  disabled: z.boolean().optional(),
+  password: z.string().min(12).optional(),
+})
+
+/**
+ * Admin Accounts API
+ * Owner-only management of named admin accounts and their roles
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const { data, error } = await AdminUserService.getAll()
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    console.error('Admin users fetch error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch admin users' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Create an admin account
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const body = await request.json()
+    const validatedData = createUserSchema.parse(body)
+
+    const { data, error } = await AdminUserService.create(validatedData)
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, data }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues,
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Admin user creation error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create admin user' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Update an admin account's role, name, status or password
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const body = await request.json()
+    const { id, ...updates } = updateUserSchema.parse(body)
+
+    // Owners cannot lock themselves out
+    const actor = await getAdminActor(request)
+    if (
+      actor?.adminUserId === id &&
+      (updates.disabled || (updates.role && updates.role !== 'owner'))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'You cannot disable or demote your own account',
+        },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await AdminUserService.update(id, updates)
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues,
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Admin user update error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update admin user' },
+      { status: 500 }
+    )
+  }
+}
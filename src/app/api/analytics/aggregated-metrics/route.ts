@@ -7,6 +7,11 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import {
+  AnalyticsRollupService,
+  getRollupEntries,
+  getRollupValue,
+} from '@/lib/services/analytics-rollups'
 
 interface AggregatedMetrics {
   date: string
@@ -143,214 +148,63 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * Generate aggregated metrics from page_analytics data
+ * Generate aggregated metrics from the page_analytics rollups
  */
 async function generateAggregatedMetrics(
   startDate: Date,
   endDate: Date
 ): Promise<AggregatedMetrics> {
-  if (!supabaseAdmin) {
-    throw new Error('Supabase admin client not available')
+  const { data: summary, error } = await AnalyticsRollupService.getSummary(
+    startDate,
+    endDate
+  )
+
+  if (error || !summary) {
+    console.error('Error reading analytics rollups:', error)
+    throw new Error(error || 'Failed to read analytics rollups')
   }
 
-  try {
-    // Get all analytics records for the period
-    const { data: records, error: fetchError } = await supabaseAdmin!
-      .from('page_analytics')
-      .select('*')
-      .gte('timestamp', startDate.toISOString())
-      .lte('timestamp', endDate.toISOString())
-      .order('timestamp', { ascending: true })
-
-    if (fetchError) {
-      console.error('Error fetching analytics records:', fetchError)
-      throw fetchError
-    }
-
-    if (!records || records.length === 0) {
-      return {
-        date: new Date().toISOString().split('T')[0],
-        unique_visitors: 0,
-        total_sessions: 0,
-        total_page_views: 0,
-        bounce_rate: 0,
-        avg_session_duration: 0,
-        top_pages: [],
-        referrer_breakdown: [],
-        utm_performance: [],
-        device_breakdown: [],
-        timezone_distribution: [],
-      }
-    }
-
-    // Calculate unique visitors (unique visitor_id values)
-    const uniqueVisitors = new Set(
-      records.map((r: any) => r.visitor_id).filter(Boolean)
-    )
-
-    // Calculate sessions using visitor + date combination as proxy
-    const sessionKeys = new Set(
-      records
-        .filter((r: any) => r.visitor_id)
-        .map(
-          (r: any) => `${r.visitor_id}-${new Date(r.timestamp).toDateString()}`
-        )
-    )
-    const uniqueSessions = sessionKeys.size
-
-    // All records in page_analytics are page views
-    const pageViews = records
-
-    // Calculate top pages
-    const pageMap = new Map<string, number>()
-    pageViews.forEach((record: any) => {
-      const count = pageMap.get(record.page_path) || 0
-      pageMap.set(record.page_path, count + 1)
-    })
-
-    const topPages = Array.from(pageMap.entries())
-      .sort((a, b) => b[1] - a[1])
+  const { totals } = summary
+  const sessions = getRollupValue(totals, 'sessions')
+  const utmConversions = totals.utm_conversions || {}
+
+  return {
+    date: new Date().toISOString().split('T')[0],
+    unique_visitors: summary.unique_visitors,
+    total_sessions: sessions,
+    total_page_views: getRollupEntries(totals, 'events').reduce(
+      (sum, [, count]) => sum + count,
+      0
+    ),
+    bounce_rate:
+      sessions > 0
+        ? Math.round(
+            (getRollupValue(totals, 'bounced_sessions') / sessions) * 10000
+          ) / 100
+        : 0,
+    avg_session_duration:
+      sessions > 0
+        ? Math.round(getRollupValue(totals, 'session_duration_ms') / sessions)
+        : 0,
+    top_pages: getRollupEntries(totals, 'events_by_path')
       .slice(0, 10)
-      .map(([page, views]) => ({ page, views }))
-
-    // Calculate referrer breakdown
-    const referrerMap = new Map<string, number>()
-    records.forEach((record: any) => {
-      if (record.referrer) {
-        try {
-          const domain = new URL(record.referrer).hostname || 'direct'
-          const count = referrerMap.get(domain) || 0
-          referrerMap.set(domain, count + 1)
-        } catch {
-          const count = referrerMap.get('direct') || 0
-          referrerMap.set('direct', count + 1)
-        }
-      } else {
-        const count = referrerMap.get('direct') || 0
-        referrerMap.set('direct', count + 1)
-      }
-    })
-
-    const referrerBreakdown = Array.from(referrerMap.entries())
-      .sort((a, b) => b[1] - a[1])
-      .map(([referrer, count]) => ({ referrer, count }))
-
-    // Calculate UTM performance
-    const utmMap = new Map<
-      string,
-      { visitors: Set<string>; conversions: number }
-    >()
-    records.forEach((record: any) => {
-      const metadata = record.metadata as any
-      if (metadata?.utmParams?.utm_campaign) {
-        const campaign = metadata.utmParams.utm_campaign
-        if (!utmMap.has(campaign)) {
-          utmMap.set(campaign, { visitors: new Set(), conversions: 0 })
-        }
-        if (record.visitor_id) {
-          utmMap.get(campaign)?.visitors.add(record.visitor_id)
-        }
-        if (
-          record.event_type === 'conversion' ||
-          record.event_type === 'beta_signup'
-        ) {
-          const utm = utmMap.get(campaign)
-          if (utm) utm.conversions++
-        }
-      }
-    })
-
-    const utmPerformance = Array.from(utmMap.entries()).map(
-      ([campaign, data]) => ({
+      .map(([page, views]) => ({ page, views })),
+    referrer_breakdown: getRollupEntries(totals, 'referrers').map(
+      ([referrer, count]) => ({ referrer, count })
+    ),
+    utm_performance: getRollupEntries(totals, 'utm_visitors').map(
+      ([campaign, visitors]) => ({
         campaign,
-        visitors: data.visitors.size,
-        conversions: data.conversions,
+        visitors,
+        conversions: utmConversions[campaign] || 0,
       })
-    )
-
-    // Calculate device breakdown (screen resolution)
-    const deviceMap = new Map<string, number>()
-    records.forEach((record: any) => {
-      const metadata = record.metadata as any
-      const resolution = metadata?.screenResolution || 'unknown'
-      const count = deviceMap.get(resolution) || 0
-      deviceMap.set(resolution, count + 1)
-    })
-
-    const deviceBreakdown = Array.from(deviceMap.entries())
-      .sort((a, b) => b[1] - a[1])
+    ),
+    device_breakdown: getRollupEntries(totals, 'screen_resolutions')
       .slice(0, 10)
-      .map(([resolution, count]) => ({ resolution, count }))
-
-    // Calculate timezone distribution
-    const timezoneMap = new Map<string, number>()
-    records.forEach((record: any) => {
-      const metadata = record.metadata as any
-      const timezone = metadata?.timezone
-        ? `GMT${metadata.timezone > 0 ? '+' : ''}${metadata.timezone}`
-        : 'unknown'
-      const count = timezoneMap.get(timezone) || 0
-      timezoneMap.set(timezone, count + 1)
-    })
-
-    const timezoneDistribution = Array.from(timezoneMap.entries())
-      .sort((a, b) => b[1] - a[1])
-      .map(([timezone, count]) => ({ timezone, count }))
-
-    // Calculate session durations and bounce rate
-    const sessionMap = new Map<
-      string,
-      { start: Date; end: Date; pageViews: number }
-    >()
-    records.forEach((record: any) => {
-      if (record.session_id) {
-        const timestamp = new Date(record.timestamp)
-        if (!sessionMap.has(record.session_id)) {
-          sessionMap.set(record.session_id, {
-            start: timestamp,
-            end: timestamp,
-            pageViews: 0,
-          })
-        }
-        const session = sessionMap.get(record.session_id)!
-        if (timestamp < session.start) session.start = timestamp
-        if (timestamp > session.end) session.end = timestamp
-        if (
-          record.event_type === 'page_view' ||
-          record.event_type === 'visitor_session'
-        ) {
-          session.pageViews++
-        }
-      }
-    })
-
-    const sessions = Array.from(sessionMap.values())
-    const bouncedSessions = sessions.filter((s) => s.pageViews <= 1)
-    const bounceRate =
-      sessions.length > 0 ? (bouncedSessions.length / sessions.length) * 100 : 0
-
-    const totalSessionTime = sessions.reduce((sum, session) => {
-      return sum + (session.end.getTime() - session.start.getTime())
-    }, 0)
-    const avgSessionDuration =
-      sessions.length > 0 ? totalSessionTime / sessions.length : 0
-
-    return {
-      date: new Date().toISOString().split('T')[0],
-      unique_visitors: uniqueVisitors.size,
-      total_sessions: uniqueSessions,
-      total_page_views: pageViews.length,
-      bounce_rate: Math.round(bounceRate * 100) / 100,
-      avg_session_duration: Math.round(avgSessionDuration),
-      top_pages: topPages,
-      referrer_breakdown: referrerBreakdown,
-      utm_performance: utmPerformance,
-      device_breakdown: deviceBreakdown,
-      timezone_distribution: timezoneDistribution,
-    }
-  } catch (error) {
-    console.error('Error generating aggregated metrics:', error)
-    throw error
+      .map(([resolution, count]) => ({ resolution, count })),
+    timezone_distribution: getRollupEntries(totals, 'timezones').map(
+      ([timezone, count]) => ({ timezone, count })
+    ),
   }
 }
 
@@ -3,17 +3,17 @@
  * Phase 6: Privacy-Compliant Analytics System
  *
  * Handles anonymous visitor identification and session-based tracking
- * without cookies or personal data collection
+ * without cookies or personal data collection. The visitor ID is derived
+ * on the server from a daily salt and never sent back to the browser.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
 import crypto from 'crypto'
+import { AnonymousAnalyticsService } from '@/lib/services/anonymous-analytics'
+import { getPlatformClientIP } from '@/lib/admin-login-throttle'
 
 interface VisitorData {
-  userAgent?: string
-  timezone?: number
-  screenResolution?: string
   language?: string
   referrer?: string
   utmParams?: Record<string, string>
@@ -34,39 +34,34 @@ export async function POST(request: NextRequest) {
       eventType?: string
     } = body
 
-    // Generate anonymous visitor fingerprint
-    const visitorFingerprint = generateVisitorFingerprint(visitorData)
+    const userAgent = request.headers.get('user-agent') || ''
+    const visitorId = await AnonymousAnalyticsService.generateVisitorId(
+      getPlatformClientIP(request),
+      userAgent
+    )
+    const finalSessionId = sessionId || generateSessionId()
 
     // Get or create visitor record using page_analytics table
-    const { visitor, isNewVisitor } = await getOrCreateVisitor(
-      visitorFingerprint,
+    const { isNewVisitor } = await getOrCreateVisitor(
+      visitorId,
+      finalSessionId,
+      userAgent,
       visitorData
     )
 
     // Track the visitor identification event
-    await trackVisitorEvent(
-      visitor.id,
-      sessionId || undefined,
-      eventType,
-      pagePath,
-      {
-        isNewVisitor,
-        fingerprint: visitorFingerprint,
-        timezone: visitorData.timezone,
-        screenResolution: visitorData.screenResolution,
-        language: visitorData.language,
-        referrer: visitorData.referrer,
-        utmParams: visitorData.utmParams,
-      }
-    )
+    await trackVisitorEvent(visitorId, finalSessionId, eventType, pagePath, {
+      isNewVisitor,
+      language: visitorData.language,
+      referrer: visitorData.referrer,
+      utmParams: visitorData.utmParams,
+    })
 
     return NextResponse.json({
       success: true,
       data: {
-        visitorId: visitor.id,
-        sessionId: sessionId || generateSessionId(),
+        sessionId: finalSessionId,
         isNewVisitor,
-        fingerprint: visitorFingerprint,
       },
     })
   } catch (error) {
@@ -128,40 +123,25 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * Generate anonymous visitor fingerprint from browser characteristics
+ * Get or create anonymous visitor using page_analytics table. Visitor IDs
+ * only last a day, so a visitor is new on their first visit of the day.
  */
-function generateVisitorFingerprint(data: VisitorData): string {
-  const components = [
-    hashString(data.userAgent || 'unknown', 8),
-    (data.timezone || 0).toString(),
-    data.screenResolution || 'unknown',
-    data.language?.split(',')[0] || 'unknown',
-  ]
-
-  const fingerprint = components.join('|')
-  return hashString(fingerprint, 12)
-}
-
-/**
- * Get or create anonymous visitor using page_analytics table
- */
-async function getOrCreateVisitor(fingerprint: string, data: VisitorData) {
+async function getOrCreateVisitor(
+  visitorId: string,
+  sessionId: string,
+  userAgent: string,
+  data: VisitorData
+) {
   if (!supabaseAdmin) {
     throw new Error('Supabase admin client not available')
   }
 
   try {
-    // Check if visitor exists by looking for recent records with same fingerprint
     const { data: existingRecords } = await supabaseAdmin
       .from('page_analytics')
-      .select('*')
+      .select('id')
       .eq('event_type', 'visitor_session')
-      .eq('visitor_id', fingerprint)
-      .gte(
-        'timestamp',
-        new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()
-      ) // Last 30 days
-      .order('timestamp', { ascending: false })
+      .eq('visitor_id', visitorId)
       .limit(1)
 
     const isNewVisitor = !existingRecords || existingRecords.length === 0
@@ -170,19 +150,16 @@ async function getOrCreateVisitor(fingerprint: string, data: VisitorData) {
     const visitorRecord = {
       id: crypto.randomUUID(),
       page_path: '/',
-      visitor_id: fingerprint,
-      session_id: generateSessionId(),
+      visitor_id: visitorId,
+      session_id: sessionId,
       event_type: 'visitor_session',
       timestamp: new Date().toISOString(),
       referrer: data.referrer || null,
-      user_agent_hash: data.userAgent ? hashString(data.userAgent, 10) : null,
+      user_agent_hash: userAgent ? hashString(userAgent, 10) : null,
       metadata: {
-        timezone: data.timezone,
-        screenResolution: data.screenResolution,
         language: data.language,
         utmParams: data.utmParams,
         isNewVisitor,
-        fingerprint,
       },
     }
 
@@ -212,7 +189,7 @@ async function getOrCreateVisitor(fingerprint: string, data: VisitorData) {
  */
 async function trackVisitorEvent(
   visitorId: string,
-  sessionId: string | undefined,
+  sessionId: string,
   eventType: string,
   pagePath: string,
   properties: Record<string, any>
@@ -225,7 +202,7 @@ async function trackVisitorEvent(
     const eventRecord = {
       page_path: pagePath,
       visitor_id: visitorId,
-      session_id: sessionId || generateSessionId(),
+      session_id: sessionId,
       event_type: eventType,
       timestamp: new Date().toISOString(),
       referrer: properties.referrer || null,
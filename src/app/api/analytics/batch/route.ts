@@ -0,0 +1,295 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import crypto from 'crypto'
+import { supabaseAdmin } from '@/lib/supabase'
+import { AnonymousAnalyticsService } from '@/lib/services/anonymous-analytics'
+import { ConversionService } from '@/lib/services/conversions'
+import {
+  calculateInteractionScore,
+  getInteractionQuality,
+} from '@/lib/engagement-scoring'
+import { getPlatformClientIP } from '@/lib/admin-login-throttle'
+
+// Client clocks drift, and batches can sit in the queue while retrying.
+// Timestamps are pulled into this window so late events still land in an
+// hour the rollup job hasn't closed yet.
+const MAX_EVENT_AGE = 5 * 60 * 1000
+
+// Set by the client queue when an event is queued, so a resent batch is
+// recognized. Optional for clients from before event IDs.
+const clientEventId = z.string().uuid().optional()
+
+const eventSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('event'),
+    id: clientEventId,
+    eventType: z.string().min(1).max(100),
+    properties: z.record(z.string(), z.any()).default({}),
+    timestamp: z.number(),
+  }),
+  z.object({
+    kind: z.literal('engagement'),
+    id: clientEventId,
+    eventType: z.string().min(1).max(100),
+    pagePath: z.string().max(2048).default('/'),
+    scrollDepth: z.number().optional(),
+    timeOnPage: z.number().optional(),
+    clickTarget: z.string().max(500).optional(),
+    formField: z.string().max(200).optional(),
+    ctaPosition: z.string().max(100).optional(),
+    mouseMovements: z.number().optional(),
+    keystrokes: z.number().optional(),
+    metadata: z.record(z.string(), z.any()).default({}),
+    timestamp: z.number(),
+  }),
+  z.object({
+    kind: z.literal('conversion'),
+    id: clientEventId,
+    conversionType: z.string().min(1),
+    conversionValue: z.number().nonnegative().optional(),
+    metadata: z.record(z.string(), z.any()).default({}),
+    timestamp: z.number(),
+  }),
+])
+
+const batchSchema = z.object({
+  sessionId: z.string().min(1, 'sessionId is required'),
+  events: z.array(eventSchema).min(1).max(50),
+})
+
+/**
+ * Batched event ingestion for the client event queue (see
+ * src/lib/analytics-queue.ts). Each kind of event is written with a single
+ * insert: general events to page_analytics, engagement to
+ * engagement_events and conversions to goal_conversions. Inserts skip
+ * event IDs that are already stored, so when one insert fails and the
+ * client resends the whole batch, the events that did land aren't stored
+ * twice. Also receives navigator.sendBeacon payloads, so the body is read
+ * as text rather than relying on the content type.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = JSON.parse(await request.text())
+    const { sessionId, events } = batchSchema.parse(body)
+
+    const now = Date.now()
+    const userAgent = request.headers.get('user-agent') || ''
+    const userAgentHash = hashUserAgent(userAgent)
+    const visitorId = await AnonymousAnalyticsService.generateVisitorId(
+      getPlatformClientIP(request),
+      userAgent
+    )
+    const referrer = request.headers.get('referer')
+
+    const pageEvents = events.filter((event) => event.kind === 'event')
+    const engagementEvents = events.filter(
+      (event) => event.kind === 'engagement'
+    )
+    const conversions = events.filter((event) => event.kind === 'conversion')
+
+    // Unknown goals are dropped rather than failing the rest of the batch
+    const knownConversions = conversions.filter((event) =>
+      ConversionService.resolveGoal(event.conversionType)
+    )
+    const skipped = conversions.length - knownConversions.length
+
+    // Page views stored by this request, for attribution below; a resent
+    // page view was already counted the first time
+    const storedPageViews: typeof pageEvents = []
+
+    if (pageEvents.length > 0) {
+      const { data: stored, error } = await supabaseAdmin
+        .from('page_analytics')
+        .upsert(
+          pageEvents.map((event) => {
+            const timestamp = clampTimestamp(event.timestamp, now)
+            const { properties } = event
+
+            return {
+              page_path: properties.page || properties.path || '/',
+              visitor_id: visitorId,
+              session_id: sessionId,
+              event_type: event.eventType,
+              referrer: properties.referrer || referrer,
+              user_agent_hash: userAgentHash,
+              timestamp,
+              metadata: {
+                ...properties,
+                timestamp,
+                viewport: properties.viewport || null,
+                scroll_depth: properties.scrollDepth || null,
+                time_on_page: properties.timeOnPage || null,
+                click_target: properties.clickTarget || null,
+                form_field: properties.formField || null,
+                cta_position: properties.ctaPosition || null,
+                ab_test_variant: properties.abTestVariant || null,
+              },
+              client_event_id: event.id,
+            }
+          }),
+          { onConflict: 'client_event_id', ignoreDuplicates: true }
+        )
+        .select('client_event_id')
+
+      if (error) {
+        console.error('Batch page_analytics insert error:', error)
+        return NextResponse.json(
+          { success: false, error: 'Failed to log analytics events' },
+          { status: 500 }
+        )
+      }
+
+      const storedIds = new Set(
+        (stored || []).map(
+          (row: { client_event_id: string | null }) => row.client_event_id
+        )
+      )
+      storedPageViews.push(
+        ...pageEvents.filter(
+          (event) =>
+            event.eventType === 'page_view' &&
+            (!event.id || storedIds.has(event.id))
+        )
+      )
+    }
+
+    if (engagementEvents.length > 0) {
+      const { error } = await supabaseAdmin.from('engagement_events').upsert(
+        engagementEvents.map((event) => {
+          const engagementScore = calculateInteractionScore(
+            event.eventType,
+            event
+          )
+
+          return {
+            visitor_id: visitorId,
+            session_id: sessionId,
+            page_path: event.pagePath,
+            event_type: event.eventType,
+            scroll_depth: toInteger(event.scrollDepth),
+            time_on_page_ms: toInteger(event.timeOnPage),
+            click_target: event.clickTarget,
+            form_field: event.formField,
+            cta_position: event.ctaPosition,
+            mouse_movements: toInteger(event.mouseMovements),
+            keystrokes: toInteger(event.keystrokes),
+            engagement_score: engagementScore,
+            interaction_quality: getInteractionQuality(engagementScore),
+            user_agent_hash: userAgentHash,
+            metadata: event.metadata,
+            occurred_at: clampTimestamp(event.timestamp, now),
+            client_event_id: event.id,
+          }
+        }),
+        { onConflict: 'client_event_id', ignoreDuplicates: true }
+      )
+
+      if (error) {
+        console.error('Batch engagement_events insert error:', error)
+        return NextResponse.json(
+          { success: false, error: 'Failed to log engagement events' },
+          { status: 500 }
+        )
+      }
+    }
+
+    if (knownConversions.length > 0) {
+      const { error } = await ConversionService.recordConversions(
+        knownConversions.map((event) => ({
+          goal: event.conversionType,
+          visitor_id: visitorId,
+          session_id: sessionId,
+          page_path: event.metadata.page,
+          value: event.conversionValue,
+          metadata: event.metadata,
+          converted_at: clampTimestamp(event.timestamp, now),
+          client_event_id: event.id,
+        }))
+      )
+
+      if (error) {
+        console.error('Batch conversion tracking error:', error)
+        return NextResponse.json(
+          { success: false, error: 'Conversion tracking failed' },
+          { status: 500 }
+        )
+      }
+    }
+
+    // Keep first- and last-touch attribution for conversion reporting
+    for (const event of storedPageViews) {
+      try {
+        await AnonymousAnalyticsService.recordTouch(visitorId, {
+          pagePath: event.properties.path || event.properties.page || '/',
+          referrer: event.properties.referrer || undefined,
+          utmData: extractUTMParams(event.properties.search),
+        })
+      } catch (touchError) {
+        console.error('Attribution tracking error:', touchError)
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      accepted: events.length - skipped,
+      skipped,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid analytics batch',
+          details: error.issues,
+        },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON' },
+        { status: 400 }
+      )
+    }
+
+    console.error('Analytics batch error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Analytics batch failed' },
+      { status: 500 }
+    )
+  }
+}
+
+// Helper functions
+
+function clampTimestamp(timestamp: number, now: number): string {
+  return new Date(
+    Math.min(Math.max(timestamp, now - MAX_EVENT_AGE), now)
+  ).toISOString()
+}
+
+function hashUserAgent(userAgent: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(userAgent)
+    .digest('hex')
+    .substring(0, 16)
+}
+
+function toInteger(value: unknown): number | null {
+  return typeof value === 'number' && isFinite(value) ? Math.round(value) : null
+}
+
+function extractUTMParams(search?: string): Record<string, string> {
+  const utmParams: Record<string, string> = {}
+  if (!search) return utmParams
+
+  for (const [key, value] of new URLSearchParams(search).entries()) {
+    if (key.startsWith('utm_')) {
+      utmParams[key] = value
+    }
+  }
+
+  return utmParams
+}
@@ -1,20 +1,137 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { adminApiMiddleware } from '@/lib/admin-middleware'
+import { ConversionService } from '@/lib/services/conversions'
+import { AnonymousAnalyticsService } from '@/lib/services/anonymous-analytics'
+import { getPlatformClientIP } from '@/lib/admin-login-throttle'
 
-// Temporary stub for conversions API - to be implemented later
-export async function POST(_request: NextRequest) {
-  return NextResponse.json({
-    success: true,
-    message: 'Conversion tracking - coming soon',
-  })
+const conversionSchema = z.object({
+  conversionType: z.string().min(1, 'conversionType is required'),
+  sessionId: z.string().optional(),
+  conversionValue: z.number().nonnegative().optional(),
+  metadata: z.record(z.string(), z.any()).optional(),
+})
+
+/**
+ * Record a goal conversion. conversionType is a PLAUSIBLE_GOALS key or
+ * goal name; attribution comes from the visitor's tracked page views,
+ * matched by today's visitor ID.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const validatedData = conversionSchema.parse(body)
+
+    const goal = ConversionService.resolveGoal(validatedData.conversionType)
+    if (!goal) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown conversion goal: ${validatedData.conversionType}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const visitorId = await AnonymousAnalyticsService.generateVisitorId(
+      getPlatformClientIP(request),
+      request.headers.get('user-agent') || ''
+    )
+
+    const { data, error } = await ConversionService.recordConversion({
+      goal,
+      visitor_id: visitorId,
+      session_id: validatedData.sessionId,
+      page_path: validatedData.metadata?.page,
+      value: validatedData.conversionValue,
+      metadata: validatedData.metadata,
+    })
+
+    if (error || !data) {
+      console.error('Conversion tracking error:', error)
+      return NextResponse.json(
+        { success: false, error: 'Conversion tracking failed' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      conversionId: data.id,
+      goal,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid conversion data',
+          details: error.issues,
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Conversion tracking error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Conversion tracking failed' },
+      { status: 500 }
+    )
+  }
 }
 
-export async function GET(_request: NextRequest) {
-  return NextResponse.json({
-    success: true,
-    data: {
-      totalConversions: 0,
-      conversionRate: 0,
-      message: 'Conversion analytics - coming soon',
-    },
-  })
+/**
+ * Conversion rates per goal, per source (first and last touch) and per
+ * landing page. Takes either start/end dates or a number of days.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const { searchParams } = new URL(request.url)
+    const days = parseInt(searchParams.get('days') || '30')
+    const end = searchParams.get('end')
+      ? new Date(searchParams.get('end')!)
+      : new Date()
+    const start = searchParams.get('start')
+      ? new Date(searchParams.get('start')!)
+      : new Date(end.getTime() - days * 24 * 60 * 60 * 1000)
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid date range' },
+        { status: 400 }
+      )
+    }
+
+    const goalParam = searchParams.get('goal')
+    const goal = goalParam ? ConversionService.resolveGoal(goalParam) : null
+    if (goalParam && !goal) {
+      return NextResponse.json(
+        { success: false, error: `Unknown conversion goal: ${goalParam}` },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await ConversionService.getReport({
+      start,
+      end,
+      goal: goal || undefined,
+    })
+
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    console.error('Conversion analytics error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch conversion analytics' },
+      { status: 500 }
+    )
+  }
 }
@@ -1,10 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
 import { adminApiMiddleware } from '@/lib/admin-middleware'
+import {
+  AnalyticsRollupService,
+  ENGAGEMENT_EVENT_TYPES,
+  getRollupEntries,
+  getRollupValue,
+  type AnalyticsRollupSummary,
+  type RollupTotals,
+} from '@/lib/services/analytics-rollups'
 
 /**
  * Admin dashboard analytics endpoint
- * Aggregates data from all analytics sources for comprehensive dashboard view
+ * Aggregates data from all analytics sources for comprehensive dashboard view.
+ * Traffic, signup and email figures come from the analytics rollups; only
+ * the time since the last rolled-up hour is read from raw rows.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -16,7 +26,11 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url)
     const timeframe = searchParams.get('timeframe') || '7d'
-    const granularity = searchParams.get('granularity') || 'day' // day, hour, week
+    const requestedGranularity = searchParams.get('granularity') || 'day' // day, hour, week
+    const granularity =
+      requestedGranularity === 'hour' || requestedGranularity === 'week'
+        ? requestedGranularity
+        : 'day'
 
     // Convert timeframe to days
     const timeframeToDays = {
@@ -27,71 +41,99 @@ export async function GET(request: NextRequest) {
     }
 
     const days = timeframeToDays[timeframe as keyof typeof timeframeToDays] || 7
-    const startDate = new Date(
-      Date.now() - days * 24 * 60 * 60 * 1000
-    ).toISOString()
-    // const endDate = new Date().toISOString() // TODO: Use this when implementing date range filtering
+    const endDate = new Date()
+    const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000)
 
     // Fetch all analytics data in parallel
     const [
-      pageAnalytics,
-      betaSignups,
-      emailEvents,
+      summaryResult,
+      lastDayResult,
+      visitorSeriesResult,
+      signupSeriesResult,
       feedbackData,
-      conversionEvents,
-      engagementEvents,
+      recentSignups,
     ] = await Promise.all([
-      fetchPageAnalytics(startDate),
-      fetchBetaSignups(startDate),
-      fetchEmailEvents(startDate),
-      fetchFeedbackData(startDate),
-      fetchConversionEvents(startDate),
-      fetchEngagementEvents(startDate),
+      AnalyticsRollupService.getSummary(startDate, endDate),
+      AnalyticsRollupService.getSummary(
+        new Date(endDate.getTime() - 24 * 60 * 60 * 1000),
+        endDate,
+        { metrics: ['page_views_by_path'] }
+      ),
+      AnalyticsRollupService.getSeries(
+        'visitors',
+        startDate,
+        endDate,
+        granularity
+      ),
+      AnalyticsRollupService.getSeries(
+        'signups',
+        startDate,
+        endDate,
+        granularity
+      ),
+      fetchFeedbackData(startDate.toISOString()),
+      fetchRecentSignups(startDate.toISOString()),
     ])
 
+    const summary = summaryResult.data
+    const lastDay = lastDayResult.data
+    const visitorSeries = visitorSeriesResult.data
+    const signupSeries = signupSeriesResult.data
+    if (!summary || !lastDay || !visitorSeries || !signupSeries) {
+      throw new Error(
+        summaryResult.error ||
+          lastDayResult.error ||
+          visitorSeriesResult.error ||
+          signupSeriesResult.error ||
+          'Failed to read analytics rollups'
+      )
+    }
+
+    const { totals } = summary
+    const totalSignups = getRollupValue(totals, 'signups')
+    const formSubmits = getRollupValue(totals, 'conversions', 'FORM_SUBMIT')
+    const ctaClicks = getRollupValue(totals, 'conversions', 'CTA_CLICK')
+
     // Calculate comprehensive dashboard metrics
     const dashboardData = {
       overview: {
-        totalVisitors: getUniqueVisitors(pageAnalytics),
-        totalPageViews: pageAnalytics.length,
-        totalSignups: betaSignups.length,
+        totalVisitors: summary.unique_visitors,
+        totalPageViews: getTotalEvents(totals),
+        totalSignups,
         conversionRate: calculateConversionRate(
-          betaSignups.length,
-          getUniqueVisitors(pageAnalytics)
+          totalSignups,
+          summary.unique_visitors
         ),
-        averageEngagement: calculateAverageEngagement(engagementEvents),
-        bounceRate: calculateBounceRate(pageAnalytics),
-        returnVisitorRate: calculateReturnVisitorRate(pageAnalytics),
+        averageEngagement: calculateAverageEngagement(totals),
+        bounceRate: calculateBounceRate(totals),
+        returnVisitorRate: calculateReturnVisitorRate(summary),
       },
       traffic: {
-        visitorsOverTime: getVisitorsOverTime(pageAnalytics, granularity),
-        topPages: getTopPages(pageAnalytics),
-        trafficSources: getTrafficSources(pageAnalytics),
-        deviceTypes: getDeviceTypes(pageAnalytics),
-        geographicData: getGeographicData(pageAnalytics),
+        visitorsOverTime: formatSeries(visitorSeries, granularity),
+        topPages: getTopPages(totals),
+        trafficSources: getTrafficSources(totals),
+        deviceTypes: getDeviceTypes(totals),
+        geographicData: getGeographicData(totals),
       },
       conversions: {
-        signupsOverTime: getSignupsOverTime(betaSignups, granularity),
-        conversionFunnel: getConversionFunnel(pageAnalytics, conversionEvents),
-        signupSources: getSignupSources(betaSignups),
-        teamSizeDistribution: getTeamSizeDistribution(betaSignups),
-        conversionsByPage: getConversionsByPage(conversionEvents),
+        signupsOverTime: formatSeries(signupSeries, granularity),
+        conversionFunnel: getConversionFunnel(totals),
+        signupSources: getSignupSources(totals),
+        teamSizeDistribution: getTeamSizeDistribution(totals),
+        conversionsByPage: getConversionsByPage(totals),
       },
       engagement: {
-        engagementScore: calculateEngagementMetrics(engagementEvents),
-        contentPerformance: getContentPerformance(
-          pageAnalytics,
-          engagementEvents
-        ),
-        userFlow: getUserFlow(pageAnalytics),
-        timeMetrics: getTimeMetrics(engagementEvents),
-        interactionHeatmap: getInteractionHeatmap(engagementEvents),
+        engagementScore: calculateEngagementMetrics(totals),
+        contentPerformance: getContentPerformance(totals),
+        userFlow: getUserFlow(totals),
+        timeMetrics: getTimeMetrics(totals),
+        interactionHeatmap: getInteractionHeatmap(totals),
       },
       email: {
-        campaignPerformance: getEmailCampaignPerformance(emailEvents),
-        engagementRates: getEmailEngagementRates(emailEvents),
-        optInRates: getOptInRates(betaSignups),
-        unsubscribeRates: getUnsubscribeRates(emailEvents),
+        campaignPerformance: getEmailCampaignPerformance(totals),
+        engagementRates: getEmailEngagementRates(totals),
+        optInRates: getOptInRates(totals),
+        unsubscribeRates: getUnsubscribeRates(totals),
       },
       feedback: {
         feedbackSummary: getFeedbackSummary(feedbackData),
@@ -102,36 +144,35 @@ export async function GET(request: NextRequest) {
       realTime: {
         activeVisitors: await getActiveVisitors(),
         liveConversions: await getLiveConversions(),
-        currentTopPages: getCurrentTopPages(pageAnalytics),
-        recentSignups: getRecentSignups(betaSignups),
+        currentTopPages: getCurrentTopPages(lastDay.totals),
+        recentSignups: getRecentSignups(recentSignups),
       },
     }
 
     // Create simplified response format for dashboard component
     const simplifiedDashboardData = {
-      pageViews: pageAnalytics.length,
-      uniqueVisitors: getUniqueVisitors(pageAnalytics),
-      betaSignups: betaSignups.length,
+      pageViews: getTotalEvents(totals),
+      uniqueVisitors: summary.unique_visitors,
+      betaSignups: totalSignups,
       conversionRate: calculateConversionRate(
-        betaSignups.length,
-        getUniqueVisitors(pageAnalytics)
+        totalSignups,
+        summary.unique_visitors
       ),
-      topPages: getTopPages(pageAnalytics)
+      topPages: getTopPages(totals)
         .map((page) => ({
           page: page.page,
           views: page.views,
         }))
         .slice(0, 5),
-      topSources: Object.entries(getTrafficSources(pageAnalytics))
-        .sort((a, b) => b[1] - a[1])
+      topSources: getRollupEntries(totals, 'sources')
         .slice(0, 5)
         .map(([source, visits]) => ({ source, visits })),
       goals: [
-        { name: 'Beta Signup', conversions: betaSignups.length },
-        { name: 'Form Submit', conversions: conversionEvents.length },
-        { name: 'CTA Click', conversions: 0 }, // TODO: Implement CTA tracking
+        { name: 'Beta Signup', conversions: totalSignups },
+        { name: 'Form Submit', conversions: formSubmits },
+        { name: 'CTA Click', conversions: ctaClicks },
       ],
-      realTimeVisitors: await getActiveVisitors(),
+      realTimeVisitors: dashboardData.realTime.activeVisitors,
     }
 
     // Return both formats - detailed for comprehensive dashboard, simplified for component
@@ -141,6 +182,7 @@ export async function GET(request: NextRequest) {
       detailed: dashboardData,
       timeframe,
       generatedAt: new Date().toISOString(),
+      rawSince: summary.raw_since,
     })
   } catch (error) {
     console.error('Dashboard analytics error:', error)
@@ -152,39 +194,6 @@ export async function GET(request: NextRequest) {
 }
 
 // Data fetching functions
-async function fetchPageAnalytics(startDate: string) {
-  const { data, error } = await supabaseAdmin
-    .from('page_analytics')
-    .select('*')
-    .gte('timestamp', startDate)
-    .order('timestamp', { ascending: false })
-
-  if (error) throw error
-  return data || []
-}
-
-async function fetchBetaSignups(startDate: string) {
-  const { data, error } = await supabaseAdmin
-    .from('beta_signups')
-    .select('*')
-    .gte('created_at', startDate)
-    .order('created_at', { ascending: false })
-
-  if (error) throw error
-  return data || []
-}
-
-async function fetchEmailEvents(startDate: string) {
-  const { data, error } = await supabaseAdmin
-    .from('email_events')
-    .select('*')
-    .gte('timestamp', startDate)
-    .order('timestamp', { ascending: false })
-
-  if (error) throw error
-  return data || []
-}
-
 async function fetchFeedbackData(startDate: string) {
   const { data, error } = await supabaseAdmin
     .from('feedback_submissions')
@@ -196,234 +205,137 @@ async function fetchFeedbackData(startDate: string) {
   return data || []
 }
 
-async function fetchConversionEvents(startDate: string) {
+async function fetchRecentSignups(startDate: string) {
   const { data, error } = await supabaseAdmin
-    .from('page_analytics')
-    .select('*')
-    .eq('event_type', 'conversion')
-    .gte('timestamp', startDate)
-
-  if (error) throw error
-  return data || []
-}
-
-async function fetchEngagementEvents(startDate: string) {
-  const { data, error } = await supabaseAdmin
-    .from('page_analytics')
-    .select('*')
-    .in('event_type', [
-      'scroll_depth',
-      'time_on_page',
-      'cta_click',
-      'form_interaction',
-      'engagement_score',
-    ])
-    .gte('timestamp', startDate)
+    .from('beta_signups')
+    .select('id, email, signup_source, created_at')
+    .gte('created_at', startDate)
+    .order('created_at', { ascending: false })
+    .limit(5)
 
   if (error) throw error
   return data || []
 }
 
 // Calculation functions
-function getUniqueVisitors(pageAnalytics: any[]): number {
-  return new Set(pageAnalytics.map((p) => p.visitor_id)).size
+function getTotalEvents(totals: RollupTotals): number {
+  return getRollupEntries(totals, 'events').reduce(
+    (sum, [, count]) => sum + count,
+    0
+  )
 }
 
 function calculateConversionRate(signups: number, visitors: number): number {
   return visitors > 0 ? Math.round((signups / visitors) * 10000) / 100 : 0
 }
 
-function calculateAverageEngagement(engagementEvents: any[]): number {
-  const scoreEvents = engagementEvents.filter(
-    (e) => e.metadata?.engagement_score
-  )
-  if (scoreEvents.length === 0) return 0
-
-  const totalScore = scoreEvents.reduce(
-    (sum, e) => sum + (e.metadata.engagement_score || 0),
+function getTotalEngagementScore(totals: RollupTotals): number {
+  return getRollupEntries(totals, 'engagement_score_total').reduce(
+    (sum, [, score]) => sum + score,
     0
   )
-  return Math.round((totalScore / scoreEvents.length) * 100) / 100
 }
 
-function calculateBounceRate(pageAnalytics: any[]): number {
-  const sessionViews: Record<string, number> = {}
+function calculateAverageEngagement(totals: RollupTotals): number {
+  const scoreEvents = getRollupValue(totals, 'engagement_score_events')
+  if (scoreEvents === 0) return 0
 
-  pageAnalytics
-    .filter((p) => p.event_type === 'page_view')
-    .forEach((p) => {
-      sessionViews[p.session_id] = (sessionViews[p.session_id] || 0) + 1
-    })
+  return Math.round((getTotalEngagementScore(totals) / scoreEvents) * 100) / 100
+}
 
-  const totalSessions = Object.keys(sessionViews).length
-  const bounceSessions = Object.values(sessionViews).filter(
-    (count) => count === 1
-  ).length
+function calculateBounceRate(totals: RollupTotals): number {
+  const totalSessions = getRollupValue(totals, 'sessions')
+  const bounceSessions = getRollupValue(totals, 'bounced_sessions')
 
   return totalSessions > 0
     ? Math.round((bounceSessions / totalSessions) * 100)
     : 0
 }
 
-function calculateReturnVisitorRate(pageAnalytics: any[]): number {
-  const visitorSessions: Record<string, Set<string>> = {}
-
-  pageAnalytics
-    .filter((p) => p.event_type === 'page_view')
-    .forEach((p) => {
-      if (!visitorSessions[p.visitor_id]) {
-        visitorSessions[p.visitor_id] = new Set()
-      }
-      visitorSessions[p.visitor_id].add(p.session_id)
-    })
-
-  const totalVisitors = Object.keys(visitorSessions).length
-  const returnVisitors = Object.values(visitorSessions).filter(
-    (sessions) => sessions.size > 1
-  ).length
-
-  return totalVisitors > 0
-    ? Math.round((returnVisitors / totalVisitors) * 100)
+function calculateReturnVisitorRate(summary: AnalyticsRollupSummary): number {
+  return summary.unique_visitors > 0
+    ? Math.round((summary.returning_visitors / summary.unique_visitors) * 100)
     : 0
 }
 
-function getVisitorsOverTime(
-  pageAnalytics: any[],
+function formatSeries(
+  series: Map<string, number>,
   granularity: string
 ): Record<string, number> {
-  const timeData: Record<string, Set<string>> = {}
-
-  pageAnalytics
-    .filter((p) => p.event_type === 'page_view')
-    .forEach((p) => {
-      const date = formatDateByGranularity(p.timestamp, granularity)
-      if (!timeData[date]) {
-        timeData[date] = new Set()
-      }
-      timeData[date].add(p.visitor_id)
-    })
-
   const result: Record<string, number> = {}
-  Object.entries(timeData).forEach(([date, visitors]) => {
-    result[date] = visitors.size
+
+  series.forEach((value, bucketStart) => {
+    // Hourly keys keep the time; daily and weekly keys are dates
+    const key = granularity === 'hour' ? bucketStart : bucketStart.split('T')[0]
+    result[key] = value
   })
 
   return result
 }
 
 function getTopPages(
-  pageAnalytics: any[]
+  totals: RollupTotals
 ): Array<{ page: string; views: number; uniqueVisitors: number }> {
-  const pageData: Record<string, { views: number; visitors: Set<string> }> = {}
-
-  pageAnalytics
-    .filter((p) => p.event_type === 'page_view')
-    .forEach((p) => {
-      if (!pageData[p.page_path]) {
-        pageData[p.page_path] = { views: 0, visitors: new Set() }
-      }
-      pageData[p.page_path].views++
-      pageData[p.page_path].visitors.add(p.visitor_id)
-    })
-
-  return Object.entries(pageData)
-    .map(([page, data]) => ({
+  return getRollupEntries(totals, 'page_views_by_path')
+    .slice(0, 10)
+    .map(([page, views]) => ({
       page,
-      views: data.views,
-      uniqueVisitors: data.visitors.size,
+      views,
+      uniqueVisitors: getRollupValue(
+        totals,
+        'visitors_by_event',
+        `page_view:${page}`
+      ),
     }))
-    .sort((a, b) => b.views - a.views)
-    .slice(0, 10)
 }
 
-function getTrafficSources(pageAnalytics: any[]): Record<string, number> {
-  const sources: Record<string, number> = {}
-
-  pageAnalytics
-    .filter((p) => p.event_type === 'page_view')
-    .forEach((p) => {
-      let source = 'Direct'
-      if (p.referrer) {
-        try {
-          const referrerDomain = new URL(p.referrer).hostname
-          if (referrerDomain.includes('google')) source = 'Google'
-          else if (referrerDomain.includes('github')) source = 'GitHub'
-          else if (referrerDomain.includes('twitter')) source = 'Twitter'
-          else if (referrerDomain.includes('linkedin')) source = 'LinkedIn'
-          else source = referrerDomain
-        } catch {
-          source = 'Other'
-        }
-      }
-      sources[source] = (sources[source] || 0) + 1
-    })
-
-  return sources
+function getTrafficSources(totals: RollupTotals): Record<string, number> {
+  return { ...totals.sources }
 }
 
-function getDeviceTypes(pageAnalytics: any[]): Record<string, number> {
+function getDeviceTypes(totals: RollupTotals): Record<string, number> {
   // This would require user agent parsing - simplified for now
+  const events = getTotalEvents(totals)
   return {
-    desktop: Math.floor(pageAnalytics.length * 0.6),
-    mobile: Math.floor(pageAnalytics.length * 0.3),
-    tablet: Math.floor(pageAnalytics.length * 0.1),
+    desktop: Math.floor(events * 0.6),
+    mobile: Math.floor(events * 0.3),
+    tablet: Math.floor(events * 0.1),
   }
 }
 
-function getGeographicData(pageAnalytics: any[]): Record<string, number> {
+function getGeographicData(totals: RollupTotals): Record<string, number> {
   // This would require IP geolocation - placeholder data
+  const events = getTotalEvents(totals)
   return {
-    'United States': Math.floor(pageAnalytics.length * 0.4),
-    'United Kingdom': Math.floor(pageAnalytics.length * 0.2),
-    Germany: Math.floor(pageAnalytics.length * 0.15),
-    Canada: Math.floor(pageAnalytics.length * 0.1),
-    Other: Math.floor(pageAnalytics.length * 0.15),
+    'United States': Math.floor(events * 0.4),
+    'United Kingdom': Math.floor(events * 0.2),
+    Germany: Math.floor(events * 0.15),
+    Canada: Math.floor(events * 0.1),
+    Other: Math.floor(events * 0.15),
   }
 }
 
-function getSignupsOverTime(
-  betaSignups: any[],
-  granularity: string
-): Record<string, number> {
-  const signupData: Record<string, number> = {}
-
-  betaSignups.forEach((s) => {
-    const date = formatDateByGranularity(s.created_at, granularity)
-    signupData[date] = (signupData[date] || 0) + 1
-  })
-
-  return signupData
-}
-
 function getConversionFunnel(
-  pageAnalytics: any[],
-  conversionEvents: any[]
+  totals: RollupTotals
 ): Array<{ step: string; users: number; dropOff: number }> {
   const steps = [
     { step: 'Landing Page', event: 'page_view', path: '/' },
     { step: 'Features Page', event: 'page_view', path: '/features' },
     { step: 'Beta Page', event: 'page_view', path: '/beta' },
     { step: 'Form Start', event: 'form_interaction', path: '/beta' },
-    { step: 'Conversion', event: 'conversion', path: null },
+    { step: 'Conversion', event: null, path: null },
   ]
 
   let previousUserCount = 0
   const funnelData = steps.map((step, index) => {
-    let users = 0
-
-    if (step.event === 'conversion') {
-      users = conversionEvents.length
-    } else {
-      users = new Set(
-        pageAnalytics
-          .filter(
-            (p) =>
-              p.event_type === step.event &&
-              (!step.path || p.page_path === step.path)
-          )
-          .map((p) => p.visitor_id)
-      ).size
-    }
+    // The last step counts visitors who completed any goal
+    const users = step.event
+      ? getRollupValue(
+          totals,
+          'visitors_by_event',
+          `${step.event}:${step.path}`
+        )
+      : getRollupValue(totals, 'converters')
 
     const dropOff = index > 0 ? Math.max(0, previousUserCount - users) : 0
     previousUserCount = users
@@ -434,89 +346,51 @@ function getConversionFunnel(
   return funnelData
 }
 
-function getSignupSources(betaSignups: any[]): Record<string, number> {
-  const sources: Record<string, number> = {}
-
-  betaSignups.forEach((s) => {
-    const source = s.signup_source || 'direct'
-    sources[source] = (sources[source] || 0) + 1
-  })
-
-  return sources
+function getSignupSources(totals: RollupTotals): Record<string, number> {
+  return { ...totals.signups_by_source }
 }
 
-function getTeamSizeDistribution(betaSignups: any[]): Record<string, number> {
-  const distribution: Record<string, number> = {}
-
-  betaSignups.forEach((s) => {
-    const size = s.team_size || 'unknown'
-    distribution[size] = (distribution[size] || 0) + 1
-  })
-
-  return distribution
+function getTeamSizeDistribution(totals: RollupTotals): Record<string, number> {
+  return { ...totals.signups_by_team_size }
 }
 
-function getConversionsByPage(conversionEvents: any[]): Record<string, number> {
-  const conversions: Record<string, number> = {}
-
-  conversionEvents.forEach((c) => {
-    const page = c.page_path || 'unknown'
-    conversions[page] = (conversions[page] || 0) + 1
-  })
-
-  return conversions
+function getConversionsByPage(totals: RollupTotals): Record<string, number> {
+  return { ...totals.conversions_by_path }
 }
 
-function calculateEngagementMetrics(engagementEvents: any[]) {
-  const totalScore = engagementEvents
-    .filter((e) => e.metadata?.engagement_score)
-    .reduce((sum, e) => sum + (e.metadata.engagement_score || 0), 0)
+function calculateEngagementMetrics(totals: RollupTotals) {
+  const totalScore = getTotalEngagementScore(totals)
+  const engagementEvents = ENGAGEMENT_EVENT_TYPES.reduce(
+    (sum, eventType) => sum + getRollupValue(totals, 'events', eventType),
+    0
+  )
 
   return {
     totalScore,
     averageScore:
-      engagementEvents.length > 0
-        ? Math.round((totalScore / engagementEvents.length) * 100) / 100
+      engagementEvents > 0
+        ? Math.round((totalScore / engagementEvents) * 100) / 100
         : 0,
-    highEngagementSessions: engagementEvents.filter(
-      (e) => (e.metadata?.engagement_score || 0) >= 20
-    ).length,
+    highEngagementSessions: getRollupValue(totals, 'high_engagement_events'),
   }
 }
 
-function getContentPerformance(pageAnalytics: any[], engagementEvents: any[]) {
+function getContentPerformance(totals: RollupTotals) {
   // Combine page views with engagement data
-  const pagePerformance: Record<string, { views: number; engagement: number }> =
-    {}
-
-  pageAnalytics
-    .filter((p) => p.event_type === 'page_view')
-    .forEach((p) => {
-      if (!pagePerformance[p.page_path]) {
-        pagePerformance[p.page_path] = { views: 0, engagement: 0 }
-      }
-      pagePerformance[p.page_path].views++
-    })
+  return getRollupEntries(totals, 'page_views_by_path').map(([page, views]) => {
+    const engagement = getRollupValue(totals, 'engagement_score_total', page)
 
-  engagementEvents.forEach((e) => {
-    if (pagePerformance[e.page_path]) {
-      pagePerformance[e.page_path].engagement +=
-        e.metadata?.engagement_score || 0
+    return {
+      page,
+      views,
+      totalEngagement: engagement,
+      avgEngagement:
+        views > 0 ? Math.round((engagement / views) * 100) / 100 : 0,
     }
   })
-
-  return Object.entries(pagePerformance).map(([page, data]) => ({
-    page,
-    views: data.views,
-    totalEngagement: data.engagement,
-    avgEngagement:
-      data.views > 0
-        ? Math.round((data.engagement / data.views) * 100) / 100
-        : 0,
-  }))
 }
 
-function getUserFlow(pageAnalytics: any[]) {
+function getUserFlow(totals: RollupTotals) {
   // Simplified user flow analysis
   // This would require session-based path analysis
   // Placeholder implementation
@@ -526,81 +400,62 @@ function getUserFlow(pageAnalytics: any[]) {
       { path: '/ → /features → /beta', count: 32 },
       { path: '/ → /about → /contact', count: 18 },
     ],
-    exitPages: getExitPages(pageAnalytics),
+    // This would require session analysis - page views stand in for exits
+    exitPages: { ...totals.page_views_by_path },
   }
 }
 
-function getExitPages(pageAnalytics: any[]): Record<string, number> {
-  // This would require session analysis - simplified implementation
-  const exitCounts: Record<string, number> = {}
+function getTimeMetrics(totals: RollupTotals) {
+  const timeEvents = getRollupValue(totals, 'time_on_page_events')
 
-  pageAnalytics
-    .filter((p) => p.event_type === 'page_view')
-    .forEach((p) => {
-      exitCounts[p.page_path] = (exitCounts[p.page_path] || 0) + 1
-    })
-
-  return exitCounts
-}
-
-function getTimeMetrics(engagementEvents: any[]) {
-  const timeEvents = engagementEvents.filter((e) => e.metadata?.time_on_page)
-
-  if (timeEvents.length === 0) {
+  if (timeEvents === 0) {
     return { averageTimeOnPage: 0, totalTime: 0 }
   }
 
-  const totalTime = timeEvents.reduce(
-    (sum, e) => sum + (e.metadata.time_on_page || 0),
-    0
-  )
+  const totalTime = getRollupValue(totals, 'time_on_page_ms')
 
   return {
-    averageTimeOnPage: Math.round(totalTime / timeEvents.length / 1000), // Convert to seconds
+    averageTimeOnPage: Math.round(totalTime / timeEvents / 1000), // Convert to seconds
     totalTime: Math.round(totalTime / 1000),
   }
 }
 
-function getInteractionHeatmap(engagementEvents: any[]) {
-  const interactions: Record<string, number> = {}
-
-  engagementEvents.forEach((e) => {
-    if (e.metadata?.click_target) {
-      const target = e.metadata.click_target
-      interactions[target] = (interactions[target] || 0) + 1
-    }
-  })
-
-  return Object.entries(interactions)
-    .map(([target, count]) => ({ target, count }))
-    .sort((a, b) => b.count - a.count)
+function getInteractionHeatmap(totals: RollupTotals) {
+  return getRollupEntries(totals, 'clicks_by_target')
     .slice(0, 20)
+    .map(([target, count]) => ({ target, count }))
 }
 
-function getEmailCampaignPerformance(emailEvents: any[]) {
+function getEmailCampaignPerformance(totals: RollupTotals) {
   const campaigns: Record<
     string,
     { sent: number; opened: number; clicked: number }
   > = {}
 
-  emailEvents.forEach((e) => {
-    const campaign = e.campaign_id || 'default'
-    if (!campaigns[campaign]) {
-      campaigns[campaign] = { sent: 0, opened: 0, clicked: 0 }
-    }
+  // Dimensions are `${event_type}:${campaign_id}`
+  getRollupEntries(totals, 'email_events_by_campaign').forEach(
+    ([key, count]) => {
+      const separator = key.indexOf(':')
+      const eventType = key.slice(0, separator)
+      const campaign = key.slice(separator + 1)
+
+      if (!campaigns[campaign]) {
+        campaigns[campaign] = { sent: 0, opened: 0, clicked: 0 }
+      }
 
-    switch (e.event_type) {
-      case 'sent':
-        campaigns[campaign].sent++
-        break
-      case 'opened':
-        campaigns[campaign].opened++
-        break
-      case 'clicked':
-        campaigns[campaign].clicked++
-        break
+      switch (eventType) {
+        case 'sent':
+          campaigns[campaign].sent += count
+          break
+        case 'opened':
+          campaigns[campaign].opened += count
+          break
+        case 'clicked':
+          campaigns[campaign].clicked += count
+          break
+      }
     }
-  })
+  )
 
   return Object.entries(campaigns).map(([campaign, stats]) => ({
     campaign,
@@ -614,10 +469,10 @@ function getEmailCampaignPerformance(emailEvents: any[]) {
   }))
 }
 
-function getEmailEngagementRates(emailEvents: any[]) {
-  const sent = emailEvents.filter((e) => e.event_type === 'sent').length
-  const opened = emailEvents.filter((e) => e.event_type === 'opened').length
-  const clicked = emailEvents.filter((e) => e.event_type === 'clicked').length
+function getEmailEngagementRates(totals: RollupTotals) {
+  const sent = getRollupValue(totals, 'email_events', 'sent')
+  const opened = getRollupValue(totals, 'email_events', 'opened')
+  const clicked = getRollupValue(totals, 'email_events', 'clicked')
 
   return {
     openRate: sent > 0 ? Math.round((opened / sent) * 100) : 0,
@@ -626,10 +481,10 @@ function getEmailEngagementRates(emailEvents: any[]) {
   }
 }
 
-function getOptInRates(betaSignups: any[]) {
-  const total = betaSignups.length
-  const marketingOptIn = betaSignups.filter((s) => s.opted_in_marketing).length
-  const researchOptIn = betaSignups.filter((s) => s.opted_in_research).length
+function getOptInRates(totals: RollupTotals) {
+  const total = getRollupValue(totals, 'signups')
+  const marketingOptIn = getRollupValue(totals, 'signups_opted_in', 'marketing')
+  const researchOptIn = getRollupValue(totals, 'signups_opted_in', 'research')
 
   return {
     marketing: total > 0 ? Math.round((marketingOptIn / total) * 100) : 0,
@@ -637,11 +492,9 @@ function getOptInRates(betaSignups: any[]) {
   }
 }
 
-function getUnsubscribeRates(emailEvents: any[]) {
-  const sent = emailEvents.filter((e) => e.event_type === 'sent').length
-  const unsubscribed = emailEvents.filter(
-    (e) => e.event_type === 'unsubscribed'
-  ).length
+function getUnsubscribeRates(totals: RollupTotals) {
+  const sent = getRollupValue(totals, 'email_events', 'sent')
+  const unsubscribed = getRollupValue(totals, 'email_events', 'unsubscribed')
 
   return {
     rate: sent > 0 ? Math.round((unsubscribed / sent) * 10000) / 100 : 0, // 2 decimal places
@@ -724,33 +577,21 @@ async function getLiveConversions(): Promise<number> {
   // Get conversions from the last hour
   const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString()
 
-  const { data } = await supabaseAdmin
-    .from('page_analytics')
-    .select('id')
-    .eq('event_type', 'conversion')
-    .gte('timestamp', oneHourAgo)
+  const { count } = await supabaseAdmin
+    .from('goal_conversions')
+    .select('id', { count: 'exact', head: true })
+    .gte('converted_at', oneHourAgo)
 
-  return data?.length || 0
+  return count || 0
 }
 
 function getCurrentTopPages(
-  pageAnalytics: any[]
+  lastDayTotals: RollupTotals
 ): Array<{ page: string; views: number }> {
-  // Get top pages from the last 24 hours
-  const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000)
-  const recentViews = pageAnalytics.filter(
-    (p) => p.event_type === 'page_view' && new Date(p.timestamp) > oneDayAgo
-  )
-
-  const pageCounts: Record<string, number> = {}
-  recentViews.forEach((p) => {
-    pageCounts[p.page_path] = (pageCounts[p.page_path] || 0) + 1
-  })
-
-  return Object.entries(pageCounts)
-    .map(([page, views]) => ({ page, views }))
-    .sort((a, b) => b.views - a.views)
+  // Top pages from the last 24 hours
+  return getRollupEntries(lastDayTotals, 'page_views_by_path')
     .slice(0, 5)
+    .map(([page, views]) => ({ page, views }))
 }
 
 function getRecentSignups(
@@ -763,22 +604,3 @@ function getRecentSignups(
     timestamp: s.created_at,
   }))
 }
-
-function formatDateByGranularity(
-  timestamp: string,
-  granularity: string
-): string {
-  const date = new Date(timestamp)
-
-  switch (granularity) {
-    case 'hour':
-      return date.toISOString().substring(0, 13) + ':00:00.000Z'
-    case 'week':
-      const weekStart = new Date(date)
-      weekStart.setDate(date.getDate() - date.getDay())
-      return weekStart.toISOString().split('T')[0]
-    case 'day':
-    default:
-      return date.toISOString().split('T')[0]
-  }
-}
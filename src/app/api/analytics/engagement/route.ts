@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
 import crypto from 'crypto'
+import type { EngagementEvent } from '@/types'
+import { AnonymousAnalyticsService } from '@/lib/services/anonymous-analytics'
+import {
+  calculateInteractionScore,
+  getInteractionQuality,
+} from '@/lib/engagement-scoring'
+import { getPlatformClientIP } from '@/lib/admin-login-throttle'
 
 /**
  * User engagement tracking endpoint
@@ -10,7 +17,6 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const {
-      visitorId,
       sessionId,
       eventType,
       pagePath,
@@ -24,13 +30,19 @@ export async function POST(request: NextRequest) {
       metadata = {},
     } = body
 
-    if (!visitorId || !eventType) {
+    if (!eventType) {
       return NextResponse.json(
-        { success: false, error: 'visitorId and eventType are required' },
+        { success: false, error: 'eventType is required' },
         { status: 400 }
       )
     }
 
+    const userAgent = request.headers.get('user-agent') || ''
+    const visitorId = await AnonymousAnalyticsService.generateVisitorId(
+      getPlatformClientIP(request),
+      userAgent
+    )
+
     // Calculate engagement score for this interaction
     const engagementScore = calculateInteractionScore(eventType, {
       scrollDepth,
@@ -41,42 +53,34 @@ export async function POST(request: NextRequest) {
       keystrokes,
     })
 
-    // Enhanced engagement metadata
-    const engagementMetadata = {
-      ...metadata,
-      scroll_depth: scrollDepth,
-      time_on_page: timeOnPage,
+    // Log engagement event. A visitor's cumulative engagement is the sum
+    // of their engagement_score values.
+    const { error } = await supabaseAdmin.from('engagement_events').insert({
+      visitor_id: visitorId,
+      session_id: sessionId,
+      page_path: pagePath || '/',
+      event_type: eventType,
+      scroll_depth: toInteger(scrollDepth),
+      time_on_page_ms: toInteger(timeOnPage),
       click_target: clickTarget,
       form_field: formField,
       cta_position: ctaPosition,
-      mouse_movements: mouseMovements,
-      keystroke_count: keystrokes,
+      mouse_movements: toInteger(mouseMovements),
+      keystrokes: toInteger(keystrokes),
       engagement_score: engagementScore,
       interaction_quality: getInteractionQuality(engagementScore),
-      timestamp: new Date().toISOString(),
-    }
-
-    // Log engagement event
-    const { error } = await supabaseAdmin.from('page_analytics').insert({
-      page_path: pagePath || '/',
-      visitor_id: visitorId,
-      session_id: sessionId,
-      event_type: eventType,
       user_agent_hash: crypto
         .createHash('sha256')
-        .update(request.headers.get('user-agent') || '')
+        .update(userAgent)
         .digest('hex')
         .substring(0, 16),
-      metadata: engagementMetadata,
+      metadata,
     })
 
     if (error) {
       throw error
     }
 
-    // Update cumulative engagement score
-    await updateCumulativeEngagement(visitorId, sessionId, engagementScore)
-
     return NextResponse.json({
       success: true,
       engagementScore,
@@ -111,20 +115,9 @@ export async function GET(request: NextRequest) {
 
     // Get engagement events
     let query = supabaseAdmin
-      .from('page_analytics')
-      .select(
-        'visitor_id, session_id, event_type, page_path, timestamp, metadata'
-      )
-      .in('event_type', [
-        'scroll_depth',
-        'time_on_page',
-        'cta_click',
-        'form_interaction',
-        'mouse_movement',
-        'keystroke',
-        'engagement_score',
-      ])
-      .gte('timestamp', startDate)
+      .from('engagement_events')
+      .select('*')
+      .gte('occurred_at', startDate)
 
     if (page) {
       query = query.eq('page_path', page)
@@ -162,107 +155,24 @@ export async function GET(request: NextRequest) {
 }
 
 // Helper functions
-function calculateInteractionScore(eventType: string, data: any): number {
-  let score = 0
-
-  switch (eventType) {
-    case 'scroll_depth':
-      score = Math.min(Math.floor((data.scrollDepth || 0) / 10), 10) // Max 10 points
-      break
-    case 'time_on_page':
-      score = Math.min(Math.floor((data.timeOnPage || 0) / 15000), 20) // 1 point per 15s, max 20
-      break
-    case 'cta_click':
-      score = 15
-      if (data.ctaPosition === 'hero') score += 5
-      if (data.ctaPosition === 'footer') score += 2
-      break
-    case 'form_interaction':
-      score = 8
-      if (data.formField === 'email') score += 4
-      if (data.formField === 'submit') score += 8
-      break
-    case 'mouse_movement':
-      score = Math.min(Math.floor((data.mouseMovements || 0) / 100), 5) // Max 5 points
-      break
-    case 'keystroke':
-      score = Math.min(Math.floor((data.keystrokes || 0) / 10), 8) // Max 8 points
-      break
-    default:
-      score = 1
-  }
-
-  return Math.max(0, score)
-}
-
-function getInteractionQuality(score: number): string {
-  if (score >= 25) return 'high'
-  if (score >= 10) return 'medium'
-  if (score >= 5) return 'low'
-  return 'minimal'
-}
-
-async function updateCumulativeEngagement(
-  visitorId: string,
-  sessionId: string | null,
-  score: number
-) {
-  try {
-    // Get existing cumulative score
-    const { data: existingScore } = await supabaseAdmin
-      .from('page_analytics')
-      .select('metadata')
-      .eq('visitor_id', visitorId)
-      .eq('event_type', 'cumulative_engagement')
-      .order('timestamp', { ascending: false })
-      .limit(1)
-
-    const currentScore = existingScore?.[0]?.metadata?.total_score || 0
-    const newScore = currentScore + score
-
-    // Update cumulative engagement
-    await supabaseAdmin.from('page_analytics').insert({
-      page_path: '/engagement/cumulative',
-      visitor_id: visitorId,
-      session_id: sessionId,
-      event_type: 'cumulative_engagement',
-      metadata: {
-        total_score: newScore,
-        score_increment: score,
-        engagement_level: getEngagementLevel(newScore),
-        timestamp: new Date().toISOString(),
-      },
-    })
-  } catch (error) {
-    console.error('Cumulative engagement update error:', error)
-  }
+function toInteger(value: unknown): number | null {
+  return typeof value === 'number' && isFinite(value) ? Math.round(value) : null
 }
 
-function getEngagementLevel(score: number): string {
-  if (score >= 100) return 'very_high'
-  if (score >= 50) return 'high'
-  if (score >= 25) return 'medium'
-  if (score >= 10) return 'low'
-  return 'minimal'
-}
-
-function getUniqueEngagedVisitors(events: any[]): number {
+function getUniqueEngagedVisitors(events: EngagementEvent[]): number {
   return new Set(events.map((e) => e.visitor_id)).size
 }
 
-function getAverageEngagementScore(events: any[]): number {
-  const scoreEvents = events.filter((e) => e.metadata?.engagement_score)
+function getAverageEngagementScore(events: EngagementEvent[]): number {
+  const scoreEvents = events.filter((e) => e.engagement_score)
   if (scoreEvents.length === 0) return 0
 
-  const totalScore = scoreEvents.reduce(
-    (sum, e) => sum + (e.metadata.engagement_score || 0),
-    0
-  )
+  const totalScore = scoreEvents.reduce((sum, e) => sum + e.engagement_score, 0)
   return Math.round((totalScore / scoreEvents.length) * 100) / 100
 }
 
 function getEngagementByPage(
-  events: any[]
+  events: EngagementEvent[]
 ): Record<string, { events: number; avgScore: number }> {
   const pageStats: Record<
     string,
@@ -275,8 +185,8 @@ function getEngagementByPage(
       pageStats[page] = { total: 0, count: 0, scores: [] }
     }
     pageStats[page].count++
-    if (e.metadata?.engagement_score) {
-      pageStats[page].scores.push(e.metadata.engagement_score)
+    if (e.engagement_score) {
+      pageStats[page].scores.push(e.engagement_score)
     }
   })
 
@@ -297,11 +207,13 @@ function getEngagementByPage(
   return result
 }
 
-function getEngagementDistribution(events: any[]): Record<string, number> {
+function getEngagementDistribution(
+  events: EngagementEvent[]
+): Record<string, number> {
   const distribution = { minimal: 0, low: 0, medium: 0, high: 0 }
 
   events.forEach((e) => {
-    const quality = e.metadata?.interaction_quality
+    const quality = e.interaction_quality
     if (quality && quality in distribution) {
       distribution[quality as keyof typeof distribution]++
     }
@@ -311,7 +223,7 @@ function getEngagementDistribution(events: any[]): Record<string, number> {
 }
 
 function getTopEngagementEvents(
-  events: any[]
+  events: EngagementEvent[]
 ): Array<{ eventType: string; count: number; avgScore: number }> {
   const eventStats: Record<string, { count: number; scores: number[] }> = {}
 
@@ -320,8 +232,8 @@ function getTopEngagementEvents(
       eventStats[e.event_type] = { count: 0, scores: [] }
     }
     eventStats[e.event_type].count++
-    if (e.metadata?.engagement_score) {
-      eventStats[e.event_type].scores.push(e.metadata.engagement_score)
+    if (e.engagement_score) {
+      eventStats[e.event_type].scores.push(e.engagement_score)
     }
   })
 
@@ -340,13 +252,12 @@ function getTopEngagementEvents(
     .sort((a, b) => b.avgScore - a.avgScore)
 }
 
-function getEngagementTrend(events: any[]): Record<string, number> {
+function getEngagementTrend(events: EngagementEvent[]): Record<string, number> {
   const trendData: Record<string, number> = {}
 
   events.forEach((e) => {
-    const date = new Date(e.timestamp).toISOString().split('T')[0]
-    const score = e.metadata?.engagement_score || 0
-    trendData[date] = (trendData[date] || 0) + score
+    const date = new Date(e.occurred_at).toISOString().split('T')[0]
+    trendData[date] = (trendData[date] || 0) + e.engagement_score
   })
 
   return trendData
@@ -381,32 +292,32 @@ async function calculateBounceRate(startDate: string): Promise<number> {
   }
 }
 
-function getAverageTimeOnSite(events: any[]): number {
-  const timeEvents = events.filter((e) => e.metadata?.time_on_page)
+function getAverageTimeOnSite(events: EngagementEvent[]): number {
+  const timeEvents = events.filter((e) => e.time_on_page_ms)
   if (timeEvents.length === 0) return 0
 
   const totalTime = timeEvents.reduce(
-    (sum, e) => sum + (e.metadata.time_on_page || 0),
+    (sum, e) => sum + (e.time_on_page_ms || 0),
     0
   )
   return Math.round(totalTime / timeEvents.length / 1000) // Convert to seconds
 }
 
 function getCTAEffectiveness(
-  events: any[]
+  events: EngagementEvent[]
 ): Record<string, { clicks: number; impressions: number; ctr: number }> {
   const ctaStats: Record<string, { clicks: number; impressions: number }> = {}
 
   events.forEach((e) => {
-    if (e.event_type === 'cta_click' && e.metadata?.cta_position) {
-      const position = e.metadata.cta_position
+    if (e.event_type === 'cta_click' && e.cta_position) {
+      const position = e.cta_position
       if (!ctaStats[position])
         ctaStats[position] = { clicks: 0, impressions: 0 }
       ctaStats[position].clicks++
     }
     // Note: We'd need separate impression tracking for accurate CTR
-    if (e.event_type === 'cta_view' && e.metadata?.cta_position) {
-      const position = e.metadata.cta_position
+    if (e.event_type === 'cta_view' && e.cta_position) {
+      const position = e.cta_position
       if (!ctaStats[position])
         ctaStats[position] = { clicks: 0, impressions: 0 }
       ctaStats[position].impressions++
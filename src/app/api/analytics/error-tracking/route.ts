@@ -7,6 +7,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import type { ClientError } from '@/types'
 
 interface ErrorDetails {
   message: string
@@ -39,6 +40,19 @@ interface PerformanceIssue {
   resolved?: boolean
 }
 
+// Client errors from client_errors and server errors logged by
+// serverErrorLogger, in one shape
+interface TrackedError {
+  id: string
+  source: 'client' | 'server'
+  page_path: string
+  message: string
+  severity: string
+  category: string
+  stack?: string
+  occurred_at: string
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
@@ -136,6 +150,9 @@ export async function GET(request: NextRequest) {
       limit,
     })
 
+    // Get triggered alerts
+    const alerts = await getRecentAlerts(days, limit)
+
     // Calculate error statistics
     const stats = await calculateErrorStats(days)
 
@@ -144,6 +161,7 @@ export async function GET(request: NextRequest) {
       data: {
         errors: errorData,
         performanceIssues,
+        alerts,
         stats,
       },
     })
@@ -176,25 +194,19 @@ async function storeError(error: ErrorDetails, request: NextRequest) {
   const ipHash = await hashString(ip)
   const userAgentHash = await hashString(error.userAgent)
 
-  const { error: dbError } = await supabaseAdmin.from('page_analytics').insert([
+  const { error: dbError } = await supabaseAdmin.from('client_errors').insert([
     {
       page_path: error.page,
       visitor_id: ipHash,
-      session_id: `error_${error.timestamp}`,
-      event_type: 'error',
-      timestamp: new Date(error.timestamp).toISOString(),
+      message: error.message,
+      stack: error.stack,
+      component_stack: error.componentStack,
+      error_boundary: error.errorBoundary || false,
+      severity: error.severity,
+      category: error.category,
       user_agent_hash: userAgentHash,
-      metadata: {
-        error: {
-          message: error.message,
-          stack: error.stack,
-          componentStack: error.componentStack,
-          errorBoundary: error.errorBoundary,
-          severity: error.severity,
-          category: error.category,
-          ...error.metadata,
-        },
-      },
+      metadata: error.metadata,
+      occurred_at: new Date(error.timestamp).toISOString(),
     },
   ])
 
@@ -222,25 +234,21 @@ async function storePerformanceIssue(
   const ipHash = await hashString(ip)
   const userAgentHash = await hashString(issue.userAgent)
 
-  const { error: dbError } = await supabaseAdmin.from('page_analytics').insert([
-    {
-      page_path: issue.page,
-      visitor_id: ipHash,
-      session_id: `perf_${issue.timestamp}`,
-      event_type: 'performance_issue',
-      timestamp: new Date(issue.timestamp).toISOString(),
-      user_agent_hash: userAgentHash,
-      metadata: {
-        performance_issue: {
-          type: issue.type,
-          message: issue.message,
-          severity: issue.severity,
-          metrics: issue.metrics,
-          resolved: issue.resolved || false,
-        },
+  const { error: dbError } = await supabaseAdmin
+    .from('performance_issues')
+    .insert([
+      {
+        page_path: issue.page,
+        visitor_id: ipHash,
+        issue_type: issue.type,
+        severity: issue.severity,
+        message: issue.message,
+        metrics: issue.metrics,
+        resolved: issue.resolved || false,
+        user_agent_hash: userAgentHash,
+        occurred_at: new Date(issue.timestamp).toISOString(),
       },
-    },
-  ])
+    ])
 
   if (dbError) {
     console.error('Failed to store performance issue:', dbError)
@@ -254,21 +262,15 @@ async function storePerformanceIssue(
 async function createErrorAlert(error: ErrorDetails) {
   if (!supabaseAdmin) return
 
-  // Store alert in system_events table (if it exists) or page_analytics
-  const { error: dbError } = await supabaseAdmin.from('page_analytics').insert([
+  const { error: dbError } = await supabaseAdmin.from('system_alerts').insert([
     {
-      page_path: '/admin',
-      event_type: 'system_alert',
-      timestamp: new Date().toISOString(),
-      metadata: {
-        alert: {
-          type: 'error',
-          severity: error.severity,
-          message: `Critical error on ${error.page}: ${error.message}`,
-          page: error.page,
-          category: error.category,
-          timestamp: error.timestamp,
-        },
+      alert_type: 'error',
+      severity: error.severity,
+      message: `Critical error on ${error.page}: ${error.message}`,
+      page_path: error.page,
+      details: {
+        category: error.category,
+        timestamp: error.timestamp,
       },
     },
   ])
@@ -284,21 +286,16 @@ async function createErrorAlert(error: ErrorDetails) {
 async function createPerformanceAlert(issue: PerformanceIssue) {
   if (!supabaseAdmin) return
 
-  const { error: dbError } = await supabaseAdmin.from('page_analytics').insert([
+  const { error: dbError } = await supabaseAdmin.from('system_alerts').insert([
     {
-      page_path: '/admin',
-      event_type: 'system_alert',
-      timestamp: new Date().toISOString(),
-      metadata: {
-        alert: {
-          type: 'performance',
-          severity: issue.severity,
-          message: `Performance issue on ${issue.page}: ${issue.message}`,
-          page: issue.page,
-          issueType: issue.type,
-          metrics: issue.metrics,
-          timestamp: issue.timestamp,
-        },
+      alert_type: 'performance',
+      severity: issue.severity,
+      message: `Performance issue on ${issue.page}: ${issue.message}`,
+      page_path: issue.page,
+      details: {
+        issueType: issue.type,
+        metrics: issue.metrics,
+        timestamp: issue.timestamp,
       },
     },
   ])
@@ -309,7 +306,7 @@ async function createPerformanceAlert(issue: PerformanceIssue) {
 }
 
 /**
- * Get error data from database
+ * Get client and server errors, newest first
  */
 async function getErrorData(filters: {
   page?: string | null
@@ -317,7 +314,7 @@ async function getErrorData(filters: {
   category?: string | null
   days: number
   limit: number
-}) {
+}): Promise<TrackedError[]> {
   if (!supabaseAdmin) {
     throw new Error('Supabase admin client not available')
   }
@@ -325,29 +322,113 @@ async function getErrorData(filters: {
   const startDate = new Date()
   startDate.setDate(startDate.getDate() - filters.days)
 
-  let query = supabaseAdmin
+  let clientQuery = supabaseAdmin
+    .from('client_errors')
+    .select('*')
+    .gte('occurred_at', startDate.toISOString())
+    .order('occurred_at', { ascending: false })
+    .limit(filters.limit)
+
+  // Server errors logged by serverErrorLogger
+  let serverQuery = supabaseAdmin
     .from('page_analytics')
     .select('*')
-    .eq('event_type', 'error')
+    .eq('event_type', 'server_error')
     .gte('timestamp', startDate.toISOString())
     .order('timestamp', { ascending: false })
     .limit(filters.limit)
 
   if (filters.page) {
-    query = query.eq('page_path', filters.page)
+    clientQuery = clientQuery.eq('page_path', filters.page)
+    serverQuery = serverQuery.eq('page_path', filters.page)
   }
 
-  // Filter by severity in metadata
   if (filters.severity) {
-    query = query.filter('metadata->error->severity', 'eq', filters.severity)
+    clientQuery = clientQuery.eq('severity', filters.severity)
+    serverQuery = serverQuery.filter(
+      'metadata->server_error->>severity',
+      'eq',
+      filters.severity
+    )
   }
 
-  // Filter by category in metadata
   if (filters.category) {
-    query = query.filter('metadata->error->category', 'eq', filters.category)
+    clientQuery = clientQuery.eq('category', filters.category)
+    serverQuery = serverQuery.filter(
+      'metadata->server_error->>category',
+      'eq',
+      filters.category
+    )
   }
 
-  const { data, error } = await query
+  const [clientResult, serverResult] = await Promise.all([
+    clientQuery,
+    serverQuery,
+  ])
+
+  if (clientResult.error) {
+    throw new Error(`Database error: ${clientResult.error.message}`)
+  }
+  if (serverResult.error) {
+    throw new Error(`Database error: ${serverResult.error.message}`)
+  }
+
+  const clientErrors: TrackedError[] = (
+    (clientResult.data || []) as ClientError[]
+  ).map((error) => ({
+    id: error.id,
+    source: 'client',
+    page_path: error.page_path,
+    message: error.message,
+    severity: error.severity,
+    category: error.category,
+    stack: error.stack,
+    occurred_at: error.occurred_at,
+  }))
+
+  const serverErrors: TrackedError[] = (serverResult.data || []).map(
+    (row: {
+      id: string
+      page_path: string
+      timestamp: string
+      metadata: { server_error?: Record<string, any> } | null
+    }) => {
+      const serverError = row.metadata?.server_error || {}
+      return {
+        id: row.id,
+        source: 'server',
+        page_path: row.page_path,
+        message: serverError.message || 'Unknown error',
+        severity: serverError.severity || 'medium',
+        category: serverError.category || 'system',
+        stack: serverError.stack,
+        occurred_at: row.timestamp,
+      }
+    }
+  )
+
+  return [...clientErrors, ...serverErrors]
+    .sort((a, b) => b.occurred_at.localeCompare(a.occurred_at))
+    .slice(0, filters.limit)
+}
+
+/**
+ * Get alerts raised by alert rules (e.g. failed admin login bursts)
+ */
+async function getRecentAlerts(days: number, limit: number) {
+  if (!supabaseAdmin) {
+    throw new Error('Supabase admin client not available')
+  }
+
+  const startDate = new Date()
+  startDate.setDate(startDate.getDate() - days)
+
+  const { data, error } = await supabaseAdmin
+    .from('system_alerts')
+    .select('*')
+    .gte('created_at', startDate.toISOString())
+    .order('created_at', { ascending: false })
+    .limit(limit)
 
   if (error) {
     throw new Error(`Database error: ${error.message}`)
@@ -373,11 +454,10 @@ async function getPerformanceIssues(filters: {
   startDate.setDate(startDate.getDate() - filters.days)
 
   let query = supabaseAdmin
-    .from('page_analytics')
+    .from('performance_issues')
     .select('*')
-    .eq('event_type', 'performance_issue')
-    .gte('timestamp', startDate.toISOString())
-    .order('timestamp', { ascending: false })
+    .gte('occurred_at', startDate.toISOString())
+    .order('occurred_at', { ascending: false })
     .limit(filters.limit)
 
   if (filters.page) {
@@ -385,11 +465,7 @@ async function getPerformanceIssues(filters: {
   }
 
   if (filters.severity) {
-    query = query.filter(
-      'metadata->performance_issue->severity',
-      'eq',
-      filters.severity
-    )
+    query = query.eq('severity', filters.severity)
   }
 
   const { data, error } = await query
@@ -414,10 +490,9 @@ async function calculateErrorStats(days: number) {
 
   // Get error counts by severity
   const { data: errorData, error: errorError } = await supabaseAdmin
-    .from('page_analytics')
-    .select('metadata')
-    .eq('event_type', 'error')
-    .gte('timestamp', startDate.toISOString())
+    .from('client_errors')
+    .select('severity')
+    .gte('occurred_at', startDate.toISOString())
 
   if (errorError) {
     throw new Error(`Database error: ${errorError.message}`)
@@ -425,10 +500,9 @@ async function calculateErrorStats(days: number) {
 
   // Get performance issue counts
   const { data: perfData, error: perfError } = await supabaseAdmin
-    .from('page_analytics')
-    .select('metadata')
-    .eq('event_type', 'performance_issue')
-    .gte('timestamp', startDate.toISOString())
+    .from('performance_issues')
+    .select('severity')
+    .gte('occurred_at', startDate.toISOString())
 
   if (perfError) {
     throw new Error(`Database error: ${perfError.message}`)
@@ -452,18 +526,16 @@ async function calculateErrorStats(days: number) {
   }
 
   // Count errors by severity
-  errorData?.forEach((item) => {
-    const severity = item.metadata?.error?.severity
-    if (severity && severity in errorStats) {
-      errorStats[severity as keyof typeof errorStats]++
+  errorData?.forEach((item: { severity: string }) => {
+    if (item.severity in errorStats) {
+      errorStats[item.severity as keyof typeof errorStats]++
     }
   })
 
   // Count performance issues by severity
-  perfData?.forEach((item) => {
-    const severity = item.metadata?.performance_issue?.severity
-    if (severity && severity in performanceStats) {
-      performanceStats[severity as keyof typeof performanceStats]++
+  perfData?.forEach((item: { severity: string }) => {
+    if (item.severity in performanceStats) {
+      performanceStats[item.severity as keyof typeof performanceStats]++
     }
   })
 
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
 import crypto from 'crypto'
+import { AnonymousAnalyticsService } from '@/lib/services/anonymous-analytics'
+import { getPlatformClientIP } from '@/lib/admin-login-throttle'
 
 /**
  * Dedicated page view tracking endpoint
@@ -9,8 +11,7 @@ import crypto from 'crypto'
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { path, title, referrer, visitorId, sessionId, viewport, timestamp } =
-      body
+    const { path, title, referrer, sessionId, viewport, timestamp } = body
 
     if (!path) {
       return NextResponse.json(
@@ -27,20 +28,16 @@ export async function POST(request: NextRequest) {
       .digest('hex')
       .substring(0, 16)
 
-    const clientIp = getClientIP(request)
-    const ipHash = crypto
-      .createHash('sha256')
-      .update(clientIp)
-      .digest('hex')
-      .substring(0, 16)
-
-    const finalVisitorId = visitorId || generateVisitorId(ipHash, userAgentHash)
+    const visitorId = await AnonymousAnalyticsService.generateVisitorId(
+      getPlatformClientIP(request),
+      userAgent
+    )
     const finalSessionId = sessionId || crypto.randomUUID()
 
     // Log page view
     const { error } = await supabaseAdmin.from('page_analytics').insert({
       page_path: path,
-      visitor_id: finalVisitorId,
+      visitor_id: visitorId,
       session_id: finalSessionId,
       event_type: 'page_view',
       referrer: referrer || request.headers.get('referer'),
@@ -66,7 +63,6 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      visitorId: finalVisitorId,
       sessionId: finalSessionId,
     })
   } catch (error) {
@@ -140,24 +136,6 @@ export async function GET(request: NextRequest) {
 }
 
 // Helper functions
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get('x-forwarded-for')
-  const real = request.headers.get('x-real-ip')
-
-  if (forwarded) return forwarded.split(',')[0].trim()
-  if (real) return real.trim()
-  return 'unknown'
-}
-
-function generateVisitorId(ipHash: string, userAgentHash: string): string {
-  const combined = `${ipHash}-${userAgentHash}`
-  return crypto
-    .createHash('sha256')
-    .update(combined)
-    .digest('hex')
-    .substring(0, 32)
-}
-
 function getTopPages(pageViews: any[]): Array<{ page: string; views: number }> {
   const pageCounts: Record<string, number> = {}
 
@@ -7,6 +7,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import type { WebVital } from '@/types'
 
 interface PerformanceMetrics {
   lcp?: number
@@ -42,7 +43,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Store performance metrics in page_analytics table
+    // Store performance metrics in the web_vitals table
     await storePerformanceMetrics(metrics, page, userAgent, timestamp, request)
 
     // Check if performance is degraded and create alert
@@ -122,38 +123,28 @@ async function storePerformanceMetrics(
   }
 
   try {
-    const userAgentHash = hashString(userAgent)
-    const performanceScore = calculatePerformanceScore(metrics)
-
     const record = {
       page_path: page,
-      visitor_id: `performance_${Date.now()}`,
-      session_id: `perf_session_${Date.now()}`,
-      event_type: 'performance_metrics',
-      timestamp: new Date(timestamp).toISOString(),
+      lcp: metrics.lcp,
+      fid: metrics.fid,
+      cls: metrics.cls,
+      fcp: metrics.fcp,
+      ttfb: metrics.ttfb,
+      dom_content_loaded: metrics.domContentLoaded,
+      load_complete: metrics.loadComplete,
+      navigation_timing: metrics.navigationTiming,
+      memory_usage: metrics.memoryUsage,
+      score: calculatePerformanceScore(metrics),
       referrer: request.headers.get('referer') || null,
-      user_agent_hash: userAgentHash,
-      metadata: {
-        performance: metrics,
-        score: performanceScore,
-        coreWebVitals: {
-          lcp: metrics.lcp,
-          fid: metrics.fid,
-          cls: metrics.cls,
-        },
-        timing: {
-          fcp: metrics.fcp,
-          ttfb: metrics.ttfb,
-          domContentLoaded: metrics.domContentLoaded,
-          loadComplete: metrics.loadComplete,
-        },
-        navigation: metrics.navigationTiming,
-        memory: metrics.memoryUsage,
-        recordedAt: new Date().toISOString(),
-      },
+      user_agent_hash: hashString(userAgent),
+      recorded_at: new Date(timestamp).toISOString(),
     }
 
-    await supabaseAdmin.from('page_analytics').insert([record])
+    const { error } = await supabaseAdmin.from('web_vitals').insert([record])
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
   } catch (error) {
     console.error('Error storing performance metrics:', error)
     throw error
@@ -176,11 +167,10 @@ async function getPerformanceData(
 
   try {
     let query = supabaseAdmin
-      .from('page_analytics')
+      .from('web_vitals')
       .select('*')
-      .eq('event_type', 'performance_metrics')
-      .gte('timestamp', startDate.toISOString())
-      .order('timestamp', { ascending: false })
+      .gte('recorded_at', startDate.toISOString())
+      .order('recorded_at', { ascending: false })
 
     if (page) {
       query = query.eq('page_path', page)
@@ -194,25 +184,20 @@ async function getPerformanceData(
 
     // Process and filter by specific metric if requested
     return records
-      .map((record) => {
-        const metadata = record.metadata as any
-        const performance = metadata?.performance || {}
-
-        return {
-          page: record.page_path,
-          timestamp: record.timestamp,
-          score: metadata?.score || 0,
-          lcp: performance.lcp,
-          fid: performance.fid,
-          cls: performance.cls,
-          fcp: performance.fcp,
-          ttfb: performance.ttfb,
-          domContentLoaded: performance.domContentLoaded,
-          loadComplete: performance.loadComplete,
-          navigation: performance.navigationTiming,
-          memory: performance.memoryUsage,
-        }
-      })
+      .map((record: WebVital) => ({
+        page: record.page_path,
+        timestamp: record.recorded_at,
+        score: record.score,
+        lcp: record.lcp ?? undefined,
+        fid: record.fid ?? undefined,
+        cls: record.cls ?? undefined,
+        fcp: record.fcp ?? undefined,
+        ttfb: record.ttfb ?? undefined,
+        domContentLoaded: record.dom_content_loaded ?? undefined,
+        loadComplete: record.load_complete ?? undefined,
+        navigation: record.navigation_timing,
+        memory: record.memory_usage,
+      }))
       .filter((record) => {
         // Filter by specific metric if requested
         if (metric && metric in record) {
@@ -299,28 +284,22 @@ async function createPerformanceAlert(
 
   try {
     const alert = {
-      page_path: `/alerts/performance`,
-      visitor_id: `alert_system`,
-      session_id: `alert_${Date.now()}`,
-      event_type: 'performance_alert',
-      timestamp: new Date().toISOString(),
-      referrer: null,
-      user_agent_hash: null,
-      metadata: {
+      alert_type: 'performance',
+      severity: score < 25 ? 'critical' : score < 50 ? 'warning' : 'info',
+      message: `Performance score ${score} on ${page}`,
+      page_path: page,
+      details: {
         alertType: 'performance_degradation',
-        page,
         score,
         metrics: {
           lcp: metrics.lcp,
           fid: metrics.fid,
           cls: metrics.cls,
         },
-        severity: score < 25 ? 'critical' : score < 50 ? 'warning' : 'info',
-        createdAt: new Date().toISOString(),
       },
     }
 
-    await supabaseAdmin.from('page_analytics').insert([alert])
+    await supabaseAdmin.from('system_alerts').insert([alert])
   } catch (error) {
     console.error('Error creating performance alert:', error)
   }
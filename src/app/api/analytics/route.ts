@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
 import crypto from 'crypto'
+import { AnonymousAnalyticsService } from '@/lib/services/anonymous-analytics'
+import { getPlatformClientIP } from '@/lib/admin-login-throttle'
 
 /**
  * Privacy-compliant analytics tracking endpoint
@@ -9,13 +11,7 @@ import crypto from 'crypto'
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const {
-      eventType,
-      properties = {},
-      visitorId,
-      sessionId,
-      anonymousId,
-    } = body
+    const { eventType, properties = {}, sessionId } = body
 
     // Validate required fields
     if (!eventType) {
@@ -25,15 +21,14 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Privacy-compliant visitor identification
+    // Privacy-compliant visitor identification: today's salted ID, never
+    // one supplied by the client
     const userAgent = request.headers.get('user-agent') || ''
     const userAgentHash = hashUserAgent(userAgent)
-    const clientIp = getClientIP(request)
-    const ipHash = hashIP(clientIp)
-
-    // Generate or use provided anonymous visitor ID
-    const finalVisitorId =
-      visitorId || anonymousId || generateAnonymousId(ipHash, userAgentHash)
+    const finalVisitorId = await AnonymousAnalyticsService.generateVisitorId(
+      getPlatformClientIP(request),
+      userAgent
+    )
 
     // Get page path and referrer
     const pagePath = properties.page || properties.path || '/'
@@ -74,9 +69,25 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Handle conversion events (beta signups)
+    // Conversions themselves are recorded in goal_conversions by
+    // /api/analytics/conversions; here they only count towards engagement
     if (eventType === 'beta_signup' || eventType === 'conversion') {
-      await trackConversion(finalVisitorId, sessionId, properties)
+      await updateEngagementScore(finalVisitorId, 'conversion', {
+        conversion_value: 10,
+      })
+    }
+
+    // Keep first- and last-touch attribution for conversion reporting
+    if (eventType === 'page_view') {
+      try {
+        await AnonymousAnalyticsService.recordTouch(finalVisitorId, {
+          pagePath,
+          referrer: properties.referrer || undefined,
+          utmData: extractUTMParams(properties.search),
+        })
+      } catch (touchError) {
+        console.error('Attribution tracking error:', touchError)
+      }
     }
 
     // Update engagement score for repeat visitors
@@ -86,7 +97,6 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      visitorId: finalVisitorId,
       sessionId: sessionId || generateSessionId(),
     })
   } catch (error) {
@@ -131,6 +141,7 @@ export async function GET(request: NextRequest) {
     const { data: emailEvents } = await supabaseAdmin
       .from('email_events')
       .select('event_type, template_id, created_at')
+      .eq('is_test', false)
       .gte('created_at', startDate)
 
     // Process and aggregate data
@@ -184,65 +195,21 @@ function hashUserAgent(userAgent: string): string {
     .substring(0, 16)
 }
 
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get('x-forwarded-for')
-  const real = request.headers.get('x-real-ip')
-
-  if (forwarded) {
-    return forwarded.split(',')[0].trim()
-  }
-  if (real) {
-    return real.trim()
-  }
-  return 'unknown'
-}
-
-function hashIP(ip: string): string {
-  return crypto.createHash('sha256').update(ip).digest('hex').substring(0, 16)
-}
-
-function generateAnonymousId(ipHash: string, userAgentHash: string): string {
-  const combined = `${ipHash}-${userAgentHash}-${Date.now()}`
-  return crypto
-    .createHash('sha256')
-    .update(combined)
-    .digest('hex')
-    .substring(0, 32)
-}
-
 function generateSessionId(): string {
   return crypto.randomUUID()
 }
 
-async function trackConversion(
-  visitorId: string,
-  sessionId: string | null,
-  properties: any
-) {
-  try {
-    // Log conversion event with additional metadata
-    await supabaseAdmin.from('page_analytics').insert({
-      page_path: '/conversion',
-      visitor_id: visitorId,
-      session_id: sessionId,
-      event_type: 'conversion_tracked',
-      metadata: {
-        conversion_type: 'beta_signup',
-        conversion_value: 1,
-        signup_source: properties.signupSource || 'direct',
-        referrer_code: properties.referrerCode || null,
-        team_size: properties.teamSize || null,
-        timestamp: new Date().toISOString(),
-      },
-    })
+function extractUTMParams(search?: string): Record<string, string> {
+  const utmParams: Record<string, string> = {}
+  if (!search) return utmParams
 
-    // Update engagement score for converters
-    await updateEngagementScore(visitorId, 'conversion', {
-      conversion_value: 10,
-    })
-  } catch (error) {
-    console.error('Conversion tracking error:', error)
+  for (const [key, value] of new URLSearchParams(search).entries()) {
+    if (key.startsWith('utm_')) {
+      utmParams[key] = value
+    }
   }
+
+  return utmParams
 }
 
 async function updateEngagementScore(
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { adminApiMiddleware } from '@/lib/admin-middleware'
+import {
+  AnalyticsRollupService,
+  getRollupEntries,
+} from '@/lib/services/analytics-rollups'
 
 interface SimpleMetrics {
   unique_visitors: number
@@ -14,7 +18,7 @@ interface SimpleMetrics {
 
 /**
  * Simple Analytics Metrics API
- * Provides basic analytics data from the existing page_analytics table
+ * Provides basic analytics data from the page_analytics rollups
  */
 export async function GET(request: NextRequest) {
   try {
@@ -42,16 +46,25 @@ export async function GET(request: NextRequest) {
     const startDate = new Date()
     startDate.setDate(endDate.getDate() - days)
 
-    // Get analytics data for the period
-    const { data: records, error: fetchError } = await supabaseAdmin
-      .from('page_analytics')
-      .select('*')
-      .gte('timestamp', startDate.toISOString())
-      .lte('timestamp', endDate.toISOString())
-      .order('timestamp', { ascending: false })
-
-    if (fetchError) {
-      console.error('Error fetching analytics records:', fetchError)
+    // Totals come from the rollups; only the last partial hour is read raw
+    const [{ data: summary, error: summaryError }, recent] = await Promise.all([
+      AnalyticsRollupService.getSummary(startDate, endDate, {
+        metrics: ['events', 'events_by_path'],
+      }),
+      supabaseAdmin
+        .from('page_analytics')
+        .select('page_path, timestamp, visitor_id')
+        .gte('timestamp', startDate.toISOString())
+        .lte('timestamp', endDate.toISOString())
+        .order('timestamp', { ascending: false })
+        .limit(20),
+    ])
+
+    if (summaryError || !summary || recent.error) {
+      console.error(
+        'Error fetching analytics data:',
+        summaryError || recent.error
+      )
       return NextResponse.json(
         {
           error: 'Failed to fetch analytics data',
@@ -60,56 +73,20 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    if (!records || records.length === 0) {
-      return NextResponse.json({
-        success: true,
-        data: {
-          unique_visitors: 0,
-          total_pageviews: 0,
-          top_pages: [],
-          recent_activity: [],
-        } as SimpleMetrics,
-      })
-    }
-
-    // Calculate metrics safely with type checking
-    const uniqueVisitors = new Set()
-    const pageMap = new Map<string, number>()
-    const recentActivity: any[] = []
-
-    records.forEach((record: any) => {
-      // Count unique visitors
-      if (record.visitor_id) {
-        uniqueVisitors.add(record.visitor_id)
-      }
-
-      // Count page views
-      if (record.page_path) {
-        const count = pageMap.get(record.page_path) || 0
-        pageMap.set(record.page_path, count + 1)
-      }
-
-      // Collect recent activity (last 20)
-      if (recentActivity.length < 20) {
-        recentActivity.push({
-          page_path: record.page_path || 'Unknown',
-          timestamp: record.timestamp,
-          visitor_id: record.visitor_id,
-        })
-      }
-    })
-
-    // Top pages
-    const topPages = Array.from(pageMap.entries())
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 10)
-      .map(([path, views]) => ({ path, views }))
-
     const metrics: SimpleMetrics = {
-      unique_visitors: uniqueVisitors.size,
-      total_pageviews: records.length,
-      top_pages: topPages,
-      recent_activity: recentActivity,
+      unique_visitors: summary.unique_visitors,
+      total_pageviews: getRollupEntries(summary.totals, 'events').reduce(
+        (sum, [, count]) => sum + count,
+        0
+      ),
+      top_pages: getRollupEntries(summary.totals, 'events_by_path')
+        .slice(0, 10)
+        .map(([path, views]) => ({ path, views })),
+      recent_activity: (recent.data || []).map((record: any) => ({
+        page_path: record.page_path || 'Unknown',
+        timestamp: record.timestamp,
+        visitor_id: record.visitor_id,
+      })),
     }
 
     return NextResponse.json({
@@ -7,6 +7,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import type { WebVital } from '@/types'
 
 interface SystemHealthStatus {
   database: {
@@ -175,11 +176,10 @@ async function checkApiHealth() {
   try {
     // Get recent API performance data
     const { data: apiMetrics } = await supabaseAdmin
-      .from('page_analytics')
-      .select('metadata')
-      .eq('event_type', 'performance_metrics')
-      .gte('timestamp', new Date(Date.now() - 60 * 60 * 1000).toISOString()) // Last hour
-      .order('timestamp', { ascending: false })
+      .from('web_vitals')
+      .select('ttfb')
+      .gte('recorded_at', new Date(Date.now() - 60 * 60 * 1000).toISOString()) // Last hour
+      .order('recorded_at', { ascending: false })
       .limit(100)
 
     if (!apiMetrics || apiMetrics.length === 0) {
@@ -193,8 +193,8 @@ async function checkApiHealth() {
 
     // Calculate metrics
     const responseTimes = apiMetrics
-      .map((m) => (m as any).metadata?.performance?.ttfb)
-      .filter((t) => t !== undefined) as number[]
+      .map((m: { ttfb: number | null }) => m.ttfb)
+      .filter((t: number | null) => t !== null) as number[]
 
     const averageResponseTime =
       responseTimes.length > 0
@@ -245,14 +245,13 @@ async function checkPerformanceHealth() {
   try {
     // Get recent performance metrics
     const { data: perfMetrics } = await supabaseAdmin
-      .from('page_analytics')
-      .select('metadata')
-      .eq('event_type', 'performance_metrics')
+      .from('web_vitals')
+      .select('score, lcp, fid, cls')
       .gte(
-        'timestamp',
+        'recorded_at',
         new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
       )
-      .order('timestamp', { ascending: false })
+      .order('recorded_at', { ascending: false })
       .limit(50)
 
     if (!perfMetrics || perfMetrics.length === 0) {
@@ -268,18 +267,15 @@ async function checkPerformanceHealth() {
     }
 
     // Calculate averages
-    const scores = perfMetrics.map((m) => (m as any).metadata?.score || 0)
+    const vitals = perfMetrics as Array<
+      Pick<WebVital, 'score' | 'lcp' | 'fid' | 'cls'>
+    >
+    const scores = vitals.map((m) => m.score)
     const averageScore = scores.reduce((a, b) => a + b, 0) / scores.length
 
-    const lcpValues = perfMetrics
-      .map((m) => (m as any).metadata?.performance?.lcp)
-      .filter(Boolean) as number[]
-    const fidValues = perfMetrics
-      .map((m) => (m as any).metadata?.performance?.fid)
-      .filter(Boolean) as number[]
-    const clsValues = perfMetrics
-      .map((m) => (m as any).metadata?.performance?.cls)
-      .filter(Boolean) as number[]
+    const lcpValues = vitals.map((m) => m.lcp).filter(Boolean) as number[]
+    const fidValues = vitals.map((m) => m.fid).filter(Boolean) as number[]
+    const clsValues = vitals.map((m) => m.cls).filter(Boolean) as number[]
 
     const avgLcp =
       lcpValues.length > 0
@@ -351,18 +347,16 @@ async function checkErrorHealth() {
 
     // Get recent errors
     const { data: recentErrors } = await supabaseAdmin
-      .from('page_analytics')
-      .select('metadata')
-      .eq('event_type', 'error')
-      .gte('timestamp', oneDayAgo.toISOString())
+      .from('client_errors')
+      .select('severity')
+      .gte('occurred_at', oneDayAgo.toISOString())
 
     // Get previous day errors for trend
     const { data: previousErrors } = await supabaseAdmin
-      .from('page_analytics')
-      .select('metadata')
-      .eq('event_type', 'error')
-      .gte('timestamp', twoDaysAgo.toISOString())
-      .lt('timestamp', oneDayAgo.toISOString())
+      .from('client_errors')
+      .select('severity')
+      .gte('occurred_at', twoDaysAgo.toISOString())
+      .lt('occurred_at', oneDayAgo.toISOString())
 
     const recentCount = recentErrors?.length || 0
     const previousCount = previousErrors?.length || 0
@@ -370,12 +364,11 @@ async function checkErrorHealth() {
     // Count by severity
     const critical =
       recentErrors?.filter(
-        (e) => (e as any).metadata?.error?.severity === 'critical'
+        (e: { severity: string }) => e.severity === 'critical'
       ).length || 0
     const high =
-      recentErrors?.filter(
-        (e) => (e as any).metadata?.error?.severity === 'high'
-      ).length || 0
+      recentErrors?.filter((e: { severity: string }) => e.severity === 'high')
+        .length || 0
 
     // Calculate trend
     let recentTrend: 'increasing' | 'decreasing' | 'stable'
@@ -3,9 +3,12 @@ import { z } from 'zod'
 import { supabaseAdmin } from '@/lib/supabase'
 import {
   BetaSignupService,
-  EmailCampaignService,
   AnalyticsService,
+  EmailCampaignService,
+  ReferralService,
+  SequenceService,
 } from '@/lib/services'
+import { isMailConfigured } from '@/lib/mail-transport'
 
 // Validation schema matching Supabase table structure
 const betaSignupSchema = z.object({
@@ -65,7 +68,15 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Insert into database using service layer
+    // Only credit referral codes that belong to an existing signup
+    if (validatedData.referrerCode) {
+      const referrerCode = ReferralService.normalizeCode(
+        validatedData.referrerCode
+      )
+      const { valid } = await ReferralService.isValidCode(referrerCode)
+      validatedData.referrerCode = valid ? referrerCode : undefined
+    }
+
     // Insert into database using service layer
     const insertResult = await BetaSignupService.create(validatedData)
 
@@ -79,25 +90,40 @@ export async function POST(request: NextRequest) {
 
     const insertedUser = insertResult.data
 
-    // Send welcome email if SendGrid is configured and user opted in
-    if (process.env.SENDGRID_API_KEY && validatedData.marketingOptIn) {
+    // Double opt-in: email a confirmation link. The welcome email follows
+    // once the address is confirmed through /api/beta-signup/verify
+    if (isMailConfigured()) {
       try {
-        // Use our new email campaign service
-        const welcomeResult =
-          await EmailCampaignService.sendWelcomeEmail(insertedUser)
+        const confirmationResult =
+          await EmailCampaignService.sendSignupConfirmation(
+            insertedUser.email,
+            validatedData.githubUsername
+          )
 
-        if (!welcomeResult.success) {
-          console.error('Failed to send welcome email:', welcomeResult.error)
+        if (!confirmationResult.success) {
+          console.error(
+            'Failed to send confirmation email:',
+            confirmationResult.error
+          )
           // Don't fail the signup if email fails
         }
-
-        // Email event is automatically logged by the service
       } catch (emailError) {
         console.error('Email sending error:', emailError)
         // Don't fail the request if email fails - user is still registered
       }
     }
 
+    // Enroll in the welcome series. Its first email waits until the address
+    // is confirmed.
+    const { error: enrollError } = await SequenceService.enroll(
+      insertedUser.id,
+      'welcome_series'
+    )
+    if (enrollError) {
+      console.error('Welcome series enrollment error:', enrollError)
+      // Don't fail the signup if enrollment fails
+    }
+
     // Log analytics event (privacy-compliant) using our service
     try {
       await AnalyticsService.trackEvent({
@@ -113,6 +139,7 @@ export async function POST(request: NextRequest) {
           use_case_length: validatedData.useCaseDescription.length,
           marketing_opt_in: validatedData.marketingOptIn,
           research_opt_in: validatedData.researchOptIn,
+          referred: !!validatedData.referrerCode,
         },
       })
     } catch (analyticsError) {
@@ -122,8 +149,15 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      message: 'Successfully registered for beta program',
-      data: { email: insertedUser.email },
+      message:
+        'Successfully registered for beta program. Check your inbox to confirm your email address.',
+      data: {
+        email: insertedUser.email,
+        referralCode: insertedUser.referral_code,
+        referralLink: insertedUser.referral_code
+          ? ReferralService.getReferralUrl(insertedUser.referral_code)
+          : null,
+      },
     })
   } catch (error) {
     console.error('Beta signup error:', error)
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { verifyVerificationToken } from '@/lib/unsubscribe-token'
+import {
+  AnalyticsService,
+  BetaSignupService,
+  SequenceService,
+} from '@/lib/services'
+import { isMailConfigured } from '@/lib/mail-transport'
+
+const verifySchema = z.object({
+  token: z.string().min(1, 'Confirmation token is required'),
+})
+
+/**
+ * Confirm a beta signup's email address (double opt-in).
+ * The welcome series only starts once the address is confirmed.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { token } = verifySchema.parse(body)
+
+    const verification = verifyVerificationToken(token)
+    if (!verification.valid || !verification.claims) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            verification.error === 'Link has expired'
+              ? 'This confirmation link has expired. Please sign up again.'
+              : 'Invalid confirmation link',
+        },
+        { status: 400 }
+      )
+    }
+
+    const { email } = verification.claims
+
+    const { data: verifiedUser, error: verifyError } =
+      await BetaSignupService.markEmailVerified(email)
+
+    if (verifyError) {
+      console.error('Email verification error:', verifyError)
+      return NextResponse.json(
+        { success: false, error: 'Failed to confirm email address' },
+        { status: 500 }
+      )
+    }
+
+    // Nothing was updated: the address was already confirmed, or the
+    // unverified signup has since expired
+    if (!verifiedUser) {
+      const { data: existingUser } = await BetaSignupService.getByEmail(email)
+      if (existingUser?.email_verified) {
+        return NextResponse.json({
+          success: true,
+          message: 'Email address already confirmed',
+        })
+      }
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Signup not found. Please sign up again.',
+        },
+        { status: 404 }
+      )
+    }
+
+    // Send the welcome email now rather than on the next sequence run.
+    // Signups from before the welcome series existed are enrolled here.
+    if (isMailConfigured()) {
+      try {
+        await SequenceService.enroll(verifiedUser.id, 'welcome_series')
+        const { error: sequenceError } = await SequenceService.runForUser(
+          verifiedUser.id,
+          'welcome_series'
+        )
+
+        if (sequenceError) {
+          console.error('Failed to start welcome series:', sequenceError)
+        }
+      } catch (emailError) {
+        console.error('Email sending error:', emailError)
+        // Don't fail the confirmation if the welcome email fails
+      }
+    }
+
+    try {
+      await AnalyticsService.trackEvent({
+        page_path: '/api/beta-signup/verify',
+        event_type: 'beta_signup_verified',
+        metadata: {
+          hours_to_verify:
+            Math.round(
+              ((Date.now() - new Date(verifiedUser.created_at).getTime()) /
+                (60 * 60 * 1000)) *
+                10
+            ) / 10,
+        },
+      })
+    } catch (analyticsError) {
+      console.error('Analytics logging error:', analyticsError)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Email address confirmed',
+    })
+  } catch (error) {
+    console.error('Email verification error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid confirmation link' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import crypto from 'crypto'
+import { supabaseAdmin } from '@/lib/supabase'
+
+const consentSchema = z.object({
+  consentId: z.string().uuid(),
+  policyVersion: z.string().min(1).max(32),
+  choices: z.object({
+    analytics: z.boolean(),
+    performance: z.boolean(),
+    marketing: z.boolean(),
+  }),
+  action: z.enum(['accept_all', 'reject_all', 'custom']),
+})
+
+/**
+ * Consent audit endpoint
+ * Records each consent choice a visitor makes, so we can show what was
+ * agreed to and under which policy version
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const validatedData = consentSchema.parse(body)
+
+    const userAgent = request.headers.get('user-agent') || ''
+
+    const { error } = await supabaseAdmin.from('consent_records').insert({
+      consent_id: validatedData.consentId,
+      policy_version: validatedData.policyVersion,
+      action: validatedData.action,
+      analytics: validatedData.choices.analytics,
+      performance: validatedData.choices.performance,
+      marketing: validatedData.choices.marketing,
+      user_agent_hash: crypto
+        .createHash('sha256')
+        .update(userAgent)
+        .digest('hex')
+        .substring(0, 16),
+    })
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid consent data',
+          details: error.issues,
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Consent recording error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to record consent' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { cronAuthMiddleware } from '@/lib/cron-auth'
+import { ABTestService } from '@/lib/services/ab-tests'
+
+/**
+ * A/B Test Winner Rollout
+ * Triggered by Vercel Cron (see vercel.json). For every test whose
+ * rollout_at has passed, picks the winning variant and queues it for the
+ * users held back from the test; the campaign dispatcher sends it.
+ */
+export async function GET(request: NextRequest) {
+  const authResponse = cronAuthMiddleware(request)
+  if (authResponse) {
+    return authResponse
+  }
+
+  try {
+    const { rollouts, errors } = await ABTestService.dispatchDueRollouts()
+
+    if (errors.length > 0) {
+      console.error('A/B test rollout errors:', errors)
+    }
+
+    return NextResponse.json({
+      success: errors.length === 0,
+      dispatched: rollouts.length,
+      rollouts,
+      errors,
+    })
+  } catch (error) {
+    console.error('A/B test rollout error:', error)
+    return NextResponse.json(
+      { success: false, error: 'A/B test rollout failed' },
+      { status: 500 }
+    )
+  }
+}
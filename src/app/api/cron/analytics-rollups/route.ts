@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { cronAuthMiddleware } from '@/lib/cron-auth'
+import { AnalyticsRollupService } from '@/lib/services/analytics-rollups'
+import { AnonymousAnalyticsService } from '@/lib/services/anonymous-analytics'
+
+/**
+ * Analytics Rollup Job
+ * Triggered by Vercel Cron (see vercel.json). Summarizes every completed
+ * hour and day since the last run into the analytics rollup tables, and
+ * deletes visitor ID salts whose day has ended.
+ */
+export async function GET(request: NextRequest) {
+  const authResponse = cronAuthMiddleware(request)
+  if (authResponse) {
+    return authResponse
+  }
+
+  try {
+    const { hours, days, rolled_up_to, errors } =
+      await AnalyticsRollupService.rollUp()
+
+    const { deleted: saltsDeleted, error: saltError } =
+      await AnonymousAnalyticsService.purgeExpiredSalts()
+    if (saltError) {
+      errors.push(`Salt purge: ${saltError}`)
+    }
+
+    if (errors.length > 0) {
+      console.error('Analytics rollup errors:', errors)
+    }
+
+    return NextResponse.json({
+      success: errors.length === 0,
+      hours,
+      days,
+      rolled_up_to,
+      salts_deleted: saltsDeleted,
+      errors,
+    })
+  } catch (error) {
+    console.error('Analytics rollup error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Analytics rollup failed' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { cronAuthMiddleware } from '@/lib/cron-auth'
+import { EmailCampaignService } from '@/lib/services/email-campaigns'
+
+/**
+ * Scheduled Campaign Dispatcher
+ * Triggered by Vercel Cron (see vercel.json). Queues every campaign whose
+ * scheduled_at has passed as per-recipient deliveries; each campaign is
+ * claimed with a lock so overlapping runs can't queue it twice. Deliveries
+ * are then sent as they come due, as many as fit in this run, and the rest
+ * on later runs.
+ */
+export async function GET(request: NextRequest) {
+  const authResponse = cronAuthMiddleware(request)
+  if (authResponse) {
+    return authResponse
+  }
+
+  try {
+    const startedAt = Date.now()
+    const { campaigns, errors: campaignErrors } =
+      await EmailCampaignService.dispatchDueCampaigns()
+    const { errors: deliveryErrors, ...deliveries } =
+      await EmailCampaignService.dispatchDueDeliveries(startedAt)
+
+    const errors = [...campaignErrors, ...deliveryErrors]
+    if (errors.length > 0) {
+      console.error('Campaign dispatch errors:', errors)
+    }
+
+    return NextResponse.json({
+      success: errors.length === 0,
+      dispatched: campaigns.length,
+      campaigns,
+      deliveries,
+      errors,
+    })
+  } catch (error) {
+    console.error('Campaign dispatcher error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Campaign dispatch failed' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { cronAuthMiddleware } from '@/lib/cron-auth'
+import { SequenceService } from '@/lib/services/sequences'
+
+/**
+ * Drip Sequence Runner
+ * Triggered by Vercel Cron (see vercel.json). Advances every enrollment
+ * whose next step is due.
+ */
+export async function GET(request: NextRequest) {
+  const authResponse = cronAuthMiddleware(request)
+  if (authResponse) {
+    return authResponse
+  }
+
+  try {
+    const { processed, errors } = await SequenceService.runDueEnrollments()
+
+    if (errors.length > 0) {
+      console.error('Sequence runner errors:', errors)
+    }
+
+    return NextResponse.json({
+      success: errors.length === 0,
+      processed,
+      errors,
+    })
+  } catch (error) {
+    console.error('Sequence runner error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Sequence run failed' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,13 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
+import { adminApiMiddleware } from '@/lib/admin-middleware'
 import { EmailCampaignService } from '@/lib/services/email-campaigns'
 import { EmailOptimizationService } from '@/lib/services/email-optimization'
+import { supabaseAdmin } from '@/lib/supabase'
+import { resolveTestSend, testSendSchema } from '@/lib/campaign-test-send'
+import type { CampaignTestSend } from '@/lib/services/email-campaigns'
+import type { BetaSignup } from '@/types'
 
 /**
  * Advanced Email Campaign Management API
  * Handles welcome series, A/B testing, optimization, and analytics
  */
 
+// Actions that send email, and so accept a `test` option
+const SENDING_ACTIONS = [
+  'welcome_series',
+  'early_access',
+  're_engagement',
+  'monthly_newsletter',
+]
+
 // Enhanced campaign schemas
 const welcomeSeriesSchema = z.object({
   user_ids: z.array(z.string()).min(1, 'At least one user ID required'),
@@ -74,10 +87,10 @@ const reEngagementSchema = z.object({
  */
 export async function POST(request: NextRequest) {
   try {
-    // Basic auth check
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || authHeader !== `Bearer ${process.env.ADMIN_API_KEY}`) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    // Check admin authentication and role
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
     }
 
     const url = new URL(request.url)
@@ -102,18 +115,34 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json()
 
+    const test = testSendSchema.optional().parse(body?.test)
+    if (test && !SENDING_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { success: false, error: `Action ${action} does not send email` },
+        { status: 400 }
+      )
+    }
+
+    const { testSend, response: testSendResponse } = await resolveTestSend(
+      request,
+      test
+    )
+    if (testSendResponse) {
+      return testSendResponse
+    }
+
     switch (action) {
       case 'welcome_series':
-        return await handleWelcomeSeries(body)
+        return await handleWelcomeSeries(body, testSend)
 
       case 'early_access':
-        return await handleEarlyAccess(body)
+        return await handleEarlyAccess(body, testSend)
 
       case 're_engagement':
-        return await handleReEngagement(body)
+        return await handleReEngagement(body, testSend)
 
       case 'monthly_newsletter':
-        return await handleMonthlyNewsletter(body)
+        return await handleMonthlyNewsletter(body, testSend)
 
       case 'ab_test':
         return await handleABTest(body)
@@ -159,10 +188,10 @@ export async function POST(request: NextRequest) {
  */
 export async function GET(request: NextRequest) {
   try {
-    // Basic auth check
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || authHeader !== `Bearer ${process.env.ADMIN_API_KEY}`) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    // Check admin authentication and role
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
     }
 
     const url = new URL(request.url)
@@ -230,42 +259,54 @@ export async function GET(request: NextRequest) {
 }
 
 // Handler functions for different campaign types
-async function handleWelcomeSeries(body: unknown) {
+async function handleWelcomeSeries(body: unknown, testSend?: CampaignTestSend) {
   const data = welcomeSeriesSchema.parse(body)
 
+  const { data: users, error } = await supabaseAdmin
+    .from('beta_signups')
+    .select('*')
+    .in('id', data.user_ids)
+
+  if (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch users' },
+      { status: 500 }
+    )
+  }
+
   const results = []
   const errors = []
 
-  for (const userId of data.user_ids) {
+  for (const user of EmailCampaignService.getAudience(
+    users as BetaSignup[],
+    testSend
+  )) {
     try {
-      // Get user data (simplified - would use proper Supabase query)
-      const user = {
-        id: userId,
-        email: `user-${userId}@example.com`,
-        github_username: 'developer',
-        created_at: new Date().toISOString(),
-      }
-
-      let result
-      if (data.series_type === 'day_3') {
-        result = await EmailCampaignService.sendWelcomeDayThree(user as any)
-      } else {
-        result = await EmailCampaignService.sendWelcomeWeekOne(user as any)
-      }
+      const result =
+        data.series_type === 'day_3'
+          ? await EmailCampaignService.sendWelcomeDayThree(user, undefined, {
+              is_test: !!testSend,
+            })
+          : await EmailCampaignService.sendWelcomeWeekOne(user, undefined, {
+              is_test: !!testSend,
+            })
 
       if (result.success) {
-        results.push({ user_id: userId, message_id: result.messageId })
+        results.push({ user_id: user.id, message_id: result.messageId })
       } else {
-        errors.push({ user_id: userId, error: result.error })
+        errors.push({ user_id: user.id, error: result.error })
       }
     } catch (err) {
-      errors.push({ user_id: userId, error: `Failed to process user: ${err}` })
+      errors.push({ user_id: user.id, error: `Failed to process user: ${err}` })
     }
   }
 
   return NextResponse.json({
     success: true,
-    message: `Welcome series ${data.series_type} sent`,
+    message: testSend
+      ? `Welcome series ${data.series_type} test sent`
+      : `Welcome series ${data.series_type} sent`,
+    is_test: !!testSend,
     results: {
       successful: results.length,
       failed: errors.length,
@@ -274,7 +315,7 @@ async function handleWelcomeSeries(body: unknown) {
   })
 }
 
-async function handleEarlyAccess(body: unknown) {
+async function handleEarlyAccess(body: unknown, testSend?: CampaignTestSend) {
   const data = earlyAccessSchema.parse(body)
 
   const result = await EmailCampaignService.sendEarlyAccessInvitation(
@@ -284,12 +325,14 @@ async function handleEarlyAccess(body: unknown) {
       download_link: data.download_link,
       instructions_link: data.instructions_link,
       exclusive_features: data.exclusive_features,
-    }
+    },
+    testSend
   )
 
   return NextResponse.json({
     success: true,
     message: 'Early access invitations sent',
+    is_test: !!testSend,
     stats: {
       campaign_id: result.campaign_id,
       total_sent: result.total_sent,
@@ -298,16 +341,18 @@ async function handleEarlyAccess(body: unknown) {
   })
 }
 
-async function handleReEngagement(body: unknown) {
+async function handleReEngagement(body: unknown, testSend?: CampaignTestSend) {
   const data = reEngagementSchema.parse(body)
 
   const result = await EmailCampaignService.sendReEngagementCampaign(
-    data.inactivity_threshold_days
+    data.inactivity_threshold_days,
+    testSend
   )
 
   return NextResponse.json({
     success: true,
     message: 'Re-engagement campaign sent',
+    is_test: !!testSend,
     stats: {
       campaign_id: result.campaign_id,
       total_sent: result.total_sent,
@@ -316,7 +361,10 @@ async function handleReEngagement(body: unknown) {
   })
 }
 
-async function handleMonthlyNewsletter(body: unknown) {
+async function handleMonthlyNewsletter(
+  body: unknown,
+  testSend?: CampaignTestSend
+) {
   const bodyData = body as any
   const newsletterData = {
     update_title: bodyData.subject || 'Silent Scribe Monthly Update',
@@ -328,12 +376,14 @@ async function handleMonthlyNewsletter(body: unknown) {
 
   const result = await EmailCampaignService.sendMonthlyNewsletter(
     newsletterData,
-    bodyData.segment_filter
+    bodyData.segment_filter,
+    testSend
   )
 
   return NextResponse.json({
     success: true,
     message: 'Monthly newsletter sent',
+    is_test: !!testSend,
     stats: {
       campaign_id: result.campaign_id,
       total_sent: result.total_sent,
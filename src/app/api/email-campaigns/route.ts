@@ -1,51 +1,82 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
+import { adminApiMiddleware } from '@/lib/admin-middleware'
 import { EmailCampaignService } from '@/lib/services/email-campaigns'
-import { SegmentationService } from '@/lib/services'
+import { SegmentationService, SegmentService } from '@/lib/services'
 import { supabaseAdmin } from '@/lib/supabase'
+import { resolveTestSend, testSendSchema } from '@/lib/campaign-test-send'
 
 // Validation schemas
-const campaignSchema = z.object({
-  type: z.enum([
-    'welcome',
-    'development_update',
-    'feedback_request',
-    'early_access',
-    're_engagement',
-    'custom',
-  ]),
-  subject: z.string().min(1, 'Subject is required'),
-  content: z.string().min(1, 'Content is required'),
-  segmentFilter: z
-    .enum([
-      'all',
-      'high_engagement',
-      'has_github',
-      'large_teams',
-      'recent_signups',
-      'inactive_users',
-    ])
-    .optional()
-    .default('all'),
-  templateId: z.string().optional(),
-  scheduledAt: z.string().datetime().optional(),
-  testMode: z.boolean().optional().default(false),
-})
+const campaignSchema = z
+  .object({
+    type: z.enum([
+      'welcome',
+      'development_update',
+      'feedback_request',
+      'early_access',
+      're_engagement',
+      'custom',
+    ]),
+    subject: z.string().min(1, 'Subject is required'),
+    content: z.string().min(1, 'Content is required'),
+    segmentFilter: z
+      .enum([
+        'all',
+        'high_engagement',
+        'has_github',
+        'large_teams',
+        'recent_signups',
+        'inactive_users',
+      ])
+      .optional()
+      .default('all'),
+    segmentId: z.string().uuid().optional(), // A saved segment
+    templateId: z.string().optional(),
+    scheduledAt: z.string().datetime().optional(),
+    test: testSendSchema.optional(), // Send only to internal addresses
+  })
+  .refine(
+    (campaign) => !campaign.segmentId || campaign.segmentFilter === 'all',
+    {
+      message: 'Use either segmentFilter or segmentId, not both',
+      path: ['segmentId'],
+    }
+  )
 
 /**
  * Send email campaigns to beta users
  */
 export async function POST(request: NextRequest) {
   try {
-    // Basic auth check (in production, use proper authentication)
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || authHeader !== `Bearer ${process.env.ADMIN_API_KEY}`) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    // Check admin authentication and role
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
     }
 
     const body = await request.json()
     const validatedData = campaignSchema.parse(body)
 
+    const { testSend, response: testSendResponse } = await resolveTestSend(
+      request,
+      validatedData.test
+    )
+    if (testSendResponse) {
+      return testSendResponse
+    }
+
+    if (validatedData.segmentId) {
+      const { error: segmentError } = await SegmentService.getById(
+        validatedData.segmentId
+      )
+      if (segmentError) {
+        return NextResponse.json(
+          { success: false, error: segmentError },
+          { status: 400 }
+        )
+      }
+    }
+
     // Handle different campaign types using our new service
     let campaignResult: {
       campaign_id: string
@@ -66,8 +97,9 @@ export async function POST(request: NextRequest) {
 
       case 'development_update':
         // Map segment filter to our service format
-        const segmentFilter =
-          validatedData.segmentFilter === 'high_engagement'
+        const segmentFilter = validatedData.segmentId
+          ? { segment_id: validatedData.segmentId }
+          : validatedData.segmentFilter === 'high_engagement'
             ? { engagement_level: 'high' as const }
             : validatedData.segmentFilter === 'recent_signups'
               ? { beta_status: 'pending' as const }
@@ -80,13 +112,15 @@ export async function POST(request: NextRequest) {
             features_highlights: [], // Should be passed in request
             feedback_link: `${process.env.NEXT_PUBLIC_SITE_URL}/feedback`,
           },
-          segmentFilter
+          segmentFilter,
+          testSend
         )
         break
 
       case 'feedback_request':
-        const fbSegmentFilter =
-          validatedData.segmentFilter === 'high_engagement'
+        const fbSegmentFilter = validatedData.segmentId
+          ? { segment_id: validatedData.segmentId }
+          : validatedData.segmentFilter === 'high_engagement'
             ? { engagement_level: 'high' as const }
             : undefined
 
@@ -97,7 +131,8 @@ export async function POST(request: NextRequest) {
             estimated_time: '3 minutes',
           },
           undefined,
-          fbSegmentFilter
+          fbSegmentFilter,
+          testSend
         )
         break
 
@@ -115,8 +150,11 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      message: `Campaign sent successfully`,
+      message: testSend
+        ? `Test sent to ${testSend.recipients.length} address(es)`
+        : `Campaign sent successfully`,
       campaign_id: campaignResult.campaign_id,
+      is_test: !!testSend,
       stats: {
         totalRecipients: sentCount + errors.length,
         sentCount,
@@ -150,10 +188,10 @@ export async function POST(request: NextRequest) {
  */
 export async function GET(request: NextRequest) {
   try {
-    // Basic auth check
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || authHeader !== `Bearer ${process.env.ADMIN_API_KEY}`) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    // Check admin authentication and role
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
     }
 
     // Get user segments info using our new service
@@ -163,6 +201,7 @@ export async function GET(request: NextRequest) {
       await SegmentationService.segmentByTools()
     const { segments: teamSegments } =
       await SegmentationService.segmentByTeamSize()
+    const { data: savedSegments } = await SegmentService.getAll()
 
     // Get recent campaigns
     const { data: recentCampaigns } = await supabaseAdmin
@@ -175,6 +214,7 @@ export async function GET(request: NextRequest) {
     const { data: emailStats } = await supabaseAdmin
       .from('email_events')
       .select('event_type, count(*)')
+      .eq('is_test', false)
       .gte(
         'created_at',
         new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()
@@ -202,6 +242,12 @@ export async function GET(request: NextRequest) {
           smallTeams:
             teamSegments.find((s) => s.id === 'small-team')?.count || 0,
         },
+        savedSegments: (savedSegments || []).map((segment) => ({
+          id: segment.id,
+          name: segment.name,
+          lastCount: segment.last_count ?? null,
+          lastCountedAt: segment.last_counted_at || null,
+        })),
         recentCampaigns,
         emailStats,
       },
@@ -0,0 +1,207 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { adminApiMiddleware } from '@/lib/admin-middleware'
+import { EmailCampaignService } from '@/lib/services/email-campaigns'
+import { SegmentService } from '@/lib/services/segments'
+import { isEmailTemplateKey } from '@/lib/email-templates'
+
+const segmentFilterSchema = z
+  .object({
+    engagement_level: z.enum(['high', 'medium', 'low']).optional(),
+    beta_status: z.enum(['pending', 'invited', 'active']).optional(),
+    team_size: z.array(z.string()).optional(),
+    segment_id: z.string().uuid().optional(), // A saved segment
+  })
+  .refine(
+    (filter) =>
+      !filter.segment_id ||
+      (!filter.engagement_level && !filter.beta_status && !filter.team_size),
+    'A segment_id filter cannot be combined with other fields'
+  )
+  .optional()
+
+const futureDatetime = z
+  .string()
+  .datetime()
+  .refine(
+    (value) => new Date(value).getTime() > Date.now(),
+    'Scheduled time must be in the future'
+  )
+
+const scheduleSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  templateId: z
+    .string()
+    .min(1, 'Template ID is required')
+    .refine(
+      (value) => isEmailTemplateKey(value) || value.startsWith('d-'),
+      'Template ID must be a repo template key or a SendGrid template ID'
+    ),
+  subject: z.string().min(1, 'Subject is required'),
+  templateData: z.record(z.string(), z.any()).optional().default({}),
+  segmentFilter: segmentFilterSchema,
+  scheduledAt: futureDatetime,
+  // Deliver at each recipient's best local time within 24 hours of
+  // scheduledAt instead of all at once
+  optimizeSendTime: z.boolean().optional().default(false),
+})
+
+const updateSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('cancel'),
+    campaignId: z.string().min(1),
+  }),
+  z.object({
+    action: z.literal('reschedule'),
+    campaignId: z.string().min(1),
+    scheduledAt: futureDatetime,
+  }),
+])
+
+/**
+ * Scheduled Campaigns API
+ * List, schedule, cancel and reschedule campaigns sent by the cron
+ * dispatcher
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const { data, error } = await EmailCampaignService.getScheduledCampaigns()
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    console.error('Scheduled campaigns fetch error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch scheduled campaigns' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Schedule a campaign for later sending
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const body = await request.json()
+    const validatedData = scheduleSchema.parse(body)
+
+    // The segment is resolved at send time, but should exist now
+    if (validatedData.segmentFilter?.segment_id) {
+      const { error: segmentError } = await SegmentService.getById(
+        validatedData.segmentFilter.segment_id
+      )
+      if (segmentError) {
+        return NextResponse.json(
+          { success: false, error: segmentError },
+          { status: 400 }
+        )
+      }
+    }
+
+    const { campaign_id, error } = await EmailCampaignService.scheduleCampaign({
+      name: validatedData.name,
+      template_id: validatedData.templateId,
+      subject: validatedData.subject,
+      template_data: validatedData.templateData,
+      segment_filter: validatedData.segmentFilter,
+      scheduled_at: validatedData.scheduledAt,
+      optimize_send_time: validatedData.optimizeSendTime,
+    })
+
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 500 })
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        campaign_id,
+        scheduled_at: validatedData.scheduledAt,
+        optimize_send_time: validatedData.optimizeSendTime,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid campaign data',
+          details: error.issues,
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Campaign scheduling error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to schedule campaign' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Cancel or reschedule a campaign that hasn't started sending
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const body = await request.json()
+    const validatedData = updateSchema.parse(body)
+
+    const { error } =
+      validatedData.action === 'cancel'
+        ? await EmailCampaignService.cancelScheduledCampaign(
+            validatedData.campaignId
+          )
+        : await EmailCampaignService.rescheduleCampaign(
+            validatedData.campaignId,
+            validatedData.scheduledAt
+          )
+
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      campaign_id: validatedData.campaignId,
+      action: validatedData.action,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues,
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Campaign update error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update campaign' },
+      { status: 500 }
+    )
+  }
+}
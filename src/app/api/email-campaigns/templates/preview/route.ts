@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { adminApiMiddleware } from '@/lib/admin-middleware'
+import {
+  EMAIL_TEMPLATE_DEFINITIONS,
+  EMAIL_TEMPLATE_KEYS,
+  getEmailTemplateVariables,
+  isEmailTemplateKey,
+  previewEmailTemplate,
+  type EmailTemplateKey,
+} from '@/lib/email-templates'
+
+const previewSchema = z.object({
+  template: z.enum(
+    EMAIL_TEMPLATE_KEYS as [EmailTemplateKey, ...EmailTemplateKey[]]
+  ),
+  data: z.record(z.string(), z.unknown()).optional().default({}),
+  use_sample_data: z.boolean().optional().default(true),
+  // Unsaved edits to render in place of the stored template
+  draft: z
+    .object({
+      subject: z.string().min(1).optional(),
+      html: z.string().min(1).optional(),
+      text: z.string().min(1).optional(),
+    })
+    .optional(),
+})
+
+/**
+ * Email Template Preview API
+ * Renders the repo templates to HTML and plain text with sample data, and
+ * reports variables that would come out empty or that the template's
+ * payload type doesn't have, before anything is sent.
+ *
+ * GET lists the templates, or previews one with ?template=<key>.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const { searchParams } = new URL(request.url)
+    const key = searchParams.get('template')
+
+    if (!key) {
+      return NextResponse.json({
+        success: true,
+        templates: EMAIL_TEMPLATE_KEYS.map((templateKey) => ({
+          key: templateKey,
+          name: EMAIL_TEMPLATE_DEFINITIONS[templateKey].name,
+          description: EMAIL_TEMPLATE_DEFINITIONS[templateKey].description,
+          subject: EMAIL_TEMPLATE_DEFINITIONS[templateKey].subject,
+          variables: getEmailTemplateVariables(templateKey),
+        })),
+      })
+    }
+
+    if (!isEmailTemplateKey(key)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown template: ${key}` },
+        { status: 404 }
+      )
+    }
+
+    const preview = previewEmailTemplate(key)
+    if (preview.error) {
+      return NextResponse.json(
+        { success: false, error: preview.error },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, template: key, ...preview })
+  } catch (error) {
+    console.error('Template preview error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to preview template' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Preview a template with custom data and optional draft edits
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
+    }
+
+    const body = await request.json()
+    const validatedData = previewSchema.parse(body)
+
+    const preview = previewEmailTemplate(validatedData.template, {
+      data: validatedData.data,
+      useSampleData: validatedData.use_sample_data,
+      draft: validatedData.draft,
+    })
+
+    // A syntax error in a draft is the caller's to fix
+    if (preview.error) {
+      return NextResponse.json(
+        { success: false, error: preview.error },
+        { status: validatedData.draft ? 400 : 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      template: validatedData.template,
+      ...preview,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid preview request',
+          details: error.issues,
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('Template preview error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to preview template' },
+      { status: 500 }
+    )
+  }
+}
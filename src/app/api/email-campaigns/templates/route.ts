@@ -1,16 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import sgMail from '@sendgrid/mail'
+import { adminApiMiddleware } from '@/lib/admin-middleware'
 import sgClient from '@sendgrid/client'
+import {
+  EMAIL_TEMPLATE_DEFINITIONS,
+  EMAIL_TEMPLATE_KEYS,
+  getEmailTemplateVariables,
+  type EmailTemplateKey,
+} from '@/lib/email-templates'
 
 /**
  * SendGrid Email Template Management API
- * Handles creation, updating, and management of email templates
+ * Handles creation, updating, and management of email templates in
+ * SendGrid. Campaign sends use the repo templates in lib/email-templates.ts
+ * (preview them at /api/email-campaigns/templates/preview); these are for
+ * sends that still reference a SendGrid template ID.
  */
 
 // Initialize SendGrid
 if (process.env.SENDGRID_API_KEY) {
-  sgMail.setApiKey(process.env.SENDGRID_API_KEY)
   sgClient.setApiKey(process.env.SENDGRID_API_KEY)
 }
 
@@ -20,18 +28,9 @@ const templateSchema = z.object({
   subject: z.string().min(1, 'Subject is required'),
   html_content: z.string().min(1, 'HTML content is required'),
   plain_content: z.string().optional(),
-  template_type: z.enum([
-    'welcome_immediate',
-    'welcome_day_3',
-    'welcome_week_1',
-    'development_update',
-    'monthly_newsletter',
-    'feedback_request',
-    'early_access',
-    're_engagement',
-    'beta_feature_announcement',
-    'community_highlights',
-  ]),
+  template_type: z.enum(
+    EMAIL_TEMPLATE_KEYS as [EmailTemplateKey, ...EmailTemplateKey[]]
+  ),
   variables: z.array(z.string()).optional().default([]),
   generation_id: z.string().optional(), // SendGrid versioning
 })
@@ -40,128 +39,25 @@ const templateUpdateSchema = templateSchema.partial().extend({
   template_id: z.string().min(1, 'Template ID is required'),
 })
 
-// Template variable definitions for different types
-const TEMPLATE_VARIABLES = {
-  welcome_immediate: [
-    'first_name',
-    'github_username',
-    'user_email',
-    'beta_signup_date',
-    'unsubscribe_url',
-    'community_links.discord',
-    'community_links.github',
-    'community_links.twitter',
-  ],
-  welcome_day_3: [
-    'first_name',
-    'github_username',
-    'user_email',
-    'unsubscribe_url',
-    'beta_signup_date',
-    'community_links.discord',
-    'community_links.github',
-  ],
-  welcome_week_1: [
-    'first_name',
-    'github_username',
-    'user_email',
-    'unsubscribe_url',
-    'beta_signup_date',
-    'community_links.discord',
-    'community_links.github',
-  ],
-  development_update: [
-    'first_name',
-    'user_email',
-    'update_title',
-    'update_content',
-    'features_highlights',
-    'roadmap_items',
-    'feedback_link',
-    'unsubscribe_url',
-    'update_date',
-  ],
-  monthly_newsletter: [
-    'first_name',
-    'user_email',
-    'update_title',
-    'update_content',
-    'features_highlights',
-    'roadmap_items',
-    'community_stats.beta_users',
-    'community_stats.github_stars',
-    'community_stats.discord_members',
-    'feedback_link',
-    'unsubscribe_url',
-    'update_date',
-  ],
-  feedback_request: [
-    'first_name',
-    'user_email',
-    'feedback_type',
-    'survey_link',
-    'estimated_time',
-    'incentive_message',
-    'unsubscribe_url',
-    'request_date',
-  ],
-  early_access: [
-    'first_name',
-    'user_email',
-    'access_level',
-    'download_link',
-    'instructions_link',
-    'exclusive_features',
-    'unsubscribe_url',
-    'invitation_date',
-  ],
-  re_engagement: [
-    'first_name',
-    'user_email',
-    'inactivity_days',
-    'recent_updates',
-    'feedback_link',
-    'unsubscribe_url',
-    'campaign_date',
-  ],
-  beta_feature_announcement: [
-    'first_name',
-    'user_email',
-    'feature_name',
-    'feature_description',
-    'beta_link',
-    'feedback_link',
-    'unsubscribe_url',
-  ],
-  community_highlights: [
-    'first_name',
-    'user_email',
-    'highlight_title',
-    'community_achievements',
-    'user_spotlights',
-    'upcoming_events',
-    'unsubscribe_url',
-  ],
-} as const
-
 /**
  * POST /api/email-campaigns/templates
  * Create new SendGrid email template
  */
 export async function POST(request: NextRequest) {
   try {
-    // Basic auth check
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || authHeader !== `Bearer ${process.env.ADMIN_API_KEY}`) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    // Check admin authentication and role
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
     }
 
     const body = await request.json()
     const validatedData = templateSchema.parse(body)
 
     // Get template variables for the type
-    const templateVariables =
-      TEMPLATE_VARIABLES[validatedData.template_type] || []
+    const templateVariables = getEmailTemplateVariables(
+      validatedData.template_type
+    )
 
     // Create SendGrid template
     const templateData = {
@@ -189,7 +85,8 @@ export async function POST(request: NextRequest) {
         generatePlainText(validatedData.html_content),
       subject: validatedData.subject,
       editor: 'code', // Use code editor for better control
-      test_data: generateTestData(validatedData.template_type),
+      test_data:
+        EMAIL_TEMPLATE_DEFINITIONS[validatedData.template_type].sample_data,
     }
 
     const versionResponse = await sgClient.request({
@@ -269,10 +166,10 @@ export async function POST(request: NextRequest) {
  */
 export async function GET(request: NextRequest) {
   try {
-    // Basic auth check
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || authHeader !== `Bearer ${process.env.ADMIN_API_KEY}`) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    // Check admin authentication and role
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
     }
 
     const url = new URL(request.url)
@@ -375,10 +272,10 @@ export async function GET(request: NextRequest) {
  */
 export async function PUT(request: NextRequest) {
   try {
-    // Basic auth check
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || authHeader !== `Bearer ${process.env.ADMIN_API_KEY}`) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    // Check admin authentication and role
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
     }
 
     const body = await request.json()
@@ -476,10 +373,10 @@ export async function PUT(request: NextRequest) {
  */
 export async function DELETE(request: NextRequest) {
   try {
-    // Basic auth check
-    const authHeader = request.headers.get('authorization')
-    if (!authHeader || authHeader !== `Bearer ${process.env.ADMIN_API_KEY}`) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    // Check admin authentication and role
+    const authResponse = await adminApiMiddleware(request)
+    if (authResponse) {
+      return authResponse
     }
 
     const url = new URL(request.url)
@@ -541,102 +438,7 @@ function generatePlainText(html: string): string {
     .trim()
 }
 
-function generateTestData(
-  templateType: keyof typeof TEMPLATE_VARIABLES
-): Record<string, unknown> {
-  const baseTestData = {
-    first_name: 'Developer',
-    user_email: 'test@example.com',
-    unsubscribe_url:
-      'https://silentscribe.dev/unsubscribe?email=test@example.com',
-  }
-
-  switch (templateType) {
-    case 'welcome_immediate':
-    case 'welcome_day_3':
-    case 'welcome_week_1':
-      return {
-        ...baseTestData,
-        github_username: 'testdev',
-        beta_signup_date: 'January 15, 2025',
-        community_links: {
-          discord: 'https://discord.gg/silentscribe',
-          github: 'https://github.com/silentscribe',
-          twitter: 'https://twitter.com/silentscribe',
-        },
-      }
-
-    case 'development_update':
-    case 'monthly_newsletter':
-      return {
-        ...baseTestData,
-        update_title: 'Silent Scribe Development Update - January 2025',
-        update_content:
-          'This month we focused on improving the privacy-first architecture...',
-        features_highlights: [
-          'Local processing engine',
-          'VS Code integration',
-          'Custom rule support',
-        ],
-        roadmap_items: [
-          'Beta release',
-          'Multi-editor support',
-          'Team features',
-        ],
-        feedback_link: 'https://silentscribe.dev/feedback',
-        update_date: 'January 31, 2025',
-        community_stats: {
-          beta_users: 1250,
-          github_stars: 89,
-          discord_members: 245,
-        },
-      }
-
-    case 'feedback_request':
-      return {
-        ...baseTestData,
-        feedback_type: 'general',
-        survey_link: 'https://silentscribe.dev/survey/12345',
-        estimated_time: '3 minutes',
-        incentive_message: 'Early access to new features!',
-        request_date: 'January 25, 2025',
-      }
-
-    case 'early_access':
-      return {
-        ...baseTestData,
-        access_level: 'beta',
-        download_link: 'https://silentscribe.dev/download/beta',
-        instructions_link: 'https://silentscribe.dev/beta-guide',
-        exclusive_features: [
-          'Local processing',
-          'Custom rules',
-          'VS Code integration',
-        ],
-        invitation_date: 'January 20, 2025',
-      }
-
-    case 're_engagement':
-      return {
-        ...baseTestData,
-        inactivity_days: 30,
-        recent_updates: [
-          'Privacy improvements',
-          'Performance boost',
-          'New rule engine',
-        ],
-        feedback_link: 'https://silentscribe.dev/feedback',
-        campaign_date: 'January 28, 2025',
-      }
-
-    default:
-      return baseTestData
-  }
-}
-
-function inferTemplateType(
-  templateName: string
-): keyof typeof TEMPLATE_VARIABLES | 'unknown' {
+function inferTemplateType(templateName: string): EmailTemplateKey | 'unknown' {
   const name = templateName.toLowerCase()
 
   if (name.includes('welcome') && name.includes('immediate'))
@@ -650,17 +452,13 @@ function inferTemplateType(
   if (name.includes('feedback')) return 'feedback_request'
   if (name.includes('early') && name.includes('access')) return 'early_access'
   if (name.includes('re') && name.includes('engagement')) return 're_engagement'
-  if (name.includes('beta') && name.includes('feature'))
-    return 'beta_feature_announcement'
-  if (name.includes('community') && name.includes('highlights'))
-    return 'community_highlights'
 
   return 'unknown'
 }
 
 function getVariablesForInferredType(
-  type: keyof typeof TEMPLATE_VARIABLES | 'unknown'
+  type: EmailTemplateKey | 'unknown'
 ): string[] {
   if (type === 'unknown') return []
-  return [...(TEMPLATE_VARIABLES[type] || [])]
+  return getEmailTemplateVariables(type)
 }
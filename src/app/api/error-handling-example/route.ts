@@ -33,17 +33,15 @@ async function handler(request: NextRequest) {
     }
 
     const { data, error } = await (supabaseAdmin as any)
-      .from('page_analytics')
+      .from('client_errors')
       .select('count(*)')
-      .eq('event_type', 'error')
       .single()
 
     if (error) {
       // Log database error with context
       await logDatabaseError(error.message, {
         operation: 'count_errors',
-        table: 'page_analytics',
-        filter: 'event_type = error',
+        table: 'client_errors',
       })
       throw new Error(`Database query failed: ${error.message}`)
     }
@@ -1,100 +1,83 @@
 import { NextRequest, NextResponse } from 'next/server'
-import crypto from 'crypto'
+import { SendGridWebhookService } from '@/lib/services'
+import { verifySignedWebhook } from '@/lib/webhook-signature'
 
 /**
  * SendGrid webhook handler for email events
  *
  * Webhook URL: https://silentscribe.dev/api/sendgrid-webhook
  * Webhook ID: 6ae42398-d7a8-451a-bfdc-cfca20225273
- * Events: sent, delivered, opened, clicked, bounce, dropped, spamreport, unsubscribe
+ * Events: delivered, open, click, bounce, dropped, spamreport, unsubscribe,
+ * group_unsubscribe
+ *
+ * Events are applied by SendGridWebhookService, which skips sg_event_ids
+ * it has already processed.
  */
 
-// Verify webhook signature
-function verifyWebhookSignature(
-  publicKey: string,
-  payload: string,
-  signature: string,
-  timestamp: string
-): boolean {
-  try {
-    const timestampedPayload = timestamp + payload
-    const expectedSignature = crypto
-      .createHmac('sha256', publicKey)
-      .update(timestampedPayload)
-      .digest('base64')
-
-    return crypto.timingSafeEqual(
-      Buffer.from(signature, 'base64'),
-      Buffer.from(expectedSignature, 'base64')
-    )
-  } catch (err) {
-    console.error('Error verifying webhook signature:', err)
-    return false
-  }
-}
-
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.text()
-    const events = JSON.parse(body)
-
-    // Verify webhook signature if configured
+    // Signed Event Webhook: SendGrid signs the raw body with its ECDSA key
     const publicKey = process.env.SENDGRID_WEBHOOK_PUBLIC_KEY
-    if (publicKey) {
-      const signature = request.headers.get(
-        'x-twilio-email-event-webhook-signature'
-      )
-      const timestamp = request.headers.get(
-        'x-twilio-email-event-webhook-timestamp'
-      )
+    let body: string
 
-      if (!signature || !timestamp) {
-        console.error('Missing webhook signature or timestamp')
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    if (publicKey) {
+      const verification = await verifySignedWebhook(request, {
+        publicKey,
+        signatureHeader: 'x-twilio-email-event-webhook-signature',
+        timestampHeader: 'x-twilio-email-event-webhook-timestamp',
+      })
+      if (verification.response) {
+        return verification.response
       }
+      body = verification.body
+    } else if (process.env.NODE_ENV === 'production') {
+      // Never accept unsigned events in production
+      console.error('SENDGRID_WEBHOOK_PUBLIC_KEY not configured')
+      return NextResponse.json(
+        { success: false, error: 'Webhook not configured' },
+        { status: 500 }
+      )
+    } else {
+      // Unsigned events are only accepted locally, for testing
+      body = await request.text()
+    }
 
-      const isValid = verifyWebhookSignature(
-        publicKey,
-        body,
-        signature,
-        timestamp
+    let events: unknown
+    try {
+      events = JSON.parse(body)
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON payload' },
+        { status: 400 }
       )
-      if (!isValid) {
-        console.error('Invalid webhook signature')
-        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-      }
     }
 
     if (!Array.isArray(events)) {
       return NextResponse.json(
-        { error: 'Invalid payload format' },
+        { success: false, error: 'Invalid payload format' },
         { status: 400 }
       )
     }
 
-    // Process webhook events using our service
-    const { SendGridWebhookService } = await import(
-      '@/lib/services/sendgrid-webhook'
-    )
+    const { data: result, error } =
+      await SendGridWebhookService.processEvents(events)
 
-    // Convert NextRequest to a format our service expects
-    const mockReq = {
-      body: events,
-      headers: Object.fromEntries(request.headers.entries()),
+    if (error || !result) {
+      console.error('SendGrid webhook error:', error)
+      return NextResponse.json(
+        { success: false, error: 'Webhook processing failed' },
+        { status: 500 }
+      )
     }
 
-    const mockRes = {
-      status: (code: number) => ({
-        json: (data: any) => ({ status: code, data }),
-      }),
-    }
+    // A non-2xx makes SendGrid redeliver the batch. Events that were
+    // applied are skipped as duplicates, so only the failures are retried.
+    const retry = result.failed.some((failure) => failure.retryable)
 
-    await SendGridWebhookService.processWebhookEvents(
-      mockReq as any,
-      mockRes as any
+    return NextResponse.json(
+      { success: !retry, ...result },
+      { status: retry ? 500 : 200 }
     )
-
-    return NextResponse.json({ success: true, processed: events.length })
   } catch (error) {
     console.error('SendGrid webhook error:', error)
     return NextResponse.json(
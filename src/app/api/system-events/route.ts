@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { RealtimeService } from '@/lib/services/realtime'
+import { verifySignedWebhook } from '@/lib/webhook-signature'
 
 /**
  * System Events Webhook Handler
@@ -8,16 +9,35 @@ import { RealtimeService } from '@/lib/services/realtime'
  */
 export async function POST(request: NextRequest) {
   try {
-    // Verify webhook signature (simplified - in production, verify with proper HMAC)
-    const signature = request.headers.get('x-webhook-signature')
-    const expectedSignature = process.env.WEBHOOK_SECRET
+    // Senders sign `x-webhook-timestamp` + raw body with their ECDSA
+    // (P-256) private key, the same scheme as SendGrid's signed webhooks
+    const publicKey = process.env.SYSTEM_EVENTS_WEBHOOK_PUBLIC_KEY
+    if (!publicKey) {
+      console.error('SYSTEM_EVENTS_WEBHOOK_PUBLIC_KEY not configured')
+      return NextResponse.json(
+        { success: false, error: 'Webhook not configured' },
+        { status: 500 }
+      )
+    }
 
-    if (!signature || signature !== expectedSignature) {
-      console.warn('Invalid webhook signature received')
-      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+    const verification = await verifySignedWebhook(request, {
+      publicKey,
+      signatureHeader: 'x-webhook-signature',
+      timestampHeader: 'x-webhook-timestamp',
+    })
+    if (verification.response) {
+      return verification.response
     }
 
-    const event = await request.json()
+    let event
+    try {
+      event = JSON.parse(verification.body)
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON payload' },
+        { status: 400 }
+      )
+    }
     const { type, source, data, timestamp } = event
 
     console.log('System event received:', { type, source, timestamp })
@@ -181,7 +201,8 @@ export async function GET(request: NextRequest) {
       webhook: {
         endpoint: '/api/system-events',
         methods: ['POST'],
-        authentication: 'x-webhook-signature header required',
+        authentication:
+          'ECDSA P-256 signature of x-webhook-timestamp + body in x-webhook-signature',
         supportedEvents: [
           'database.slow_query',
           'email.delivery_failure',
@@ -1,26 +1,54 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { supabaseAdmin } from '@/lib/supabase'
+import { verifyUnsubscribeToken } from '@/lib/unsubscribe-token'
 
 const unsubscribeSchema = z.object({
-  email: z.string().email('Invalid email address'),
+  token: z.string().min(1, 'Unsubscribe token is required'),
   unsubscribeType: z
     .enum(['marketing', 'research', 'all'])
     .optional()
     .default('marketing'),
 })
 
-const preferenceUpdateSchema = z.object({
-  email: z.string().email('Invalid email address'),
-  opted_in_marketing: z.boolean().optional(),
-  opted_in_research: z.boolean().optional(),
-  communication_frequency: z.enum(['daily', 'weekly', 'monthly']).optional(),
-})
+/**
+ * Read the unsubscribe request from either the unsubscribe page (JSON body)
+ * or a mail client's RFC 8058 one-click POST (token in the query string,
+ * form-encoded `List-Unsubscribe=One-Click` body)
+ */
+async function parseUnsubscribeRequest(request: NextRequest) {
+  const queryToken = request.nextUrl.searchParams.get('token')
+  const contentType = request.headers.get('content-type') || ''
+
+  if (contentType.includes('application/json')) {
+    const body = await request.json()
+    return {
+      source: 'unsubscribe_page',
+      ...unsubscribeSchema.parse({ token: queryToken, ...body }),
+    }
+  }
+
+  return {
+    source: 'list_unsubscribe_one_click',
+    ...unsubscribeSchema.parse({ token: queryToken ?? undefined }),
+  }
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
-    const { email, unsubscribeType } = unsubscribeSchema.parse(body)
+    const { token, unsubscribeType, source } =
+      await parseUnsubscribeRequest(request)
+
+    const verification = verifyUnsubscribeToken(token)
+    if (!verification.valid || !verification.claims) {
+      console.warn('Rejected unsubscribe token:', verification.error)
+      return NextResponse.json(
+        { success: false, error: 'Invalid unsubscribe link' },
+        { status: 400 }
+      )
+    }
+
+    const { email } = verification.claims
 
     // Determine what to update based on unsubscribe type
     const updateData: Record<string, unknown> = {
@@ -71,7 +99,7 @@ export async function POST(request: NextRequest) {
         event_type: 'unsubscribe',
         email_subject: 'User Unsubscribe',
         metadata: {
-          source: 'unsubscribe_page',
+          source,
           unsubscribe_type: unsubscribeType,
           user_agent_hash: hashUserAgent(
             request.headers.get('user-agent') || ''
@@ -95,7 +123,7 @@ export async function POST(request: NextRequest) {
 
     if (error instanceof z.ZodError) {
       return NextResponse.json(
-        { success: false, error: 'Invalid email address' },
+        { success: false, error: 'Invalid unsubscribe link' },
         { status: 400 }
       )
     }
@@ -118,96 +146,30 @@ function hashUserAgent(userAgent: string): string {
 }
 
 /**
- * Update communication preferences without full unsubscribe
+ * Get current subscription status for the recipient of an unsubscribe link
  */
-export async function PUT(request: NextRequest) {
+export async function GET(request: NextRequest) {
   try {
-    const body = await request.json()
-    const validatedData = preferenceUpdateSchema.parse(body)
-
-    // Build update object with only provided fields
-    const updateData: Record<string, unknown> = {
-      updated_at: new Date().toISOString(),
-    }
-
-    if (validatedData.opted_in_marketing !== undefined) {
-      updateData.opted_in_marketing = validatedData.opted_in_marketing
-    }
-    if (validatedData.opted_in_research !== undefined) {
-      updateData.opted_in_research = validatedData.opted_in_research
-    }
-
-    // Update beta_signups table
-    const { error: signupError } = await supabaseAdmin
-      .from('beta_signups')
-      .update(updateData)
-      .eq('email', validatedData.email)
-
-    if (signupError) {
-      console.error('Preference update error:', signupError)
-      return NextResponse.json(
-        { success: false, error: 'Failed to update preferences' },
-        { status: 500 }
-      )
-    }
-
-    // Update user_preferences table if communication frequency provided
-    if (validatedData.communication_frequency) {
-      const { data: user } = await supabaseAdmin
-        .from('beta_signups')
-        .select('id')
-        .eq('email', validatedData.email)
-        .single()
-
-      if (user) {
-        await supabaseAdmin.from('user_preferences').upsert({
-          user_id: user.id,
-          communication_frequency: validatedData.communication_frequency,
-          updated_at: new Date().toISOString(),
-        })
-      }
-    }
-
-    return NextResponse.json({
-      success: true,
-      message: 'Preferences updated successfully',
-    })
-  } catch (error) {
-    console.error('Preference update error:', error)
+    const { searchParams } = new URL(request.url)
+    const token = searchParams.get('token')
 
-    if (error instanceof z.ZodError) {
+    if (!token) {
       return NextResponse.json(
-        {
-          success: false,
-          error: 'Invalid preference data',
-          details: error.issues,
-        },
+        { error: 'Token parameter is required' },
         { status: 400 }
       )
     }
 
-    return NextResponse.json(
-      { success: false, error: 'Internal server error' },
-      { status: 500 }
-    )
-  }
-}
-
-/**
- * Get current subscription status
- */
-export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url)
-    const email = searchParams.get('email')
-
-    if (!email) {
+    const verification = verifyUnsubscribeToken(token)
+    if (!verification.valid || !verification.claims) {
       return NextResponse.json(
-        { error: 'Email parameter is required' },
+        { success: false, error: 'Invalid unsubscribe link' },
         { status: 400 }
       )
     }
 
+    const { email } = verification.claims
+
     // Get user data
     const { data: user, error } = await supabaseAdmin
       .from('beta_signups')
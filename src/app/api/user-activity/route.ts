@@ -38,6 +38,7 @@ export async function GET(request: NextRequest) {
         .from('email_events')
         .select('*')
         .eq('user_id', userId)
+        .eq('is_test', false)
         .gte('timestamp', yesterday.toISOString())
         .order('timestamp', { ascending: false })
         .limit(50),
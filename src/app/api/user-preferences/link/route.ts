@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { supabaseAdmin } from '@/lib/supabase'
+import { EmailCampaignService } from '@/lib/services/email-campaigns'
+
+const linkRequestSchema = z.object({
+  email: z.string().email('Invalid email address'),
+})
+
+// Minimum time between magic links sent to the same address
+const LINK_COOLDOWN_MS = 5 * 60 * 1000 // 5 minutes
+
+/**
+ * Email a preference center magic link to a beta user.
+ * The response is the same whether or not the address is registered, so
+ * this endpoint can't be used to discover who has signed up.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { email } = linkRequestSchema.parse(body)
+
+    const genericResponse = NextResponse.json({
+      success: true,
+      message:
+        'If that address is on our beta list, a link to manage your preferences is on its way.',
+    })
+
+    // Claim the send in one conditional update, so concurrent requests on
+    // different instances can't both get past the cooldown. No row comes
+    // back for unknown addresses or ones still cooling down.
+    const cooldownStart = new Date(Date.now() - LINK_COOLDOWN_MS).toISOString()
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('beta_signups')
+      .update({ preference_link_sent_at: new Date().toISOString() })
+      .eq('email', email)
+      .or(
+        `preference_link_sent_at.is.null,preference_link_sent_at.lt."${cooldownStart}"`
+      )
+      .select('id')
+
+    if (claimError) {
+      console.error('Failed to claim preference link send:', claimError)
+      return genericResponse
+    }
+
+    if (!claimed || claimed.length === 0) {
+      return genericResponse
+    }
+
+    const result = await EmailCampaignService.sendPreferenceCenterLink(email)
+    if (!result.success) {
+      // Still answer generically so a send failure doesn't reveal signups
+      console.error('Failed to send preference center link:', result.error)
+      await supabaseAdmin
+        .from('beta_signups')
+        .update({ preference_link_sent_at: null })
+        .eq('email', email)
+    }
+
+    return genericResponse
+  } catch (error) {
+    console.error('Preference link request error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid email address' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,90 +1,209 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { supabaseAdmin } from '@/lib/supabase'
+import { verifyPreferenceToken } from '@/lib/unsubscribe-token'
+import {
+  BetaSignupService,
+  EmailEventService,
+  UserPreferencesService,
+} from '@/lib/services'
+import type { UserPreferences } from '@/types'
 
 // Validation schema for user preferences
 const preferencesSchema = z.object({
-  email: z.string().email('Valid email is required'),
+  token: z.string().min(1, 'Preference link token is required'),
+  optedInMarketing: z.boolean().optional(),
+  optedInResearch: z.boolean().optional(),
   communicationFrequency: z.enum(['daily', 'weekly', 'monthly']).optional(),
   preferredContactMethod: z.string().optional(),
   timezone: z.string().optional(),
-  betaTestingAvailability: z.record(z.string(), z.unknown()).optional(),
   technicalBackground: z
     .enum(['beginner', 'intermediate', 'expert'])
     .optional(),
   areasOfInterest: z.array(z.string()).optional(),
 })
 
+const DEFAULT_PREFERENCES = {
+  communication_frequency: 'weekly' as const,
+  preferred_contact_method: 'email',
+}
+
+/**
+ * Resolve the beta user behind a preference center magic link
+ */
+async function getUserFromToken(token: string) {
+  const verification = verifyPreferenceToken(token)
+  if (!verification.valid || !verification.claims) {
+    return { user: null, error: verification.error || 'Invalid link' }
+  }
+
+  const { data: user, error } = await supabaseAdmin
+    .from('beta_signups')
+    .select('id, email, opted_in_marketing, opted_in_research')
+    .eq('email', verification.claims.email)
+    .single()
+
+  if (error || !user) {
+    return { user: null, error: 'User not found' }
+  }
+
+  return { user, error: null }
+}
+
 /**
- * Update user preferences
+ * Update user preferences from the preference center
  */
 export async function PUT(request: NextRequest) {
   try {
     const body = await request.json()
     const validatedData = preferencesSchema.parse(body)
 
-    // Find the user by email to get user_id
-    const { data: user, error: userError } = await supabaseAdmin
-      .from('beta_signups')
-      .select('id')
-      .eq('email', validatedData.email)
-      .single()
-
-    if (userError || !user) {
+    const { user, error: tokenError } = await getUserFromToken(
+      validatedData.token
+    )
+    if (!user) {
       return NextResponse.json(
-        {
-          success: false,
-          error:
-            'User not found. Please ensure you are registered for the beta program.',
-        },
-        { status: 404 }
+        { success: false, error: tokenError },
+        { status: 401 }
       )
     }
 
-    // Prepare preferences data (only include fields that were provided)
-    const preferencesData: Record<string, unknown> = { user_id: user.id }
-
-    if (validatedData.communicationFrequency) {
-      preferencesData.communication_frequency =
-        validatedData.communicationFrequency
+    const { data: existing, error: fetchError } =
+      await UserPreferencesService.getByUserId(user.id)
+    if (fetchError) {
+      console.error('Preferences fetch error:', fetchError)
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch preferences' },
+        { status: 500 }
+      )
     }
-    if (validatedData.preferredContactMethod) {
-      preferencesData.preferred_contact_method =
-        validatedData.preferredContactMethod
+
+    const current = {
+      opted_in_marketing: user.opted_in_marketing,
+      opted_in_research: user.opted_in_research,
+      communication_frequency:
+        existing?.communication_frequency ||
+        DEFAULT_PREFERENCES.communication_frequency,
+      preferred_contact_method:
+        existing?.preferred_contact_method ||
+        DEFAULT_PREFERENCES.preferred_contact_method,
+      timezone: existing?.timezone,
+      technical_background: existing?.technical_background,
+      areas_of_interest: existing?.areas_of_interest,
     }
-    if (validatedData.timezone) {
-      preferencesData.timezone = validatedData.timezone
+
+    const requested = {
+      opted_in_marketing: validatedData.optedInMarketing,
+      opted_in_research: validatedData.optedInResearch,
+      communication_frequency: validatedData.communicationFrequency,
+      preferred_contact_method: validatedData.preferredContactMethod,
+      timezone: validatedData.timezone,
+      technical_background: validatedData.technicalBackground,
+      areas_of_interest: validatedData.areasOfInterest,
     }
-    if (validatedData.betaTestingAvailability) {
-      preferencesData.beta_testing_availability =
-        validatedData.betaTestingAvailability
+
+    // Only fields that were provided and differ from what's stored
+    const changes = (
+      Object.keys(requested) as Array<keyof typeof requested>
+    ).filter(
+      (field) =>
+        requested[field] !== undefined &&
+        JSON.stringify(requested[field]) !== JSON.stringify(current[field])
+    )
+
+    if (changes.length === 0) {
+      return NextResponse.json({
+        success: true,
+        message: 'No changes to save',
+      })
     }
-    if (validatedData.technicalBackground) {
-      preferencesData.technical_background = validatedData.technicalBackground
+
+    // Opt-ins live on beta_signups
+    if (
+      changes.includes('opted_in_marketing') ||
+      changes.includes('opted_in_research')
+    ) {
+      const { error } = await BetaSignupService.updateOptIns(user.id, {
+        opted_in_marketing: requested.opted_in_marketing,
+        opted_in_research: requested.opted_in_research,
+      })
+      if (error) {
+        console.error('Opt-in update error:', error)
+        return NextResponse.json(
+          { success: false, error: 'Failed to save preferences' },
+          { status: 500 }
+        )
+      }
     }
-    if (validatedData.areasOfInterest) {
-      preferencesData.areas_of_interest = validatedData.areasOfInterest
+
+    if (
+      changes.includes('communication_frequency') ||
+      changes.includes('preferred_contact_method')
+    ) {
+      const { error } = await UserPreferencesService.updateCommunication(
+        user.id,
+        requested.communication_frequency || current.communication_frequency,
+        requested.preferred_contact_method || current.preferred_contact_method
+      )
+      if (error) {
+        console.error('Communication preferences update error:', error)
+        return NextResponse.json(
+          { success: false, error: 'Failed to save preferences' },
+          { status: 500 }
+        )
+      }
     }
 
-    // Use upsert to handle both insert and update cases
-    const { data: preferences, error: upsertError } = await supabaseAdmin
-      .from('user_preferences')
-      .upsert(preferencesData)
-      .select()
-      .single()
+    if (
+      changes.includes('timezone') ||
+      changes.includes('technical_background') ||
+      changes.includes('areas_of_interest')
+    ) {
+      const { error } = await UserPreferencesService.upsert({
+        ...existing,
+        user_id: user.id,
+        communication_frequency:
+          requested.communication_frequency || current.communication_frequency,
+        preferred_contact_method:
+          requested.preferred_contact_method ||
+          current.preferred_contact_method,
+        timezone: requested.timezone ?? current.timezone,
+        technical_background:
+          requested.technical_background ?? current.technical_background,
+        areas_of_interest:
+          requested.areas_of_interest ?? current.areas_of_interest,
+      })
+      if (error) {
+        console.error('Preferences upsert error:', error)
+        return NextResponse.json(
+          { success: false, error: 'Failed to save preferences' },
+          { status: 500 }
+        )
+      }
+    }
 
-    if (upsertError) {
-      console.error('Preferences upsert error:', upsertError)
-      return NextResponse.json(
-        { success: false, error: 'Failed to save preferences' },
-        { status: 500 }
+    // Record every change in the user's email event history
+    await Promise.all(
+      changes.map((field) =>
+        EmailEventService.logEvent({
+          user_id: user.id,
+          email_type: 'update',
+          event_type: 'preference_change',
+          email_subject: 'Preference Center Update',
+          metadata: {
+            source: 'preference_center',
+            field,
+            previous_value: current[field] ?? null,
+            new_value: requested[field],
+          },
+        })
       )
-    }
+    )
 
     return NextResponse.json({
       success: true,
       message: 'Preferences updated successfully',
-      data: preferences,
+      changed: changes,
     })
   } catch (error) {
     console.error('Preferences update error:', error)
@@ -108,46 +227,32 @@ export async function PUT(request: NextRequest) {
 }
 
 /**
- * Get user preferences
+ * Get user preferences for the preference center
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
-    const email = searchParams.get('email')
+    const token = searchParams.get('token')
 
-    if (!email) {
+    if (!token) {
       return NextResponse.json(
-        { error: 'Email parameter is required' },
+        { error: 'Token parameter is required' },
         { status: 400 }
       )
     }
 
-    // Find the user by email
-    const { data: user, error: userError } = await supabaseAdmin
-      .from('beta_signups')
-      .select('id')
-      .eq('email', email)
-      .single()
-
-    if (userError || !user) {
+    const { user, error: tokenError } = await getUserFromToken(token)
+    if (!user) {
       return NextResponse.json(
-        {
-          success: false,
-          error: 'User not found',
-        },
-        { status: 404 }
+        { success: false, error: tokenError },
+        { status: 401 }
       )
     }
 
-    // Get user preferences
-    const { data: preferences, error: prefError } = await supabaseAdmin
-      .from('user_preferences')
-      .select('*')
-      .eq('user_id', user.id)
-      .single()
+    const { data: preferences, error: prefError } =
+      await UserPreferencesService.getByUserId(user.id)
 
-    if (prefError && prefError.code !== 'PGRST116') {
-      // PGRST116 = no rows returned
+    if (prefError) {
       console.error('Preferences fetch error:', prefError)
       return NextResponse.json(
         { success: false, error: 'Failed to fetch preferences' },
@@ -155,18 +260,22 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const data: Partial<UserPreferences> & {
+      email: string
+      opted_in_marketing: boolean
+      opted_in_research: boolean
+    } = {
+      ...DEFAULT_PREFERENCES,
+      ...preferences,
+      user_id: user.id,
+      email: user.email,
+      opted_in_marketing: user.opted_in_marketing,
+      opted_in_research: user.opted_in_research,
+    }
+
     return NextResponse.json({
       success: true,
-      data: preferences || {
-        user_id: user.id,
-        communication_frequency: 'weekly',
-        preferred_contact_method: 'email',
-        timezone: null,
-        beta_testing_availability: null,
-        technical_background: null,
-        areas_of_interest: null,
-        updated_at: new Date().toISOString(),
-      },
+      data,
     })
   } catch (error) {
     console.error('Preferences GET error:', error)
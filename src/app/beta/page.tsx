@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
@@ -47,6 +47,7 @@ const betaSignupSchema = z.object({
     .refine((val) => val === true, 'Privacy consent is required'),
   marketingOptIn: z.boolean().default(true),
   researchOptIn: z.boolean().default(true),
+  referrerCode: z.string().optional(),
 })
 
 type BetaSignupFormData = z.infer<typeof betaSignupSchema>
@@ -210,6 +211,7 @@ export default function BetaSignupPage() {
   const [currentStep, setCurrentStep] = useState(0)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isSubmitted, setIsSubmitted] = useState(false)
+  const [referralLink, setReferralLink] = useState<string | null>(null)
 
   const {
     register,
@@ -233,9 +235,19 @@ export default function BetaSignupPage() {
       privacyConsent: false,
       marketingOptIn: true,
       researchOptIn: true,
+      referrerCode: undefined,
     },
   })
 
+  useEffect(() => {
+    // Invite links look like /beta?ref=CODE
+    const urlParams = new URLSearchParams(window.location.search)
+    const ref = urlParams.get('ref')
+    if (ref) {
+      setValue('referrerCode', ref)
+    }
+  }, [setValue])
+
   const watchedValues = watch()
 
   const handleNext = async () => {
@@ -267,6 +279,8 @@ export default function BetaSignupPage() {
         throw new Error('Failed to submit form')
       }
 
+      const result = await response.json()
+      setReferralLink(result.data?.referralLink || null)
       setIsSubmitted(true)
     } catch (error) {
       console.error('Form submission error:', error)
@@ -332,7 +346,7 @@ export default function BetaSignupPage() {
   }
 
   if (isSubmitted) {
-    return <SuccessPage />
+    return <SuccessPage referralLink={referralLink} />
   }
 
   return (
@@ -546,7 +560,7 @@ export default function BetaSignupPage() {
   )
 }
 
-function SuccessPage() {
+function SuccessPage({ referralLink }: { referralLink: string | null }) {
   return (
     <div className="min-h-screen bg-parchment-white flex items-center justify-center py-12">
       <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8 text-center">
@@ -576,8 +590,9 @@ function SuccessPage() {
           </h1>
 
           <p className="text-body text-muted-gray mb-6">
-            Thank you for joining our beta program. We'll be in touch soon with
-            early access information and updates on our progress.
+            Thank you for joining our beta program. We've sent you an email with
+            a link to confirm your address. Please confirm it within a few days
+            to keep your spot.
           </p>
 
           <div className="bg-gray-50 rounded-card p-4 mb-6">
@@ -585,12 +600,28 @@ function SuccessPage() {
               What's Next?
             </h3>
             <ul className="text-caption text-muted-gray space-y-1">
-              <li>• You'll receive a welcome email within 24 hours</li>
+              <li>• Confirm your email address using the link we sent you</li>
+              <li>• You'll receive a welcome email once you've confirmed</li>
               <li>• Early access invitations will be sent in batches</li>
               <li>• Join our community Discord for updates and discussions</li>
             </ul>
           </div>
 
+          {referralLink && (
+            <div className="bg-gray-50 rounded-card p-4 mb-6">
+              <h3 className="text-ui-label font-medium text-text-gray mb-2">
+                Invite Your Teammates
+              </h3>
+              <p className="text-caption text-muted-gray mb-2">
+                Share your personal invite link. Every confirmed signup through
+                it moves you up the early access list.
+              </p>
+              <p className="text-caption font-mono text-ink-black break-all">
+                {referralLink}
+              </p>
+            </div>
+          )}
+
           <div className="space-y-3">
             <Button
               href="https://discord.gg/silent-scribe"
@@ -0,0 +1,116 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+
+export default function VerifyEmailPage() {
+  const [status, setStatus] = useState<'loading' | 'success' | 'error'>(
+    'loading'
+  )
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    // Confirmation links carry a signed, time-limited token. It's posted from
+    // here rather than on GET so link scanners can't confirm on the user's
+    // behalf.
+    const urlParams = new URLSearchParams(window.location.search)
+    const token = urlParams.get('token')
+    if (!token) {
+      setStatus('error')
+      setMessage(
+        'This confirmation link is incomplete. Please use the link from your email.'
+      )
+      return
+    }
+
+    fetch('/api/beta-signup/verify', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ token }),
+    })
+      .then((response) => response.json())
+      .then((result) => {
+        if (!result.success) {
+          throw new Error(result.error)
+        }
+
+        setStatus('success')
+        setMessage(result.message)
+      })
+      .catch((error) => {
+        setStatus('error')
+        setMessage(
+          error instanceof Error && error.message
+            ? error.message
+            : 'Failed to confirm your email address. Please try again.'
+        )
+      })
+  }, [])
+
+  return (
+    <div className="min-h-screen bg-parchment-white flex items-center justify-center py-12">
+      <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center">
+          <h1 className="text-h2 font-medium text-ink-black mb-4">
+            Confirm Your Email
+          </h1>
+
+          {status === 'loading' && (
+            <div className="text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-quill-blue mx-auto mb-4"></div>
+              <p className="text-body text-muted-gray">
+                Confirming your email address...
+              </p>
+            </div>
+          )}
+
+          {status === 'success' && (
+            <div className="text-center">
+              <div className="w-16 h-16 bg-suggestion-green rounded-full flex items-center justify-center mx-auto mb-4">
+                <svg
+                  className="w-8 h-8 text-parchment-white"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M5 13l4 4L19 7"
+                  />
+                </svg>
+              </div>
+              <p className="text-body text-suggestion-green mb-6">
+                {message}. You&apos;re on the Silent Scribe beta list!
+              </p>
+              <Button href="/" className="w-full">
+                Return to Homepage
+              </Button>
+            </div>
+          )}
+
+          {status === 'error' && (
+            <>
+              <p className="text-body text-error-crimson mb-6">{message}</p>
+              <div className="space-y-3">
+                <Button href="/beta" className="w-full">
+                  Sign Up Again
+                </Button>
+                <Button
+                  href="mailto:support@silentscribe.dev"
+                  variant="secondary"
+                  className="w-full"
+                >
+                  Contact Support
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -9,6 +9,8 @@ import {
   EnhancedAnalyticsProvider,
 } from '@/components/analytics'
 import { PrivacyAnalyticsProvider } from '@/components/analytics/PrivacyAnalyticsProvider'
+import { PlausibleScript } from '@/components/analytics/PlausibleScript'
+import { ConsentProvider } from '@/components/consent'
 import { ErrorBoundary } from '@/components/ui/error-boundary'
 import { OfflineRecovery } from '@/components/ui/error-recovery'
 import {
@@ -21,7 +23,6 @@ import {
   HeaderErrorFallback,
   FooterErrorFallback,
 } from '@/components/ui/error-fallback'
-import Script from 'next/script'
 
 const inter = Inter({
   subsets: ['latin'],
@@ -67,85 +68,67 @@ export default function RootLayout({
 
   return (
     <html lang="en" className={`${inter.variable} ${jetbrainsMono.variable}`}>
-      <head>
-        {/* Plausible Analytics Script - Production Only with Kill Switch */}
-        {plausibleDomain &&
-          process.env.NODE_ENV === 'production' &&
-          process.env.NEXT_PUBLIC_DISABLE_ALL_ANALYTICS !== 'true' && (
-            <>
-              <Script
-                defer
-                data-domain={plausibleDomain}
-                src="https://plausible.io/js/script.js"
-                strategy="afterInteractive"
-              />
-              <Script id="plausible-init" strategy="afterInteractive">
-                {`
-                window.plausible = window.plausible || function() {
-                  try {
-                    (window.plausible.q = window.plausible.q || []).push(arguments);
-                  } catch (e) {
-                    console.debug('Plausible tracking error:', e);
-                  }
-                };
-              `}
-              </Script>
-            </>
-          )}
-      </head>
       <body className="antialiased">
-        <ErrorMonitoringProvider
-          enablePerformanceMonitoring={true}
-          enableWebVitalsTracking={true}
-          enableMemoryMonitoring={true}
-          enableBundleMonitoring={true}
-        >
-          <ErrorBoundary fallback={<ErrorFallback />}>
-            <OfflineRecovery>
-              <PrivacyAnalyticsProvider
-                config={{
-                  enableTracking: true,
-                  respectDoNotTrack: true,
-                  enablePerformanceMonitoring: true,
-                  enableAutoTracking: true,
-                }}
-              >
-                <AnalyticsProvider
+        <ConsentProvider>
+          {/* Plausible Analytics - Production Only with Kill Switch, once
+              the visitor allows analytics */}
+          {plausibleDomain &&
+            process.env.NODE_ENV === 'production' &&
+            process.env.NEXT_PUBLIC_DISABLE_ALL_ANALYTICS !== 'true' && (
+              <PlausibleScript domain={plausibleDomain} />
+            )}
+          <ErrorMonitoringProvider
+            enablePerformanceMonitoring={true}
+            enableWebVitalsTracking={true}
+            enableMemoryMonitoring={true}
+            enableBundleMonitoring={true}
+          >
+            <ErrorBoundary fallback={<ErrorFallback />}>
+              <OfflineRecovery>
+                <PrivacyAnalyticsProvider
                   config={{
+                    enableTracking: true,
+                    enablePerformanceMonitoring: true,
                     enableAutoTracking: true,
-                    trackScrollDepth: true,
-                    trackTimeOnPage: true,
-                    trackClicks: true,
                   }}
                 >
-                  <EnhancedAnalyticsProvider
-                    enableAutoTracking={process.env.NODE_ENV === 'production'}
+                  <AnalyticsProvider
+                    config={{
+                      enableAutoTracking: true,
+                      trackScrollDepth: true,
+                      trackTimeOnPage: true,
+                      trackClicks: true,
+                    }}
                   >
-                    <ToastProvider>
-                      <div className="min-h-screen flex flex-col">
-                        <ErrorBoundary fallback={<HeaderErrorFallback />}>
-                          <Header />
-                        </ErrorBoundary>
+                    <EnhancedAnalyticsProvider
+                      enableAutoTracking={process.env.NODE_ENV === 'production'}
+                    >
+                      <ToastProvider>
+                        <div className="min-h-screen flex flex-col">
+                          <ErrorBoundary fallback={<HeaderErrorFallback />}>
+                            <Header />
+                          </ErrorBoundary>
 
-                        <main className="flex-1">
-                          <ErrorBoundary>{children}</ErrorBoundary>
-                        </main>
+                          <main className="flex-1">
+                            <ErrorBoundary>{children}</ErrorBoundary>
+                          </main>
 
-                        <ErrorBoundary fallback={<FooterErrorFallback />}>
-                          <Footer />
-                        </ErrorBoundary>
-                      </div>
-                    </ToastProvider>
-                  </EnhancedAnalyticsProvider>
-                </AnalyticsProvider>
-              </PrivacyAnalyticsProvider>
-            </OfflineRecovery>
+                          <ErrorBoundary fallback={<FooterErrorFallback />}>
+                            <Footer />
+                          </ErrorBoundary>
+                        </div>
+                      </ToastProvider>
+                    </EnhancedAnalyticsProvider>
+                  </AnalyticsProvider>
+                </PrivacyAnalyticsProvider>
+              </OfflineRecovery>
 
-            {/* Error monitoring status and testing widgets */}
-            <ErrorMonitoringStatusIndicator />
-            <ErrorTestingWidget />
-          </ErrorBoundary>
-        </ErrorMonitoringProvider>
+              {/* Error monitoring status and testing widgets */}
+              <ErrorMonitoringStatusIndicator />
+              <ErrorTestingWidget />
+            </ErrorBoundary>
+          </ErrorMonitoringProvider>
+        </ConsentProvider>
       </body>
     </html>
   )
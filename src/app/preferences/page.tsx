@@ -0,0 +1,262 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button, Checkbox, Input, Select } from '@/components/ui'
+
+interface PreferenceForm {
+  optedInMarketing: boolean
+  optedInResearch: boolean
+  communicationFrequency: 'daily' | 'weekly' | 'monthly'
+  timezone: string
+  technicalBackground: '' | 'beginner' | 'intermediate' | 'expert'
+}
+
+export default function PreferencesPage() {
+  const [token, setToken] = useState<string | null>(null)
+  const [email, setEmail] = useState('')
+  const [form, setForm] = useState<PreferenceForm | null>(null)
+  const [status, setStatus] = useState<
+    'loading' | 'ready' | 'saving' | 'saved' | 'link_sent' | 'error' | 'idle'
+  >('idle')
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    // Magic links from our emails carry a signed, short-lived token
+    const urlParams = new URLSearchParams(window.location.search)
+    const tokenParam = urlParams.get('token')
+    if (!tokenParam) {
+      return
+    }
+
+    setToken(tokenParam)
+    setStatus('loading')
+
+    fetch(`/api/user-preferences?token=${encodeURIComponent(tokenParam)}`)
+      .then((response) => response.json())
+      .then((result) => {
+        if (!result.success) {
+          throw new Error(result.error)
+        }
+
+        setEmail(result.data.email)
+        setForm({
+          optedInMarketing: result.data.opted_in_marketing,
+          optedInResearch: result.data.opted_in_research,
+          communicationFrequency: result.data.communication_frequency,
+          timezone:
+            result.data.timezone ||
+            Intl.DateTimeFormat().resolvedOptions().timeZone,
+          technicalBackground: result.data.technical_background || '',
+        })
+        setStatus('ready')
+      })
+      .catch(() => {
+        setToken(null)
+        setStatus('error')
+        setMessage(
+          'This link is invalid or has expired. Request a new one below.'
+        )
+      })
+  }, [])
+
+  const requestLink = async () => {
+    if (!email) {
+      setStatus('error')
+      setMessage('Please enter a valid email address')
+      return
+    }
+
+    setStatus('loading')
+
+    try {
+      const response = await fetch('/api/user-preferences/link', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error)
+      }
+
+      setStatus('link_sent')
+      setMessage(result.message)
+    } catch {
+      setStatus('error')
+      setMessage('Failed to send the link. Please try again.')
+    }
+  }
+
+  const savePreferences = async () => {
+    if (!token || !form) {
+      return
+    }
+
+    setStatus('saving')
+
+    try {
+      const response = await fetch('/api/user-preferences', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          token,
+          optedInMarketing: form.optedInMarketing,
+          optedInResearch: form.optedInResearch,
+          communicationFrequency: form.communicationFrequency,
+          timezone: form.timezone || undefined,
+          technicalBackground: form.technicalBackground || undefined,
+        }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to save preferences')
+      }
+
+      setStatus('saved')
+      setMessage('Your preferences have been saved.')
+    } catch {
+      setStatus('ready')
+      setMessage('Failed to save your preferences. Please try again.')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-parchment-white flex items-center justify-center py-12">
+      <div className="max-w-md w-full mx-auto px-4 sm:px-6 lg:px-8">
+        <h1 className="text-h2 font-medium text-ink-black mb-4 text-center">
+          Email Preferences
+        </h1>
+
+        {status === 'loading' && (
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-quill-blue mx-auto mb-4"></div>
+            <p className="text-body text-muted-gray">Loading...</p>
+          </div>
+        )}
+
+        {(status === 'idle' || status === 'error') && (
+          <>
+            <p className="text-body text-muted-gray mb-6 text-center">
+              Enter the email address you signed up with and we&apos;ll send you
+              a link to manage your preferences.
+            </p>
+
+            {status === 'error' && (
+              <p className="text-body text-error-crimson mb-4 text-center">
+                {message}
+              </p>
+            )}
+
+            <div className="space-y-4">
+              <Input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="your.email@company.com"
+              />
+
+              <Button onClick={requestLink} className="w-full">
+                Send Link
+              </Button>
+            </div>
+          </>
+        )}
+
+        {status === 'link_sent' && (
+          <p className="text-body text-suggestion-green text-center">
+            {message}
+          </p>
+        )}
+
+        {(status === 'ready' || status === 'saving' || status === 'saved') &&
+          form && (
+            <div className="space-y-6">
+              <p className="text-body text-muted-gray text-center">
+                Managing emails for {email}
+              </p>
+
+              <div className="space-y-4">
+                <Checkbox
+                  label="Product updates"
+                  description="Development updates, newsletters and early access news"
+                  checked={form.optedInMarketing}
+                  onChange={(e) =>
+                    setForm({ ...form, optedInMarketing: e.target.checked })
+                  }
+                />
+                <Checkbox
+                  label="Research invitations"
+                  description="Surveys and interviews that shape Silent Scribe"
+                  checked={form.optedInResearch}
+                  onChange={(e) =>
+                    setForm({ ...form, optedInResearch: e.target.checked })
+                  }
+                />
+              </div>
+
+              <Select
+                label="How often should we email you?"
+                value={form.communicationFrequency}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    communicationFrequency: e.target
+                      .value as PreferenceForm['communicationFrequency'],
+                  })
+                }
+              >
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+              </Select>
+
+              <Input
+                label="Timezone"
+                value={form.timezone}
+                onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+                placeholder="e.g. Europe/Berlin"
+              />
+
+              <Select
+                label="Technical background"
+                value={form.technicalBackground}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    technicalBackground: e.target
+                      .value as PreferenceForm['technicalBackground'],
+                  })
+                }
+              >
+                <option value="">Prefer not to say</option>
+                <option value="beginner">Beginner</option>
+                <option value="intermediate">Intermediate</option>
+                <option value="expert">Expert</option>
+              </Select>
+
+              {message && (
+                <p
+                  className={`text-body text-center ${status === 'saved' ? 'text-suggestion-green' : 'text-error-crimson'}`}
+                >
+                  {message}
+                </p>
+              )}
+
+              <Button
+                onClick={savePreferences}
+                className="w-full"
+                loading={status === 'saving'}
+              >
+                Save Preferences
+              </Button>
+            </div>
+          )}
+      </div>
+    </div>
+  )
+}
@@ -73,6 +73,17 @@ export default function PrivacyPage() {
               <li>
                 No cookies, no cross-site tracking, no personal identifiers
               </li>
+              <li>
+                Visitors are counted with an anonymous ID that changes every
+                day. It is generated from a random value that we delete after 24
+                hours, so visits on different days can't be linked
+              </li>
+              <li>
+                Analytics, performance monitoring and campaign attribution only
+                run after you allow them. Your choice is stored in your browser,
+                and you can change it at any time from "Privacy settings" in the
+                footer
+              </li>
             </ul>
 
             <h3 className="text-xl font-medium text-text-primary mb-3">
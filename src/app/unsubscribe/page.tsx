@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 
 export default function UnsubscribePage() {
+  const [token, setToken] = useState<string | null>(null)
   const [email, setEmail] = useState('')
   const [status, setStatus] = useState<
     'loading' | 'success' | 'error' | 'idle'
@@ -11,18 +12,34 @@ export default function UnsubscribePage() {
   const [message, setMessage] = useState('')
 
   useEffect(() => {
-    // Get email from URL parameters
+    // Unsubscribe links carry a signed per-recipient token
     const urlParams = new URLSearchParams(window.location.search)
-    const emailParam = urlParams.get('email')
-    if (emailParam) {
-      setEmail(emailParam)
+    const tokenParam = urlParams.get('token')
+    if (!tokenParam) {
+      return
     }
+
+    setToken(tokenParam)
+
+    // Show which address the link belongs to
+    fetch(`/api/unsubscribe?token=${encodeURIComponent(tokenParam)}`)
+      .then((response) => response.json())
+      .then((result) => {
+        if (result.success) {
+          setEmail(result.data.email)
+        }
+      })
+      .catch(() => {
+        // The address is only informational; unsubscribing still works
+      })
   }, [])
 
   const handleUnsubscribe = async () => {
-    if (!email) {
+    if (!token) {
       setStatus('error')
-      setMessage('Please enter a valid email address')
+      setMessage(
+        'This unsubscribe link is incomplete. Please use the link from one of our emails.'
+      )
       return
     }
 
@@ -34,7 +51,7 @@ export default function UnsubscribePage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ email }),
+        body: JSON.stringify({ token }),
       })
 
       if (response.ok) {
@@ -62,25 +79,32 @@ export default function UnsubscribePage() {
           {status === 'idle' && (
             <>
               <p className="text-body text-muted-gray mb-6">
-                We&apos;re sorry to see you go. Enter your email address below
-                to unsubscribe from all marketing communications.
+                {token ? (
+                  <>
+                    We&apos;re sorry to see you go. Confirm below to unsubscribe
+                    {email ? ` ${email}` : ''} from all marketing
+                    communications.
+                  </>
+                ) : (
+                  <>
+                    To unsubscribe, please use the unsubscribe link at the
+                    bottom of any email we&apos;ve sent you.
+                  </>
+                )}
               </p>
 
-              <div className="space-y-4">
-                <input
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  placeholder="your.email@company.com"
-                  className="w-full rounded-card border border-border-gray bg-parchment-white px-3 py-2 text-body focus:outline-none focus:ring-2 focus:ring-focus-purple focus:ring-offset-2"
-                />
-
-                <Button
-                  onClick={handleUnsubscribe}
-                  className="w-full"
-                  variant="primary"
-                >
-                  Unsubscribe
+              <div className="space-y-3">
+                {token && (
+                  <Button
+                    onClick={handleUnsubscribe}
+                    className="w-full"
+                    variant="primary"
+                  >
+                    Unsubscribe
+                  </Button>
+                )}
+                <Button href="/preferences" variant="ghost" className="w-full">
+                  Manage email preferences instead
                 </Button>
               </div>
             </>
@@ -11,6 +11,7 @@ interface AdminAuthProps {
 export function AdminAuth({ children }: AdminAuthProps) {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false)
   const [isHydrated, setIsHydrated] = useState(false)
+  const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [error, setError] = useState('')
   const [isLoading, setIsLoading] = useState(false)
@@ -22,7 +23,12 @@ export function AdminAuth({ children }: AdminAuthProps) {
     checkAuthStatus()
   }, [])
 
-  const checkAuthStatus = () => {
+  const clearStoredToken = () => {
+    localStorage.removeItem('admin_auth_token')
+    localStorage.removeItem('admin_auth_expiry')
+  }
+
+  const checkAuthStatus = async () => {
     // Only run on client side
     if (typeof window === 'undefined') {
       setIsAuthenticated(false)
@@ -31,24 +37,37 @@ export function AdminAuth({ children }: AdminAuthProps) {
 
     try {
       const authToken = localStorage.getItem('admin_auth_token')
-      const authExpiry = localStorage.getItem('admin_auth_expiry')
-
-      if (authToken && authExpiry) {
-        const expiryTime = parseInt(authExpiry)
-        if (Date.now() < expiryTime) {
-          setIsAuthenticated(true)
-          return
-        } else {
-          // Token expired, clear storage
-          localStorage.removeItem('admin_auth_token')
-          localStorage.removeItem('admin_auth_expiry')
-        }
+      if (!authToken) {
+        setIsAuthenticated(false)
+        return
+      }
+
+      // Tokens are signed and revocable, so only the server can validate them
+      setIsLoading(true)
+      const response = await fetch('/api/admin/auth', {
+        headers: {
+          Authorization: `Bearer ${authToken}`,
+        },
+      })
+      const data = await response.json()
+
+      if (response.ok && data.valid) {
+        localStorage.setItem(
+          'admin_auth_expiry',
+          new Date(data.expiresAt).getTime().toString()
+        )
+        setIsAuthenticated(true)
+        return
       }
 
+      // Token expired or revoked, clear storage
+      clearStoredToken()
       setIsAuthenticated(false)
     } catch (error) {
       console.error('Error checking auth status:', error)
       setIsAuthenticated(false)
+    } finally {
+      setIsLoading(false)
     }
   }
 
@@ -63,20 +82,22 @@ export function AdminAuth({ children }: AdminAuthProps) {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ password }),
+        body: JSON.stringify({ email: email || undefined, password }),
       })
 
       const data = await response.json()
 
       if (response.ok && data.success) {
-        // Store auth token with 24-hour expiry
-        const expiryTime = Date.now() + 24 * 60 * 60 * 1000 // 24 hours
+        // Store auth token with the expiry issued by the server
         localStorage.setItem('admin_auth_token', data.token)
-        localStorage.setItem('admin_auth_expiry', expiryTime.toString())
+        localStorage.setItem(
+          'admin_auth_expiry',
+          new Date(data.expiresAt).getTime().toString()
+        )
         setIsAuthenticated(true)
         setPassword('')
       } else {
-        setError(data.error || 'Invalid password')
+        setError(data.error || 'Invalid email or password')
       }
     } catch (err) {
       setError('Authentication failed. Please try again.')
@@ -86,9 +107,24 @@ export function AdminAuth({ children }: AdminAuthProps) {
     }
   }
 
-  const handleLogout = () => {
-    localStorage.removeItem('admin_auth_token')
-    localStorage.removeItem('admin_auth_expiry')
+  const handleLogout = async () => {
+    const authToken = localStorage.getItem('admin_auth_token')
+
+    // Revoke the session server-side before discarding the token
+    if (authToken) {
+      try {
+        await fetch('/api/admin/auth', {
+          method: 'DELETE',
+          headers: {
+            Authorization: `Bearer ${authToken}`,
+          },
+        })
+      } catch (err) {
+        console.error('Logout error:', err)
+      }
+    }
+
+    clearStoredToken()
     setIsAuthenticated(false)
     setPassword('')
     router.push('/')
@@ -118,12 +154,27 @@ export function AdminAuth({ children }: AdminAuthProps) {
               🔐 Admin Access Required
             </h2>
             <p className="mt-2 text-center text-sm text-gray-600">
-              Enter the admin password to access the dashboard
+              Sign in with your admin account to access the dashboard
             </p>
           </div>
 
           <form className="mt-8 space-y-6" onSubmit={handleLogin}>
-            <div className="rounded-md shadow-sm -space-y-px">
+            <div className="rounded-md shadow-sm space-y-2">
+              <div>
+                <label htmlFor="email" className="sr-only">
+                  Admin Email
+                </label>
+                <input
+                  id="email"
+                  name="email"
+                  type="email"
+                  autoComplete="username"
+                  className="appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
+                  placeholder="Admin email (leave blank for initial setup)"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
               <div>
                 <label htmlFor="password" className="sr-only">
                   Admin Password
@@ -7,6 +7,10 @@
 
 import React, { useState, useEffect } from 'react'
 import { useCombinedAnalytics } from '@/lib/combined-analytics'
+import type {
+  AttributionModel,
+  ConversionReport,
+} from '@/lib/services/conversions'
 
 interface AnalyticsData {
   pageViews: number
@@ -31,6 +35,10 @@ export function AnalyticsDashboard() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [timeframe, setTimeframe] = useState<'24h' | '7d' | '30d' | '90d'>('7d')
+  const [conversionReport, setConversionReport] =
+    useState<ConversionReport | null>(null)
+  const [attributionModel, setAttributionModel] =
+    useState<AttributionModel>('first_touch')
 
   const analytics = useCombinedAnalytics()
 
@@ -39,13 +47,33 @@ export function AnalyticsDashboard() {
       setLoading(true)
       setError(null)
 
-      // For now, use mock data until the API is properly typed
+      const days = { '24h': 1, '7d': 7, '30d': 30, '90d': 90 }[timeframe]
+      const token = localStorage.getItem('admin_auth_token')
+      const response = await fetch(`/api/analytics/conversions?days=${days}`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load conversion analytics')
+      }
+
+      const report: ConversionReport = result.data
+      const betaSignup = report.goals.find(
+        (goal) => goal.goal === 'BETA_SIGNUP'
+      )
+      setConversionReport(report)
+
+      // Page and real-time figures are still mock data
       // TODO: Replace with real API call once database types are fixed
-      const mockData: AnalyticsData = {
+      const data: AnalyticsData = {
         pageViews: 1250,
-        uniqueVisitors: 890,
-        betaSignups: 45,
-        conversionRate: 5.06,
+        uniqueVisitors: report.total_visitors,
+        betaSignups: betaSignup?.conversions || 0,
+        conversionRate: betaSignup?.conversion_rate || 0,
         topPages: [
           { page: '/', views: 423 },
           { page: '/beta', views: 234 },
@@ -53,25 +81,16 @@ export function AnalyticsDashboard() {
           { page: '/privacy', views: 89 },
           { page: '/contact', views: 67 },
         ],
-        topSources: [
-          { source: 'Direct', visits: 456 },
-          { source: 'Google', visits: 234 },
-          { source: 'GitHub', visits: 123 },
-          { source: 'Twitter', visits: 67 },
-          { source: 'Reddit', visits: 45 },
-        ],
-        goals: [
-          { name: 'Beta Signup', conversions: 45 },
-          { name: 'Form Submit', conversions: 78 },
-          { name: 'CTA Click', conversions: 156 },
-          { name: 'Page View', conversions: 1250 },
-        ],
+        topSources: report.sources.last_touch
+          .slice(0, 5)
+          .map((source) => ({ source: source.key, visits: source.visitors })),
+        goals: report.goals
+          .filter((goal) => goal.conversions > 0)
+          .map((goal) => ({ name: goal.name, conversions: goal.conversions })),
         realTimeVisitors: 8,
       }
 
-      // Simulate network delay
-      await new Promise((resolve) => setTimeout(resolve, 500))
-      setAnalyticsData(mockData)
+      setAnalyticsData(data)
 
       // If Plausible is available, log that it's enabled
       if (analytics.isPlausibleEnabled) {
@@ -271,6 +290,46 @@ export function AnalyticsDashboard() {
         </div>
       </div>
 
+      {/* Conversion Attribution */}
+      {conversionReport && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold">Signups by Source</h3>
+              <div className="flex space-x-2">
+                {(['first_touch', 'last_touch'] as const).map((model) => (
+                  <button
+                    key={model}
+                    onClick={() => setAttributionModel(model)}
+                    className={`px-2 py-1 rounded text-xs font-medium ${
+                      attributionModel === model
+                        ? 'bg-blue-500 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {model === 'first_touch' ? 'First touch' : 'Last touch'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <AttributionTable
+              label="Source"
+              rows={conversionReport.sources[attributionModel]}
+            />
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h3 className="text-lg font-semibold mb-4">
+              Signups by Landing Page
+            </h3>
+            <AttributionTable
+              label="Landing page"
+              rows={conversionReport.landing_pages}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Plausible Integration Notice */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <div className="flex items-start">
@@ -330,3 +389,39 @@ function MetricCard({ title, value, change, icon }: MetricCardProps) {
     </div>
   )
 }
+
+interface AttributionTableProps {
+  label: string
+  rows: ConversionReport['landing_pages']
+}
+
+function AttributionTable({ label, rows }: AttributionTableProps) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500">No visitors in this period</p>
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="font-medium pb-2">{label}</th>
+          <th className="font-medium pb-2 text-right">Visitors</th>
+          <th className="font-medium pb-2 text-right">Signups</th>
+          <th className="font-medium pb-2 text-right">Rate</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.slice(0, 10).map((row) => (
+          <tr key={row.key}>
+            <td className="py-1 text-gray-600 truncate">{row.key}</td>
+            <td className="py-1 text-right">{row.visitors}</td>
+            <td className="py-1 text-right">{row.conversions}</td>
+            <td className="py-1 text-right font-medium">
+              {row.conversion_rate.toFixed(2)}%
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
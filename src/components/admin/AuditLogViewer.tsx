@@ -0,0 +1,134 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import type { AdminAuditEntry } from '@/types'
+
+/**
+ * Admin Audit Log Viewer
+ * Lists recent admin actions: who called which route with which parameters
+ */
+export function AuditLogViewer() {
+  const [entries, setEntries] = useState<AdminAuditEntry[]>([])
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadEntries = async () => {
+    try {
+      setIsLoading(true)
+      const token = localStorage.getItem('admin_auth_token')
+      const response = await fetch('/api/admin/audit-log?limit=50', {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      })
+      const result = await response.json()
+
+      if (response.ok && result.success) {
+        setEntries(result.data || [])
+        setError(null)
+      } else if (response.status === 403) {
+        setError('Only owners can view the audit log')
+      } else {
+        setError(result.error || 'Failed to load audit log')
+      }
+    } catch (err) {
+      console.error('Audit log error:', err)
+      setError('Failed to load audit log')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadEntries()
+  }, [])
+
+  const getMethodColor = (method: string) => {
+    switch (method) {
+      case 'POST':
+        return 'bg-green-100 text-green-800'
+      case 'PUT':
+      case 'PATCH':
+        return 'bg-yellow-100 text-yellow-800'
+      case 'DELETE':
+        return 'bg-red-100 text-red-800'
+      default:
+        return 'bg-gray-100 text-gray-800'
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <span className="mr-2">📜</span>
+          Admin Audit Log
+        </h3>
+        <button
+          onClick={loadEntries}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          Refresh
+        </button>
+      </div>
+      <div className="max-h-96 overflow-y-auto">
+        {isLoading ? (
+          <div className="p-6 text-center text-gray-500">
+            <p>Loading audit log...</p>
+          </div>
+        ) : error ? (
+          <div className="p-6 text-center text-red-600">
+            <p>{error}</p>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">
+            <p>No admin actions recorded yet</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {entries.map((entry) => (
+              <div
+                key={entry.id}
+                className="p-4 hover:bg-gray-50 transition-colors cursor-pointer"
+                onClick={() =>
+                  setExpandedId(expandedId === entry.id ? null : entry.id)
+                }
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2 min-w-0">
+                    <span
+                      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getMethodColor(entry.method)}`}
+                    >
+                      {entry.method}
+                    </span>
+                    <span className="text-sm font-mono text-gray-900 truncate">
+                      {entry.path}
+                    </span>
+                    {entry.outcome === 'denied' && (
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                        denied
+                      </span>
+                    )}
+                  </div>
+                  <span className="text-sm text-gray-500 whitespace-nowrap ml-4">
+                    {new Date(entry.created_at).toLocaleString()}
+                  </span>
+                </div>
+                <p className="mt-1 text-xs text-gray-600">
+                  {entry.actor_email} ({entry.actor_role})
+                </p>
+                {expandedId === entry.id && entry.params && (
+                  <pre className="mt-2 p-2 bg-gray-50 rounded text-xs text-gray-700 overflow-x-auto">
+                    {JSON.stringify(entry.params, null, 2)}
+                  </pre>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -20,36 +20,29 @@ interface ErrorStats {
 
 interface ErrorData {
   id: string
-  timestamp: string
+  source: 'client' | 'server'
   page_path: string
-  event_type: string
-  metadata: {
-    error?: {
-      message: string
-      severity: string
-      category: string
-      stack?: string
-    }
-    server_error?: {
-      message: string
-      severity: string
-      category: string
-      stack?: string
-      endpoint?: string
-      method?: string
-    }
-    performance_issue?: {
-      type: string
-      severity: string
-      message: string
-      metrics?: Record<string, number>
-    }
-  }
+  message: string
+  severity: string
+  category: string
+  stack?: string
+  occurred_at: string
+}
+
+interface AlertData {
+  id: string
+  alert_type: string
+  severity: string
+  message: string
+  rule_id?: string
+  occurrences?: number
+  created_at: string
 }
 
 export function ErrorMonitoringDashboard() {
   const [errorStats, setErrorStats] = useState<ErrorStats | null>(null)
   const [recentErrors, setRecentErrors] = useState<ErrorData[]>([])
+  const [recentAlerts, setRecentAlerts] = useState<AlertData[]>([])
   const [loading, setLoading] = useState(true)
   const [selectedCategory, setSelectedCategory] = useState<string>('all')
   const [selectedSeverity, setSelectedSeverity] = useState<string>('all')
@@ -112,6 +105,7 @@ export function ErrorMonitoringDashboard() {
 
       setErrorStats(data.data.stats)
       setRecentErrors(data.data.errors || [])
+      setRecentAlerts(data.data.alerts || [])
     } catch (error) {
       handleError(error as Error, {
         component: 'ErrorMonitoringDashboard',
@@ -219,6 +213,7 @@ export function ErrorMonitoringDashboard() {
                 <option value="network">Network</option>
                 <option value="render">Render</option>
                 <option value="database">Database</option>
+                <option value="authentication">Authentication</option>
                 <option value="system">System</option>
               </select>
 
@@ -331,6 +326,40 @@ export function ErrorMonitoringDashboard() {
               </div>
             )}
 
+            {/* Triggered Alerts */}
+            {recentAlerts.length > 0 && (
+              <div className="mb-6">
+                <h3 className="text-lg font-medium text-gray-900 mb-3">
+                  Recent Alerts
+                </h3>
+                <div className="space-y-2">
+                  {recentAlerts.slice(0, 5).map((alert) => (
+                    <div
+                      key={alert.id}
+                      className="flex items-start justify-between bg-red-50 border border-red-200 rounded-lg p-3"
+                    >
+                      <div className="flex-1 mr-4">
+                        <div className="flex items-center space-x-2 mb-1">
+                          {getSeverityBadge(alert.severity)}
+                          {alert.rule_id && (
+                            <code className="text-xs text-gray-600">
+                              {alert.rule_id}
+                            </code>
+                          )}
+                        </div>
+                        <div className="text-sm text-gray-800">
+                          {alert.message}
+                        </div>
+                      </div>
+                      <div className="text-xs text-gray-500 whitespace-nowrap">
+                        {formatTimestamp(alert.created_at)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Recent Errors Table */}
             <div>
               <h3 className="text-lg font-medium text-gray-900 mb-3">
@@ -378,43 +407,31 @@ export function ErrorMonitoringDashboard() {
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
                       {recentErrors.map((error, index) => {
-                        const errorData =
-                          error.metadata?.error ||
-                          error.metadata?.server_error ||
-                          error.metadata?.performance_issue
                         return (
                           <tr
                             key={error.id || index}
                             className="hover:bg-gray-50"
                           >
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                              {formatTimestamp(error.timestamp)}
+                              {formatTimestamp(error.occurred_at)}
                             </td>
                             <td className="px-6 py-4 text-sm text-gray-900">
                               <div
                                 className="max-w-xs truncate"
-                                title={errorData?.message}
+                                title={error.message}
                               >
-                                {errorData?.message || 'Unknown error'}
+                                {error.message}
                               </div>
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap">
-                              {getSeverityBadge(
-                                errorData?.severity || 'medium'
-                              )}
+                              {getSeverityBadge(error.severity)}
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                               <div className="flex items-center">
                                 <span className="mr-2">
-                                  {getCategoryIcon(
-                                    (errorData as any)?.category ||
-                                      (errorData as any)?.type ||
-                                      'system'
-                                  )}
+                                  {getCategoryIcon(error.category)}
                                 </span>
-                                {(errorData as any)?.category ||
-                                  (errorData as any)?.type ||
-                                  'system'}
+                                {error.category}
                               </div>
                             </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
@@ -89,16 +89,14 @@ export function PerformanceMonitoringDashboard() {
         // Extract alerts from recent errors
         const recentErrors = errorData.data?.errors || []
         const systemAlerts = recentErrors
-          .filter(
-            (error: any) => error.metadata?.error?.severity === 'critical'
-          )
+          .filter((error: any) => error.severity === 'critical')
           .slice(0, 10)
           .map((error: any, index: number) => ({
             id: `error_${index}`,
             type: 'error' as const,
             severity: 'critical' as const,
-            message: error.metadata?.error?.message || 'Unknown error',
-            timestamp: error.timestamp,
+            message: error.message,
+            timestamp: error.occurred_at,
             resolved: false,
           }))
 
@@ -410,8 +410,10 @@ export default function PrivacyAnalyticsDashboard() {
             </h4>
             <p className="text-sm text-blue-800">
               All data is collected anonymously without personal identification.
-              No cookies or personal data are stored. Visitor fingerprints are
-              hashed and cannot be reverse-engineered. This system complies with
+              No cookies or personal data are stored. Visitor IDs are hashed
+              with a salt that rotates daily and is deleted after 24 hours, so
+              visitors can't be followed across days. Returning visitors are
+              those who come back on the same day. This system complies with
               GDPR, CCPA, and other privacy regulations.
             </p>
           </div>
@@ -0,0 +1,125 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import type { ReferralLeaderboardEntry } from '@/lib/services/referrals'
+
+/**
+ * Admin Referral Leaderboard
+ * Ranks signups by how many confirmed signups their invite link brought in
+ */
+export function ReferralLeaderboard() {
+  const [entries, setEntries] = useState<ReferralLeaderboardEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadEntries = async () => {
+    try {
+      setIsLoading(true)
+      const token = localStorage.getItem('admin_auth_token')
+      const response = await fetch('/api/admin/referrals?limit=20', {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      })
+      const result = await response.json()
+
+      if (response.ok && result.success) {
+        setEntries(result.data || [])
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to load referral leaderboard')
+      }
+    } catch (err) {
+      console.error('Referral leaderboard error:', err)
+      setError('Failed to load referral leaderboard')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadEntries()
+  }, [])
+
+  const getStatusColor = (status: ReferralLeaderboardEntry['beta_status']) => {
+    switch (status) {
+      case 'active':
+        return 'bg-green-100 text-green-800'
+      case 'invited':
+        return 'bg-blue-100 text-blue-800'
+      default:
+        return 'bg-gray-100 text-gray-800'
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <span className="mr-2">🏆</span>
+          Referral Leaderboard
+        </h3>
+        <button
+          onClick={loadEntries}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          Refresh
+        </button>
+      </div>
+      <div className="max-h-96 overflow-y-auto">
+        {isLoading ? (
+          <div className="p-6 text-center text-gray-500">
+            <p>Loading referrals...</p>
+          </div>
+        ) : error ? (
+          <div className="p-6 text-center text-red-600">
+            <p>{error}</p>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">
+            <p>No confirmed referrals yet</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {entries.map((entry, index) => (
+              <div
+                key={entry.user_id}
+                className="p-4 hover:bg-gray-50 transition-colors flex items-center justify-between"
+              >
+                <div className="flex items-center space-x-3 min-w-0">
+                  <span className="text-sm font-semibold text-gray-500 w-6">
+                    #{index + 1}
+                  </span>
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-900 truncate">
+                      {entry.email}
+                      {entry.github_username && (
+                        <span className="text-gray-500">
+                          {' '}
+                          (@{entry.github_username})
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs font-mono text-gray-500">
+                      {entry.referral_code}
+                    </p>
+                  </div>
+                  <span
+                    className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(entry.beta_status)}`}
+                  >
+                    {entry.beta_status}
+                  </span>
+                </div>
+                <span className="text-sm font-semibold text-gray-900 whitespace-nowrap ml-4">
+                  {entry.referral_count}{' '}
+                  {entry.referral_count === 1 ? 'referral' : 'referrals'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -5,6 +5,8 @@ export { RecentActivityFeed } from './RecentActivityFeed'
 export { NotificationCenter } from './NotificationCenter'
 export { SystemHealthMonitor } from './SystemHealthMonitor'
 export { RealTimeSignupCounter } from './RealTimeSignupCounter'
+export { AuditLogViewer } from './AuditLogViewer'
+export { ReferralLeaderboard } from './ReferralLeaderboard'
 
 // Phase 6: Privacy Analytics Components
 export { default as PrivacyAnalyticsDashboard } from './PrivacyAnalyticsDashboard'
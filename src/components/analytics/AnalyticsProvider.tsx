@@ -3,6 +3,7 @@
 import React, { useEffect, useCallback } from 'react'
 import { useAnalyticsUtils, useConversionTrackingUtils } from '@/lib/analytics'
 import { useCombinedAnalytics } from '@/lib/combined-analytics'
+import { useConsent } from '@/components/consent/ConsentProvider'
 
 interface AnalyticsProviderProps {
   children: React.ReactNode
@@ -17,7 +18,8 @@ interface AnalyticsProviderProps {
 
 /**
  * Analytics Provider Component
- * Wraps the app to provide analytics tracking throughout the application
+ * Wraps the app to provide analytics tracking throughout the application.
+ * Auto-tracking starts once the visitor allows analytics.
  */
 export function AnalyticsProvider({
   children,
@@ -31,9 +33,11 @@ export function AnalyticsProvider({
   } = config
 
   const combinedAnalytics = useCombinedAnalytics()
+  const { isAllowed } = useConsent()
+  const analyticsAllowed = isAllowed('analytics')
 
   const fetchAnalyticsData = React.useCallback(async () => {
-    if (!enableAutoTracking) return
+    if (!enableAutoTracking || !analyticsAllowed) return
 
     const setupTracking = async () => {
       // Track initial page view
@@ -158,6 +162,7 @@ export function AnalyticsProvider({
   }, [
     combinedAnalytics,
     enableAutoTracking,
+    analyticsAllowed,
     trackScrollDepth,
     trackTimeOnPage,
     trackClicks,
@@ -15,6 +15,7 @@ import {
   type ScrollDepthData,
   type EngagementTimeData,
 } from '@/lib/enhanced-tracking'
+import { useConsent } from '@/components/consent/ConsentProvider'
 
 interface EnhancedAnalyticsContextType {
   trackFormInteraction: (data: FormInteractionData) => Promise<void>
@@ -56,9 +57,13 @@ export function EnhancedAnalyticsProvider({
   children,
   enableAutoTracking = true,
 }: EnhancedAnalyticsProviderProps) {
-  // Production-ready analytics control with proper feature flags
+  // Production-ready analytics control with proper feature flags, gated
+  // on the visitor's consent
+  const { isAllowed } = useConsent()
+  const marketingAllowed = isAllowed('marketing')
   const shouldTrack =
     enableAutoTracking &&
+    isAllowed('analytics') &&
     (process.env.NODE_ENV === 'production' ||
       process.env.NEXT_PUBLIC_ANALYTICS_DEBUG === 'true')
   const tracking = useEnhancedTracking()
@@ -245,8 +250,10 @@ export function EnhancedAnalyticsProvider({
       }
     }
 
-    // Initialize all tracking
-    initializeAttribution()
+    // Initialize all tracking. Campaign attribution needs its own consent.
+    if (marketingAllowed) {
+      initializeAttribution()
+    }
     const cleanupScroll = initializeScrollTracking()
     const cleanupTime = initializeTimeTracking()
     const cleanupVisibility = initializeVisibilityTracking()
@@ -259,7 +266,7 @@ export function EnhancedAnalyticsProvider({
       cleanupVisibility()
       cleanupInteraction()
     }
-  }, [enableAutoTracking, tracking])
+  }, [shouldTrack, marketingAllowed, tracking])
 
   // Form tracker factory
   const startFormTracking = (
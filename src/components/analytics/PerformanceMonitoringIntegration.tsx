@@ -12,6 +12,8 @@ import { ErrorBoundary } from '@/components/ui/error-boundary'
 import { PerformanceProvider } from '@/components/analytics/PerformanceProvider'
 import { usePerformanceMonitoring } from '@/lib/services/performance-monitoring'
 import { errorTracker } from '@/lib/services/error-tracking'
+import { hasConsent } from '@/lib/consent'
+import { useConsent } from '@/components/consent/ConsentProvider'
 
 interface PerformanceMonitoringIntegrationProps {
   children: React.ReactNode
@@ -41,8 +43,10 @@ export function PerformanceMonitoringIntegration({
   } = config
 
   // Only enable in development or if explicitly enabled in production
+  const { isAllowed } = useConsent()
   const isMonitoringEnabled =
-    process.env.NODE_ENV === 'development' || enableInProduction
+    (process.env.NODE_ENV === 'development' || enableInProduction) &&
+    isAllowed('performance')
 
   useEffect(() => {
     if (!isMonitoringEnabled || typeof window === 'undefined') return
@@ -202,6 +206,8 @@ export function useApplicationPerformance() {
 
   const trackUserAction = React.useCallback(
     (action: string, data?: Record<string, any>) => {
+      if (!hasConsent('performance')) return
+
       // Track user interactions that might impact performance
       fetch('/api/analytics/performance', {
         method: 'POST',
@@ -2,7 +2,8 @@
  * Performance Monitoring Provider
  * Phase 6: Performance Monitoring - Comprehensive Monitoring Integration
  *
- * Provides comprehensive performance monitoring across the application
+ * Provides comprehensive performance monitoring across the application,
+ * once the visitor allows performance monitoring (see useConsent)
  */
 
 'use client'
@@ -10,6 +11,7 @@
 import React, { createContext, useContext, useEffect, ReactNode } from 'react'
 import { usePerformanceMonitoring } from '@/lib/services/performance-monitoring'
 import { errorTracker, PerformanceMonitor } from '@/lib/services/error-tracking'
+import { useConsent } from '@/components/consent/ConsentProvider'
 
 interface PerformanceContextValue {
   trackEvent: (eventName: string, data?: Record<string, any>) => void
@@ -46,9 +48,11 @@ export function PerformanceProvider({
 }: PerformanceProviderProps) {
   const { getCurrentMetrics } = usePerformanceMonitoring()
   const [isMonitoring, setIsMonitoring] = React.useState(false)
+  const { isAllowed } = useConsent()
+  const performanceAllowed = isAllowed('performance')
 
   useEffect(() => {
-    if (typeof window === 'undefined') return
+    if (typeof window === 'undefined' || !performanceAllowed) return
 
     // Initialize monitoring based on props
     const cleanup: (() => void)[] = []
@@ -194,6 +198,7 @@ export function PerformanceProvider({
       setIsMonitoring(false)
     }
   }, [
+    performanceAllowed,
     enableWebVitalsMonitoring,
     enableErrorTracking,
     enableMemoryMonitoring,
@@ -202,6 +207,8 @@ export function PerformanceProvider({
 
   const trackEvent = React.useCallback(
     (eventName: string, data?: Record<string, any>) => {
+      if (!performanceAllowed) return
+
       try {
         // Send custom events to analytics
         fetch('/api/analytics/performance', {
@@ -221,7 +228,7 @@ export function PerformanceProvider({
         console.warn('Failed to track performance event:', error)
       }
     },
-    []
+    [performanceAllowed]
   )
 
   const reportPerformanceIssue = React.useCallback(
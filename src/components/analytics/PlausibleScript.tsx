@@ -0,0 +1,41 @@
+/**
+ * Plausible Script
+ * Loads Plausible only once the visitor has allowed analytics
+ */
+
+'use client'
+
+import Script from 'next/script'
+import { useConsent } from '@/components/consent/ConsentProvider'
+
+interface PlausibleScriptProps {
+  domain: string
+}
+
+export function PlausibleScript({ domain }: PlausibleScriptProps) {
+  const { isAllowed } = useConsent()
+
+  if (!isAllowed('analytics')) return null
+
+  return (
+    <>
+      <Script
+        defer
+        data-domain={domain}
+        src="https://plausible.io/js/script.js"
+        strategy="afterInteractive"
+      />
+      <Script id="plausible-init" strategy="afterInteractive">
+        {`
+        window.plausible = window.plausible || function() {
+          try {
+            (window.plausible.q = window.plausible.q || []).push(arguments);
+          } catch (e) {
+            console.debug('Plausible tracking error:', e);
+          }
+        };
+      `}
+      </Script>
+    </>
+  )
+}
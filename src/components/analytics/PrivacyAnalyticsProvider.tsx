@@ -2,25 +2,25 @@
  * Privacy Analytics Provider
  * Phase 6: Custom Analytics System Integration
  *
- * Wraps the application with privacy-compliant analytics tracking
+ * Wraps the application with privacy-compliant analytics tracking. Nothing
+ * is tracked until the visitor allows analytics (see useConsent).
  */
 
 'use client'
 
 import React, { createContext, useContext, useEffect, useState } from 'react'
+import { useConsent } from '@/components/consent/ConsentProvider'
 // import { useEnhancedTracking } from '@/lib/enhanced-tracking'
 // import { usePerformanceMonitoring } from '@/lib/services/performance-monitoring'
 
 interface AnalyticsConfig {
   enableTracking: boolean
-  respectDoNotTrack: boolean
   enablePerformanceMonitoring: boolean
   enableAutoTracking: boolean
 }
 
 interface AnalyticsContextValue {
   config: AnalyticsConfig
-  visitorId: string | null
   sessionId: string | null
   trackEvent: (eventType: string, properties?: Record<string, any>) => void
   trackConversion: (conversionType: string, value?: number) => void
@@ -36,7 +36,6 @@ interface PrivacyAnalyticsProviderProps {
 
 const defaultConfig: AnalyticsConfig = {
   enableTracking: true,
-  respectDoNotTrack: true,
   enablePerformanceMonitoring: true,
   enableAutoTracking: true,
 }
@@ -50,7 +49,10 @@ export function PrivacyAnalyticsProvider({
     ...userConfig,
   })
 
-  const [visitorId, setVisitorId] = useState<string | null>(null)
+  const { isAllowed } = useConsent()
+  const analyticsAllowed = isAllowed('analytics')
+  const marketingAllowed = isAllowed('marketing')
+
   const [sessionId, setSessionId] = useState<string | null>(null)
   const [initialized, setInitialized] = useState(false)
   // const [isHydrated, setIsHydrated] = useState(false)
@@ -63,28 +65,22 @@ export function PrivacyAnalyticsProvider({
 
     if (typeof window === 'undefined') return
 
-    // Check Do Not Track preference
-    if (config.respectDoNotTrack && navigator.doNotTrack === '1') {
-      setConfig((prev) => ({ ...prev, enableTracking: false }))
-      return
+    // Initialize analytics once the visitor allows it
+    if (analyticsAllowed && !initialized) {
+      initializeAnalytics()
     }
-
-    // Initialize analytics
-    initializeAnalytics()
-  }, [])
+  }, [analyticsAllowed])
 
   const initializeAnalytics = async () => {
     try {
       if (!config.enableTracking) return
 
-      // Generate visitor fingerprint
+      // The visitor ID itself is derived on the server and never returned
       const visitorData = {
-        userAgent: navigator.userAgent,
-        timezone: new Date().getTimezoneOffset(),
-        screenResolution: `${screen.width}x${screen.height}`,
         language: navigator.language,
         referrer: document.referrer,
-        utmParams: extractUTMParams(),
+        // Campaign parameters only with marketing attribution consent
+        utmParams: marketingAllowed ? extractUTMParams() : undefined,
       }
 
       // Get or create anonymous visitor
@@ -100,7 +96,6 @@ export function PrivacyAnalyticsProvider({
 
       if (response.ok) {
         const result = await response.json()
-        setVisitorId(result.data.visitorId)
         setSessionId(result.data.sessionId)
 
         // Track initial page view
@@ -129,7 +124,7 @@ export function PrivacyAnalyticsProvider({
   }
 
   const trackPageView = async () => {
-    if (!config.enableTracking || !visitorId) return
+    if (!config.enableTracking || !analyticsAllowed || !sessionId) return
 
     try {
       await fetch('/api/analytics', {
@@ -137,7 +132,6 @@ export function PrivacyAnalyticsProvider({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           eventType: 'page_view',
-          visitorId,
           sessionId,
           properties: {
             page: window.location.pathname,
@@ -156,7 +150,7 @@ export function PrivacyAnalyticsProvider({
     eventType: string,
     properties: Record<string, any> = {}
   ) => {
-    if (!config.enableTracking || !visitorId) return
+    if (!config.enableTracking || !analyticsAllowed || !sessionId) return
 
     try {
       await fetch('/api/analytics', {
@@ -164,7 +158,6 @@ export function PrivacyAnalyticsProvider({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           eventType,
-          visitorId,
           sessionId,
           properties: {
             ...properties,
@@ -179,7 +172,7 @@ export function PrivacyAnalyticsProvider({
   }
 
   const trackConversion = async (conversionType: string, value: number = 1) => {
-    if (!config.enableTracking || !visitorId) return
+    if (!config.enableTracking || !analyticsAllowed || !sessionId) return
 
     try {
       await fetch('/api/analytics/conversions', {
@@ -187,7 +180,6 @@ export function PrivacyAnalyticsProvider({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           conversionType,
-          visitorId,
           sessionId,
           conversionValue: value,
           metadata: {
@@ -241,7 +233,6 @@ export function PrivacyAnalyticsProvider({
 
   const contextValue: AnalyticsContextValue = {
     config,
-    visitorId,
     sessionId,
     trackEvent,
     trackConversion,
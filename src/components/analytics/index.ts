@@ -23,6 +23,7 @@ export {
 } from './EnhancedAnalyticsProvider'
 
 export { PrivacyAnalyticsProvider } from './PrivacyAnalyticsProvider'
+export { PlausibleScript } from './PlausibleScript'
 
 // Phase 6: Performance Monitoring Components
 export {
@@ -0,0 +1,52 @@
+'use client'
+
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+
+interface ConsentBannerProps {
+  onAcceptAll: () => void
+  onRejectAll: () => void
+  onCustomize: () => void
+}
+
+/**
+ * Consent Banner
+ * Shown at the bottom of the page until the visitor makes a choice.
+ * Rejecting is as easy as accepting.
+ */
+export function ConsentBanner({
+  onAcceptAll,
+  onRejectAll,
+  onCustomize,
+}: ConsentBannerProps) {
+  return (
+    <div
+      role="region"
+      aria-label="Tracking consent"
+      className="fixed inset-x-0 bottom-0 z-40 border-t border-border-gray bg-parchment-white shadow-hover-card"
+    >
+      <div className="mx-auto flex max-w-6xl flex-col gap-4 p-4 md:flex-row md:items-center md:justify-between">
+        <p className="text-body text-text-gray">
+          We use anonymous analytics, performance monitoring and campaign
+          attribution to improve Silent Scribe. No cookies, and nothing runs
+          until you choose. See our{' '}
+          <Link href="/privacy" className="text-quill-blue underline">
+            privacy policy
+          </Link>
+          .
+        </p>
+        <div className="flex shrink-0 flex-wrap gap-2">
+          <Button variant="ghost" size="sm" onClick={onCustomize}>
+            Customize
+          </Button>
+          <Button variant="secondary" size="sm" onClick={onRejectAll}>
+            Reject all
+          </Button>
+          <Button variant="primary" size="sm" onClick={onAcceptAll}>
+            Accept all
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+/**
+ * Consent Provider
+ * Holds the visitor's tracking consent for the app, shows the consent
+ * banner until they choose, and owns the settings modal. Every tracking
+ * provider reads its gate from useConsent.
+ */
+
+'use client'
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  useSyncExternalStore,
+} from 'react'
+import {
+  getStoredConsent,
+  isDoNotTrackEnabled,
+  saveConsent,
+  subscribeToConsent,
+  type ConsentCategory,
+  type ConsentChoices,
+  type StoredConsent,
+} from '@/lib/consent'
+import { ConsentBanner } from './ConsentBanner'
+import { ConsentSettingsModal } from './ConsentSettingsModal'
+
+interface ConsentContextValue {
+  consent: StoredConsent | null
+  hasChosen: boolean
+  isAllowed: (category: ConsentCategory) => boolean
+  acceptAll: () => void
+  rejectAll: () => void
+  saveChoices: (choices: Partial<ConsentChoices>) => void
+  openSettings: () => void
+}
+
+// Outside a ConsentProvider nothing beyond strictly necessary is allowed
+const ConsentContext = createContext<ConsentContextValue>({
+  consent: null,
+  hasChosen: false,
+  isAllowed: (category) => category === 'necessary',
+  acceptAll: () => {},
+  rejectAll: () => {},
+  saveChoices: () => {},
+  openSettings: () => {},
+})
+
+interface ConsentProviderProps {
+  children: React.ReactNode
+}
+
+export function ConsentProvider({ children }: ConsentProviderProps) {
+  // The server never has a choice, so tracking starts after hydration
+  const consent = useSyncExternalStore(
+    subscribeToConsent,
+    getStoredConsent,
+    () => null
+  )
+  const [settingsOpen, setSettingsOpen] = useState(false)
+  const [showBanner, setShowBanner] = useState(false)
+
+  useEffect(() => {
+    setShowBanner(!consent && !isDoNotTrackEnabled())
+  }, [consent])
+
+  const isAllowed = useCallback(
+    (category: ConsentCategory) =>
+      category === 'necessary' || consent?.choices[category] === true,
+    [consent]
+  )
+
+  const acceptAll = useCallback(() => {
+    saveConsent(
+      { analytics: true, performance: true, marketing: true },
+      'accept_all'
+    )
+    setSettingsOpen(false)
+  }, [])
+
+  const rejectAll = useCallback(() => {
+    saveConsent(
+      { analytics: false, performance: false, marketing: false },
+      'reject_all'
+    )
+    setSettingsOpen(false)
+  }, [])
+
+  const saveChoices = useCallback((choices: Partial<ConsentChoices>) => {
+    saveConsent(choices, 'custom')
+    setSettingsOpen(false)
+  }, [])
+
+  const openSettings = useCallback(() => setSettingsOpen(true), [])
+
+  const contextValue: ConsentContextValue = {
+    consent,
+    hasChosen: consent !== null,
+    isAllowed,
+    acceptAll,
+    rejectAll,
+    saveChoices,
+    openSettings,
+  }
+
+  return (
+    <ConsentContext.Provider value={contextValue}>
+      {children}
+
+      {showBanner && !settingsOpen && (
+        <ConsentBanner
+          onAcceptAll={acceptAll}
+          onRejectAll={rejectAll}
+          onCustomize={openSettings}
+        />
+      )}
+
+      <ConsentSettingsModal
+        isOpen={settingsOpen}
+        onClose={() => setSettingsOpen(false)}
+        initialChoices={consent?.choices}
+        onSave={saveChoices}
+        onAcceptAll={acceptAll}
+        onRejectAll={rejectAll}
+      />
+    </ConsentContext.Provider>
+  )
+}
+
+/**
+ * Hook to read and change tracking consent
+ */
+export function useConsent() {
+  return useContext(ConsentContext)
+}
@@ -0,0 +1,20 @@
+'use client'
+
+import { useConsent } from './ConsentProvider'
+
+interface ConsentSettingsLinkProps {
+  className?: string
+}
+
+/**
+ * Reopens the consent settings, e.g. from the footer
+ */
+export function ConsentSettingsLink({ className }: ConsentSettingsLinkProps) {
+  const { openSettings } = useConsent()
+
+  return (
+    <button type="button" onClick={openSettings} className={className}>
+      Privacy settings
+    </button>
+  )
+}
@@ -0,0 +1,96 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Modal } from '@/components/ui/modal'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  CONSENT_CATEGORIES,
+  CONSENT_CATEGORY_INFO,
+  CONSENT_POLICY_VERSION,
+  type ConsentChoices,
+} from '@/lib/consent'
+
+interface ConsentSettingsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  initialChoices?: ConsentChoices
+  onSave: (choices: ConsentChoices) => void
+  onAcceptAll: () => void
+  onRejectAll: () => void
+}
+
+const NO_CHOICES: ConsentChoices = {
+  necessary: true,
+  analytics: false,
+  performance: false,
+  marketing: false,
+}
+
+/**
+ * Consent Settings Modal
+ * Per-category consent, opened from the banner or the footer
+ */
+export function ConsentSettingsModal({
+  isOpen,
+  onClose,
+  initialChoices,
+  onSave,
+  onAcceptAll,
+  onRejectAll,
+}: ConsentSettingsModalProps) {
+  const [choices, setChoices] = useState<ConsentChoices>(
+    initialChoices || NO_CHOICES
+  )
+
+  // Start from the saved choice each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setChoices(initialChoices || NO_CHOICES)
+    }
+  }, [isOpen, initialChoices])
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Privacy settings"
+      description="Choose which kinds of tracking you allow. You can change this at any time from the link in the footer."
+      size="lg"
+    >
+      <div className="space-y-4">
+        {CONSENT_CATEGORIES.map((category) => (
+          <Checkbox
+            key={category}
+            label={CONSENT_CATEGORY_INFO[category].label}
+            description={CONSENT_CATEGORY_INFO[category].description}
+            checked={choices[category]}
+            disabled={category === 'necessary'}
+            onChange={(event) =>
+              setChoices((prev) => ({
+                ...prev,
+                [category]: event.target.checked,
+              }))
+            }
+          />
+        ))}
+      </div>
+
+      <p className="mt-4 text-caption text-muted-gray">
+        Policy version {CONSENT_POLICY_VERSION}
+      </p>
+
+      <div className="mt-6 flex flex-wrap justify-end gap-2">
+        <Button variant="ghost" onClick={onRejectAll}>
+          Reject all
+        </Button>
+        <Button variant="secondary" onClick={() => onSave(choices)}>
+          Save choices
+        </Button>
+        <Button variant="primary" onClick={onAcceptAll}>
+          Accept all
+        </Button>
+      </div>
+    </Modal>
+  )
+}
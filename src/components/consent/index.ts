@@ -0,0 +1,4 @@
+export { ConsentProvider, useConsent } from './ConsentProvider'
+export { ConsentBanner } from './ConsentBanner'
+export { ConsentSettingsModal } from './ConsentSettingsModal'
+export { ConsentSettingsLink } from './ConsentSettingsLink'
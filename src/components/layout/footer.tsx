@@ -2,6 +2,7 @@ import Link from 'next/link'
 import Image from 'next/image'
 import { cn } from '@/lib/utils'
 import { DynamicYear, ClientOnly } from '@/components/ui/client-only'
+import { ConsentSettingsLink } from '@/components/consent/ConsentSettingsLink'
 
 interface FooterLinkSection {
   title: string
@@ -213,6 +214,7 @@ export function Footer({ className }: FooterProps) {
             >
               Security
             </Link>
+            <ConsentSettingsLink className="text-caption text-muted-gray hover:text-quill-blue transition-colors" />
           </div>
           <ClientOnly>
             <p className="mt-8 text-caption text-muted-gray md:order-1 md:mt-0">
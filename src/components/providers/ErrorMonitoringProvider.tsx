@@ -2,13 +2,16 @@
  * Error Monitoring Initialization
  * Phase 6: Performance Monitoring - Error Handling System Setup
  *
- * Initializes error tracking, performance monitoring, and recovery systems
+ * Initializes error tracking, performance monitoring, and recovery systems.
+ * Monitoring starts once the visitor allows performance monitoring; until
+ * then errorTracker drops what it captures.
  */
 
 'use client'
 
 import React, { useEffect } from 'react'
 import { errorTracker, PerformanceMonitor } from '@/lib/services/error-tracking'
+import { useConsent } from '@/components/consent/ConsentProvider'
 
 interface ErrorMonitoringProviderProps {
   children: React.ReactNode
@@ -25,9 +28,12 @@ export function ErrorMonitoringProvider({
   enableMemoryMonitoring = true,
   enableBundleMonitoring = true,
 }: ErrorMonitoringProviderProps) {
+  const { isAllowed } = useConsent()
+  const performanceAllowed = isAllowed('performance')
+
   useEffect(() => {
     // Initialize error monitoring only on client side
-    if (typeof window === 'undefined') return
+    if (typeof window === 'undefined' || !performanceAllowed) return
 
     console.log('🚀 Initializing error monitoring system...')
 
@@ -73,6 +79,7 @@ export function ErrorMonitoringProvider({
       console.log('🛑 Error monitoring cleanup completed')
     }
   }, [
+    performanceAllowed,
     enablePerformanceMonitoring,
     enableWebVitalsTracking,
     enableMemoryMonitoring,
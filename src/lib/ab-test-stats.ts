@@ -0,0 +1,228 @@
+import crypto from 'crypto'
+
+/**
+ * A/B Test Statistics
+ * Seeded shuffling for reproducible variant assignment, two-proportion
+ * z-tests for open and click rates, and per-variant sample sizes needed to
+ * detect a given lift.
+ */
+
+export interface ProportionTestResult {
+  rate_a: number // 0-1
+  rate_b: number
+  difference: number // rate_b - rate_a
+  relative_lift: number | null // difference / rate_a, null when rate_a is 0
+  z_score: number
+  p_value: number // Two-sided
+  confidence: number // (1 - p_value) * 100
+  significant: boolean
+}
+
+export interface SampleSizeGuidance {
+  baseline_rate: number
+  minimum_detectable_effect: number // Absolute, e.g. 0.05 for 5 points
+  required_per_variant: number
+  alpha: number
+  power: number
+}
+
+/**
+ * A random seed to record alongside a shuffle
+ */
+export function createShuffleSeed(): string {
+  return crypto.randomBytes(16).toString('hex')
+}
+
+/**
+ * Deterministic random numbers in [0, 1) from a string seed (sfc32, seeded
+ * from the seed's SHA-256)
+ */
+export function createSeededRandom(seed: string): () => number {
+  const digest = crypto.createHash('sha256').update(seed).digest()
+  let a = digest.readUInt32LE(0)
+  let b = digest.readUInt32LE(4)
+  let c = digest.readUInt32LE(8)
+  let d = digest.readUInt32LE(12)
+
+  const next = () => {
+    const t = (((a + b) >>> 0) + d) >>> 0
+    d = (d + 1) >>> 0
+    a = b ^ (b >>> 9)
+    b = (c + (c << 3)) >>> 0
+    c = ((c << 21) | (c >>> 11)) >>> 0
+    c = (c + t) >>> 0
+    return t / 4294967296
+  }
+
+  // Discard the first outputs so similar seeds diverge
+  for (let i = 0; i < 12; i++) {
+    next()
+  }
+
+  return next
+}
+
+/**
+ * Fisher-Yates shuffle driven by a seed. The same seed and input order
+ * always give the same result. Returns a new array.
+ */
+export function seededShuffle<T>(items: T[], seed: string): T[] {
+  const random = createSeededRandom(seed)
+  const shuffled = [...items]
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+
+  return shuffled
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2
+  const t = 1 / (1 + 0.3275911 * x)
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) *
+      t +
+      0.254829592) *
+      t *
+      Math.exp(-x * x)
+
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's approximation)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1) {
+    throw new Error('normalQuantile takes a probability between 0 and 1')
+  }
+
+  const a = [
+    -39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269,
+    -30.66479806614716, 2.506628277459239,
+  ]
+  const b = [
+    -54.47609879822406, 161.5858368580409, -155.6989798598866,
+    66.80131188771972, -13.28068155288572,
+  ]
+  const c = [
+    -0.007784894002430293, -0.3223964580411365, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783,
+  ]
+  const d = [
+    0.007784695709041462, 0.3224671290700398, 2.445134137142996,
+    3.754408661907416,
+  ]
+  const low = 0.02425
+
+  if (p < low || p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(p < low ? p : 1 - p))
+    const value =
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+    return p < low ? value : -value
+  }
+
+  const q = p - 0.5
+  const r = q * q
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) *
+      q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  )
+}
+
+/**
+ * Two-sided two-proportion z-test with a pooled standard error. Each
+ * recipient counts once, so successes are unique openers or clickers.
+ */
+export function twoProportionZTest(
+  successesA: number,
+  totalA: number,
+  successesB: number,
+  totalB: number,
+  confidenceLevel = 95
+): ProportionTestResult {
+  const rateA = totalA > 0 ? successesA / totalA : 0
+  const rateB = totalB > 0 ? successesB / totalB : 0
+  const difference = rateB - rateA
+  const relativeLift = rateA > 0 ? difference / rateA : null
+
+  const pooled =
+    totalA + totalB > 0 ? (successesA + successesB) / (totalA + totalB) : 0
+  const standardError = Math.sqrt(
+    pooled * (1 - pooled) * (totalA > 0 ? 1 / totalA : 0) +
+      pooled * (1 - pooled) * (totalB > 0 ? 1 / totalB : 0)
+  )
+
+  // No data, or every recipient behaved the same way
+  if (totalA === 0 || totalB === 0 || standardError === 0) {
+    return {
+      rate_a: rateA,
+      rate_b: rateB,
+      difference,
+      relative_lift: relativeLift,
+      z_score: 0,
+      p_value: 1,
+      confidence: 0,
+      significant: false,
+    }
+  }
+
+  const zScore = difference / standardError
+  const pValue = Math.min(2 * (1 - normalCdf(Math.abs(zScore))), 1)
+
+  return {
+    rate_a: rateA,
+    rate_b: rateB,
+    difference,
+    relative_lift: relativeLift,
+    z_score: zScore,
+    p_value: pValue,
+    confidence: (1 - pValue) * 100,
+    significant: pValue < 1 - confidenceLevel / 100,
+  }
+}
+
+/**
+ * Recipients needed in each variant to detect an absolute change of
+ * `minimumDetectableEffect` from `baselineRate` with a two-sided test
+ */
+export function getMinimumSampleSize({
+  baselineRate,
+  minimumDetectableEffect,
+  confidenceLevel = 95,
+  power = 0.8,
+}: {
+  baselineRate: number
+  minimumDetectableEffect: number
+  confidenceLevel?: number
+  power?: number
+}): SampleSizeGuidance {
+  const alpha = Number((1 - confidenceLevel / 100).toFixed(4))
+  const p1 = Math.min(Math.max(baselineRate, 0.001), 0.999)
+  const p2 = Math.min(Math.max(p1 + minimumDetectableEffect, 0.001), 0.999)
+  const averageRate = (p1 + p2) / 2
+
+  const zAlpha = normalQuantile(1 - alpha / 2)
+  const zBeta = normalQuantile(power)
+  const required =
+    (zAlpha * Math.sqrt(2 * averageRate * (1 - averageRate)) +
+      zBeta * Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2))) **
+      2 /
+    (p2 - p1) ** 2
+
+  return {
+    baseline_rate: baselineRate,
+    minimum_detectable_effect: minimumDetectableEffect,
+    required_per_variant: Math.ceil(required),
+    alpha,
+    power,
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Admin Login Throttling
+ * Per-IP, per-account and global failed-login counters with exponential
+ * backoff and temporary lockout for the admin auth route. Counters live in the
+ * admin_login_attempts table so every server instance shares them.
+ */
+
+import crypto from 'crypto'
+import type { NextRequest } from 'next/server'
+import { supabaseAdmin } from './supabase'
+
+interface LockoutPolicy {
+  freeAttempts: number // Failures allowed before backoff starts
+  baseDelay: number // First backoff in ms, doubled for each further failure
+  maxDelay: number // Longest lockout in ms
+  window: number // Failures older than this (ms) are forgotten
+}
+
+type ThrottleScope = 'ip' | 'account' | 'global'
+
+export interface LoginThrottleStatus {
+  allowed: boolean
+  retryAfterSeconds: number
+  scope?: ThrottleScope
+}
+
+const POLICIES: Record<ThrottleScope, LockoutPolicy> = {
+  ip: {
+    freeAttempts: 5,
+    baseDelay: 30 * 1000, // 30 seconds
+    maxDelay: 60 * 60 * 1000, // 1 hour
+    window: 60 * 60 * 1000, // 1 hour
+  },
+  // Looser than the IP policy so a stranger can't keep an admin locked out
+  // for long, while still capping guesses against one account
+  account: {
+    freeAttempts: 10,
+    baseDelay: 60 * 1000, // 1 minute
+    maxDelay: 15 * 60 * 1000, // 15 minutes
+    window: 60 * 60 * 1000, // 1 hour
+  },
+  // Caps guessing spread across many IPs and accounts. The threshold is well
+  // above normal admin traffic and the backoff short, so it only slows an
+  // attack down rather than locking admins out for long
+  global: {
+    freeAttempts: 100,
+    baseDelay: 10 * 1000, // 10 seconds
+    maxDelay: 5 * 60 * 1000, // 5 minutes
+    window: 15 * 60 * 1000, // 15 minutes
+  },
+}
+
+const GLOBAL_KEY = 'global'
+
+/**
+ * The client IP as set by the hosting platform. x-real-ip is overwritten
+ * by the platform's edge; otherwise the last x-forwarded-for entry is the
+ * one our own proxy appended. The first entry is client-controlled.
+ */
+export function getPlatformClientIP(request: NextRequest): string {
+  const real = request.headers.get('x-real-ip')
+  if (real) return real.trim()
+
+  const forwarded = request.headers.get('x-forwarded-for')
+  if (forwarded) {
+    const hops = forwarded.split(',')
+    return hops[hops.length - 1].trim()
+  }
+
+  return 'unknown IP'
+}
+
+function getKeys(
+  ip: string,
+  email?: string
+): Array<{ scope: ThrottleScope; key: string }> {
+  const ipHash = crypto
+    .createHash('sha256')
+    .update(ip)
+    .digest('hex')
+    .substring(0, 16)
+
+  return [
+    { scope: 'ip', key: `ip:${ipHash}` },
+    // Bootstrap logins have no email; they share one account key
+    {
+      scope: 'account',
+      key: `account:${email?.trim().toLowerCase() || 'bootstrap'}`,
+    },
+    { scope: 'global', key: GLOBAL_KEY },
+  ]
+}
+
+function toStatus(
+  scope: ThrottleScope,
+  lockedUntil: string | null,
+  now: number
+): LoginThrottleStatus | null {
+  const until = lockedUntil ? new Date(lockedUntil).getTime() : 0
+  if (until <= now) {
+    return null
+  }
+
+  return {
+    allowed: false,
+    retryAfterSeconds: Math.ceil((until - now) / 1000),
+    scope,
+  }
+}
+
+class AdminLoginThrottle {
+  /**
+   * Check whether a login attempt from this IP for this account may proceed.
+   * Fails open if the counters can't be read; the login itself still needs
+   * valid credentials.
+   */
+  async check(ip: string, email?: string): Promise<LoginThrottleStatus> {
+    const keys = getKeys(ip, email)
+
+    const { data, error } = await supabaseAdmin
+      .from('admin_login_attempts')
+      .select('key, locked_until')
+      .in(
+        'key',
+        keys.map((entry) => entry.key)
+      )
+
+    if (error) {
+      console.error('Failed to read admin login attempts:', error)
+      return { allowed: true, retryAfterSeconds: 0 }
+    }
+
+    const now = Date.now()
+    for (const entry of keys) {
+      const row = (data || []).find(
+        (attempt: { key: string }) => attempt.key === entry.key
+      )
+      const status = row ? toStatus(entry.scope, row.locked_until, now) : null
+      if (status) {
+        return status
+      }
+    }
+
+    return { allowed: true, retryAfterSeconds: 0 }
+  }
+
+  /**
+   * Record a failed login and return the resulting lockout, if any
+   */
+  async recordFailure(
+    ip: string,
+    email?: string
+  ): Promise<LoginThrottleStatus & { failures: number }> {
+    const now = Date.now()
+    let failures = 0
+    let lockout: LoginThrottleStatus | null = null
+
+    for (const entry of getKeys(ip, email)) {
+      const policy = POLICIES[entry.scope]
+      const { data, error } = await supabaseAdmin.rpc(
+        'record_admin_login_failure',
+        {
+          attempt_key: entry.key,
+          free_attempts: policy.freeAttempts,
+          base_delay_ms: policy.baseDelay,
+          max_delay_ms: policy.maxDelay,
+          window_ms: policy.window,
+        }
+      )
+
+      if (error) {
+        console.error('Failed to record admin login failure:', error)
+        continue
+      }
+
+      const row = (data || [])[0]
+      if (entry.scope === 'ip') {
+        failures = Number(row?.failure_count || 0)
+      }
+
+      lockout = lockout || toStatus(entry.scope, row?.locked_until_at, now)
+    }
+
+    return lockout
+      ? { ...lockout, failures }
+      : { allowed: true, retryAfterSeconds: 0, failures }
+  }
+
+  /**
+   * Clear the IP's and account's failures after a successful login. The
+   * global counter is left to expire, so one login can't reset it mid-attack
+   */
+  async recordSuccess(ip: string, email?: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('admin_login_attempts')
+      .delete()
+      .in(
+        'key',
+        getKeys(ip, email)
+          .filter((entry) => entry.scope !== 'global')
+          .map((entry) => entry.key)
+      )
+
+    if (error) {
+      console.error('Failed to clear admin login attempts:', error)
+    }
+  }
+}
+
+// Global throttle instance
+const adminLoginThrottle = new AdminLoginThrottle()
+
+export { adminLoginThrottle }
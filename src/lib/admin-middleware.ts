@@ -1,11 +1,151 @@
+import crypto from 'crypto'
 import { NextRequest, NextResponse } from 'next/server'
+import {
+  getAdminTokenFromRequest,
+  isAdminSessionConfigured,
+  verifyAdminSessionToken,
+  type AdminActor,
+} from './admin-session'
+import { AdminAuditService, hasRequiredRole } from './services/admin'
+import type { AdminRole } from '@/types'
+
+/**
+ * Minimum role per admin route prefix, checked in order.
+ * Routes not listed here need `viewer` to read and `marketer` to write.
+ */
+const ROUTE_ROLES: Array<{ prefix: string; role: AdminRole }> = [
+  { prefix: '/api/admin/users', role: 'owner' },
+  { prefix: '/api/admin/audit-log', role: 'owner' },
+  { prefix: '/api/admin/maintenance', role: 'owner' },
+  { prefix: '/api/email-campaigns', role: 'marketer' },
+  { prefix: '/api/ab-testing', role: 'marketer' },
+  { prefix: '/api/admin/segments', role: 'marketer' },
+]
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+// Body fields that must never be written to the audit log
+const REDACTED_PARAMS = /password|token|secret|api_?key/i
+
+function getRequiredRole(pathname: string, method: string): AdminRole {
+  const match = ROUTE_ROLES.find((rule) => pathname.startsWith(rule.prefix))
+  if (match) {
+    return match.role
+  }
+
+  return READ_METHODS.includes(method) ? 'viewer' : 'marketer'
+}
+
+/**
+ * Check the static admin API key (used by scripts and server-to-server calls)
+ */
+function hasValidApiKey(request: NextRequest): boolean {
+  const adminApiKey = process.env.ADMIN_API_KEY
+  const authHeader = request.headers.get('authorization')
+
+  return !!adminApiKey && authHeader === `Bearer ${adminApiKey}`
+}
+
+/**
+ * Resolve the admin actor behind a request, if any
+ */
+async function resolveActor(request: NextRequest): Promise<AdminActor | null> {
+  if (hasValidApiKey(request)) {
+    return { adminUserId: null, email: 'api-key', role: 'owner' }
+  }
+
+  const token = getAdminTokenFromRequest(request)
+  if (!token) {
+    return null
+  }
+
+  const verification = await verifyAdminSessionToken(token)
+  if (!verification.valid || !verification.actor) {
+    console.log('Admin token rejected:', verification.error)
+    return null
+  }
+
+  return verification.actor
+}
+
+function redactParams(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactParams)
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [
+        key,
+        REDACTED_PARAMS.test(key) ? '[redacted]' : redactParams(nested),
+      ])
+    )
+  }
+
+  return value
+}
+
+/**
+ * Collect query and body parameters for the audit log
+ */
+async function getAuditParams(
+  request: NextRequest
+): Promise<Record<string, unknown>> {
+  const params: Record<string, unknown> = {
+    query: Object.fromEntries(request.nextUrl.searchParams.entries()),
+  }
+
+  if (!READ_METHODS.includes(request.method)) {
+    try {
+      params.body = await request.clone().json()
+    } catch {
+      params.body = null
+    }
+  }
+
+  return redactParams(params) as Record<string, unknown>
+}
+
+/**
+ * Record an admin action in the append-only audit log
+ */
+async function recordAudit(
+  request: NextRequest,
+  actor: AdminActor,
+  outcome: 'allowed' | 'denied'
+): Promise<void> {
+  const clientIP =
+    request.headers.get('x-forwarded-for') ||
+    request.headers.get('x-real-ip') ||
+    null
+
+  await AdminAuditService.record({
+    admin_user_id: actor.adminUserId || undefined,
+    actor_email: actor.email,
+    actor_role: actor.role,
+    method: request.method,
+    path: request.nextUrl.pathname,
+    params: await getAuditParams(request),
+    outcome,
+    ip_hash: clientIP
+      ? crypto
+          .createHash('sha256')
+          .update(clientIP)
+          .digest('hex')
+          .substring(0, 16)
+      : undefined,
+  })
+}
 
 /**
  * Admin API Middleware
- * Validates authentication for all admin API endpoints
+ * Validates authentication and the route's required role for admin API
+ * endpoints, and records every call (reads, writes and denials) in the
+ * audit log
  */
 export async function adminApiMiddleware(
-  request: NextRequest
+  request: NextRequest,
+  options?: { role?: AdminRole }
 ): Promise<NextResponse | null> {
   const { pathname } = request.nextUrl
 
@@ -14,11 +154,7 @@ export async function adminApiMiddleware(
     return null // Continue to the handler
   }
 
-  // Check for authentication
-  const authHeader = request.headers.get('authorization')
-  const adminApiKey = process.env.ADMIN_API_KEY
-
-  if (!authHeader && !adminApiKey) {
+  if (!process.env.ADMIN_API_KEY && !isAdminSessionConfigured()) {
     return NextResponse.json(
       {
         error: 'Admin API authentication not configured',
@@ -27,128 +163,48 @@ export async function adminApiMiddleware(
     )
   }
 
-  // Check API key authentication
-  if (authHeader === `Bearer ${adminApiKey}`) {
-    return null // Continue to the handler
+  const actor = await resolveActor(request)
+  if (!actor) {
+    return NextResponse.json(
+      {
+        error: 'Unauthorized - Admin access required',
+      },
+      { status: 401 }
+    )
   }
 
-  // Check session token from Authorization header
-  if (authHeader && authHeader.startsWith('Bearer ')) {
-    const token = authHeader.replace('Bearer ', '')
-    try {
-      // Validate session token - token is already base64 encoded
-      const decoded = Buffer.from(token, 'base64').toString()
-      const [prefix, timestamp] = decoded.split(':')
-
-      console.log('Validating token:', {
-        prefix,
-        timestamp,
-        decoded: decoded.substring(0, 20) + '...',
-      })
-
-      if (prefix === 'admin' && timestamp) {
-        const tokenTime = parseInt(timestamp)
-        const now = Date.now()
-        const twentyFourHours = 24 * 60 * 60 * 1000
-
-        if (now - tokenTime <= twentyFourHours) {
-          console.log('Token validation successful')
-          return null // Continue to the handler
-        } else {
-          console.log('Token expired')
-        }
-      } else {
-        console.log('Invalid token format')
-      }
-    } catch (error) {
-      console.error('Token validation error:', error)
-    }
-  }
+  const requiredRole =
+    options?.role || getRequiredRole(pathname, request.method)
 
-  // Check session-based authentication via cookies
-  const sessionCookie = request.cookies.get('admin_session')?.value
-  if (sessionCookie) {
-    try {
-      // Validate session token - token is already base64 encoded
-      const decoded = Buffer.from(sessionCookie, 'base64').toString()
-      const [prefix, timestamp] = decoded.split(':')
-
-      if (prefix === 'admin' && timestamp) {
-        const tokenTime = parseInt(timestamp)
-        const now = Date.now()
-        const twentyFourHours = 24 * 60 * 60 * 1000
-
-        if (now - tokenTime <= twentyFourHours) {
-          return null // Continue to the handler
-        }
-      }
-    } catch (error) {
-      console.error('Session validation error:', error)
-    }
+  if (!hasRequiredRole(actor.role, requiredRole)) {
+    await recordAudit(request, actor, 'denied')
+    return NextResponse.json(
+      {
+        error: `Forbidden - ${requiredRole} role required`,
+      },
+      { status: 403 }
+    )
   }
 
-  // Authentication failed
-  return NextResponse.json(
-    {
-      error: 'Unauthorized - Admin access required',
-    },
-    { status: 401 }
-  )
+  await recordAudit(request, actor, 'allowed')
+
+  return null // Continue to the handler
 }
 
 /**
  * Utility function to check if a request is authenticated
  */
-export function isAdminAuthenticated(request: NextRequest): boolean {
-  const authHeader = request.headers.get('authorization')
-  const adminApiKey = process.env.ADMIN_API_KEY
-
-  // Check API key authentication
-  if (authHeader === `Bearer ${adminApiKey}`) {
-    return true
-  }
-
-  // Check session token from Authorization header
-  if (authHeader && authHeader.startsWith('Bearer ')) {
-    const token = authHeader.replace('Bearer ', '')
-    try {
-      if (token.startsWith('YWRtaW4:')) {
-        const decoded = Buffer.from(token, 'base64').toString()
-        const [prefix, timestamp] = decoded.split(':')
-
-        if (prefix === 'admin' && timestamp) {
-          const tokenTime = parseInt(timestamp)
-          const now = Date.now()
-          const twentyFourHours = 24 * 60 * 60 * 1000
-
-          return now - tokenTime <= twentyFourHours
-        }
-      }
-    } catch (error) {
-      console.error('Token validation error:', error)
-    }
-  }
-
-  // Check session-based authentication via cookies
-  const sessionCookie = request.cookies.get('admin_session')?.value
-  if (sessionCookie) {
-    try {
-      if (sessionCookie.startsWith('YWRtaW4:')) {
-        const decoded = Buffer.from(sessionCookie, 'base64').toString()
-        const [prefix, timestamp] = decoded.split(':')
-
-        if (prefix === 'admin' && timestamp) {
-          const tokenTime = parseInt(timestamp)
-          const now = Date.now()
-          const twentyFourHours = 24 * 60 * 60 * 1000
-
-          return now - tokenTime <= twentyFourHours
-        }
-      }
-    } catch (error) {
-      console.error('Session validation error:', error)
-    }
-  }
+export async function isAdminAuthenticated(
+  request: NextRequest
+): Promise<boolean> {
+  return (await resolveActor(request)) !== null
+}
 
-  return false
+/**
+ * Get the admin actor for an already-authenticated request
+ */
+export async function getAdminActor(
+  request: NextRequest
+): Promise<AdminActor | null> {
+  return resolveActor(request)
 }
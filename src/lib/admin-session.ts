@@ -0,0 +1,268 @@
+import crypto from 'crypto'
+import type { NextRequest } from 'next/server'
+import { supabaseAdmin } from './supabase'
+import type { AdminRole } from '@/types'
+
+/**
+ * Admin Session Tokens
+ * Issues and verifies HMAC-signed admin session tokens backed by the
+ * admin_sessions table, so a token is only accepted while its session row
+ * exists and has not been revoked.
+ */
+
+export const ADMIN_SESSION_COOKIE = 'admin_session'
+export const ADMIN_SESSION_TTL_MS = 24 * 60 * 60 * 1000 // 24 hours
+
+// Actor recorded for sessions issued through the ADMIN_PASSWORD bootstrap login
+export const BOOTSTRAP_ADMIN_EMAIL = 'bootstrap-admin'
+
+export interface AdminSessionClaims {
+  sid: string // Session id (admin_sessions.id)
+  uid: string | null // Admin account id, null for bootstrap sessions
+  iat: number // Issued at, ms since epoch
+  exp: number // Expires at, ms since epoch
+}
+
+export interface AdminActor {
+  adminUserId: string | null
+  email: string
+  role: AdminRole
+}
+
+export interface AdminSessionVerification {
+  valid: boolean
+  claims: AdminSessionClaims | null
+  actor?: AdminActor
+  error: string | null
+}
+
+function getSessionSecret(): string | null {
+  return process.env.ADMIN_SESSION_SECRET || null
+}
+
+function sign(payload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('base64url')
+}
+
+function hashValue(value: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(value)
+    .digest('hex')
+    .substring(0, 16)
+}
+
+/**
+ * Check whether session signing is configured
+ */
+export function isAdminSessionConfigured(): boolean {
+  return getSessionSecret() !== null
+}
+
+/**
+ * Extract an admin token from the Authorization header or session cookie
+ */
+export function getAdminTokenFromRequest(request: NextRequest): string | null {
+  const authHeader = request.headers.get('authorization')
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.replace('Bearer ', '')
+  }
+
+  return request.cookies.get(ADMIN_SESSION_COOKIE)?.value || null
+}
+
+/**
+ * Create a new admin session and return its signed token
+ */
+export async function createAdminSession(metadata: {
+  adminUserId: string | null
+  ip?: string
+  userAgent?: string
+}): Promise<{
+  data: { token: string; claims: AdminSessionClaims } | null
+  error: string | null
+}> {
+  const secret = getSessionSecret()
+  if (!secret) {
+    return { data: null, error: 'ADMIN_SESSION_SECRET not configured' }
+  }
+
+  const now = Date.now()
+  const claims: AdminSessionClaims = {
+    sid: crypto.randomUUID(),
+    uid: metadata.adminUserId,
+    iat: now,
+    exp: now + ADMIN_SESSION_TTL_MS,
+  }
+
+  try {
+    const { error } = await supabaseAdmin.from('admin_sessions').insert([
+      {
+        id: claims.sid,
+        issued_at: new Date(claims.iat).toISOString(),
+        expires_at: new Date(claims.exp).toISOString(),
+        admin_user_id: metadata.adminUserId,
+        ip_hash: metadata.ip ? hashValue(metadata.ip) : null,
+        user_agent_hash: metadata.userAgent
+          ? hashValue(metadata.userAgent)
+          : null,
+      },
+    ])
+
+    if (error) {
+      console.error('Error creating admin session:', error)
+      return { data: null, error: error.message }
+    }
+  } catch (err) {
+    console.error('Unexpected error in createAdminSession:', err)
+    return { data: null, error: 'An unexpected error occurred' }
+  }
+
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url')
+  const token = `${payload}.${sign(payload, secret)}`
+
+  return { data: { token, claims }, error: null }
+}
+
+/**
+ * Verify a token's signature and expiry without touching the session store
+ */
+export function decodeAdminSessionToken(
+  token: string
+): AdminSessionVerification {
+  const secret = getSessionSecret()
+  if (!secret) {
+    return {
+      valid: false,
+      claims: null,
+      error: 'Session signing not configured',
+    }
+  }
+
+  const [payload, signature] = token.split('.')
+  if (!payload || !signature) {
+    return { valid: false, claims: null, error: 'Invalid token format' }
+  }
+
+  const expected = Buffer.from(sign(payload, secret))
+  const provided = Buffer.from(signature)
+  if (
+    expected.length !== provided.length ||
+    !crypto.timingSafeEqual(expected, provided)
+  ) {
+    return { valid: false, claims: null, error: 'Invalid token signature' }
+  }
+
+  let claims: AdminSessionClaims
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString())
+  } catch {
+    return { valid: false, claims: null, error: 'Invalid token format' }
+  }
+
+  if (!claims.sid || claims.uid === undefined || !claims.iat || !claims.exp) {
+    return { valid: false, claims: null, error: 'Invalid token claims' }
+  }
+
+  if (Date.now() >= claims.exp) {
+    return { valid: false, claims, error: 'Authentication token expired' }
+  }
+
+  return { valid: true, claims, error: null }
+}
+
+/**
+ * Verify a token, confirm its session is still active server-side and
+ * resolve the admin account behind it
+ */
+export async function verifyAdminSessionToken(
+  token: string
+): Promise<AdminSessionVerification> {
+  const decoded = decodeAdminSessionToken(token)
+  if (!decoded.valid || !decoded.claims) {
+    return decoded
+  }
+
+  try {
+    const { data: session, error } = await supabaseAdmin
+      .from('admin_sessions')
+      .select(
+        `
+        id, expires_at, revoked_at, admin_user_id,
+        admin_user:admin_users(id, email, role, disabled)
+      `
+      )
+      .eq('id', decoded.claims.sid)
+      .single()
+
+    if (error || !session) {
+      return { valid: false, claims: null, error: 'Session not found' }
+    }
+
+    if (session.revoked_at) {
+      return { valid: false, claims: null, error: 'Session has been revoked' }
+    }
+
+    if (new Date(session.expires_at).getTime() <= Date.now()) {
+      return {
+        valid: false,
+        claims: null,
+        error: 'Authentication token expired',
+      }
+    }
+
+    // Bootstrap sessions are not tied to an account and act as owner
+    if (!session.admin_user_id) {
+      return {
+        ...decoded,
+        actor: {
+          adminUserId: null,
+          email: BOOTSTRAP_ADMIN_EMAIL,
+          role: 'owner',
+        },
+      }
+    }
+
+    // Roles are read on every request so demotions apply immediately
+    const adminUser = session.admin_user
+    if (!adminUser || adminUser.disabled) {
+      return { valid: false, claims: null, error: 'Admin account disabled' }
+    }
+
+    return {
+      ...decoded,
+      actor: {
+        adminUserId: adminUser.id,
+        email: adminUser.email,
+        role: adminUser.role,
+      },
+    }
+  } catch (err) {
+    console.error('Admin session lookup error:', err)
+    return { valid: false, claims: null, error: 'Session validation failed' }
+  }
+}
+
+/**
+ * Revoke a session so its token is rejected from now on
+ */
+export async function revokeAdminSession(
+  sessionId: string
+): Promise<{ success: boolean; error: string | null }> {
+  try {
+    const { error } = await supabaseAdmin
+      .from('admin_sessions')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', sessionId)
+      .is('revoked_at', null)
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+
+    return { success: true, error: null }
+  } catch (err) {
+    console.error('Error in revokeAdminSession:', err)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
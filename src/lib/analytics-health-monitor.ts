@@ -5,6 +5,7 @@
 
 import { getAnalyticsHealth } from './analytics-circuit-breaker'
 import { analyticsConfig, analyticsDebug } from './analytics-config'
+import { isPlausibleAvailable } from './plausible'
 
 interface HealthReport {
   timestamp: number
@@ -206,8 +207,8 @@ export function createProductionAnalytics() {
   return {
     track: (eventName: string, data?: any) => {
       return monitoredAnalyticsCall(async () => {
-        if (typeof window !== 'undefined' && window.plausible) {
-          window.plausible(eventName, data)
+        if (isPlausibleAvailable()) {
+          window.plausible!(eventName, data)
         }
       }, `plausible_${eventName}`)
     },
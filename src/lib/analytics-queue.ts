@@ -0,0 +1,261 @@
+/**
+ * Analytics Event Queue
+ * Client-side batching for AnalyticsTracker. Events are queued and sent
+ * to /api/analytics/batch in batches on an interval, or as soon as a batch
+ * fills up. When the page is hidden or unloaded the queue is flushed with
+ * navigator.sendBeacon, so the last events on a page aren't lost. Failed
+ * batches are retried with exponential backoff, and nothing is sent while
+ * the analytics circuit breaker is open, except that final flush. Each event
+ * gets an ID when queued, so the server stores a resent event only once.
+ */
+
+import { circuitBreaker } from './analytics-circuit-breaker'
+import { analyticsDebug } from './analytics-config'
+
+export type QueuedAnalyticsEvent = (
+  | {
+      kind: 'event' // page_analytics
+      eventType: string
+      properties: Record<string, any>
+      timestamp: number
+    }
+  | {
+      kind: 'engagement' // engagement_events
+      eventType: string
+      pagePath: string
+      scrollDepth?: number
+      timeOnPage?: number
+      clickTarget?: string
+      formField?: string
+      ctaPosition?: string
+      mouseMovements?: number
+      keystrokes?: number
+      metadata?: Record<string, any>
+      timestamp: number
+    }
+  | {
+      kind: 'conversion' // goal_conversions
+      conversionType: string
+      conversionValue?: number
+      metadata?: Record<string, any>
+      timestamp: number
+    }
+) & {
+  id?: string // Assigned on enqueue
+}
+
+// The visitor ID is derived on the server, so only the session is sent
+export interface AnalyticsBatch {
+  sessionId: string
+  events: QueuedAnalyticsEvent[]
+}
+
+export interface AnalyticsQueueOptions {
+  endpoint: string
+  getSessionId: () => string
+  maxBatchSize?: number
+  flushInterval?: number // ms
+}
+
+// Must not exceed the batch endpoint's limit
+export const MAX_BATCH_SIZE = 25
+
+const DEFAULT_FLUSH_INTERVAL = 5000
+
+// Oldest events are dropped past this, e.g. while the API is down
+const MAX_QUEUE_SIZE = 200
+
+const RETRY_BASE_DELAY = 1000
+const RETRY_MAX_DELAY = 60 * 1000
+
+// A batch is dropped after this many failed attempts in a row
+const MAX_RETRIES = 5
+
+export class AnalyticsEventQueue {
+  private queue: QueuedAnalyticsEvent[] = []
+  private flushTimer: ReturnType<typeof setTimeout> | null = null
+  private inFlight = false
+  private failedAttempts = 0
+  private readonly endpoint: string
+  private readonly getSessionId: () => string
+  private readonly maxBatchSize: number
+  private readonly flushInterval: number
+
+  constructor(options: AnalyticsQueueOptions) {
+    this.endpoint = options.endpoint
+    this.getSessionId = options.getSessionId
+    this.maxBatchSize = Math.min(
+      options.maxBatchSize || MAX_BATCH_SIZE,
+      MAX_BATCH_SIZE
+    )
+    this.flushInterval = options.flushInterval || DEFAULT_FLUSH_INTERVAL
+
+    if (typeof window === 'undefined') return
+
+    // pagehide covers unloads that never fire visibilitychange (and bfcache)
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        this.flushWithBeacon()
+      }
+    })
+    window.addEventListener('pagehide', () => this.flushWithBeacon())
+  }
+
+  /**
+   * Queue an event, sending right away once a batch is full
+   */
+  enqueue(event: QueuedAnalyticsEvent): void {
+    this.queue.push({ ...event, id: event.id || crypto.randomUUID() })
+
+    if (this.queue.length > MAX_QUEUE_SIZE) {
+      this.queue.splice(0, this.queue.length - MAX_QUEUE_SIZE)
+    }
+
+    if (this.queue.length >= this.maxBatchSize && this.failedAttempts === 0) {
+      void this.flush()
+    } else {
+      this.scheduleFlush(this.flushInterval)
+    }
+  }
+
+  /**
+   * Send the next batch. On failure the batch goes back on the front of
+   * the queue and is retried after a backoff.
+   */
+  async flush(): Promise<void> {
+    this.clearTimer()
+
+    if (this.inFlight || this.queue.length === 0) return
+
+    if (!circuitBreaker.canExecute()) {
+      analyticsDebug('Event queue: Circuit breaker is open, holding events')
+      this.scheduleFlush(this.flushInterval)
+      return
+    }
+
+    const batch = this.queue.splice(0, this.maxBatchSize)
+    this.inFlight = true
+
+    try {
+      const response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(this.toBatch(batch)),
+        keepalive: true, // Let the request outlive the page
+      })
+
+      // A batch the endpoint rejected won't be accepted on a retry either
+      if (response.status >= 400 && response.status < 500) {
+        analyticsDebug(`Event queue: Batch rejected (${response.status})`)
+        this.failedAttempts = 0
+      } else if (!response.ok) {
+        throw new Error(`Analytics batch error: ${response.statusText}`)
+      } else {
+        circuitBreaker.recordSuccess()
+        this.failedAttempts = 0
+      }
+    } catch (error) {
+      circuitBreaker.recordFailure(
+        error instanceof Error ? error : new Error(String(error))
+      )
+      this.failedAttempts++
+
+      if (this.failedAttempts > MAX_RETRIES) {
+        analyticsDebug(
+          `Event queue: Dropping ${batch.length} events after ${MAX_RETRIES} retries`
+        )
+        this.failedAttempts = 0
+      } else {
+        this.queue.unshift(...batch)
+      }
+    } finally {
+      this.inFlight = false
+    }
+
+    if (this.queue.length > 0) {
+      this.scheduleFlush(
+        this.failedAttempts > 0 ? this.getRetryDelay() : this.flushInterval
+      )
+    }
+  }
+
+  /**
+   * Hand everything queued to the browser to send after the page has gone.
+   * Falls back to a keepalive fetch where sendBeacon isn't available or
+   * refuses the payload. Sent even while the circuit breaker is open, since
+   * there won't be another chance for these events.
+   */
+  flushWithBeacon(): void {
+    this.clearTimer()
+
+    if (this.queue.length === 0) return
+
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.maxBatchSize)
+      const body = JSON.stringify(this.toBatch(batch))
+
+      const sent =
+        typeof navigator !== 'undefined' &&
+        typeof navigator.sendBeacon === 'function' &&
+        navigator.sendBeacon(
+          this.endpoint,
+          new Blob([body], { type: 'application/json' })
+        )
+
+      if (!sent) {
+        fetch(this.endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body,
+          keepalive: true,
+        }).catch(() => {
+          // The page is going away; there's nothing left to retry with
+        })
+      }
+    }
+  }
+
+  /**
+   * Drop everything queued, e.g. when consent is withdrawn
+   */
+  clear(): void {
+    this.clearTimer()
+    this.queue = []
+    this.failedAttempts = 0
+  }
+
+  /**
+   * Number of events waiting to be sent
+   */
+  size(): number {
+    return this.queue.length
+  }
+
+  private toBatch(events: QueuedAnalyticsEvent[]): AnalyticsBatch {
+    return { sessionId: this.getSessionId(), events }
+  }
+
+  private getRetryDelay(): number {
+    const delay = Math.min(
+      RETRY_BASE_DELAY * 2 ** (this.failedAttempts - 1),
+      RETRY_MAX_DELAY
+    )
+    // Jitter so tabs that failed together don't retry together
+    return delay / 2 + Math.random() * (delay / 2)
+  }
+
+  private scheduleFlush(delay: number): void {
+    if (this.flushTimer) return
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null
+      void this.flush()
+    }, delay)
+  }
+
+  private clearTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+  }
+}
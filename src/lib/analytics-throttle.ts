@@ -9,6 +9,8 @@ import {
   analyticsConfig,
 } from './analytics-config'
 import { safeAnalyticsExecution } from './analytics-circuit-breaker'
+import { hasConsent } from './consent'
+import { isPlausibleAvailable } from './plausible'
 
 interface ThrottleOptions {
   delay: number
@@ -150,8 +152,8 @@ export function safeAnalyticsCall(
   fallbackFn?: () => void,
   operationName: string = 'analytics'
 ) {
-  // Skip if analytics is disabled
-  if (!shouldTrackAnalytics()) {
+  // Skip if analytics is disabled or the visitor hasn't allowed it
+  if (!shouldTrackAnalytics() || !hasConsent('analytics')) {
     analyticsDebug('Analytics disabled, skipping call')
     return
   }
@@ -184,14 +186,10 @@ export function createThrottledPlausibleTracker() {
   const throttledTrack = globalThrottle.throttle(
     'plausible_event',
     (eventName: string, data: any) => {
-      if (
-        typeof window !== 'undefined' &&
-        window.plausible &&
-        typeof window.plausible === 'function'
-      ) {
+      if (isPlausibleAvailable()) {
         // Additional safety check for production
         try {
-          window.plausible(eventName, data)
+          window.plausible!(eventName, data)
         } catch (error) {
           // Don't let Plausible errors break the site
           analyticsDebug('Plausible tracking error:', error)
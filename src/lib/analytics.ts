@@ -1,17 +1,23 @@
 /**
  * Privacy-compliant analytics tracking utility
- * Client-side library for tracking user interactions and page events
+ * Client-side library for tracking user interactions and page events.
+ * Events are queued and sent in batches (see analytics-queue.ts). Nothing
+ * identifying is stored in the browser: visitor IDs are derived on the
+ * server from a daily salt, and the session ID only lives as long as the tab.
+ * Events are only recorded while the visitor allows analytics (see
+ * consent.ts).
  */
 
+import { AnalyticsEventQueue } from './analytics-queue'
+import { hasConsent, subscribeToConsent } from './consent'
+
 export interface AnalyticsConfig {
   apiEndpoint?: string
-  visitorId?: string
   sessionId?: string
   enableAutoTracking?: boolean
   trackScrollDepth?: boolean
   trackTimeOnPage?: boolean
   trackClicks?: boolean
-  respectDoNotTrack?: boolean
 }
 
 export interface TrackingEvent {
@@ -22,22 +28,20 @@ export interface TrackingEvent {
 
 class AnalyticsTracker {
   private config: Required<AnalyticsConfig>
-  private visitorId: string = ''
   private sessionId: string = ''
   private startTime: number = 0
   private scrollDepthTracked: Set<number> = new Set()
   private isTracking: boolean = true
+  private queue: AnalyticsEventQueue | null = null
 
   constructor(config: AnalyticsConfig = {}) {
     this.config = {
-      apiEndpoint: '/api/analytics',
-      visitorId: '',
+      apiEndpoint: '/api/analytics/batch',
       sessionId: '',
       enableAutoTracking: true,
       trackScrollDepth: true,
       trackTimeOnPage: true,
       trackClicks: true,
-      respectDoNotTrack: true,
       ...config,
     }
 
@@ -47,15 +51,22 @@ class AnalyticsTracker {
       return
     }
 
-    // Check Do Not Track preference
-    if (this.config.respectDoNotTrack && this.isDNTEnabled()) {
-      this.isTracking = false
-      return
-    }
+    // Older versions kept a persistent visitor ID here
+    localStorage.removeItem('analytics_visitor_id')
 
-    this.visitorId = this.config.visitorId || this.generateVisitorId()
     this.sessionId = this.config.sessionId || this.generateSessionId()
     this.startTime = Date.now()
+    this.queue = new AnalyticsEventQueue({
+      endpoint: this.config.apiEndpoint,
+      getSessionId: () => this.sessionId,
+    })
+
+    // Don't send anything queued after consent is withdrawn
+    subscribeToConsent(() => {
+      if (!hasConsent('analytics')) {
+        this.queue?.clear()
+      }
+    })
 
     if (this.config.enableAutoTracking) {
       this.initializeAutoTracking()
@@ -69,19 +80,26 @@ class AnalyticsTracker {
     eventType: string,
     properties: Record<string, any> = {}
   ): Promise<void> {
-    if (!this.isTracking || typeof window === 'undefined') return
+    if (
+      !this.isTracking ||
+      typeof window === 'undefined' ||
+      !hasConsent('analytics')
+    )
+      return
 
     try {
-      const event: TrackingEvent = {
+      const timestamp = Date.now()
+
+      this.queue?.enqueue({
+        kind: 'event',
         eventType,
         properties: {
           ...properties,
           page: window.location.pathname,
-          timestamp: Date.now(),
+          timestamp,
         },
-      }
-
-      await this.sendEvent(event)
+        timestamp,
+      })
     } catch (error) {
       console.error('Analytics tracking error:', error)
     }
@@ -91,7 +109,12 @@ class AnalyticsTracker {
    * Track page view
    */
   async trackPageView(path?: string, title?: string): Promise<void> {
-    if (!this.isTracking || typeof window === 'undefined') return
+    if (
+      !this.isTracking ||
+      typeof window === 'undefined' ||
+      !hasConsent('analytics')
+    )
+      return
 
     const properties = {
       path: path || window.location.pathname,
@@ -101,8 +124,12 @@ class AnalyticsTracker {
         width: window.innerWidth,
         height: window.innerHeight,
       },
-      url: window.location.href,
-      search: window.location.search,
+      // The query string carries campaign (UTM) parameters, which are only
+      // kept with marketing attribution consent
+      url: hasConsent('marketing')
+        ? window.location.href
+        : window.location.origin + window.location.pathname,
+      search: hasConsent('marketing') ? window.location.search : '',
     }
 
     await this.track('page_view', properties)
@@ -116,28 +143,27 @@ class AnalyticsTracker {
     value: number = 1,
     metadata: Record<string, any> = {}
   ): Promise<void> {
-    if (!this.isTracking || typeof window === 'undefined') return
+    if (
+      !this.isTracking ||
+      typeof window === 'undefined' ||
+      !hasConsent('analytics')
+    )
+      return
 
     try {
-      const response = await fetch('/api/analytics/conversions', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          conversionType,
-          visitorId: this.visitorId,
-          sessionId: this.sessionId,
-          conversionValue: value,
-          metadata: {
-            ...metadata,
-            page: window.location.pathname,
-            timestamp: Date.now(),
-          },
-        }),
+      const timestamp = Date.now()
+
+      this.queue?.enqueue({
+        kind: 'conversion',
+        conversionType,
+        conversionValue: value,
+        metadata: {
+          ...metadata,
+          page: window.location.pathname,
+          timestamp,
+        },
+        timestamp,
       })
-
-      if (!response.ok) {
-        throw new Error('Conversion tracking failed')
-      }
     } catch (error) {
       console.error('Conversion tracking error:', error)
     }
@@ -150,28 +176,27 @@ class AnalyticsTracker {
     eventType: string,
     data: Record<string, any> = {}
   ): Promise<void> {
-    if (!this.isTracking || typeof window === 'undefined') return
+    if (
+      !this.isTracking ||
+      typeof window === 'undefined' ||
+      !hasConsent('analytics')
+    )
+      return
 
     try {
-      const response = await fetch('/api/analytics/engagement', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          visitorId: this.visitorId,
-          sessionId: this.sessionId,
-          eventType,
-          pagePath: window.location.pathname,
+      const timestamp = Date.now()
+
+      this.queue?.enqueue({
+        kind: 'engagement',
+        eventType,
+        pagePath: window.location.pathname,
+        ...data,
+        metadata: {
           ...data,
-          metadata: {
-            ...data,
-            timestamp: Date.now(),
-          },
-        }),
+          timestamp,
+        },
+        timestamp,
       })
-
-      if (!response.ok) {
-        throw new Error('Engagement tracking failed')
-      }
     } catch (error) {
       console.error('Engagement tracking error:', error)
     }
@@ -416,48 +441,6 @@ class AnalyticsTracker {
     return 'content'
   }
 
-  /**
-   * Send event to analytics API
-   */
-  private async sendEvent(event: TrackingEvent): Promise<void> {
-    try {
-      const response = await fetch(this.config.apiEndpoint, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          eventType: event.eventType,
-          properties: event.properties,
-          visitorId: this.visitorId,
-          sessionId: this.sessionId,
-        }),
-      })
-
-      if (!response.ok) {
-        throw new Error(`Analytics API error: ${response.statusText}`)
-      }
-    } catch (error) {
-      // Silently fail for analytics to not break user experience
-      console.error('Failed to send analytics event:', error)
-    }
-  }
-
-  /**
-   * Generate anonymous visitor ID
-   */
-  private generateVisitorId(): string {
-    if (typeof window === 'undefined') return 'ssr_visitor'
-
-    let visitorId = localStorage.getItem('analytics_visitor_id')
-
-    if (!visitorId) {
-      visitorId =
-        'visitor_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9)
-      localStorage.setItem('analytics_visitor_id', visitorId)
-    }
-
-    return visitorId
-  }
-
   /**
    * Generate session ID
    */
@@ -475,21 +458,6 @@ class AnalyticsTracker {
     return sessionId
   }
 
-  /**
-   * Check if Do Not Track is enabled
-   */
-  private isDNTEnabled(): boolean {
-    if (typeof window === 'undefined' || typeof navigator === 'undefined') {
-      return false // Default to allowing tracking on server-side
-    }
-
-    return (
-      navigator.doNotTrack === '1' ||
-      (window as any).doNotTrack === '1' ||
-      (navigator as any).msDoNotTrack === '1'
-    )
-  }
-
   /**
    * Time milestone tracking helpers
    */
@@ -505,11 +473,10 @@ class AnalyticsTracker {
   }
 
   /**
-   * Get visitor and session IDs
+   * Get the session ID. There is no client-side visitor ID.
    */
-  public getIds(): { visitorId: string; sessionId: string } {
+  public getIds(): { sessionId: string } {
     return {
-      visitorId: this.visitorId,
       sessionId: this.sessionId,
     }
   }
@@ -520,6 +487,13 @@ class AnalyticsTracker {
   public updateConfig(newConfig: Partial<AnalyticsConfig>): void {
     this.config = { ...this.config, ...newConfig }
   }
+
+  /**
+   * Send queued events now rather than waiting for the next batch
+   */
+  public async flush(): Promise<void> {
+    await this.queue?.flush()
+  }
 }
 
 // Export singleton instance (only create in browser)
@@ -555,7 +529,7 @@ export const useAnalyticsUtils = () => {
       trackEngagement: async () => {},
       trackCTAClick: async () => {},
       trackFormInteraction: async () => {},
-      getIds: () => ({ visitorId: '', sessionId: '' }),
+      getIds: () => ({ sessionId: '' }),
     }
   }
 
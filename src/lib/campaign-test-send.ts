@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getAdminActor } from './admin-middleware'
+import {
+  EmailCampaignService,
+  type CampaignTestSend,
+} from './services/email-campaigns'
+
+/**
+ * Campaign Test Sends
+ * Campaign actions take an optional `test` option that sends the fully
+ * personalized email to a seed list of internal addresses, and/or to the
+ * signed-in admin, instead of the real audience. Test sends are flagged
+ * is_test and left out of campaign stats and dashboard metrics.
+ */
+
+export const testSendSchema = z
+  .object({
+    seed_list: z.array(z.string().email()).optional().default([]),
+    send_to_me: z.boolean().optional().default(false),
+  })
+  .refine(
+    (test) => test.seed_list.length > 0 || test.send_to_me,
+    'A test send needs a seed list or send_to_me'
+  )
+
+export type TestSendOption = z.infer<typeof testSendSchema>
+
+/**
+ * Turn a request's test option into the internal addresses to send to.
+ * Returns no test send when the option is absent, or an error response to
+ * send back.
+ */
+export async function resolveTestSend(
+  request: NextRequest,
+  test: TestSendOption | undefined
+): Promise<{
+  testSend: CampaignTestSend | undefined
+  response: NextResponse | null
+}> {
+  if (!test) {
+    return { testSend: undefined, response: null }
+  }
+
+  const emails = [...test.seed_list]
+
+  if (test.send_to_me) {
+    const actor = await getAdminActor(request)
+    if (!actor?.adminUserId) {
+      return {
+        testSend: undefined,
+        response: NextResponse.json(
+          {
+            success: false,
+            error: 'send_to_me needs a signed-in admin account',
+          },
+          { status: 400 }
+        ),
+      }
+    }
+    emails.push(actor.email)
+  }
+
+  const { data: recipients, error } =
+    await EmailCampaignService.checkTestRecipients(emails)
+
+  if (error || !recipients) {
+    return {
+      testSend: undefined,
+      response: NextResponse.json(
+        { success: false, error: error || 'Invalid test recipients' },
+        { status: 400 }
+      ),
+    }
+  }
+
+  return { testSend: { recipients }, response: null }
+}
@@ -0,0 +1,209 @@
+/**
+ * Consent Management
+ * The visitor's choice of which kinds of tracking they allow, kept in
+ * localStorage along with the version of the policy it was made under.
+ * Nothing beyond strictly necessary runs until the visitor opts in, and a
+ * new policy version asks them again. React code reads consent through
+ * useConsent (components/consent); non-React code like errorTracker and
+ * AnalyticsTracker calls hasConsent.
+ */
+
+// Bump when the categories or what they cover change; stored choices made
+// under an older version are discarded and the banner is shown again
+export const CONSENT_POLICY_VERSION = '2026-10-18'
+
+export const CONSENT_CATEGORIES = [
+  'necessary',
+  'analytics',
+  'performance',
+  'marketing',
+] as const
+
+export type ConsentCategory = (typeof CONSENT_CATEGORIES)[number]
+
+export type ConsentChoices = Record<ConsentCategory, boolean>
+
+export type ConsentAction = 'accept_all' | 'reject_all' | 'custom'
+
+export interface StoredConsent {
+  id: string // Random, groups one browser's changes in the audit log
+  policyVersion: string
+  choices: ConsentChoices
+  updatedAt: string
+}
+
+export const CONSENT_CATEGORY_INFO: Record<
+  ConsentCategory,
+  { label: string; description: string }
+> = {
+  necessary: {
+    label: 'Strictly necessary',
+    description: 'Keeps the site working and remembers this choice. Always on.',
+  },
+  analytics: {
+    label: 'Analytics',
+    description:
+      'Anonymous page views and engagement, counted with an ID that changes every day. Includes Plausible.',
+  },
+  performance: {
+    label: 'Performance',
+    description:
+      'Page load timings and error reports that help us find and fix problems.',
+  },
+  marketing: {
+    label: 'Marketing attribution',
+    description:
+      'Which campaign or site brought you here (UTM parameters), used to attribute beta signups.',
+  },
+}
+
+const CONSENT_STORAGE_KEY = 'ss_consent'
+
+const DEFAULT_CHOICES: ConsentChoices = {
+  necessary: true,
+  analytics: false,
+  performance: false,
+  marketing: false,
+}
+
+type ConsentListener = (consent: StoredConsent | null) => void
+
+const listeners = new Set<ConsentListener>()
+
+// undefined until first read from localStorage
+let currentConsent: StoredConsent | null | undefined
+
+/**
+ * The visitor's saved choice, or null if they haven't made one under the
+ * current policy version
+ */
+export function getStoredConsent(): StoredConsent | null {
+  if (typeof window === 'undefined') return null
+
+  if (currentConsent === undefined) {
+    currentConsent = readStoredConsent()
+
+    // Keep tabs in sync when the choice changes in another one
+    window.addEventListener('storage', (event) => {
+      if (event.key === CONSENT_STORAGE_KEY) {
+        currentConsent = readStoredConsent()
+        notifyListeners()
+      }
+    })
+  }
+
+  return currentConsent
+}
+
+/**
+ * Current choices, falling back to strictly necessary only
+ */
+export function getConsentChoices(): ConsentChoices {
+  return getStoredConsent()?.choices || DEFAULT_CHOICES
+}
+
+/**
+ * Whether tracking in a category may run
+ */
+export function hasConsent(category: ConsentCategory): boolean {
+  if (category === 'necessary') return true
+  return getConsentChoices()[category] === true
+}
+
+/**
+ * Save the visitor's choice and record it server-side for audit
+ */
+export function saveConsent(
+  choices: Partial<ConsentChoices>,
+  action: ConsentAction
+): StoredConsent {
+  const consent: StoredConsent = {
+    id: getStoredConsent()?.id || readStoredId() || crypto.randomUUID(),
+    policyVersion: CONSENT_POLICY_VERSION,
+    choices: { ...DEFAULT_CHOICES, ...choices, necessary: true },
+    updatedAt: new Date().toISOString(),
+  }
+
+  try {
+    localStorage.setItem(CONSENT_STORAGE_KEY, JSON.stringify(consent))
+  } catch {
+    // Storage full or blocked; the choice still applies to this page
+  }
+
+  currentConsent = consent
+  notifyListeners()
+  recordConsent(consent, action)
+
+  return consent
+}
+
+/**
+ * Be told when the choice changes. Returns an unsubscribe function.
+ */
+export function subscribeToConsent(listener: ConsentListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Whether the browser sends Do Not Track, in which case the banner isn't
+ * shown and only strictly necessary runs unless the visitor opts in
+ */
+export function isDoNotTrackEnabled(): boolean {
+  if (typeof window === 'undefined' || typeof navigator === 'undefined') {
+    return false
+  }
+
+  return (
+    navigator.doNotTrack === '1' ||
+    (window as any).doNotTrack === '1' ||
+    (navigator as any).msDoNotTrack === '1'
+  )
+}
+
+function readStoredConsent(): StoredConsent | null {
+  try {
+    const raw = localStorage.getItem(CONSENT_STORAGE_KEY)
+    if (!raw) return null
+
+    const consent = JSON.parse(raw) as StoredConsent
+    if (consent.policyVersion !== CONSENT_POLICY_VERSION) return null
+
+    return consent
+  } catch {
+    return null
+  }
+}
+
+// The ID of a choice made under an older policy, so re-consenting stays
+// linked to it in the audit log
+function readStoredId(): string | null {
+  try {
+    const raw = localStorage.getItem(CONSENT_STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as StoredConsent).id || null : null
+  } catch {
+    return null
+  }
+}
+
+function notifyListeners() {
+  listeners.forEach((listener) => listener(currentConsent || null))
+}
+
+function recordConsent(consent: StoredConsent, action: ConsentAction) {
+  fetch('/api/consent', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      consentId: consent.id,
+      policyVersion: consent.policyVersion,
+      choices: consent.choices,
+      action,
+    }),
+    keepalive: true,
+  }).catch((error) => {
+    console.error('Failed to record consent:', error)
+  })
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Cron Route Authentication
+ * Vercel Cron calls scheduled routes with `Authorization: Bearer CRON_SECRET`.
+ * Returns an error response to send back, or null to continue.
+ */
+export function cronAuthMiddleware(request: NextRequest): NextResponse | null {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    return NextResponse.json(
+      { success: false, error: 'Cron jobs not configured' },
+      { status: 500 }
+    )
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  return null
+}
@@ -0,0 +1,564 @@
+import { getTemplateVariables, renderTemplate } from './template-renderer'
+import type {
+  DevelopmentUpdateData,
+  FeedbackRequestData,
+  WelcomeEmailData,
+} from './services/email-campaigns'
+import type {
+  EarlyAccessEmailData,
+  MonthlyNewsletterData,
+  ReEngagementEmailData,
+} from '../types'
+
+/**
+ * Email Templates
+ * Campaign email content, kept in the repo and rendered locally (see
+ * lib/template-renderer.ts) before it reaches the mail transport. Each
+ * template is typed against the data its sender builds, and the sample data
+ * doubles as the list of variables the template may use.
+ */
+
+export interface EmailTemplate<T> {
+  name: string
+  description: string
+  subject: string
+  html: string
+  text: string
+  sample_data: T
+}
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+  missing_variables: string[] // Referenced but empty in this data
+  unknown_variables: string[] // Referenced but not part of the payload type
+  error: string | null // Template syntax error
+}
+
+function defineTemplate<T>(template: EmailTemplate<T>): EmailTemplate<T> {
+  return template
+}
+
+const SAMPLE_UNSUBSCRIBE_URL =
+  'https://silentscribe.dev/unsubscribe?token=sample-token'
+
+const SAMPLE_COMMUNITY_LINKS = {
+  discord: 'https://discord.gg/silentscribe',
+  github: 'https://github.com/silentscribe',
+  twitter: 'https://twitter.com/silentscribe',
+}
+
+const BUTTON_STYLE =
+  'background: #3b82f6; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; display: inline-block;'
+
+/**
+ * Wrap a template body in the shared email layout and unsubscribe footer
+ */
+function layout(heading: string, tagline: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${heading}</title>
+</head>
+<body style="font-family: system-ui, -apple-system, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="text-align: center; margin-bottom: 40px;">
+    <h1 style="color: #1f2937; margin-bottom: 10px;">${heading}</h1>
+    <p style="color: #6b7280; margin: 0;">${tagline}</p>
+  </div>
+
+  <p>Hi {{#if first_name}}{{first_name}}{{else}}there{{/if}},</p>
+${body}
+  <p>Best regards,<br><strong>The Silent Scribe Team</strong></p>
+
+  <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 40px 0 20px;">
+  <p style="font-size: 12px; color: #9ca3af; text-align: center;">
+    You're receiving this because you signed up for the Silent Scribe beta with {{user_email}}.<br>
+    <a href="{{unsubscribe_url}}" style="color: #9ca3af;">Unsubscribe</a>
+  </p>
+</body>
+</html>`
+}
+
+function textLayout(body: string): string {
+  return `Hi {{#if first_name}}{{first_name}}{{else}}there{{/if}},
+
+${body}
+
+Best regards,
+The Silent Scribe Team
+
+---
+Unsubscribe: {{unsubscribe_url}}`
+}
+
+const COMMUNITY_LINKS_HTML = `
+  <ul>
+    {{#if community_links.discord}}<li><a href="{{community_links.discord}}">Discord</a></li>{{/if}}
+    {{#if community_links.github}}<li><a href="{{community_links.github}}">GitHub</a></li>{{/if}}
+    {{#if community_links.twitter}}<li><a href="{{community_links.twitter}}">Twitter</a></li>{{/if}}
+  </ul>
+`
+
+const COMMUNITY_LINKS_TEXT = `{{#if community_links.discord}}- Discord: {{community_links.discord}}
+{{/if}}{{#if community_links.github}}- GitHub: {{community_links.github}}
+{{/if}}{{#if community_links.twitter}}- Twitter: {{community_links.twitter}}
+{{/if}}`
+
+const REFERRAL_HTML = `
+  {{#if referral_link}}
+  <p>Know someone who'd like Silent Scribe? Share your invite link: <a href="{{referral_link}}">{{referral_link}}</a></p>
+  {{/if}}
+`
+
+const REFERRAL_TEXT = `{{#if referral_link}}
+Know someone who'd like Silent Scribe? Share your invite link: {{referral_link}}
+{{/if}}`
+
+const SAMPLE_WELCOME_DATA: WelcomeEmailData = {
+  first_name: 'testdev',
+  github_username: 'testdev',
+  user_email: 'test@example.com',
+  unsubscribe_url: SAMPLE_UNSUBSCRIBE_URL,
+  referral_link: 'https://silentscribe.dev/beta?ref=TESTDEV1',
+  beta_signup_date: 'January 15, 2026',
+  community_links: SAMPLE_COMMUNITY_LINKS,
+}
+
+const SAMPLE_UPDATE_DATA: DevelopmentUpdateData = {
+  first_name: 'testdev',
+  user_email: 'test@example.com',
+  update_title: 'Silent Scribe Development Update - January 2026',
+  update_content:
+    'This month we focused on the privacy-first architecture: everything now runs locally.',
+  features_highlights: [
+    'Local processing engine',
+    'VS Code integration',
+    'Custom rule support',
+  ],
+  roadmap_items: ['Beta release', 'Multi-editor support', 'Team features'],
+  feedback_link: 'https://silentscribe.dev/feedback',
+  unsubscribe_url: SAMPLE_UNSUBSCRIBE_URL,
+  update_date: 'January 31, 2026',
+}
+
+const UPDATE_HTML = `
+  <h2 style="color: #1f2937;">{{update_title}}</h2>
+  <p>{{update_content}}</p>
+
+  {{#if features_highlights}}
+  <h3 style="color: #1f2937;">What's new</h3>
+  <ul>
+    {{#each features_highlights}}<li>{{this}}</li>{{/each}}
+  </ul>
+  {{/if}}
+
+  {{#if roadmap_items}}
+  <h3 style="color: #1f2937;">Coming next</h3>
+  <ul>
+    {{#each roadmap_items}}<li>{{this}}</li>{{/each}}
+  </ul>
+  {{/if}}
+`
+
+const UPDATE_TEXT = `{{update_title}}
+
+{{update_content}}
+{{#if features_highlights}}
+What's new:
+{{#each features_highlights}}- {{this}}
+{{/each}}{{/if}}{{#if roadmap_items}}
+Coming next:
+{{#each roadmap_items}}- {{this}}
+{{/each}}{{/if}}`
+
+export const EMAIL_TEMPLATE_DEFINITIONS = {
+  welcome_immediate: defineTemplate<WelcomeEmailData>({
+    name: 'Welcome',
+    description: 'Sent as soon as a beta signup confirms their email',
+    subject: 'Welcome to Silent Scribe Beta! 🚀',
+    html: layout(
+      'Welcome to Silent Scribe',
+      'Thanks for joining the beta',
+      `
+  <p>You're on the list! Since {{beta_signup_date}} you've been part of a small group of developers helping us build a writing assistant that never sends your words anywhere.</p>
+
+  <p>We'll keep you posted as the beta opens up. In the meantime, come say hello:</p>
+${COMMUNITY_LINKS_HTML}${REFERRAL_HTML}`
+    ),
+    text: textLayout(`You're on the list! Since {{beta_signup_date}} you've been part of a small group of developers helping us build a writing assistant that never sends your words anywhere.
+
+We'll keep you posted as the beta opens up. In the meantime, come say hello:
+
+${COMMUNITY_LINKS_TEXT}${REFERRAL_TEXT}`),
+    sample_data: SAMPLE_WELCOME_DATA,
+  }),
+
+  welcome_day_3: defineTemplate<WelcomeEmailData>({
+    name: 'Welcome - Day 3',
+    description: 'Welcome series follow-up on our privacy-first approach',
+    subject: 'Silent Scribe Development Philosophy - Privacy First 🔒',
+    html: layout(
+      'Privacy First',
+      'Why Silent Scribe runs on your machine',
+      `
+  <p>A few days ago you joined the Silent Scribe beta. We wanted to share the one principle behind every decision we make: your writing never leaves your machine.</p>
+
+  <p>Every rule runs locally, there's no cloud processing and nothing to opt out of. If that matters to you too, we'd love to hear why.</p>
+
+  <div style="text-align: center; margin: 30px 0;">
+    <a href="{{community_links.discord}}" style="${BUTTON_STYLE}">Join the Discussion</a>
+  </div>
+${REFERRAL_HTML}`
+    ),
+    text: textLayout(`A few days ago you joined the Silent Scribe beta. We wanted to share the one principle behind every decision we make: your writing never leaves your machine.
+
+Every rule runs locally, there's no cloud processing and nothing to opt out of. If that matters to you too, we'd love to hear why:
+
+{{community_links.discord}}
+${REFERRAL_TEXT}`),
+    sample_data: SAMPLE_WELCOME_DATA,
+  }),
+
+  welcome_week_1: defineTemplate<WelcomeEmailData>({
+    name: 'Welcome - Week 1',
+    description: 'Welcome series community highlights, a week after signup',
+    subject: "Community Highlights & What's Coming Next 🚀",
+    html: layout(
+      'Community Highlights',
+      "What's happening and what's coming next",
+      `
+  <p>You've been with us for a week now. Here's where the community hangs out and where you'll hear about new builds first:</p>
+${COMMUNITY_LINKS_HTML}
+  <p>{{#if github_username}}We'll send beta builds to @{{github_username}} on GitHub as soon as they're ready.{{else}}Add your GitHub username in your email preferences to get beta builds as soon as they're ready.{{/if}}</p>
+${REFERRAL_HTML}`
+    ),
+    text: textLayout(`You've been with us for a week now. Here's where the community hangs out and where you'll hear about new builds first:
+
+${COMMUNITY_LINKS_TEXT}
+{{#if github_username}}We'll send beta builds to @{{github_username}} on GitHub as soon as they're ready.{{else}}Add your GitHub username in your email preferences to get beta builds as soon as they're ready.{{/if}}
+${REFERRAL_TEXT}`),
+    sample_data: SAMPLE_WELCOME_DATA,
+  }),
+
+  development_update: defineTemplate<DevelopmentUpdateData>({
+    name: 'Development Update',
+    description: 'Progress update sent to a segment of beta signups',
+    subject: '{{update_title}}',
+    html: layout(
+      'Development Update',
+      '{{update_date}}',
+      `${UPDATE_HTML}
+  <div style="text-align: center; margin: 30px 0;">
+    <a href="{{feedback_link}}" style="${BUTTON_STYLE}">Share Feedback</a>
+  </div>
+`
+    ),
+    text: textLayout(`${UPDATE_TEXT}
+Tell us what you think: {{feedback_link}}`),
+    sample_data: SAMPLE_UPDATE_DATA,
+  }),
+
+  monthly_newsletter: defineTemplate<MonthlyNewsletterData>({
+    name: 'Monthly Newsletter',
+    description: 'Monthly roundup of development progress and community stats',
+    subject: '{{update_title}}',
+    html: layout(
+      'Silent Scribe Monthly',
+      '{{update_date}}',
+      `${UPDATE_HTML}
+  {{#if community_stats}}
+  <h3 style="color: #1f2937;">The community this month</h3>
+  <p>{{community_stats.beta_users}} beta users · {{community_stats.github_stars}} GitHub stars · {{community_stats.discord_members}} Discord members</p>
+  {{/if}}
+
+  <div style="text-align: center; margin: 30px 0;">
+    <a href="{{feedback_link}}" style="${BUTTON_STYLE}">Share Feedback</a>
+  </div>
+`
+    ),
+    text: textLayout(`${UPDATE_TEXT}{{#if community_stats}}
+The community this month: {{community_stats.beta_users}} beta users, {{community_stats.github_stars}} GitHub stars, {{community_stats.discord_members}} Discord members
+{{/if}}
+Tell us what you think: {{feedback_link}}`),
+    sample_data: {
+      ...SAMPLE_UPDATE_DATA,
+      community_stats: {
+        beta_users: 1250,
+        github_stars: 89,
+        discord_members: 245,
+      },
+    },
+  }),
+
+  feedback_request: defineTemplate<FeedbackRequestData>({
+    name: 'Feedback Request',
+    description: 'Short survey invitation',
+    subject: 'Help us improve Silent Scribe - {{feedback_type}} feedback',
+    html: layout(
+      'We Want Your Feedback',
+      'It takes about {{estimated_time}}',
+      `
+  <p>You've been part of the Silent Scribe beta, and your experience shapes what we build next. Could you spare {{estimated_time}} for a quick survey?</p>
+
+  <div style="text-align: center; margin: 30px 0;">
+    <a href="{{survey_link}}" style="${BUTTON_STYLE}">Take the Survey</a>
+  </div>
+
+  {{#if incentive_message}}<p><strong>As a thank you:</strong> {{incentive_message}}</p>{{/if}}
+`
+    ),
+    text: textLayout(`You've been part of the Silent Scribe beta, and your experience shapes what we build next. Could you spare {{estimated_time}} for a quick survey?
+
+{{survey_link}}
+{{#if incentive_message}}
+As a thank you: {{incentive_message}}
+{{/if}}`),
+    sample_data: {
+      first_name: 'testdev',
+      user_email: 'test@example.com',
+      feedback_type: 'general',
+      survey_link: 'https://silentscribe.dev/survey/12345',
+      estimated_time: '3 minutes',
+      incentive_message: 'Early access to new features!',
+      unsubscribe_url: SAMPLE_UNSUBSCRIBE_URL,
+      request_date: 'January 25, 2026',
+    },
+  }),
+
+  early_access: defineTemplate<EarlyAccessEmailData>({
+    name: 'Early Access Invitation',
+    description: 'Invitation granting alpha, beta or preview access',
+    subject: "Silent Scribe {{access_level}} access - you're in! 🎉",
+    html: layout(
+      "You're In!",
+      'Your Silent Scribe {{access_level}} access is ready',
+      `
+  <p>As of {{invitation_date}} you have {{access_level}} access to Silent Scribe. Here's what you can try first:</p>
+
+  <ul>
+    {{#each exclusive_features}}<li>{{this}}</li>{{/each}}
+  </ul>
+
+  {{#if download_link}}
+  <div style="text-align: center; margin: 30px 0;">
+    <a href="{{download_link}}" style="${BUTTON_STYLE}">Download Silent Scribe</a>
+  </div>
+  {{/if}}
+
+  {{#if instructions_link}}<p>New here? <a href="{{instructions_link}}">Read the getting started guide</a>.</p>{{/if}}
+`
+    ),
+    text: textLayout(`As of {{invitation_date}} you have {{access_level}} access to Silent Scribe. Here's what you can try first:
+
+{{#each exclusive_features}}- {{this}}
+{{/each}}{{#if download_link}}
+Download: {{download_link}}
+{{/if}}{{#if instructions_link}}
+Getting started guide: {{instructions_link}}
+{{/if}}`),
+    sample_data: {
+      first_name: 'testdev',
+      user_email: 'test@example.com',
+      access_level: 'beta',
+      download_link: 'https://silentscribe.dev/download/beta',
+      instructions_link: 'https://silentscribe.dev/beta-guide',
+      exclusive_features: [
+        'Local processing',
+        'Custom rules',
+        'VS Code integration',
+      ],
+      unsubscribe_url: SAMPLE_UNSUBSCRIBE_URL,
+      invitation_date: 'January 20, 2026',
+    },
+  }),
+
+  re_engagement: defineTemplate<ReEngagementEmailData>({
+    name: 'Re-engagement',
+    description: 'Catch-up for signups who have gone quiet',
+    subject: 'We Miss You! Silent Scribe Updates & What You Might Have Missed',
+    html: layout(
+      'We Miss You!',
+      'Here is what you might have missed',
+      `
+  <p>It's been a while since we heard from you, so here's what has changed in the last {{inactivity_days}} days:</p>
+
+  <ul>
+    {{#each recent_updates}}<li>{{this}}</li>{{/each}}
+  </ul>
+
+  <p>Is Silent Scribe still something you're interested in? A one-line reply helps us more than you'd think.</p>
+
+  <div style="text-align: center; margin: 30px 0;">
+    <a href="{{feedback_link}}" style="${BUTTON_STYLE}">Tell Us What You Think</a>
+  </div>
+`
+    ),
+    text: textLayout(`It's been a while since we heard from you, so here's what has changed in the last {{inactivity_days}} days:
+
+{{#each recent_updates}}- {{this}}
+{{/each}}
+Is Silent Scribe still something you're interested in? A one-line reply helps us more than you'd think:
+
+{{feedback_link}}`),
+    sample_data: {
+      first_name: 'testdev',
+      user_email: 'test@example.com',
+      inactivity_days: 30,
+      recent_updates: [
+        'Privacy improvements',
+        'Performance boost',
+        'New rule engine',
+      ],
+      feedback_link: 'https://silentscribe.dev/feedback',
+      unsubscribe_url: SAMPLE_UNSUBSCRIBE_URL,
+      campaign_date: 'January 28, 2026',
+    },
+  }),
+}
+
+export type EmailTemplateKey = keyof typeof EMAIL_TEMPLATE_DEFINITIONS
+
+export const EMAIL_TEMPLATE_KEYS = Object.keys(
+  EMAIL_TEMPLATE_DEFINITIONS
+) as EmailTemplateKey[]
+
+export function isEmailTemplateKey(value: string): value is EmailTemplateKey {
+  return value in EMAIL_TEMPLATE_DEFINITIONS
+}
+
+/**
+ * Flatten sample data into the variable names a template can reference,
+ * e.g. `community_links.discord` or `features_highlights[]`
+ */
+function collectDataVariables(
+  value: unknown,
+  prefix: string,
+  variables: Set<string>
+) {
+  if (Array.isArray(value)) {
+    variables.add(`${prefix}[]`)
+    if (value.length > 0) {
+      collectDataVariables(value[0], `${prefix}[]`, variables)
+    }
+    return
+  }
+
+  if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, child]) => {
+      const name = prefix ? `${prefix}.${key}` : key
+      variables.add(name)
+      collectDataVariables(child, name, variables)
+    })
+  }
+}
+
+/**
+ * The variables a template's payload type provides
+ */
+export function getEmailTemplateVariables(key: EmailTemplateKey): string[] {
+  const variables = new Set<string>()
+  collectDataVariables(
+    EMAIL_TEMPLATE_DEFINITIONS[key].sample_data,
+    '',
+    variables
+  )
+  return Array.from(variables).sort()
+}
+
+/**
+ * Render a subject, HTML and text body against data, reporting variables
+ * that came out empty and ones outside `knownVariables`
+ */
+export function renderEmail(
+  source: Pick<EmailTemplate<unknown>, 'subject' | 'html' | 'text'>,
+  data: Record<string, unknown>,
+  knownVariables: string[]
+): RenderedEmail {
+  const subject = renderTemplate(source.subject, data, { escape: false })
+  const html = renderTemplate(source.html, data)
+  const text = renderTemplate(source.text, data, { escape: false })
+  const error = subject.error
+    ? `Subject: ${subject.error}`
+    : html.error
+      ? `HTML: ${html.error}`
+      : text.error
+        ? `Text: ${text.error}`
+        : null
+
+  const known = new Set(knownVariables)
+  const referenced = [source.subject, source.html, source.text].flatMap(
+    (part) => getTemplateVariables(part).variables
+  )
+
+  return {
+    subject: subject.output.trim(),
+    html: html.output,
+    text: text.output,
+    missing_variables: Array.from(
+      new Set([...subject.missing, ...html.missing, ...text.missing])
+    ).sort(),
+    unknown_variables: Array.from(
+      new Set(referenced.filter((name) => !known.has(name)))
+    ).sort(),
+    error,
+  }
+}
+
+/**
+ * Render one of the repo templates
+ */
+export function renderEmailTemplate(
+  key: EmailTemplateKey,
+  data: object
+): RenderedEmail {
+  return renderEmail(
+    EMAIL_TEMPLATE_DEFINITIONS[key],
+    data as Record<string, unknown>,
+    getEmailTemplateVariables(key)
+  )
+}
+
+/**
+ * Render a repo template, or a draft of one, for review before sending.
+ * `data` is laid over the template's sample data unless useSampleData is
+ * false. Keys in `data` that the payload type doesn't have are reported as
+ * unknown along with the template's own unknown references.
+ */
+export function previewEmailTemplate(
+  key: EmailTemplateKey,
+  options: {
+    data?: Record<string, unknown>
+    useSampleData?: boolean
+    draft?: Partial<Pick<EmailTemplate<unknown>, 'subject' | 'html' | 'text'>>
+  } = {}
+): RenderedEmail {
+  const template = EMAIL_TEMPLATE_DEFINITIONS[key]
+  const variables = getEmailTemplateVariables(key)
+  const data = {
+    ...(options.useSampleData === false ? {} : template.sample_data),
+    ...options.data,
+  }
+
+  const rendered = renderEmail(
+    {
+      subject: options.draft?.subject ?? template.subject,
+      html: options.draft?.html ?? template.html,
+      text: options.draft?.text ?? template.text,
+    },
+    data,
+    variables
+  )
+
+  const unknownData = Object.keys(options.data || {}).filter(
+    (name) => !variables.includes(name)
+  )
+
+  return {
+    ...rendered,
+    unknown_variables: Array.from(
+      new Set([...rendered.unknown_variables, ...unknownData])
+    ).sort(),
+  }
+}
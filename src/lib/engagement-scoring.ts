@@ -0,0 +1,59 @@
+/**
+ * Engagement Scoring
+ * Points for a single interaction (scroll, time on page, CTA click, ...),
+ * stored with each engagement_events row. A visitor's engagement is the
+ * sum of their points.
+ */
+
+export interface InteractionData {
+  scrollDepth?: number // Percent
+  timeOnPage?: number // ms
+  clickTarget?: string
+  formField?: string
+  ctaPosition?: string
+  mouseMovements?: number
+  keystrokes?: number
+}
+
+export function calculateInteractionScore(
+  eventType: string,
+  data: InteractionData
+): number {
+  let score = 0
+
+  switch (eventType) {
+    case 'scroll_depth':
+      score = Math.min(Math.floor((data.scrollDepth || 0) / 10), 10) // Max 10 points
+      break
+    case 'time_on_page':
+      score = Math.min(Math.floor((data.timeOnPage || 0) / 15000), 20) // 1 point per 15s, max 20
+      break
+    case 'cta_click':
+      score = 15
+      if (data.ctaPosition === 'hero') score += 5
+      if (data.ctaPosition === 'footer') score += 2
+      break
+    case 'form_interaction':
+      score = 8
+      if (data.formField === 'email') score += 4
+      if (data.formField === 'submit') score += 8
+      break
+    case 'mouse_movement':
+      score = Math.min(Math.floor((data.mouseMovements || 0) / 100), 5) // Max 5 points
+      break
+    case 'keystroke':
+      score = Math.min(Math.floor((data.keystrokes || 0) / 10), 8) // Max 8 points
+      break
+    default:
+      score = 1
+  }
+
+  return Math.max(0, score)
+}
+
+export function getInteractionQuality(score: number): string {
+  if (score >= 25) return 'high'
+  if (score >= 10) return 'medium'
+  if (score >= 5) return 'low'
+  return 'minimal'
+}
@@ -0,0 +1,375 @@
+import crypto from 'crypto'
+import net from 'net'
+import tls from 'tls'
+import path from 'path'
+import { mkdir, writeFile } from 'fs/promises'
+import sgMail from '@sendgrid/mail'
+
+/**
+ * Mail Transport
+ * Every email goes out through one MailTransport, picked by MAIL_TRANSPORT:
+ *
+ * - `sendgrid`: SendGrid Web API (default when SENDGRID_API_KEY is set)
+ * - `smtp`: plain SMTP to SMTP_URL, e.g. a local Mailpit at smtp://localhost:1025
+ * - `file`: writes each message to MAIL_OUTBOX_DIR as .eml and .json
+ *   (default outside production when there is no SendGrid key)
+ *
+ * Repo templates are rendered before they reach the transport. The local
+ * transports can't render SendGrid dynamic templates, so legacy template
+ * sends are written with their template ID and data as the text body.
+ */
+
+export interface MailAddress {
+  email: string
+  name?: string
+}
+
+export interface MailMessage {
+  to: string
+  from: MailAddress
+  subject: string
+  html?: string
+  text?: string
+  templateId?: string // SendGrid dynamic template
+  templateData?: Record<string, unknown>
+  headers?: Record<string, string>
+  customArgs?: Record<string, string> // Echoed back on webhook events
+  tracking?: boolean // Open and click tracking
+}
+
+export interface MailSendResult {
+  success: boolean
+  error: string | null
+  messageId?: string
+}
+
+export interface MailTransport {
+  name: 'sendgrid' | 'smtp' | 'file'
+  send(message: MailMessage): Promise<MailSendResult>
+}
+
+export type MailTransportName = MailTransport['name']
+
+const SMTP_TIMEOUT_MS = 10 * 1000
+
+function formatAddress(address: MailAddress): string {
+  return address.name
+    ? `"${address.name.replace(/"/g, '')}" <${address.email}>`
+    : address.email
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x00-\x7F]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`
+}
+
+function encodeBody(content: string): string {
+  return (
+    Buffer.from(content)
+      .toString('base64')
+      .match(/.{1,76}/g)
+      ?.join('\r\n') || ''
+  )
+}
+
+/**
+ * Plain-text body for messages that only have a template to render
+ */
+function getTemplateText(message: MailMessage): string {
+  return `Template: ${message.templateId}\n\n${JSON.stringify(
+    message.templateData || {},
+    null,
+    2
+  )}`
+}
+
+/**
+ * Build an RFC 5322 message with text and HTML alternatives
+ */
+function buildMimeMessage(message: MailMessage, messageId: string): string {
+  const boundary = `mail_${crypto.randomBytes(12).toString('hex')}`
+  const text =
+    message.text || (message.templateId ? getTemplateText(message) : '')
+
+  const headers: Record<string, string> = {
+    From: formatAddress(message.from),
+    To: message.to,
+    Subject: encodeHeader(message.subject),
+    Date: new Date().toUTCString(),
+    'Message-ID': `<${messageId}@${message.from.email.split('@')[1] || 'localhost'}>`,
+    'MIME-Version': '1.0',
+    ...message.headers,
+  }
+
+  if (message.templateId) {
+    headers['X-Template-Id'] = message.templateId
+  }
+  if (message.customArgs) {
+    headers['X-Custom-Args'] = JSON.stringify(message.customArgs)
+  }
+
+  const parts = [{ type: 'text/plain', content: text }]
+  if (message.html) {
+    parts.push({ type: 'text/html', content: message.html })
+  }
+
+  return [
+    ...Object.entries(headers).map(([key, value]) => `${key}: ${value}`),
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    ...parts.flatMap((part) => [
+      `--${boundary}`,
+      `Content-Type: ${part.type}; charset=utf-8`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(part.content),
+    ]),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n')
+}
+
+class SendGridTransport implements MailTransport {
+  name = 'sendgrid' as const
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    const apiKey = process.env.SENDGRID_API_KEY
+    if (!apiKey) {
+      return { success: false, error: 'SendGrid API key not configured' }
+    }
+
+    try {
+      sgMail.setApiKey(apiKey)
+
+      const [response] = await sgMail.send({
+        to: message.to,
+        from: message.from,
+        subject: message.subject,
+        ...(message.templateId
+          ? {
+              templateId: message.templateId,
+              dynamicTemplateData: message.templateData,
+            }
+          : {
+              html: message.html || message.text || '',
+              ...(message.text && { text: message.text }),
+            }),
+        headers: message.headers,
+        customArgs: message.customArgs,
+        ...(message.tracking && {
+          trackingSettings: {
+            clickTracking: { enable: true },
+            openTracking: { enable: true },
+          },
+        }),
+      })
+
+      return {
+        success: true,
+        error: null,
+        messageId: response.headers['x-message-id'] as string,
+      }
+    } catch (err: any) {
+      console.error('SendGrid error:', err)
+      return { success: false, error: err.message || 'Failed to send email' }
+    }
+  }
+}
+
+/**
+ * Minimal SMTP client for local mail catchers (Mailpit, MailHog, smtp4dev).
+ * Supports smtps:// and AUTH PLAIN but not STARTTLS.
+ */
+class SmtpTransport implements MailTransport {
+  name = 'smtp' as const
+
+  constructor(private url: URL) {}
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    const messageId = crypto.randomUUID()
+
+    try {
+      await this.deliver(
+        message.from.email,
+        message.to,
+        buildMimeMessage(message, messageId)
+      )
+      return { success: true, error: null, messageId }
+    } catch (err: any) {
+      console.error('SMTP error:', err)
+      return { success: false, error: err.message || 'Failed to send email' }
+    }
+  }
+
+  private deliver(from: string, to: string, data: string): Promise<void> {
+    const secure = this.url.protocol === 'smtps:'
+    const host = this.url.hostname || 'localhost'
+    const port = Number(this.url.port) || (secure ? 465 : 25)
+
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host })
+        : net.createConnection({ host, port })
+
+      let buffer = ''
+      let waiting: ((reply: { code: number; text: string }) => void) | null =
+        null
+
+      const fail = (err: Error) => {
+        socket.destroy()
+        reject(err)
+      }
+
+      // Resolve with the next complete (possibly multi-line) reply
+      const readReply = () =>
+        new Promise<{ code: number; text: string }>((replyResolve) => {
+          waiting = replyResolve
+          checkBuffer()
+        })
+
+      const checkBuffer = () => {
+        const lines = buffer.split('\r\n')
+        const lastIndex = lines.findIndex((line) => /^\d{3} /.test(line))
+        if (lastIndex === -1 || !waiting) {
+          return
+        }
+
+        const reply = {
+          code: Number(lines[lastIndex].slice(0, 3)),
+          text: lines.slice(0, lastIndex + 1).join('\n'),
+        }
+        buffer = lines.slice(lastIndex + 1).join('\r\n')
+        const callback = waiting
+        waiting = null
+        callback(reply)
+      }
+
+      const command = async (line: string | null, expected: number) => {
+        if (line !== null) {
+          socket.write(`${line}\r\n`)
+        }
+        const reply = await readReply()
+        if (reply.code !== expected) {
+          throw new Error(
+            `SMTP ${line?.split(' ')[0] || 'greeting'}: ${reply.text}`
+          )
+        }
+      }
+
+      socket.setEncoding('utf8')
+      socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+        fail(new Error('SMTP connection timed out'))
+      )
+      socket.on('error', fail)
+      socket.on('data', (chunk: string) => {
+        buffer += chunk
+        checkBuffer()
+      })
+
+      const run = async () => {
+        await command(null, 220)
+        await command('EHLO localhost', 250)
+
+        if (this.url.username) {
+          const credentials = Buffer.from(
+            `\0${decodeURIComponent(this.url.username)}\0${decodeURIComponent(this.url.password)}`
+          ).toString('base64')
+          await command(`AUTH PLAIN ${credentials}`, 235)
+        }
+
+        await command(`MAIL FROM:<${from}>`, 250)
+        await command(`RCPT TO:<${to}>`, 250)
+        await command('DATA', 354)
+        // Dot-stuff lines that start with a period
+        await command(`${data.replace(/\r\n\./g, '\r\n..')}\r\n.`, 250)
+
+        socket.end('QUIT\r\n')
+      }
+
+      run().then(resolve, fail)
+    })
+  }
+}
+
+class FileSinkTransport implements MailTransport {
+  name = 'file' as const
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    const messageId = crypto.randomUUID()
+
+    try {
+      await mkdir(this.directory, { recursive: true })
+
+      const basename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${messageId}`
+      await writeFile(
+        path.join(this.directory, `${basename}.eml`),
+        buildMimeMessage(message, messageId)
+      )
+      await writeFile(
+        path.join(this.directory, `${basename}.json`),
+        JSON.stringify({ messageId, ...message }, null, 2)
+      )
+
+      return { success: true, error: null, messageId }
+    } catch (err: any) {
+      console.error('Mail file sink error:', err)
+      return { success: false, error: err.message || 'Failed to write email' }
+    }
+  }
+}
+
+function getTransportName(): MailTransportName {
+  const configured = process.env.MAIL_TRANSPORT
+  if (
+    configured === 'sendgrid' ||
+    configured === 'smtp' ||
+    configured === 'file'
+  ) {
+    return configured
+  }
+
+  if (process.env.SENDGRID_API_KEY || process.env.NODE_ENV === 'production') {
+    return 'sendgrid'
+  }
+
+  return 'file'
+}
+
+let transport: MailTransport | null = null
+
+/**
+ * The transport all mail is sent through
+ */
+export function getMailTransport(): MailTransport {
+  if (transport) {
+    return transport
+  }
+
+  switch (getTransportName()) {
+    case 'smtp':
+      transport = new SmtpTransport(
+        new URL(process.env.SMTP_URL || 'smtp://localhost:1025')
+      )
+      break
+    case 'file':
+      transport = new FileSinkTransport(
+        path.resolve(process.env.MAIL_OUTBOX_DIR || '.mail-outbox')
+      )
+      break
+    default:
+      transport = new SendGridTransport()
+  }
+
+  return transport
+}
+
+/**
+ * Whether sending email can work at all. Routes use this to skip optional
+ * emails instead of logging a failure on every request.
+ */
+export function isMailConfigured(): boolean {
+  return getTransportName() !== 'sendgrid' || !!process.env.SENDGRID_API_KEY
+}
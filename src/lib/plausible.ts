@@ -3,6 +3,8 @@
  * Privacy-first analytics with Plausible.io
  */
 
+import { hasConsent } from './consent'
+
 declare global {
   interface Window {
     plausible?: {
@@ -32,7 +34,8 @@ export function isPlausibleAvailable(): boolean {
   return (
     typeof window !== 'undefined' &&
     typeof window.plausible === 'function' &&
-    process.env.NEXT_PUBLIC_PLAUSIBLE_DOMAIN !== undefined
+    process.env.NEXT_PUBLIC_PLAUSIBLE_DOMAIN !== undefined &&
+    hasConsent('analytics') // The script stays loaded if consent is withdrawn
   )
 }
 
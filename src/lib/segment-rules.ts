@@ -0,0 +1,326 @@
+import { z } from 'zod'
+import type { BetaSignup, FeedbackSubmission, SegmentRule } from '@/types'
+
+/**
+ * Segment Rules
+ * Validation and evaluation for saved segments' rule trees: and/or/not over
+ * conditions on a signup's fields, its current_tools and
+ * documentation_platform lists, its email activity and its feedback
+ * history. Evaluation is in memory, against a signup plus the events and
+ * feedback loaded for it by SegmentService.
+ */
+
+// Limits on a tree, so a rule can't make resolving a segment run away
+export const SEGMENT_RULE_MAX_DEPTH = 5
+export const SEGMENT_RULE_MAX_CONDITIONS = 50
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const countRange = {
+  min_count: z.number().int().min(0).optional(),
+  max_count: z.number().int().min(0).optional(),
+  within_days: z.number().int().min(1).max(3650).optional(),
+}
+
+const listMatchSchema = z.object({
+  match: z.enum(['any', 'all', 'none']),
+  values: z.array(z.string().trim().min(1)).min(1).max(50),
+})
+
+export const segmentRuleSchema: z.ZodType<SegmentRule> = z.lazy(() =>
+  z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('and'),
+      rules: z.array(segmentRuleSchema).min(1).max(20),
+    }),
+    z.object({
+      type: z.literal('or'),
+      rules: z.array(segmentRuleSchema).min(1).max(20),
+    }),
+    z.object({ type: z.literal('not'), rule: segmentRuleSchema }),
+    z.object({
+      type: z.literal('beta_status'),
+      in: z.array(z.enum(['pending', 'invited', 'active'])).min(1),
+    }),
+    z.object({
+      type: z.literal('team_size'),
+      in: z
+        .array(
+          z.enum([
+            'individual',
+            'small_team',
+            'medium_team',
+            'large_team',
+            'enterprise',
+          ])
+        )
+        .min(1),
+    }),
+    z.object({
+      type: z.literal('signup_source'),
+      in: z.array(z.string().min(1)).min(1),
+    }),
+    z
+      .object({
+        type: z.literal('engagement_score'),
+        min: z.number().min(0).max(100).optional(),
+        max: z.number().min(0).max(100).optional(),
+      })
+      .refine(
+        (rule) => rule.min !== undefined || rule.max !== undefined,
+        'engagement_score needs min or max'
+      ),
+    z
+      .object({
+        type: z.literal('signed_up'),
+        after: z.string().datetime().optional(),
+        before: z.string().datetime().optional(),
+        within_days: z.number().int().min(1).max(3650).optional(),
+      })
+      .refine(
+        (rule) => rule.after || rule.before || rule.within_days,
+        'signed_up needs after, before or within_days'
+      ),
+    z.object({
+      type: z.literal('has_username'),
+      provider: z.enum(['github', 'gitlab']),
+    }),
+    listMatchSchema.extend({ type: z.literal('current_tools') }),
+    listMatchSchema.extend({ type: z.literal('documentation_platform') }),
+    z.object({
+      type: z.literal('email_activity'),
+      event: z.enum(['sent', 'opened', 'clicked']),
+      ...countRange,
+    }),
+    z.object({
+      type: z.literal('feedback'),
+      feedback_type: z
+        .enum(['survey', 'bug_report', 'feature_request'])
+        .optional(),
+      min_rating: z.number().int().min(1).max(5).optional(),
+      max_rating: z.number().int().min(1).max(5).optional(),
+      ...countRange,
+    }),
+  ])
+)
+
+/**
+ * Schema for a whole rule tree, with the depth and size limits applied
+ */
+export const segmentRulesSchema = segmentRuleSchema.superRefine((rule, ctx) => {
+  const { depth, conditions } = measureRule(rule)
+  if (depth > SEGMENT_RULE_MAX_DEPTH) {
+    ctx.addIssue({
+      code: 'custom',
+      message: `Rules can be nested at most ${SEGMENT_RULE_MAX_DEPTH} deep`,
+    })
+  }
+  if (conditions > SEGMENT_RULE_MAX_CONDITIONS) {
+    ctx.addIssue({
+      code: 'custom',
+      message: `Rules can have at most ${SEGMENT_RULE_MAX_CONDITIONS} conditions`,
+    })
+  }
+})
+
+function measureRule(rule: SegmentRule): {
+  depth: number
+  conditions: number
+} {
+  switch (rule.type) {
+    case 'and':
+    case 'or': {
+      const children = rule.rules.map(measureRule)
+      return {
+        depth: 1 + Math.max(0, ...children.map((child) => child.depth)),
+        conditions: children.reduce((sum, child) => sum + child.conditions, 0),
+      }
+    }
+    case 'not': {
+      const child = measureRule(rule.rule)
+      return { depth: 1 + child.depth, conditions: child.conditions }
+    }
+    default:
+      return { depth: 1, conditions: 1 }
+  }
+}
+
+/**
+ * Every leaf condition in a tree
+ */
+function getConditions(rule: SegmentRule): SegmentRule[] {
+  switch (rule.type) {
+    case 'and':
+    case 'or':
+      return rule.rules.flatMap(getConditions)
+    case 'not':
+      return getConditions(rule.rule)
+    default:
+      return [rule]
+  }
+}
+
+export interface SegmentDataNeeds {
+  email_events: Array<'sent' | 'opened' | 'clicked'>
+  // Oldest event the rules look at, or null for all history
+  email_events_since: Date | null
+  feedback: boolean
+}
+
+/**
+ * What has to be loaded beyond the signups themselves to evaluate a tree
+ */
+export function getSegmentDataNeeds(
+  rule: SegmentRule,
+  now: Date = new Date()
+): SegmentDataNeeds {
+  const events = new Set<'sent' | 'opened' | 'clicked'>()
+  let longestWindowDays: number | null = 0
+  let feedback = false
+
+  for (const condition of getConditions(rule)) {
+    if (condition.type === 'email_activity') {
+      events.add(condition.event)
+      longestWindowDays =
+        condition.within_days === undefined || longestWindowDays === null
+          ? null
+          : Math.max(longestWindowDays, condition.within_days)
+    } else if (condition.type === 'feedback') {
+      feedback = true
+    }
+  }
+
+  return {
+    email_events: Array.from(events),
+    email_events_since:
+      events.size > 0 && longestWindowDays !== null
+        ? new Date(now.getTime() - longestWindowDays * DAY_MS)
+        : null,
+    feedback,
+  }
+}
+
+export interface SegmentMemberData {
+  user: BetaSignup
+  email_events: Array<{ event_type: string; timestamp: string }>
+  feedback: Array<
+    Pick<FeedbackSubmission, 'feedback_type' | 'rating' | 'submitted_at'>
+  >
+}
+
+function isWithinDays(
+  timestamp: string,
+  withinDays: number | undefined,
+  now: Date
+): boolean {
+  return (
+    withinDays === undefined ||
+    new Date(timestamp).getTime() >= now.getTime() - withinDays * DAY_MS
+  )
+}
+
+function isCountInRange(
+  count: number,
+  rule: { min_count?: number; max_count?: number }
+): boolean {
+  if (rule.min_count === undefined && rule.max_count === undefined) {
+    return count >= 1
+  }
+
+  return (
+    (rule.min_count === undefined || count >= rule.min_count) &&
+    (rule.max_count === undefined || count <= rule.max_count)
+  )
+}
+
+function matchesList(
+  list: string[] | undefined,
+  rule: { match: 'any' | 'all' | 'none'; values: string[] }
+): boolean {
+  const entries = (list || []).map((entry) => entry.toLowerCase())
+  const has = (value: string) =>
+    entries.some((entry) => entry.includes(value.toLowerCase()))
+
+  switch (rule.match) {
+    case 'any':
+      return rule.values.some(has)
+    case 'all':
+      return rule.values.every(has)
+    case 'none':
+      return !rule.values.some(has)
+  }
+}
+
+/**
+ * Whether a signup matches a rule tree
+ */
+export function evaluateSegmentRule(
+  rule: SegmentRule,
+  member: SegmentMemberData,
+  now: Date = new Date()
+): boolean {
+  const { user } = member
+
+  switch (rule.type) {
+    case 'and':
+      return rule.rules.every((child) =>
+        evaluateSegmentRule(child, member, now)
+      )
+    case 'or':
+      return rule.rules.some((child) => evaluateSegmentRule(child, member, now))
+    case 'not':
+      return !evaluateSegmentRule(rule.rule, member, now)
+    case 'beta_status':
+      return rule.in.includes(user.beta_status)
+    case 'team_size':
+      return !!user.team_size && rule.in.includes(user.team_size)
+    case 'signup_source':
+      return !!user.signup_source && rule.in.includes(user.signup_source)
+    case 'engagement_score':
+      return (
+        (rule.min === undefined || user.engagement_score >= rule.min) &&
+        (rule.max === undefined || user.engagement_score <= rule.max)
+      )
+    case 'signed_up': {
+      const signedUpAt = new Date(user.created_at).getTime()
+      return (
+        (!rule.after || signedUpAt >= new Date(rule.after).getTime()) &&
+        (!rule.before || signedUpAt < new Date(rule.before).getTime()) &&
+        isWithinDays(user.created_at, rule.within_days, now)
+      )
+    }
+    case 'has_username':
+      return !!(rule.provider === 'github'
+        ? user.github_username
+        : user.gitlab_username)
+    case 'current_tools':
+      return matchesList(user.current_tools, rule)
+    case 'documentation_platform':
+      return matchesList(user.documentation_platform, rule)
+    case 'email_activity':
+      return isCountInRange(
+        member.email_events.filter(
+          (event) =>
+            event.event_type === rule.event &&
+            isWithinDays(event.timestamp, rule.within_days, now)
+        ).length,
+        rule
+      )
+    case 'feedback':
+      return isCountInRange(
+        member.feedback.filter(
+          (submission) =>
+            (!rule.feedback_type ||
+              submission.feedback_type === rule.feedback_type) &&
+            (rule.min_rating === undefined ||
+              (typeof submission.rating === 'number' &&
+                submission.rating >= rule.min_rating)) &&
+            (rule.max_rating === undefined ||
+              (typeof submission.rating === 'number' &&
+                submission.rating <= rule.max_rating)) &&
+            isWithinDays(submission.submitted_at, rule.within_days, now)
+        ).length,
+        rule
+      )
+  }
+}
@@ -284,24 +284,21 @@ class ServerErrorLogger {
     if (!supabaseAdmin) return
 
     try {
-      await (supabaseAdmin as any).from('page_analytics').insert([
+      await (supabaseAdmin as any).from('system_alerts').insert([
         {
-          page_path: '/admin/alerts',
-          event_type: 'system_alert',
-          timestamp: new Date().toISOString(),
-          metadata: {
-            alert: {
-              ruleId: rule.id,
-              severity: rule.severity,
-              message,
-              count,
-              timeWindow: rule.timeWindow,
-              originalError: {
-                message: error.message,
-                category: error.category,
-                endpoint: error.endpoint,
-                severity: error.severity,
-              },
+          alert_type: 'rule',
+          severity: rule.severity,
+          message,
+          page_path: error.endpoint,
+          rule_id: rule.id,
+          occurrences: count,
+          details: {
+            timeWindow: rule.timeWindow,
+            originalError: {
+              message: error.message,
+              category: error.category,
+              endpoint: error.endpoint,
+              severity: error.severity,
             },
           },
         },
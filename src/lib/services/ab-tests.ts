@@ -0,0 +1,772 @@
+import crypto from 'crypto'
+import { supabaseAdmin } from '../supabase'
+import { EmailCampaignService } from './email-campaigns'
+import {
+  createShuffleSeed,
+  getMinimumSampleSize,
+  seededShuffle,
+  twoProportionZTest,
+  type ProportionTestResult,
+  type SampleSizeGuidance,
+} from '../ab-test-stats'
+import type {
+  ABTest,
+  ABTestMetric,
+  ABTestVariantContent,
+  ABTestVariantKey,
+  BetaSignup,
+} from '../../types'
+
+/**
+ * A/B Test Service
+ * Splits a segment with a seeded shuffle, sends each variant, and compares
+ * unique open and click rates with two-proportion z-tests. A test can run
+ * on part of the segment and hold back the rest; the
+ * /api/cron/ab-test-rollouts runner sends the holdout the winning variant
+ * once the test window is over. When the result isn't significant the
+ * holdout gets variant A, which is treated as the control.
+ *
+ * Variants and rollouts are queued as campaign deliveries, which
+ * EmailCampaignService.dispatchDueDeliveries sends across as many cron runs
+ * as a large audience takes.
+ */
+
+// Smallest test group (both variants together) worth running
+export const AB_TEST_MIN_GROUP_SIZE = 20
+
+// Absolute lift the sample-size guidance is sized for when the caller
+// doesn't give one, and baselines to use before any results are in
+const DEFAULT_MINIMUM_DETECTABLE_EFFECT: Record<ABTestMetric, number> = {
+  open_rate: 0.05,
+  click_rate: 0.02,
+}
+const DEFAULT_BASELINE_RATE: Record<ABTestMetric, number> = {
+  open_rate: 0.25,
+  click_rate: 0.03,
+}
+
+// A rollout still 'sending' (being queued) after this long is assumed to
+// have died
+const ROLLOUT_LOCK_TIMEOUT_MS = 30 * 60 * 1000
+
+// Rollouts per runner invocation, to stay inside the function time limit
+const ROLLOUT_MAX_TESTS = 3
+
+const EVENT_PAGE_SIZE = 1000
+const USER_LOOKUP_CHUNK_SIZE = 100
+
+export interface ABTestSplit {
+  seed: string
+  variant_a: BetaSignup[]
+  variant_b: BetaSignup[]
+  holdout: BetaSignup[]
+}
+
+export interface ABTestVariantStats {
+  campaign_id: string | null
+  sent: number // Unique recipients with a successful send
+  opened: number // Unique openers among them
+  clicked: number
+  open_rate: number // 0-1
+  click_rate: number
+}
+
+export interface ABTestSampleSize extends SampleSizeGuidance {
+  current_per_variant: number // The smaller variant
+  sufficient: boolean
+}
+
+export interface ABTestResults {
+  test: ABTest
+  variant_a: ABTestVariantStats
+  variant_b: ABTestVariantStats
+  significance: Record<ABTestMetric, ProportionTestResult>
+  sample_size: Record<ABTestMetric, ABTestSampleSize>
+  winner: ABTestVariantKey | 'inconclusive' // On the test's winner_metric
+}
+
+export class ABTestService {
+  /**
+   * Shuffle users with a seed and split them into the two variants and the
+   * holdout. Users are ordered by id first, so the same seed always gives
+   * the same split of the same users.
+   */
+  static splitAudience(
+    users: BetaSignup[],
+    options: {
+      splitPercentage: number // Share of the test group for variant A
+      testPercentage: number // Share of the users in the test
+      seed?: string
+    }
+  ): ABTestSplit {
+    const seed = options.seed || createShuffleSeed()
+    const shuffled = seededShuffle(
+      [...users].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)),
+      seed
+    )
+
+    const testCount = Math.round(
+      (shuffled.length * options.testPercentage) / 100
+    )
+    const splitIndex = Math.round((testCount * options.splitPercentage) / 100)
+
+    return {
+      seed,
+      variant_a: shuffled.slice(0, splitIndex),
+      variant_b: shuffled.slice(splitIndex, testCount),
+      holdout: shuffled.slice(testCount),
+    }
+  }
+
+  /**
+   * Recipients each variant needs to detect the minimum effect on a metric
+   */
+  static getSampleSizeGuidance(
+    metric: ABTestMetric,
+    currentPerVariant: number,
+    options: {
+      baselineRate?: number
+      minimumDetectableEffect?: number
+      confidenceLevel?: number
+    } = {}
+  ): ABTestSampleSize {
+    const guidance = getMinimumSampleSize({
+      baselineRate: options.baselineRate ?? DEFAULT_BASELINE_RATE[metric],
+      minimumDetectableEffect:
+        options.minimumDetectableEffect ??
+        DEFAULT_MINIMUM_DETECTABLE_EFFECT[metric],
+      confidenceLevel: options.confidenceLevel,
+    })
+
+    return {
+      ...guidance,
+      current_per_variant: currentPerVariant,
+      sufficient: currentPerVariant >= guidance.required_per_variant,
+    }
+  }
+
+  /**
+   * Send one variant to a list of users right away. Only for test sends
+   * to the seed list; real audiences are queued as deliveries.
+   */
+  static async sendVariant(
+    users: BetaSignup[],
+    variant: ABTestVariantContent,
+    campaignId: string,
+    isTest = false
+  ): Promise<{ sent: number; errors: string[] }> {
+    let sent = 0
+    const errors: string[] = []
+
+    for (const [index, user] of users.entries()) {
+      const result = await EmailCampaignService.sendEmail({
+        to_email: user.email,
+        subject: variant.subject,
+        html: variant.content,
+        template_id: variant.templateId,
+        user_id: user.id,
+        email_type: 'update',
+        campaign_id: campaignId,
+        is_test: isTest,
+      })
+
+      if (result.success) {
+        sent++
+      } else {
+        errors.push(`${user.email}: ${result.error}`)
+      }
+
+      // Rate limiting
+      if ((index + 1) % 10 === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 1000))
+      }
+    }
+
+    return { sent, errors }
+  }
+
+  /**
+   * Record a test, queue both variants and schedule the holdout rollout
+   */
+  static async launch(
+    config: {
+      test_name: string
+      segment_filter: string
+      email_type: string
+      variant_a: ABTestVariantContent
+      variant_b: ABTestVariantContent
+      split_percentage: number
+      test_percentage: number
+      winner_metric: ABTestMetric
+      confidence_level: number
+      rollout_after_hours?: number
+    },
+    split: ABTestSplit
+  ): Promise<{
+    data: {
+      test: ABTest
+      variant_a: { campaign_id: string; queued: number }
+      variant_b: { campaign_id: string; queued: number }
+    } | null
+    error: string | null
+  }> {
+    try {
+      const variants = {} as Record<
+        ABTestVariantKey,
+        { campaign_id: string; users: BetaSignup[] }
+      >
+
+      for (const key of ['variant_a', 'variant_b'] as const) {
+        const { campaign_id, error } =
+          await EmailCampaignService.createCampaign({
+            campaign_type: `${config.email_type}_ab_${key}`,
+            subject: config[key].subject,
+            segment_filter: config.segment_filter,
+            total_recipients: split[key].length,
+            template_id: config[key].templateId,
+            html_content: config[key].content,
+          })
+
+        if (error) {
+          return { data: null, error }
+        }
+
+        variants[key] = { campaign_id, users: split[key] }
+      }
+
+      const now = new Date()
+      const hasHoldout = split.holdout.length > 0
+
+      const { data: test, error: insertError } = await supabaseAdmin
+        .from('ab_tests')
+        .insert({
+          test_name: config.test_name,
+          test_type: 'subject_line',
+          status: 'running',
+          campaign_a_id: variants.variant_a.campaign_id,
+          campaign_b_id: variants.variant_b.campaign_id,
+          variant_a: config.variant_a,
+          variant_b: config.variant_b,
+          variant_a_count: split.variant_a.length,
+          variant_b_count: split.variant_b.length,
+          split_percentage: config.split_percentage,
+          confidence_level: config.confidence_level,
+          segment_filter: config.segment_filter,
+          email_type: config.email_type,
+          shuffle_seed: split.seed,
+          test_percentage: config.test_percentage,
+          winner_metric: config.winner_metric,
+          holdout_user_ids: split.holdout.map((user) => user.id),
+          holdout_count: split.holdout.length,
+          rollout_status: hasHoldout ? 'pending' : 'none',
+          rollout_at: hasHoldout
+            ? new Date(
+                now.getTime() + (config.rollout_after_hours || 0) * 3600 * 1000
+              ).toISOString()
+            : null,
+          start_date: now.toISOString(),
+          created_at: now.toISOString(),
+        })
+        .select('*')
+        .single()
+
+      if (insertError || !test) {
+        return {
+          data: null,
+          error: insertError?.message || 'Failed to record A/B test',
+        }
+      }
+
+      const results = {} as Record<
+        ABTestVariantKey,
+        { campaign_id: string; queued: number }
+      >
+
+      for (const key of ['variant_a', 'variant_b'] as const) {
+        const { campaign_id, users } = variants[key]
+        const { error: queueError } = await EmailCampaignService.queueCampaign(
+          campaign_id,
+          users
+        )
+
+        if (queueError) {
+          return { data: null, error: queueError }
+        }
+
+        results[key] = { campaign_id, queued: users.length }
+      }
+
+      return {
+        data: {
+          test: test as ABTest,
+          variant_a: results.variant_a,
+          variant_b: results.variant_b,
+        },
+        error: null,
+      }
+    } catch (err) {
+      console.error('Error in ABTestService.launch:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Per-variant unique opens and clicks, significance on both metrics and
+   * how far each is from the sample size it needs. The sample-size
+   * baseline is the pooled rate so far.
+   */
+  static async getResults(
+    id: string,
+    options: { minimumDetectableEffect?: number } = {}
+  ): Promise<{ data: ABTestResults | null; error: string | null }> {
+    try {
+      const { data: test, error } = await supabaseAdmin
+        .from('ab_tests')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+      if (!test) {
+        return { data: null, error: 'Test not found' }
+      }
+
+      const abTest = test as ABTest
+      const campaignIds = [abTest.campaign_a_id, abTest.campaign_b_id].filter(
+        (campaignId): campaignId is string => !!campaignId
+      )
+
+      const { data: events, error: eventsError } =
+        await this.getCampaignEvents(campaignIds)
+      if (eventsError || !events) {
+        return { data: null, error: eventsError || 'Failed to load events' }
+      }
+
+      const variantA = this.getVariantStats(
+        abTest.campaign_a_id || null,
+        events
+      )
+      const variantB = this.getVariantStats(
+        abTest.campaign_b_id || null,
+        events
+      )
+      const confidenceLevel = abTest.confidence_level || 95
+      const smallerVariant = Math.min(variantA.sent, variantB.sent)
+      const totalSent = variantA.sent + variantB.sent
+
+      const significance = {} as ABTestResults['significance']
+      const sampleSize = {} as ABTestResults['sample_size']
+
+      for (const metric of ['open_rate', 'click_rate'] as const) {
+        const successes = metric === 'open_rate' ? 'opened' : 'clicked'
+
+        significance[metric] = twoProportionZTest(
+          variantA[successes],
+          variantA.sent,
+          variantB[successes],
+          variantB.sent,
+          confidenceLevel
+        )
+
+        sampleSize[metric] = this.getSampleSizeGuidance(
+          metric,
+          smallerVariant,
+          {
+            baselineRate:
+              totalSent > 0
+                ? (variantA[successes] + variantB[successes]) / totalSent
+                : undefined,
+            // Only meaningful for the metric the test is decided on
+            minimumDetectableEffect:
+              metric === abTest.winner_metric
+                ? options.minimumDetectableEffect
+                : undefined,
+            confidenceLevel,
+          }
+        )
+      }
+
+      const decisive = significance[abTest.winner_metric || 'open_rate']
+
+      return {
+        data: {
+          test: abTest,
+          variant_a: variantA,
+          variant_b: variantB,
+          significance,
+          sample_size: sampleSize,
+          winner: !decisive.significant
+            ? 'inconclusive'
+            : decisive.difference > 0
+              ? 'variant_b'
+              : 'variant_a',
+        },
+        error: null,
+      }
+    } catch (err) {
+      console.error('Error in ABTestService.getResults:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Stop a pending rollout. The holdout is never emailed.
+   */
+  static async cancelRollout(
+    id: string
+  ): Promise<{ data: ABTest | null; error: string | null }> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('ab_tests')
+        .update({
+          rollout_status: 'cancelled',
+          status: 'stopped',
+          end_date: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .eq('rollout_status', 'pending')
+        .select('*')
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+      if (!data || data.length === 0) {
+        return { data: null, error: 'No pending rollout for this test' }
+      }
+
+      return { data: data[0] as ABTest, error: null }
+    } catch (err) {
+      console.error('Error in ABTestService.cancelRollout:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Queue the winning variant for the holdout of every test whose rollout
+   * is due. Each test is claimed with a lock so overlapping runs can't
+   * queue it twice.
+   */
+  static async dispatchDueRollouts(): Promise<{
+    rollouts: Array<{
+      id: string
+      status: 'sent' | 'failed'
+      winner: ABTestVariantKey | 'inconclusive' | null
+      rollout_variant: ABTestVariantKey | null
+      queued_count: number
+    }>
+    errors: string[]
+  }> {
+    try {
+      const now = new Date()
+      const errors: string[] = []
+
+      // Fail rollouts whose run died while queueing rather than queueing
+      // them again
+      const { error: staleError } = await supabaseAdmin
+        .from('ab_tests')
+        .update({
+          rollout_status: 'failed',
+          lock_id: null,
+          locked_at: null,
+          updated_at: now.toISOString(),
+        })
+        .eq('rollout_status', 'sending')
+        .lt(
+          'locked_at',
+          new Date(now.getTime() - ROLLOUT_LOCK_TIMEOUT_MS).toISOString()
+        )
+
+      if (staleError) {
+        errors.push(`Failed to release stale locks: ${staleError.message}`)
+      }
+
+      const { data: dueTests, error } = await supabaseAdmin
+        .from('ab_tests')
+        .select('id')
+        .eq('rollout_status', 'pending')
+        .lte('rollout_at', now.toISOString())
+        .order('rollout_at', { ascending: true })
+        .limit(ROLLOUT_MAX_TESTS)
+
+      if (error) {
+        return { rollouts: [], errors: [...errors, error.message] }
+      }
+
+      const rollouts = []
+      for (const { id } of dueTests as Array<{ id: string }>) {
+        const lockId = crypto.randomUUID()
+
+        // Compare-and-set on rollout_status, as in campaign dispatch
+        const { data: claimed, error: claimError } = await supabaseAdmin
+          .from('ab_tests')
+          .update({
+            rollout_status: 'sending',
+            lock_id: lockId,
+            locked_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', id)
+          .eq('rollout_status', 'pending')
+          .select('id')
+
+        if (claimError) {
+          errors.push(`${id}: ${claimError.message}`)
+          continue
+        }
+
+        // Claimed by another run, or cancelled in the meantime
+        if (!claimed || claimed.length === 0) {
+          continue
+        }
+
+        const rollout = await this.rolloutWinner(id, lockId)
+        if (rollout.error) {
+          errors.push(`${id}: ${rollout.error}`)
+        }
+        rollouts.push(rollout.result)
+      }
+
+      return { rollouts, errors }
+    } catch (err) {
+      console.error('Error dispatching A/B test rollouts:', err)
+      return { rollouts: [], errors: ['Failed to dispatch A/B test rollouts'] }
+    }
+  }
+
+  /**
+   * Decide a claimed test and queue the winning variant for its holdout
+   */
+  private static async rolloutWinner(
+    id: string,
+    lockId: string
+  ): Promise<{
+    result: Awaited<
+      ReturnType<typeof ABTestService.dispatchDueRollouts>
+    >['rollouts'][number]
+    error: string | null
+  }> {
+    const finish = async (
+      update: {
+        rollout_status: 'sent' | 'failed'
+        winner?: ABTestVariantKey | 'inconclusive'
+        rollout_variant?: ABTestVariantKey
+        rollout_campaign_id?: string
+      },
+      queuedCount: number,
+      error: string | null
+    ) => {
+      const finishedAt = new Date().toISOString()
+
+      await supabaseAdmin
+        .from('ab_tests')
+        .update({
+          ...update,
+          status: 'completed',
+          decided_at: update.winner ? finishedAt : undefined,
+          end_date: finishedAt,
+          lock_id: null,
+          locked_at: null,
+          updated_at: finishedAt,
+        })
+        .eq('id', id)
+        .eq('lock_id', lockId)
+
+      return {
+        result: {
+          id,
+          status: update.rollout_status,
+          winner: update.winner || null,
+          rollout_variant: update.rollout_variant || null,
+          queued_count: queuedCount,
+        },
+        error,
+      }
+    }
+
+    const { data: results, error } = await this.getResults(id)
+    if (error || !results) {
+      return finish(
+        { rollout_status: 'failed' },
+        0,
+        error || 'Failed to load results'
+      )
+    }
+
+    const { test, winner } = results
+    const rolloutVariant: ABTestVariantKey =
+      winner === 'inconclusive' ? 'variant_a' : winner
+    const variant = test[rolloutVariant]
+
+    if (!variant) {
+      return finish(
+        { rollout_status: 'failed', winner },
+        0,
+        `Test has no stored ${rolloutVariant} content`
+      )
+    }
+
+    // Users who have opted out since the test started are left out
+    const { data: users, error: usersError } = await this.getHoldoutUsers(
+      test.holdout_user_ids || []
+    )
+    if (usersError || !users) {
+      return finish(
+        { rollout_status: 'failed', winner },
+        0,
+        usersError || 'Failed to load holdout users'
+      )
+    }
+
+    const { campaign_id: campaignId, error: campaignError } =
+      await EmailCampaignService.createCampaign({
+        campaign_type: `${test.email_type || 'custom'}_ab_rollout`,
+        subject: variant.subject,
+        segment_filter: test.segment_filter || 'all',
+        total_recipients: users.length,
+        template_id: variant.templateId,
+        html_content: variant.content,
+      })
+
+    if (campaignError) {
+      return finish({ rollout_status: 'failed', winner }, 0, campaignError)
+    }
+
+    const { error: queueError } = await EmailCampaignService.queueCampaign(
+      campaignId,
+      users
+    )
+
+    if (queueError) {
+      return finish(
+        { rollout_status: 'failed', winner, rollout_campaign_id: campaignId },
+        0,
+        queueError
+      )
+    }
+
+    return finish(
+      {
+        rollout_status: 'sent',
+        winner,
+        rollout_variant: rolloutVariant,
+        rollout_campaign_id: campaignId,
+      },
+      users.length,
+      null
+    )
+  }
+
+  /**
+   * Holdout users who are still opted in and confirmed
+   */
+  private static async getHoldoutUsers(
+    userIds: string[]
+  ): Promise<{ data: BetaSignup[] | null; error: string | null }> {
+    const users: BetaSignup[] = []
+
+    for (let i = 0; i < userIds.length; i += USER_LOOKUP_CHUNK_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from('beta_signups')
+        .select('*')
+        .in('id', userIds.slice(i, i + USER_LOOKUP_CHUNK_SIZE))
+        .eq('opted_in_marketing', true)
+        .eq('email_verified', true)
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+
+      users.push(...(data as BetaSignup[]))
+    }
+
+    return { data: users, error: null }
+  }
+
+  /**
+   * Send, open and click events for the variant campaigns, excluding test
+   * sends
+   */
+  private static async getCampaignEvents(campaignIds: string[]): Promise<{
+    data: Array<{
+      campaign_id: string
+      event_type: string
+      user_id: string
+      metadata: Record<string, unknown> | null
+    }> | null
+    error: string | null
+  }> {
+    const events = []
+
+    for (let offset = 0; campaignIds.length > 0; offset += EVENT_PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from('email_events')
+        .select('campaign_id, event_type, user_id, metadata')
+        .in('campaign_id', campaignIds)
+        .in('event_type', ['sent', 'opened', 'clicked'])
+        .eq('is_test', false)
+        .order('id', { ascending: true })
+        .range(offset, offset + EVENT_PAGE_SIZE - 1)
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+
+      events.push(...data)
+      if (data.length < EVENT_PAGE_SIZE) {
+        break
+      }
+    }
+
+    return { data: events, error: null }
+  }
+
+  /**
+   * Unique recipients per outcome. Failed sends are logged as 'sent' with
+   * metadata.failed and don't count.
+   */
+  private static getVariantStats(
+    campaignId: string | null,
+    events: Array<{
+      campaign_id: string
+      event_type: string
+      user_id: string
+      metadata: Record<string, unknown> | null
+    }>
+  ): ABTestVariantStats {
+    const sent = new Set<string>()
+    const opened = new Set<string>()
+    const clicked = new Set<string>()
+
+    for (const event of events) {
+      if (event.campaign_id !== campaignId) {
+        continue
+      }
+
+      if (event.event_type === 'sent' && !event.metadata?.failed) {
+        sent.add(event.user_id)
+      } else if (event.event_type === 'opened') {
+        opened.add(event.user_id)
+      } else if (event.event_type === 'clicked') {
+        clicked.add(event.user_id)
+      }
+    }
+
+    const countSent = (users: Set<string>) =>
+      Array.from(users).filter((userId) => sent.has(userId)).length
+
+    const openedCount = countSent(opened)
+    const clickedCount = countSent(clicked)
+
+    return {
+      campaign_id: campaignId,
+      sent: sent.size,
+      opened: openedCount,
+      clicked: clickedCount,
+      open_rate: sent.size > 0 ? openedCount / sent.size : 0,
+      click_rate: sent.size > 0 ? clickedCount / sent.size : 0,
+    }
+  }
+}
@@ -0,0 +1,281 @@
+import crypto from 'crypto'
+import { promisify } from 'util'
+import { supabaseAdmin } from '../supabase'
+import type { AdminAuditEntry, AdminRole, AdminUser } from '../../types'
+
+/**
+ * Admin Account Services
+ * Named admin accounts with role-based access and an append-only audit log
+ */
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>
+
+const PASSWORD_KEY_LENGTH = 64
+const ADMIN_USER_COLUMNS =
+  'id, email, name, role, disabled, created_at, last_login_at'
+
+const ROLE_RANK: Record<AdminRole, number> = {
+  viewer: 0,
+  marketer: 1,
+  owner: 2,
+}
+
+/**
+ * Check whether a role meets the minimum required role
+ */
+export function hasRequiredRole(role: AdminRole, required: AdminRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required]
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString('hex')
+  const hash = await scrypt(password, salt, PASSWORD_KEY_LENGTH)
+  return `scrypt$${salt}$${hash.toString('hex')}`
+}
+
+async function verifyPassword(
+  password: string,
+  storedHash: string
+): Promise<boolean> {
+  const [scheme, salt, hash] = storedHash.split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false
+  }
+
+  const expected = Buffer.from(hash, 'hex')
+  const actual = await scrypt(password, salt, expected.length)
+  return crypto.timingSafeEqual(expected, actual)
+}
+
+// Admin Users Service
+export class AdminUserService {
+  /**
+   * Verify an email/password pair and return the matching active account
+   */
+  static async authenticate(
+    email: string,
+    password: string
+  ): Promise<{ data: AdminUser | null; error: string | null }> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('admin_users')
+        .select(`${ADMIN_USER_COLUMNS}, password_hash`)
+        .eq('email', email.toLowerCase())
+        .single()
+
+      if (error && error.code !== 'PGRST116') {
+        return { data: null, error: error.message }
+      }
+
+      if (!data || data.disabled) {
+        return { data: null, error: 'Invalid email or password' }
+      }
+
+      if (!(await verifyPassword(password, data.password_hash))) {
+        return { data: null, error: 'Invalid email or password' }
+      }
+
+      await supabaseAdmin
+        .from('admin_users')
+        .update({ last_login_at: new Date().toISOString() })
+        .eq('id', data.id)
+
+      const { password_hash, ...user } = data
+      return { data: user as AdminUser, error: null }
+    } catch (err) {
+      console.error('Error in AdminUserService.authenticate:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Count admin accounts (zero means the bootstrap password is still active)
+   */
+  static async count(): Promise<{ count: number; error: string | null }> {
+    try {
+      const { count, error } = await supabaseAdmin
+        .from('admin_users')
+        .select('id', { count: 'exact', head: true })
+
+      if (error) {
+        return { count: 0, error: error.message }
+      }
+
+      return { count: count || 0, error: null }
+    } catch (err) {
+      console.error('Error in AdminUserService.count:', err)
+      return { count: 0, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Get all admin accounts (owner only)
+   */
+  static async getAll(): Promise<{
+    data: AdminUser[] | null
+    error: string | null
+  }> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('admin_users')
+        .select(ADMIN_USER_COLUMNS)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+
+      return { data, error: null }
+    } catch (err) {
+      console.error('Error in AdminUserService.getAll:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Create a new admin account with a hashed password (owner only)
+   */
+  static async create(account: {
+    email: string
+    name: string
+    password: string
+    role: AdminRole
+  }): Promise<{ data: AdminUser | null; error: string | null }> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('admin_users')
+        .insert([
+          {
+            email: account.email.toLowerCase(),
+            name: account.name,
+            password_hash: await hashPassword(account.password),
+            role: account.role,
+          },
+        ])
+        .select(ADMIN_USER_COLUMNS)
+        .single()
+
+      if (error) {
+        console.error('Error creating admin user:', error)
+        return { data: null, error: error.message }
+      }
+
+      return { data, error: null }
+    } catch (err) {
+      console.error('Error in AdminUserService.create:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Update an admin account's role, name, status or password (owner only)
+   */
+  static async update(
+    userId: string,
+    updates: {
+      name?: string
+      role?: AdminRole
+      disabled?: boolean
+      password?: string
+    }
+  ): Promise<{ data: AdminUser | null; error: string | null }> {
+    try {
+      const { password, ...fields } = updates
+      const { data, error } = await supabaseAdmin
+        .from('admin_users')
+        .update({
+          ...fields,
+          ...(password ? { password_hash: await hashPassword(password) } : {}),
+        })
+        .eq('id', userId)
+        .select(ADMIN_USER_COLUMNS)
+        .single()
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+
+      return { data, error: null }
+    } catch (err) {
+      console.error('Error in AdminUserService.update:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+}
+
+// Admin Audit Log Service
+export class AdminAuditService {
+  /**
+   * Append an entry to the audit log
+   */
+  static async record(
+    entry: Omit<AdminAuditEntry, 'id' | 'created_at'>
+  ): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const { error } = await supabaseAdmin.from('admin_audit_log').insert([
+        {
+          ...entry,
+          created_at: new Date().toISOString(),
+        },
+      ])
+
+      if (error) {
+        console.error('Error recording admin audit entry:', error)
+        return { success: false, error: error.message }
+      }
+
+      return { success: true, error: null }
+    } catch (err) {
+      console.error('Error in AdminAuditService.record:', err)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Get recent audit entries with optional filtering (owner only)
+   */
+  static async getRecent(filters?: {
+    adminUserId?: string
+    path?: string
+    limit?: number
+    offset?: number
+  }): Promise<{
+    data: AdminAuditEntry[] | null
+    error: string | null
+    count?: number
+  }> {
+    try {
+      const limit = filters?.limit || 50
+      const offset = filters?.offset || 0
+
+      let query = supabaseAdmin
+        .from('admin_audit_log')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1)
+
+      if (filters?.adminUserId) {
+        query = query.eq('admin_user_id', filters.adminUserId)
+      }
+
+      if (filters?.path) {
+        query = query.like('path', `${filters.path}%`)
+      }
+
+      const { data, error, count } = await query
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+
+      return { data, error: null, count: count || 0 }
+    } catch (err) {
+      console.error('Error in AdminAuditService.getRecent:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+}
@@ -0,0 +1,997 @@
+import { supabaseAdmin } from '../supabase'
+
+/**
+ * Analytics Rollups
+ * Hourly and daily summaries of page_analytics, engagement_events,
+ * beta_signups, email_events and goal_conversions, so dashboards don't scan
+ * raw rows. The rollup job
+ * (rollUp, run hourly from /api/cron/analytics-rollups) summarizes each
+ * completed hour, and each completed UTC day, into one row per metric and
+ * dimension. Readers combine daily rows for whole days, hourly rows for
+ * the hours either side, and raw rows only for the time since the last
+ * rolled-up hour.
+ *
+ * Counts of unique visitors overall are exact over any range (from
+ * analytics_visitor_hours). Unique counts broken down by a dimension, such
+ * as visitors per page, are exact within a bucket but added up across
+ * buckets, so a visitor who comes back in another hour or day is counted
+ * again. Sessions are counted in each hour they were active in.
+ */
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+const ROLLUP_STATE_ID = 'default'
+
+// An hour is rolled up once it has been over this long, so events that
+// arrive a little late still land in it
+const ROLLUP_SETTLE_MS = 10 * 60 * 1000
+
+// Where the first run starts from, matching the longest dashboard timeframe
+const ROLLUP_BACKFILL_DAYS = 90
+
+// Bounds on a single run; a backfill carries on in the next run
+const ROLLUP_MAX_HOURS_PER_RUN = 168
+const ROLLUP_TIME_BUDGET_MS = 4 * 60 * 1000
+
+const PAGE_SIZE = 1000
+const INSERT_CHUNK_SIZE = 500
+
+// page_analytics rows written by the reporting endpoints, not by visitors
+const SYSTEM_EVENT_TYPES = ['aggregated_metrics', 'analytics_summary']
+
+export const ENGAGEMENT_EVENT_TYPES = [
+  'scroll_depth',
+  'time_on_page',
+  'cta_click',
+  'form_interaction',
+  'engagement_score',
+]
+
+export type RollupMetric =
+  // page_analytics and engagement_events
+  | 'events' // By event_type
+  | 'events_by_path'
+  | 'page_views' // Total only
+  | 'page_views_by_path'
+  | 'visitors' // Unique visitors in the bucket; total only
+  | 'visitors_by_event' // Unique visitors by `${event_type}:${page_path}`
+  | 'sources' // Page views by traffic source (Google, GitHub, ...)
+  | 'referrers' // All events by referrer hostname, or 'direct'
+  | 'sessions'
+  | 'bounced_sessions' // Sessions with at most one page view
+  | 'session_duration_ms'
+  | 'engagement_score_total' // By page path
+  | 'engagement_score_events'
+  | 'high_engagement_events' // engagement_score of 20 or more
+  | 'time_on_page_ms'
+  | 'time_on_page_events'
+  | 'clicks_by_target'
+  | 'utm_visitors' // By utm_campaign
+  | 'screen_resolutions'
+  | 'timezones'
+  // goal_conversions, by converted_at
+  | 'conversions' // By goal key
+  | 'conversions_by_path'
+  | 'converters' // Unique converting visitors in the bucket; total only
+  | 'utm_conversions' // By last-touch utm_campaign
+  // beta_signups, by created_at
+  | 'signups'
+  | 'signups_by_source'
+  | 'signups_by_team_size'
+  | 'signups_opted_in' // 'marketing' / 'research'
+  // email_events, excluding test sends
+  | 'email_events' // By event_type
+  | 'email_events_by_campaign' // By `${event_type}:${campaign_id}`
+
+// metric -> dimension -> value
+export type RollupTotals = Partial<Record<RollupMetric, Record<string, number>>>
+
+export interface AnalyticsRollupSummary {
+  start: string // Rounded down to the hour
+  end: string
+  totals: RollupTotals
+  // Visitor IDs rotate daily, so these are per-day visitors, and returning
+  // visitors are those with more than one session on the same day
+  unique_visitors: number
+  returning_visitors: number
+  raw_since: string // Rows from here on were read raw
+}
+
+interface EventRow {
+  visitor_id: string | null
+  session_id: string | null
+  page_path: string
+  event_type: string
+  timestamp: string
+  referrer: string | null
+  metadata: Record<string, any> | null
+}
+
+interface RawRows {
+  page_analytics: EventRow[]
+  engagement_events: Array<{
+    visitor_id: string
+    session_id: string | null
+    page_path: string
+    event_type: string
+    occurred_at: string
+    time_on_page_ms: number | null
+    click_target: string | null
+    engagement_score: number
+  }>
+  beta_signups: Array<{
+    signup_source: string | null
+    team_size: string | null
+    opted_in_marketing: boolean
+    opted_in_research: boolean
+  }>
+  email_events: Array<{ event_type: string; campaign_id: string | null }>
+  goal_conversions: Array<{
+    goal_key: string
+    visitor_id: string
+    page_path: string | null
+    last_touch_campaign: string | null
+  }>
+}
+
+interface VisitorActivity {
+  sessions: Set<string>
+  page_views: number
+}
+
+type RollupTable = 'analytics_hourly_rollups' | 'analytics_daily_rollups'
+
+function floorTo(time: number, unit: number): number {
+  return Math.floor(time / unit) * unit
+}
+
+function ceilTo(time: number, unit: number): number {
+  return Math.ceil(time / unit) * unit
+}
+
+/**
+ * Value of one metric and dimension ('' for totals)
+ */
+export function getRollupValue(
+  totals: RollupTotals,
+  metric: RollupMetric,
+  dimension: string = ''
+): number {
+  return totals[metric]?.[dimension] || 0
+}
+
+/**
+ * A metric's dimensions and values, largest first
+ */
+export function getRollupEntries(
+  totals: RollupTotals,
+  metric: RollupMetric
+): Array<[string, number]> {
+  return Object.entries(totals[metric] || {}).sort((a, b) => b[1] - a[1])
+}
+
+/**
+ * Traffic source label for a referrer
+ */
+export function getTrafficSource(referrer: string | null): string {
+  if (!referrer) {
+    return 'Direct'
+  }
+
+  try {
+    const referrerDomain = new URL(referrer).hostname
+    if (referrerDomain.includes('google')) return 'Google'
+    if (referrerDomain.includes('github')) return 'GitHub'
+    if (referrerDomain.includes('twitter')) return 'Twitter'
+    if (referrerDomain.includes('linkedin')) return 'LinkedIn'
+    return referrerDomain
+  } catch {
+    return 'Other'
+  }
+}
+
+function addTo(
+  totals: RollupTotals,
+  metric: RollupMetric,
+  dimension: string,
+  value: number
+): void {
+  const values = totals[metric] || (totals[metric] = {})
+  values[dimension] = (values[dimension] || 0) + value
+}
+
+/**
+ * Summarize raw rows into rollup totals, plus per-visitor activity for
+ * analytics_visitor_hours
+ */
+function summarizeRows(rows: RawRows): {
+  totals: RollupTotals
+  visitors: Map<string, VisitorActivity>
+} {
+  const totals: RollupTotals = {}
+  const visitors = new Map<string, VisitorActivity>()
+  const visitorsByEvent = new Map<string, Set<string>>()
+  const utmVisitors = new Map<string, Set<string>>()
+  const sessions = new Map<
+    string,
+    { first: number; last: number; page_views: number }
+  >()
+
+  // Engagement events count as events like any other, with their typed
+  // fields where page_analytics rows kept them in metadata
+  const events: EventRow[] = [
+    ...rows.page_analytics,
+    ...rows.engagement_events.map((event) => ({
+      visitor_id: event.visitor_id,
+      session_id: event.session_id,
+      page_path: event.page_path,
+      event_type: event.event_type,
+      timestamp: event.occurred_at,
+      referrer: null,
+      metadata: {
+        engagement_score: event.engagement_score,
+        time_on_page: event.time_on_page_ms,
+        click_target: event.click_target,
+      },
+    })),
+  ]
+
+  for (const row of events) {
+    const metadata = row.metadata || {}
+    const time = new Date(row.timestamp).getTime()
+    const isPageView = row.event_type === 'page_view'
+
+    addTo(totals, 'events', row.event_type, 1)
+    addTo(totals, 'events_by_path', row.page_path, 1)
+
+    let referrerHost = 'direct'
+    if (row.referrer) {
+      try {
+        referrerHost = new URL(row.referrer).hostname || 'direct'
+      } catch {
+        // Unparseable referrers count as direct
+      }
+    }
+    addTo(totals, 'referrers', referrerHost, 1)
+
+    addTo(
+      totals,
+      'screen_resolutions',
+      metadata.screenResolution || 'unknown',
+      1
+    )
+    addTo(
+      totals,
+      'timezones',
+      metadata.timezone
+        ? `GMT${metadata.timezone > 0 ? '+' : ''}${metadata.timezone}`
+        : 'unknown',
+      1
+    )
+
+    if (isPageView) {
+      addTo(totals, 'page_views', '', 1)
+      addTo(totals, 'page_views_by_path', row.page_path, 1)
+      addTo(totals, 'sources', getTrafficSource(row.referrer), 1)
+    }
+
+    if (ENGAGEMENT_EVENT_TYPES.includes(row.event_type)) {
+      if (metadata.engagement_score) {
+        addTo(
+          totals,
+          'engagement_score_total',
+          row.page_path,
+          metadata.engagement_score
+        )
+        addTo(totals, 'engagement_score_events', '', 1)
+      }
+      if ((metadata.engagement_score || 0) >= 20) {
+        addTo(totals, 'high_engagement_events', '', 1)
+      }
+      if (metadata.time_on_page) {
+        addTo(totals, 'time_on_page_ms', '', metadata.time_on_page)
+        addTo(totals, 'time_on_page_events', '', 1)
+      }
+      if (metadata.click_target) {
+        addTo(totals, 'clicks_by_target', metadata.click_target, 1)
+      }
+    }
+
+    const campaign = metadata.utmParams?.utm_campaign
+    if (campaign) {
+      if (!utmVisitors.has(campaign)) {
+        utmVisitors.set(campaign, new Set())
+      }
+      if (row.visitor_id) {
+        utmVisitors.get(campaign)?.add(row.visitor_id)
+      }
+    }
+
+    if (row.visitor_id) {
+      const activity = visitors.get(row.visitor_id) || {
+        sessions: new Set<string>(),
+        page_views: 0,
+      }
+      if (row.session_id) {
+        activity.sessions.add(row.session_id)
+      }
+      if (isPageView) {
+        activity.page_views++
+      }
+      visitors.set(row.visitor_id, activity)
+
+      const eventKey = `${row.event_type}:${row.page_path}`
+      if (!visitorsByEvent.has(eventKey)) {
+        visitorsByEvent.set(eventKey, new Set())
+      }
+      visitorsByEvent.get(eventKey)?.add(row.visitor_id)
+    }
+
+    if (row.session_id) {
+      const session = sessions.get(row.session_id) || {
+        first: time,
+        last: time,
+        page_views: 0,
+      }
+      session.first = Math.min(session.first, time)
+      session.last = Math.max(session.last, time)
+      if (isPageView) {
+        session.page_views++
+      }
+      sessions.set(row.session_id, session)
+    }
+  }
+
+  if (visitors.size > 0) {
+    addTo(totals, 'visitors', '', visitors.size)
+  }
+  visitorsByEvent.forEach((ids, eventKey) => {
+    addTo(totals, 'visitors_by_event', eventKey, ids.size)
+  })
+  utmVisitors.forEach((ids, campaign) => {
+    addTo(totals, 'utm_visitors', campaign, ids.size)
+  })
+  sessions.forEach((session) => {
+    addTo(totals, 'sessions', '', 1)
+    addTo(totals, 'session_duration_ms', '', session.last - session.first)
+    if (session.page_views <= 1) {
+      addTo(totals, 'bounced_sessions', '', 1)
+    }
+  })
+
+  for (const signup of rows.beta_signups) {
+    addTo(totals, 'signups', '', 1)
+    addTo(totals, 'signups_by_source', signup.signup_source || 'direct', 1)
+    addTo(totals, 'signups_by_team_size', signup.team_size || 'unknown', 1)
+    if (signup.opted_in_marketing) {
+      addTo(totals, 'signups_opted_in', 'marketing', 1)
+    }
+    if (signup.opted_in_research) {
+      addTo(totals, 'signups_opted_in', 'research', 1)
+    }
+  }
+
+  for (const event of rows.email_events) {
+    addTo(totals, 'email_events', event.event_type, 1)
+    addTo(
+      totals,
+      'email_events_by_campaign',
+      `${event.event_type}:${event.campaign_id || 'default'}`,
+      1
+    )
+  }
+
+  const converters = new Set<string>()
+  for (const conversion of rows.goal_conversions) {
+    addTo(totals, 'conversions', conversion.goal_key, 1)
+    addTo(totals, 'conversions_by_path', conversion.page_path || 'unknown', 1)
+    if (conversion.last_touch_campaign) {
+      addTo(totals, 'utm_conversions', conversion.last_touch_campaign, 1)
+    }
+    converters.add(conversion.visitor_id)
+  }
+  if (converters.size > 0) {
+    addTo(totals, 'converters', '', converters.size)
+  }
+
+  return { totals, visitors }
+}
+
+function mergeTotals(into: RollupTotals, from: RollupTotals): void {
+  for (const [metric, values] of Object.entries(from)) {
+    for (const [dimension, value] of Object.entries(values || {})) {
+      addTo(into, metric as RollupMetric, dimension, value)
+    }
+  }
+}
+
+export class AnalyticsRollupService {
+  /**
+   * Roll up every completed hour (and UTC day) since the last run.
+   * Rolling up a bucket replaces whatever was stored for it, so runs that
+   * overlap only repeat work; the state row only moves forward.
+   */
+  static async rollUp(): Promise<{
+    hours: number
+    days: number
+    rolled_up_to: string | null
+    errors: string[]
+  }> {
+    const started = Date.now()
+    let hours = 0
+    let days = 0
+
+    try {
+      const { data: rolledUpTo, error: stateError } = await this.getState(true)
+      if (stateError || !rolledUpTo) {
+        return {
+          hours,
+          days,
+          rolled_up_to: null,
+          errors: [stateError || 'Failed to read rollup state'],
+        }
+      }
+
+      let cursor = rolledUpTo.getTime()
+      while (
+        cursor + HOUR_MS <= Date.now() - ROLLUP_SETTLE_MS &&
+        hours < ROLLUP_MAX_HOURS_PER_RUN &&
+        Date.now() - started < ROLLUP_TIME_BUDGET_MS
+      ) {
+        const next = cursor + HOUR_MS
+
+        await this.rollUpBucket('analytics_hourly_rollups', cursor, next)
+        hours++
+
+        // The day is complete once its last hour is
+        if (next % DAY_MS === 0) {
+          await this.rollUpBucket(
+            'analytics_daily_rollups',
+            next - DAY_MS,
+            next
+          )
+          days++
+        }
+
+        const { data: advanced, error: advanceError } = await supabaseAdmin
+          .from('analytics_rollup_state')
+          .update({
+            rolled_up_to: new Date(next).toISOString(),
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', ROLLUP_STATE_ID)
+          .eq('rolled_up_to', new Date(cursor).toISOString())
+          .select('id')
+
+        if (advanceError) {
+          throw new Error(`Failed to advance rollups: ${advanceError.message}`)
+        }
+
+        // Another run has moved past this hour; leave the rest to it
+        if (!advanced || advanced.length === 0) {
+          break
+        }
+
+        cursor = next
+      }
+
+      return {
+        hours,
+        days,
+        rolled_up_to: new Date(cursor).toISOString(),
+        errors: [],
+      }
+    } catch (err) {
+      console.error('Error in AnalyticsRollupService.rollUp:', err)
+      return {
+        hours,
+        days,
+        rolled_up_to: null,
+        errors: [err instanceof Error ? err.message : 'Rollup failed'],
+      }
+    }
+  }
+
+  /**
+   * Totals for a time range. The range starts on the hour, and only rows
+   * newer than the rollups are read raw. Pass `metrics` to read only some.
+   */
+  static async getSummary(
+    start: Date,
+    end: Date,
+    options?: { metrics?: RollupMetric[] }
+  ): Promise<{ data: AnalyticsRollupSummary | null; error: string | null }> {
+    try {
+      const { data: rolledUpTo, error: stateError } = await this.getState()
+      if (stateError) {
+        return { data: null, error: stateError }
+      }
+
+      const rangeStart = floorTo(start.getTime(), HOUR_MS)
+      const rangeEnd = end.getTime()
+      const rolledEnd = rolledUpTo
+        ? Math.max(
+            rangeStart,
+            floorTo(Math.min(rangeEnd, rolledUpTo.getTime()), HOUR_MS)
+          )
+        : rangeStart
+
+      const totals: RollupTotals = {}
+      const metrics = options?.metrics
+
+      // Whole days from the daily rollups, hours either side from the
+      // hourly ones
+      const fullDaysStart = ceilTo(rangeStart, DAY_MS)
+      const fullDaysEnd = floorTo(rolledEnd, DAY_MS)
+      const pieces: Array<[RollupTable, number, number]> =
+        fullDaysStart < fullDaysEnd
+          ? [
+              ['analytics_hourly_rollups', rangeStart, fullDaysStart],
+              ['analytics_daily_rollups', fullDaysStart, fullDaysEnd],
+              ['analytics_hourly_rollups', fullDaysEnd, rolledEnd],
+            ]
+          : [['analytics_hourly_rollups', rangeStart, rolledEnd]]
+
+      for (const [table, from, to] of pieces) {
+        if (from >= to) {
+          continue
+        }
+
+        const { data: rows, error } = await this.readRollups(
+          table,
+          from,
+          to,
+          metrics
+        )
+        if (error || !rows) {
+          return { data: null, error: error || 'Failed to read rollups' }
+        }
+
+        for (const row of rows) {
+          addTo(totals, row.metric, row.dimension, row.value)
+        }
+      }
+
+      const raw = await this.fetchRawRows(rolledEnd, rangeEnd)
+      const summary = summarizeRows(raw)
+      if (metrics) {
+        for (const metric of metrics) {
+          if (summary.totals[metric]) {
+            mergeTotals(totals, { [metric]: summary.totals[metric] })
+          }
+        }
+      } else {
+        mergeTotals(totals, summary.totals)
+      }
+
+      let uniqueVisitors = summary.visitors.size
+      let returningVisitors = 0
+      summary.visitors.forEach((activity) => {
+        if (activity.sessions.size > 1) {
+          returningVisitors++
+        }
+      })
+
+      if (rolledEnd > rangeStart) {
+        const { data: counts, error: countError } = await supabaseAdmin.rpc(
+          'analytics_visitor_counts',
+          {
+            range_start: new Date(rangeStart).toISOString(),
+            range_end: new Date(rolledEnd).toISOString(),
+            extra_visitor_ids: Array.from(summary.visitors.keys()),
+          }
+        )
+
+        if (countError) {
+          return { data: null, error: countError.message }
+        }
+
+        // Returning visitors only count sessions up to the rollups
+        const row = (counts || [])[0]
+        uniqueVisitors = Number(row?.unique_visitors || 0)
+        returningVisitors = Number(row?.returning_visitors || 0)
+      }
+
+      return {
+        data: {
+          start: new Date(rangeStart).toISOString(),
+          end: end.toISOString(),
+          totals,
+          unique_visitors: uniqueVisitors,
+          returning_visitors: returningVisitors,
+          raw_since: new Date(rolledEnd).toISOString(),
+        },
+        error: null,
+      }
+    } catch (err) {
+      console.error('Error in AnalyticsRollupService.getSummary:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * One metric and dimension over time, keyed by bucket start. Weekly
+   * buckets start on Sunday.
+   */
+  static async getSeries(
+    metric: RollupMetric,
+    start: Date,
+    end: Date,
+    granularity: 'hour' | 'day' | 'week',
+    dimension: string = ''
+  ): Promise<{ data: Map<string, number> | null; error: string | null }> {
+    try {
+      const series = new Map<string, number>()
+      const unit = granularity === 'hour' ? HOUR_MS : DAY_MS
+
+      if (granularity === 'week') {
+        const weekStart = new Date(floorTo(start.getTime(), DAY_MS))
+        weekStart.setUTCDate(weekStart.getUTCDate() - weekStart.getUTCDay())
+
+        for (
+          let time = weekStart.getTime();
+          time < end.getTime();
+          time += 7 * DAY_MS
+        ) {
+          // Unique visitors can't be added up across days
+          const { data: summary, error } = await this.getSummary(
+            new Date(Math.max(time, start.getTime())),
+            new Date(Math.min(time + 7 * DAY_MS, end.getTime())),
+            { metrics: [metric] }
+          )
+          if (error || !summary) {
+            return { data: null, error: error || 'Failed to read rollups' }
+          }
+
+          const value =
+            metric === 'visitors'
+              ? summary.unique_visitors
+              : getRollupValue(summary.totals, metric, dimension)
+          if (value > 0) {
+            series.set(new Date(time).toISOString(), value)
+          }
+        }
+
+        return { data: series, error: null }
+      }
+
+      const { data: rolledUpTo, error: stateError } = await this.getState()
+      if (stateError) {
+        return { data: null, error: stateError }
+      }
+
+      const rangeStart = floorTo(start.getTime(), HOUR_MS)
+      const rolledEnd = rolledUpTo
+        ? Math.max(
+            rangeStart,
+            floorTo(Math.min(end.getTime(), rolledUpTo.getTime()), unit)
+          )
+        : rangeStart
+      const bucketsStart = ceilTo(rangeStart, unit)
+
+      if (bucketsStart < rolledEnd) {
+        const { data: rows, error } = await this.readRollups(
+          granularity === 'hour'
+            ? 'analytics_hourly_rollups'
+            : 'analytics_daily_rollups',
+          bucketsStart,
+          rolledEnd,
+          [metric],
+          dimension
+        )
+        if (error || !rows) {
+          return { data: null, error: error || 'Failed to read rollups' }
+        }
+
+        for (const row of rows) {
+          series.set(new Date(row.bucket_start).toISOString(), row.value)
+        }
+      }
+
+      // Buckets cut short by the start of the range, or not rolled up yet
+      const edges: Array<[number, number, number]> = []
+      if (rangeStart < Math.min(bucketsStart, end.getTime())) {
+        edges.push([
+          floorTo(rangeStart, unit),
+          rangeStart,
+          Math.min(bucketsStart, end.getTime()),
+        ])
+      }
+      for (
+        let time = Math.max(rolledEnd, bucketsStart);
+        time < end.getTime();
+        time += unit
+      ) {
+        edges.push([time, time, Math.min(time + unit, end.getTime())])
+      }
+
+      for (const [bucket, from, to] of edges) {
+        const { data: summary, error } = await this.getSummary(
+          new Date(from),
+          new Date(to),
+          { metrics: [metric] }
+        )
+        if (error || !summary) {
+          return { data: null, error: error || 'Failed to read rollups' }
+        }
+
+        const value =
+          metric === 'visitors'
+            ? summary.unique_visitors
+            : getRollupValue(summary.totals, metric, dimension)
+        if (value > 0) {
+          series.set(new Date(bucket).toISOString(), value)
+        }
+      }
+
+      return { data: series, error: null }
+    } catch (err) {
+      console.error('Error in AnalyticsRollupService.getSeries:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * How far the rollups reach, creating the state row on the first run
+   */
+  private static async getState(
+    create: boolean = false
+  ): Promise<{ data: Date | null; error: string | null }> {
+    const { data, error } = await supabaseAdmin
+      .from('analytics_rollup_state')
+      .select('rolled_up_to')
+      .eq('id', ROLLUP_STATE_ID)
+      .maybeSingle()
+
+    if (error) {
+      return { data: null, error: error.message }
+    }
+
+    if (data) {
+      return { data: new Date(data.rolled_up_to), error: null }
+    }
+
+    if (!create) {
+      return { data: null, error: null }
+    }
+
+    // Start on a day boundary so the first day gets a daily rollup
+    const { error: insertError } = await supabaseAdmin
+      .from('analytics_rollup_state')
+      .upsert(
+        [
+          {
+            id: ROLLUP_STATE_ID,
+            rolled_up_to: new Date(
+              floorTo(Date.now() - ROLLUP_BACKFILL_DAYS * DAY_MS, DAY_MS)
+            ).toISOString(),
+          },
+        ],
+        { onConflict: 'id', ignoreDuplicates: true }
+      )
+
+    if (insertError) {
+      return { data: null, error: insertError.message }
+    }
+
+    return this.getState()
+  }
+
+  /**
+   * Summarize [from, to) from raw rows and replace the bucket's rollups
+   */
+  private static async rollUpBucket(
+    table: RollupTable,
+    from: number,
+    to: number
+  ): Promise<void> {
+    const bucketStart = new Date(from).toISOString()
+    const { totals, visitors } = summarizeRows(
+      await this.fetchRawRows(from, to)
+    )
+
+    const rows = Object.entries(totals).flatMap(([metric, values]) =>
+      Object.entries(values || {}).map(([dimension, value]) => ({
+        bucket_start: bucketStart,
+        metric,
+        dimension,
+        value,
+        updated_at: new Date().toISOString(),
+      }))
+    )
+
+    await this.replaceBucket(table, bucketStart, rows)
+
+    if (table === 'analytics_hourly_rollups') {
+      await this.replaceBucket(
+        'analytics_visitor_hours',
+        bucketStart,
+        Array.from(visitors.entries()).map(([visitorId, activity]) => ({
+          bucket_start: bucketStart,
+          visitor_id: visitorId,
+          sessions: activity.sessions.size,
+          page_views: activity.page_views,
+        }))
+      )
+    }
+  }
+
+  private static async replaceBucket(
+    table: RollupTable | 'analytics_visitor_hours',
+    bucketStart: string,
+    rows: Array<Record<string, unknown>>
+  ): Promise<void> {
+    const { error: deleteError } = await supabaseAdmin
+      .from(table)
+      .delete()
+      .eq('bucket_start', bucketStart)
+
+    if (deleteError) {
+      throw new Error(`Failed to clear ${table}: ${deleteError.message}`)
+    }
+
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      const { error } = await supabaseAdmin
+        .from(table)
+        .upsert(rows.slice(i, i + INSERT_CHUNK_SIZE), {
+          onConflict:
+            table === 'analytics_visitor_hours'
+              ? 'bucket_start,visitor_id'
+              : 'bucket_start,metric,dimension',
+        })
+
+      if (error) {
+        throw new Error(`Failed to write ${table}: ${error.message}`)
+      }
+    }
+  }
+
+  private static async readRollups(
+    table: RollupTable,
+    from: number,
+    to: number,
+    metrics?: RollupMetric[],
+    dimension?: string
+  ): Promise<{
+    data: Array<{
+      bucket_start: string
+      metric: RollupMetric
+      dimension: string
+      value: number
+    }> | null
+    error: string | null
+  }> {
+    const rows = []
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let query = supabaseAdmin
+        .from(table)
+        .select('bucket_start, metric, dimension, value')
+        .gte('bucket_start', new Date(from).toISOString())
+        .lt('bucket_start', new Date(to).toISOString())
+
+      if (metrics) {
+        query = query.in('metric', metrics)
+      }
+      if (dimension !== undefined) {
+        query = query.eq('dimension', dimension)
+      }
+
+      const { data, error } = await query
+        .order('bucket_start', { ascending: true })
+        .order('metric', { ascending: true })
+        .order('dimension', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+
+      rows.push(...data)
+      if (data.length < PAGE_SIZE) {
+        break
+      }
+    }
+
+    return { data: rows, error: null }
+  }
+
+  /**
+   * Raw rows in [from, to) from every table the rollups cover
+   */
+  private static async fetchRawRows(
+    from: number,
+    to: number
+  ): Promise<RawRows> {
+    const rows: RawRows = {
+      page_analytics: [],
+      engagement_events: [],
+      beta_signups: [],
+      email_events: [],
+      goal_conversions: [],
+    }
+    if (from >= to) {
+      return rows
+    }
+
+    const fromIso = new Date(from).toISOString()
+    const toIso = new Date(to).toISOString()
+
+    const sources = [
+      {
+        key: 'page_analytics' as const,
+        query: () =>
+          supabaseAdmin
+            .from('page_analytics')
+            .select(
+              'visitor_id, session_id, page_path, event_type, timestamp, referrer, metadata'
+            )
+            .not('event_type', 'in', `(${SYSTEM_EVENT_TYPES.join(',')})`)
+            .gte('timestamp', fromIso)
+            .lt('timestamp', toIso),
+      },
+      {
+        key: 'engagement_events' as const,
+        query: () =>
+          supabaseAdmin
+            .from('engagement_events')
+            .select(
+              'visitor_id, session_id, page_path, event_type, occurred_at, time_on_page_ms, click_target, engagement_score'
+            )
+            .gte('occurred_at', fromIso)
+            .lt('occurred_at', toIso),
+      },
+      {
+        key: 'beta_signups' as const,
+        query: () =>
+          supabaseAdmin
+            .from('beta_signups')
+            .select(
+              'signup_source, team_size, opted_in_marketing, opted_in_research'
+            )
+            .gte('created_at', fromIso)
+            .lt('created_at', toIso),
+      },
+      {
+        key: 'email_events' as const,
+        query: () =>
+          supabaseAdmin
+            .from('email_events')
+            .select('event_type, campaign_id')
+            .eq('is_test', false)
+            .gte('timestamp', fromIso)
+            .lt('timestamp', toIso),
+      },
+      {
+        key: 'goal_conversions' as const,
+        query: () =>
+          supabaseAdmin
+            .from('goal_conversions')
+            .select('goal_key, visitor_id, page_path, last_touch_campaign')
+            .gte('converted_at', fromIso)
+            .lt('converted_at', toIso),
+      },
+    ]
+
+    for (const source of sources) {
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        const { data, error } = await source
+          .query()
+          .order('id', { ascending: true })
+          .range(offset, offset + PAGE_SIZE - 1)
+
+        if (error) {
+          throw new Error(`Failed to read ${source.key}: ${error.message}`)
+        }
+
+        rows[source.key].push(...data)
+        if (data.length < PAGE_SIZE) {
+          break
+        }
+      }
+    }
+
+    return rows
+  }
+}
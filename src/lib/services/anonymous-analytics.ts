@@ -3,7 +3,9 @@
  * Phase 6: Privacy-Compliant Analytics Implementation
  *
  * Provides anonymous visitor identification and session-based tracking
- * without cookies or personal data collection
+ * without cookies or personal data collection. Visitor IDs are derived on
+ * the server from a salt that rotates every UTC day, so they can't be used
+ * to follow a visitor from one day to the next.
  */
 
 import { supabaseAdmin } from '@/lib/supabase'
@@ -13,38 +15,67 @@ import crypto from 'crypto'
 // Type alias for session data to match our interface
 export type SessionData = AnalyticsSession
 
+// Today's salt, cached per server instance
+let cachedSalt: { day: string; salt: string } | null = null
+
 /**
  * Anonymous visitor identification and tracking service
  */
 export class AnonymousAnalyticsService {
   /**
-   * Generate anonymous visitor ID from browser fingerprint
-   * Uses timezone, screen resolution, and user agent for identification
-   * without storing personal data
+   * Generate today's anonymous visitor ID for a client: a hash of the
+   * daily salt, the site, the truncated IP and the user agent. The same
+   * browser gets a new ID each UTC day, and once the salt is deleted the
+   * ID can't be recomputed from a visitor's details.
    */
-  static generateVisitorFingerprint(
-    userAgent: string,
-    timezone: number = 0,
-    screenResolution: string = '',
-    acceptLanguage: string = ''
-  ): string {
-    const fingerprint = [
-      this.hashString(userAgent, 8), // First 8 chars of UA hash
-      timezone.toString(),
-      screenResolution,
-      acceptLanguage.split(',')[0], // Primary language only
-    ]
-      .filter(Boolean)
-      .join('|')
-
-    return this.hashString(fingerprint, 12)
+  static async generateVisitorId(
+    ip: string,
+    userAgent: string
+  ): Promise<string> {
+    const salt = await this.getDailySalt()
+    const site = this.extractDomain(
+      process.env.NEXT_PUBLIC_SITE_URL || 'https://silentscribe.dev'
+    )
+
+    return this.hashString(
+      [salt, site, this.truncateIP(ip), userAgent].join('|'),
+      32
+    )
+  }
+
+  /**
+   * Delete salts for days that have ended. Runs hourly from the analytics
+   * rollup job, so no salt outlives its day by more than an hour.
+   */
+  static async purgeExpiredSalts(): Promise<{
+    deleted: number
+    error: string | null
+  }> {
+    try {
+      const { count, error } = await supabaseAdmin
+        .from('analytics_salts')
+        .delete({ count: 'exact' })
+        .lt('day', this.getSaltDay())
+
+      if (error) {
+        return { deleted: 0, error: error.message }
+      }
+
+      return { deleted: count || 0, error: null }
+    } catch (err) {
+      console.error(
+        'Error in AnonymousAnalyticsService.purgeExpiredSalts:',
+        err
+      )
+      return { deleted: 0, error: 'An unexpected error occurred' }
+    }
   }
 
   /**
    * Create or retrieve anonymous visitor record
    */
   static async getOrCreateVisitor(
-    visitorFingerprint: string,
+    visitorId: string,
     sessionData: {
       userAgent?: string
       timezone?: number
@@ -58,7 +89,7 @@ export class AnonymousAnalyticsService {
       const { data: existingVisitor } = await supabaseAdmin
         .from('anonymous_visitors')
         .select('*')
-        .eq('visitor_hash', visitorFingerprint)
+        .eq('visitor_hash', visitorId)
         .single()
 
       if (existingVisitor) {
@@ -79,7 +110,7 @@ export class AnonymousAnalyticsService {
 
       // Create new anonymous visitor
       const newVisitor: Partial<AnonymousVisitor> = {
-        visitor_hash: visitorFingerprint,
+        visitor_hash: visitorId,
         session_id: this.generateSessionId(),
         first_seen: new Date().toISOString(),
         last_seen: new Date().toISOString(),
@@ -116,6 +147,89 @@ export class AnonymousAnalyticsService {
     }
   }
 
+  /**
+   * Record a page view against a visitor for conversion attribution.
+   * The first visit sets first-touch data; later visits only replace the
+   * last touch when they arrive with a UTM source or an external referrer,
+   * so internal navigation and direct returns don't wipe out attribution.
+   * Visitor IDs rotate daily, so attribution only reaches back to touches
+   * on the day of the conversion.
+   */
+  static async recordTouch(
+    visitorId: string,
+    touch: {
+      pagePath: string
+      referrer?: string
+      utmData?: Record<string, string>
+    }
+  ): Promise<void> {
+    try {
+      const now = new Date().toISOString()
+      const referrerDomain = touch.referrer
+        ? this.extractDomain(touch.referrer)
+        : undefined
+      const siteDomain = this.extractDomain(
+        process.env.NEXT_PUBLIC_SITE_URL || 'https://silentscribe.dev'
+      )
+      const externalReferrer =
+        referrerDomain &&
+        referrerDomain !== 'unknown' &&
+        referrerDomain !== siteDomain
+          ? referrerDomain
+          : undefined
+      const hasSource = !!(touch.utmData?.utm_source || externalReferrer)
+
+      const lastTouch = {
+        last_referrer_domain: externalReferrer,
+        last_utm_source: touch.utmData?.utm_source,
+        last_utm_medium: touch.utmData?.utm_medium,
+        last_utm_campaign: touch.utmData?.utm_campaign,
+        last_landing_page: touch.pagePath,
+        last_touch_at: now,
+      }
+
+      const { data: existingVisitor } = await supabaseAdmin
+        .from('anonymous_visitors')
+        .select('id, page_views')
+        .eq('visitor_hash', visitorId)
+        .maybeSingle()
+
+      if (existingVisitor) {
+        await supabaseAdmin
+          .from('anonymous_visitors')
+          .update({
+            ...(hasSource ? lastTouch : {}),
+            last_seen: now,
+            page_views: existingVisitor.page_views + 1,
+            updated_at: now,
+          })
+          .eq('id', existingVisitor.id)
+        return
+      }
+
+      await supabaseAdmin.from('anonymous_visitors').insert([
+        {
+          visitor_hash: visitorId,
+          session_id: this.generateSessionId(),
+          first_seen: now,
+          last_seen: now,
+          page_views: 1,
+          total_sessions: 1,
+          referrer_domain: externalReferrer,
+          utm_source: touch.utmData?.utm_source,
+          utm_medium: touch.utmData?.utm_medium,
+          utm_campaign: touch.utmData?.utm_campaign,
+          landing_page: touch.pagePath,
+          ...lastTouch,
+          is_returning: false,
+        },
+      ])
+    } catch (error) {
+      console.error('Error recording visitor touch:', error)
+      throw error
+    }
+  }
+
   /**
    * Create new session for visitor
    */
@@ -341,6 +455,55 @@ export class AnonymousAnalyticsService {
   }
 
   // Utility methods
+  private static async getDailySalt(): Promise<string> {
+    const day = this.getSaltDay()
+    if (cachedSalt?.day === day) {
+      return cachedSalt.salt
+    }
+
+    // Instances racing to create the day's salt all end up with the first
+    await supabaseAdmin
+      .from('analytics_salts')
+      .upsert(
+        { day, salt: crypto.randomBytes(32).toString('hex') },
+        { onConflict: 'day', ignoreDuplicates: true }
+      )
+
+    const { data, error } = await supabaseAdmin
+      .from('analytics_salts')
+      .select('salt')
+      .eq('day', day)
+      .single()
+
+    if (error || !data) {
+      throw new Error(
+        `Failed to load analytics salt: ${error?.message || 'not found'}`
+      )
+    }
+
+    cachedSalt = { day, salt: data.salt }
+    return data.salt
+  }
+
+  private static getSaltDay(): string {
+    return new Date().toISOString().split('T')[0]
+  }
+
+  // Drop the host part: the last octet of IPv4, all but the /48 of IPv6
+  private static truncateIP(ip: string): string {
+    // IPv4, including IPv4-mapped IPv6 addresses
+    if (ip.includes('.')) {
+      const octets = ip.slice(ip.lastIndexOf(':') + 1).split('.')
+      return octets.length === 4 ? [...octets.slice(0, 3), '0'].join('.') : ip
+    }
+
+    if (ip.includes(':')) {
+      return ip.split(':').slice(0, 3).join(':') + '::'
+    }
+
+    return ip
+  }
+
   private static hashString(input: string, length: number = 10): string {
     return crypto
       .createHash('sha256')
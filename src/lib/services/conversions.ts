@@ -0,0 +1,367 @@
+import { supabaseAdmin } from '../supabase'
+import { PLAUSIBLE_GOALS } from '../plausible-goals'
+import type { AnonymousVisitor, GoalConversion } from '../../types'
+
+/**
+ * Goal Conversion Service
+ * Records completions of the goals defined in PLAUSIBLE_GOALS with first-
+ * and last-touch attribution from anonymous_visitors, and reports
+ * conversion rates per goal, per source and per landing page.
+ */
+
+const PAGE_SIZE = 1000
+
+export type AttributionModel = 'first_touch' | 'last_touch'
+
+export interface GoalConversionStats {
+  goal: string
+  name: string
+  conversions: number
+  converters: number // Unique visitors who completed the goal
+  value: number
+  conversion_rate: number // Percentage of visitors in the period
+}
+
+export interface AttributionStats {
+  key: string // Source or landing page
+  visitors: number
+  conversions: number
+  converters: number
+  conversion_rate: number
+}
+
+export interface ConversionReport {
+  start: string
+  end: string
+  goal: string // Goal used for the source and landing page breakdowns
+  total_visitors: number
+  goals: GoalConversionStats[]
+  sources: Record<AttributionModel, AttributionStats[]>
+  landing_pages: AttributionStats[]
+}
+
+export interface ConversionInput {
+  goal: string // PLAUSIBLE_GOALS key or goal name
+  visitor_id: string
+  session_id?: string
+  page_path?: string
+  value?: number
+  metadata?: Record<string, any>
+  converted_at?: string // Defaults to now
+  client_event_id?: string // Conversions with an ID already stored are skipped
+}
+
+type VisitorAttribution = Pick<
+  AnonymousVisitor,
+  | 'visitor_hash'
+  | 'referrer_domain'
+  | 'utm_source'
+  | 'utm_medium'
+  | 'utm_campaign'
+  | 'landing_page'
+  | 'last_referrer_domain'
+  | 'last_utm_source'
+  | 'last_utm_medium'
+  | 'last_utm_campaign'
+  | 'last_landing_page'
+>
+
+function getSource(utmSource?: string | null, referrerDomain?: string | null) {
+  return utmSource || referrerDomain || 'direct'
+}
+
+function getRate(converters: number, visitors: number): number {
+  return visitors > 0 ? Math.round((converters / visitors) * 10000) / 100 : 0
+}
+
+export class ConversionService {
+  /**
+   * Resolve a goal from its PLAUSIBLE_GOALS key (BETA_SIGNUP) or its
+   * Plausible name (Beta Signup)
+   */
+  static resolveGoal(goal: string): string | null {
+    if (PLAUSIBLE_GOALS[goal]) {
+      return goal
+    }
+
+    const normalized = goal.trim().toLowerCase()
+    const match = Object.entries(PLAUSIBLE_GOALS).find(
+      ([, definition]) => definition.name.toLowerCase() === normalized
+    )
+
+    return match ? match[0] : null
+  }
+
+  /**
+   * Record a goal completion for a visitor
+   */
+  static async recordConversion(
+    conversion: ConversionInput
+  ): Promise<{ data: GoalConversion | null; error: string | null }> {
+    const { data, error } = await this.recordConversions([conversion])
+    return { data: data?.[0] || null, error }
+  }
+
+  /**
+   * Record several goal completions with one attribution lookup and one
+   * insert. Fails as a whole if any goal is unknown. Conversions whose
+   * client_event_id is already stored are skipped and not returned.
+   */
+  static async recordConversions(
+    conversions: ConversionInput[]
+  ): Promise<{ data: GoalConversion[] | null; error: string | null }> {
+    try {
+      if (conversions.length === 0) {
+        return { data: [], error: null }
+      }
+
+      const goalKeys = conversions.map((conversion) =>
+        this.resolveGoal(conversion.goal)
+      )
+      const unknown = conversions.find((_, index) => !goalKeys[index])
+      if (unknown) {
+        return { data: null, error: `Unknown goal: ${unknown.goal}` }
+      }
+
+      const { data: visitors, error: visitorError } = await supabaseAdmin
+        .from('anonymous_visitors')
+        .select('*')
+        .in(
+          'visitor_hash',
+          Array.from(new Set(conversions.map((c) => c.visitor_id)))
+        )
+
+      if (visitorError) {
+        return { data: null, error: visitorError.message }
+      }
+
+      const visitorsByHash = new Map<string, AnonymousVisitor>(
+        (visitors || []).map((visitor: AnonymousVisitor) => [
+          visitor.visitor_hash,
+          visitor,
+        ])
+      )
+
+      // Visitors we have no page views for are attributed to direct
+      const { data, error } = await supabaseAdmin
+        .from('goal_conversions')
+        .upsert(
+          conversions.map((conversion, index) => {
+            const goalKey = goalKeys[index]!
+            const visitor = visitorsByHash.get(conversion.visitor_id)
+
+            return {
+              goal_key: goalKey,
+              visitor_id: conversion.visitor_id,
+              session_id: conversion.session_id,
+              page_path: conversion.page_path,
+              value: conversion.value ?? PLAUSIBLE_GOALS[goalKey].value ?? 1,
+              first_touch_source: getSource(
+                visitor?.utm_source,
+                visitor?.referrer_domain
+              ),
+              first_touch_medium: visitor?.utm_medium,
+              first_touch_campaign: visitor?.utm_campaign,
+              first_touch_landing_page: visitor?.landing_page,
+              last_touch_source: getSource(
+                visitor?.last_utm_source,
+                visitor?.last_referrer_domain
+              ),
+              last_touch_medium: visitor?.last_utm_medium,
+              last_touch_campaign: visitor?.last_utm_campaign,
+              last_touch_landing_page: visitor?.last_landing_page,
+              metadata: conversion.metadata,
+              client_event_id: conversion.client_event_id,
+              ...(conversion.converted_at && {
+                converted_at: conversion.converted_at,
+              }),
+            }
+          }),
+          { onConflict: 'client_event_id', ignoreDuplicates: true }
+        )
+        .select()
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+
+      return { data, error: null }
+    } catch (err) {
+      console.error('Error in ConversionService.recordConversions:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Conversion rates per goal, per source and per landing page for
+   * visitors active between start and end
+   */
+  static async getReport(options: {
+    start: Date
+    end: Date
+    goal?: string
+  }): Promise<{ data: ConversionReport | null; error: string | null }> {
+    try {
+      const goalKey = this.resolveGoal(options.goal || 'BETA_SIGNUP')
+      if (!goalKey) {
+        return { data: null, error: `Unknown goal: ${options.goal}` }
+      }
+
+      const start = options.start.toISOString()
+      const end = options.end.toISOString()
+
+      const [visitorsResult, conversionsResult] = await Promise.all([
+        this.fetchAllRows<VisitorAttribution>(() =>
+          supabaseAdmin
+            .from('anonymous_visitors')
+            .select(
+              'visitor_hash, referrer_domain, utm_source, utm_medium, utm_campaign, landing_page, last_referrer_domain, last_utm_source, last_utm_medium, last_utm_campaign, last_landing_page'
+            )
+            .lte('first_seen', end)
+            .gte('last_seen', start)
+            .order('id', { ascending: true })
+        ),
+        this.fetchAllRows<GoalConversion>(() =>
+          supabaseAdmin
+            .from('goal_conversions')
+            .select('*')
+            .gte('converted_at', start)
+            .lte('converted_at', end)
+            .order('id', { ascending: true })
+        ),
+      ])
+
+      if (visitorsResult.error || !visitorsResult.data) {
+        return { data: null, error: visitorsResult.error }
+      }
+      if (conversionsResult.error || !conversionsResult.data) {
+        return { data: null, error: conversionsResult.error }
+      }
+
+      const visitors = visitorsResult.data
+      const conversions = conversionsResult.data
+      const goalConversions = conversions.filter(
+        (conversion) => conversion.goal_key === goalKey
+      )
+
+      const goals = Object.entries(PLAUSIBLE_GOALS).map(([key, definition]) => {
+        const matching = conversions.filter(
+          (conversion) => conversion.goal_key === key
+        )
+        const converters = new Set(matching.map((c) => c.visitor_id)).size
+
+        return {
+          goal: key,
+          name: definition.name,
+          conversions: matching.length,
+          converters,
+          value: matching.reduce((sum, c) => sum + Number(c.value), 0),
+          conversion_rate: getRate(converters, visitors.length),
+        }
+      })
+
+      return {
+        data: {
+          start,
+          end,
+          goal: goalKey,
+          total_visitors: visitors.length,
+          goals,
+          sources: {
+            first_touch: this.breakdown(
+              visitors,
+              goalConversions,
+              (v) => getSource(v.utm_source, v.referrer_domain),
+              (c) => c.first_touch_source
+            ),
+            last_touch: this.breakdown(
+              visitors,
+              goalConversions,
+              (v) => getSource(v.last_utm_source, v.last_referrer_domain),
+              (c) => c.last_touch_source
+            ),
+          },
+          landing_pages: this.breakdown(
+            visitors,
+            goalConversions,
+            (v) => v.landing_page || 'unknown',
+            (c) => c.first_touch_landing_page || 'unknown'
+          ),
+        },
+        error: null,
+      }
+    } catch (err) {
+      console.error('Error in ConversionService.getReport:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Read every row of an ordered query a page at a time, since PostgREST
+   * caps a single response at 1000 rows
+   */
+  private static async fetchAllRows<T>(
+    buildQuery: () => any
+  ): Promise<{ data: T[] | null; error: string | null }> {
+    const rows: T[] = []
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await buildQuery().range(
+        offset,
+        offset + PAGE_SIZE - 1
+      )
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+
+      rows.push(...data)
+      if (data.length < PAGE_SIZE) {
+        break
+      }
+    }
+
+    return { data: rows, error: null }
+  }
+
+  /**
+   * Group visitors and conversions by the same key and compute rates
+   */
+  private static breakdown(
+    visitors: VisitorAttribution[],
+    conversions: GoalConversion[],
+    visitorKey: (visitor: VisitorAttribution) => string,
+    conversionKey: (conversion: GoalConversion) => string
+  ): AttributionStats[] {
+    const stats = new Map<
+      string,
+      { visitors: number; conversions: number; converters: Set<string> }
+    >()
+    const getStats = (key: string) => {
+      if (!stats.has(key)) {
+        stats.set(key, { visitors: 0, conversions: 0, converters: new Set() })
+      }
+      return stats.get(key)!
+    }
+
+    visitors.forEach((visitor) => {
+      getStats(visitorKey(visitor)).visitors++
+    })
+
+    conversions.forEach((conversion) => {
+      const entry = getStats(conversionKey(conversion))
+      entry.conversions++
+      entry.converters.add(conversion.visitor_id)
+    })
+
+    return Array.from(stats.entries())
+      .map(([key, entry]) => ({
+        key,
+        visitors: entry.visitors,
+        conversions: entry.conversions,
+        converters: entry.converters.size,
+        conversion_rate: getRate(entry.converters.size, entry.visitors),
+      }))
+      .sort((a, b) => b.conversions - a.conversions || b.visitors - a.visitors)
+  }
+}
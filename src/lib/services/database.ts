@@ -1,4 +1,5 @@
 import { supabase, supabaseAdmin } from '../supabase'
+import { ReferralService } from './referrals'
 import type {
   BetaSignup,
   EmailEvent,
@@ -24,6 +25,7 @@ export class BetaSignupService {
     try {
       const signupData = {
         email: formData.email,
+        referral_code: ReferralService.generateCode(),
         github_username: formData.githubUsername,
         gitlab_username: formData.gitlabUsername,
         current_tools: formData.currentTools,
@@ -40,11 +42,21 @@ export class BetaSignupService {
         beta_status: 'pending' as const,
       }
 
-      const { data, error } = await supabase
-        .from('beta_signups')
-        .insert([signupData])
-        .select()
-        .single()
+      const insertSignup = () =>
+        supabase.from('beta_signups').insert([signupData]).select().single()
+
+      let result = await insertSignup()
+
+      // Retry once with a fresh code on the (unlikely) referral code clash
+      if (
+        result.error?.code === '23505' &&
+        result.error.message.includes('referral_code')
+      ) {
+        signupData.referral_code = ReferralService.generateCode()
+        result = await insertSignup()
+      }
+
+      const { data, error } = result
 
       if (error) {
         console.error('Error creating beta signup:', error)
@@ -112,6 +124,65 @@ export class BetaSignupService {
     }
   }
 
+  /**
+   * Update marketing and research opt-ins
+   */
+  static async updateOptIns(
+    userId: string,
+    optIns: { opted_in_marketing?: boolean; opted_in_research?: boolean }
+  ): Promise<{ data: BetaSignup | null; error: string | null }> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('beta_signups')
+        .update({
+          ...optIns,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', userId)
+        .select()
+        .single()
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+
+      return { data, error: null }
+    } catch (err) {
+      console.error('Error in BetaSignupService.updateOptIns:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Mark a signup's email address as verified (double opt-in confirmation).
+   * Returns the signup only if it was still unverified.
+   */
+  static async markEmailVerified(
+    email: string
+  ): Promise<{ data: BetaSignup | null; error: string | null }> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('beta_signups')
+        .update({
+          email_verified: true,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('email', email)
+        .eq('email_verified', false)
+        .select()
+        .maybeSingle()
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+
+      return { data, error: null }
+    } catch (err) {
+      console.error('Error in BetaSignupService.markEmailVerified:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
   /**
    * Update engagement score
    */
@@ -276,6 +347,7 @@ export class EmailEventService {
         .from('email_events')
         .select('event_type')
         .eq('campaign_id', campaignId)
+        .eq('is_test', false)
 
       if (error) {
         return { data: null, error: error.message }
@@ -645,7 +717,7 @@ export class UserPreferencesService {
     error: string | null
   }> {
     try {
-      const { data, error } = await supabase
+      const { data, error } = await supabaseAdmin
         .from('user_preferences')
         .upsert(
           [
@@ -680,7 +752,7 @@ export class UserPreferencesService {
     userId: string
   ): Promise<{ data: UserPreferences | null; error: string | null }> {
     try {
-      const { data, error } = await supabase
+      const { data, error } = await supabaseAdmin
         .from('user_preferences')
         .select('*')
         .eq('user_id', userId)
@@ -707,7 +779,7 @@ export class UserPreferencesService {
     method: string
   ): Promise<{ success: boolean; error: string | null }> {
     try {
-      const { error } = await supabase.from('user_preferences').upsert(
+      const { error } = await supabaseAdmin.from('user_preferences').upsert(
         [
           {
             user_id: userId,
@@ -1,47 +1,93 @@
+import crypto from 'crypto'
 import { supabaseAdmin } from '../supabase'
 import { EmailEventService } from './database'
+import { ReferralService } from './referrals'
+import { SuppressionService } from './suppressions'
+import { SendTimeService, type RecipientSendTime } from './send-time'
+import { SegmentService } from './segments'
+import { FrequencyCapService, type FrequencyCapAction } from './frequency-caps'
+import { getMailTransport, type MailMessage } from '../mail-transport'
+import { isEmailTemplateKey, renderEmailTemplate } from '../email-templates'
+import { escapeHtml } from '../template-renderer'
+import {
+  getListUnsubscribeHeaders,
+  getPreferenceCenterUrl,
+  getUnsubscribeUrl,
+  getVerificationUrl,
+} from '../unsubscribe-token'
 import type {
   BetaSignup,
   EarlyAccessEmailData,
   ReEngagementEmailData,
   MonthlyNewsletterData,
   EmailCampaign,
+  EmailCampaignDelivery,
+  EmailEvent,
 } from '../../types'
 
 /**
- * SendGrid Email Campaign Management
- * Handles template-based email sending with tracking and personalization
+ * Email Campaign Management
+ * All email sending: campaigns, drip steps and transactional emails. Mail
+ * goes out through the configured MailTransport (see lib/mail-transport.ts).
  */
 
-// SendGrid Template IDs - Welcome Email Series
+// A campaign still 'sending' this long after its lock was last refreshed
+// belongs to a dispatcher run that died part-way through
+const DISPATCH_LOCK_TIMEOUT_MS = 15 * 60 * 1000
+
+// Upper bound on campaigns claimed by a single dispatcher run
+const DISPATCH_MAX_CAMPAIGNS = 5
+
+// Per-recipient deliveries claimed and sent together as one batch
+const DISPATCH_MAX_DELIVERIES = 100
+
+// How long one dispatcher run keeps claiming delivery batches, leaving
+// headroom under the route's 300s maxDuration for the batch in flight
+const DISPATCH_RUN_BUDGET_MS = 200 * 1000
+
+const DELIVERY_INSERT_CHUNK_SIZE = 500
+
+// GitHub usernames: alphanumerics and single hyphens, at most 39 characters
+const GITHUB_USERNAME_PATTERN = /^[A-Za-z0-9](?:-?[A-Za-z0-9]){0,38}$/
+
+// Running totals for one dispatchDueDeliveries run
+interface DeliveryRunResult {
+  sent: number
+  failed: number
+  skipped: number
+  completed_campaigns: string[]
+  errors: string[]
+}
+
+// Upper bound on seed addresses for one test send
+export const MAX_TEST_RECIPIENTS = 20
+
+// Template used by each send, from the repo templates in lib/email-templates.ts
 export const EMAIL_TEMPLATES = {
   // Welcome Series
-  WELCOME_IMMEDIATE: 'd-d81e561c996840d494c15dd695b1b57b',
-  WELCOME_DAY_3: 'd-welcome-day3-silentscribe-dev',
-  WELCOME_WEEK_1: 'd-welcome-week1-silentscribe-dev',
+  WELCOME_IMMEDIATE: 'welcome_immediate',
+  WELCOME_DAY_3: 'welcome_day_3',
+  WELCOME_WEEK_1: 'welcome_week_1',
 
   // Regular Communications
-  DEVELOPMENT_UPDATE: 'd-afa3d31882344069a28ecd9b982a6b6e',
-  MONTHLY_NEWSLETTER: 'd-monthly-newsletter-silentscribe',
+  DEVELOPMENT_UPDATE: 'development_update',
+  MONTHLY_NEWSLETTER: 'monthly_newsletter',
 
   // Feedback & Research
-  FEEDBACK_REQUEST: 'd-c0c4ed1081b84e0a883a8d49b872e1a9',
+  FEEDBACK_REQUEST: 'feedback_request',
 
   // Special Campaigns
-  EARLY_ACCESS_INVITATION: 'd-early-access-silentscribe-dev',
-  RE_ENGAGEMENT: 'd-re-engagement-silentscribe-dev',
-
-  // Feature-Specific
-  BETA_FEATURE_ANNOUNCEMENT: 'd-beta-feature-silentscribe-dev',
-  COMMUNITY_HIGHLIGHTS: 'd-community-highlights-silentscribe',
+  EARLY_ACCESS_INVITATION: 'early_access',
+  RE_ENGAGEMENT: 're_engagement',
 } as const
 
-// Template variable interfaces based on common SendGrid patterns
+// Template data for each template, see EMAIL_TEMPLATE_DEFINITIONS
 export interface WelcomeEmailData {
   first_name?: string
   github_username?: string
   user_email: string
   unsubscribe_url: string
+  referral_link?: string // Personal /beta?ref= invite link
   beta_signup_date: string
   community_links: {
     discord?: string
@@ -73,6 +119,11 @@ export interface FeedbackRequestData {
   request_date: string
 }
 
+// A test send goes to these internal addresses instead of the audience
+export interface CampaignTestSend {
+  recipients: string[]
+}
+
 export type EmailTemplateData =
   | WelcomeEmailData
   | DevelopmentUpdateData
@@ -82,24 +133,168 @@ export type EmailTemplateData =
   | MonthlyNewsletterData
 
 export class EmailCampaignService {
-  private static sendGridApiKey = process.env.SENDGRID_API_KEY!
   private static fromEmail = process.env.FROM_EMAIL || 'hello@silentscribe.dev'
   private static fromName = process.env.FROM_NAME || 'Silent Scribe'
 
+  /**
+   * Send the double opt-in confirmation email to a new beta signup
+   */
+  static async sendSignupConfirmation(
+    email: string,
+    githubUsername?: string
+  ): Promise<{ success: boolean; error: string | null; messageId?: string }> {
+    const verificationUrl = getVerificationUrl(email)
+    // The username comes straight from the public signup form and this mail
+    // goes to whatever address was entered, so only greet by name when it
+    // looks like a GitHub username (no URLs or markup)
+    const personalizedGreeting =
+      githubUsername && GITHUB_USERNAME_PATTERN.test(githubUsername)
+        ? `Hi ${githubUsername},`
+        : 'Hi there,'
+
+    const subject = 'Confirm your Silent Scribe beta signup'
+
+    const text = `
+${personalizedGreeting}
+
+Thanks for signing up for the Silent Scribe beta! Please confirm your email address so we know it's really you:
+
+${verificationUrl}
+
+If you didn't sign up, you can ignore this email and we won't contact you again.
+
+Best regards,
+The Silent Scribe Team
+  `
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Confirm your Silent Scribe beta signup</title>
+</head>
+<body style="font-family: system-ui, -apple-system, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="text-align: center; margin-bottom: 40px;">
+    <h1 style="color: #1f2937; margin-bottom: 10px;">Confirm your email</h1>
+    <p style="color: #6b7280; margin: 0;">One more step to join the beta</p>
+  </div>
+  
+  <p>${escapeHtml(personalizedGreeting)}</p>
+  
+  <p>Thanks for signing up for the Silent Scribe beta! Please confirm your email address so we know it's really you.</p>
+  
+  <div style="text-align: center; margin: 30px 0;">
+    <a href="${verificationUrl}" style="background: #3b82f6; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; display: inline-block;">Confirm Email Address</a>
+  </div>
+  
+  <p>If you didn't sign up, you can ignore this email and we won't contact you again.</p>
+  
+  <p>Best regards,<br><strong>The Silent Scribe Team</strong></p>
+</body>
+</html>
+  `
+
+    return this.sendEmail({
+      to_email: email,
+      subject,
+      html,
+      text,
+      transactional: true,
+    })
+  }
+
+  /**
+   * Send a magic link into the email preference center
+   */
+  static async sendPreferenceCenterLink(
+    email: string
+  ): Promise<{ success: boolean; error: string | null; messageId?: string }> {
+    const unsubscribeUrl = getUnsubscribeUrl(email)
+    const preferenceCenterUrl = getPreferenceCenterUrl(email)
+
+    const subject = 'Manage your Silent Scribe email preferences'
+
+    const text = `
+Hi there,
+
+Use the link below to manage which emails you get from Silent Scribe and how often. The link works for 24 hours.
+
+${preferenceCenterUrl}
+
+If you didn't ask for this link, you can safely ignore this email.
+
+Best regards,
+The Silent Scribe Team
+
+---
+Unsubscribe: ${unsubscribeUrl}
+  `
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Manage your email preferences</title>
+</head>
+<body style="font-family: system-ui, -apple-system, sans-serif; line-height: 1.6; color: #374151; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="text-align: center; margin-bottom: 40px;">
+    <h1 style="color: #1f2937; margin-bottom: 10px;">Email Preferences</h1>
+    <p style="color: #6b7280; margin: 0;">Choose what you hear from us</p>
+  </div>
+  
+  <p>Hi there,</p>
+  
+  <p>Use the button below to manage which emails you get from Silent Scribe and how often. The link works for 24 hours.</p>
+  
+  <div style="text-align: center; margin: 30px 0;">
+    <a href="${preferenceCenterUrl}" style="background: #3b82f6; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; display: inline-block;">Manage Preferences</a>
+  </div>
+  
+  <p>If you didn't ask for this link, you can safely ignore this email.</p>
+  
+  <p>Best regards,<br><strong>The Silent Scribe Team</strong></p>
+  
+  <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 40px 0 20px;">
+  <p style="font-size: 12px; color: #9ca3af; text-align: center;">
+    <a href="${unsubscribeUrl}" style="color: #9ca3af;">Unsubscribe</a>
+  </p>
+</body>
+</html>
+  `
+
+    return this.sendEmail({
+      to_email: email,
+      subject,
+      html,
+      text,
+      transactional: true,
+    })
+  }
+
   /**
    * Send welcome email to new beta signup
    */
-  static async sendWelcomeEmail(user: BetaSignup): Promise<{
+  static async sendWelcomeEmail(
+    user: BetaSignup,
+    campaignId?: string,
+    options?: { is_test?: boolean; on_frequency_cap?: FrequencyCapAction }
+  ): Promise<{
     success: boolean
     error: string | null
     messageId?: string
+    deferred_until?: string
   }> {
     try {
       const templateData: WelcomeEmailData = {
         first_name: user.github_username || 'Developer',
         github_username: user.github_username || '',
         user_email: user.email,
-        unsubscribe_url: `${process.env.NEXT_PUBLIC_SITE_URL}/unsubscribe?email=${encodeURIComponent(user.email)}`,
+        referral_link: user.referral_code
+          ? ReferralService.getReferralUrl(user.referral_code)
+          : undefined,
+        unsubscribe_url: getUnsubscribeUrl(user.email),
         beta_signup_date: new Date(user.created_at).toLocaleDateString(
           'en-US',
           {
@@ -122,6 +317,9 @@ export class EmailCampaignService {
         subject: 'Welcome to Silent Scribe Beta! 🚀',
         user_id: user.id,
         email_type: 'welcome',
+        campaign_id: campaignId,
+        is_test: options?.is_test,
+        on_frequency_cap: options?.on_frequency_cap,
       })
 
       return result
@@ -134,17 +332,25 @@ export class EmailCampaignService {
   /**
    * Send welcome email series - Day 3 follow-up
    */
-  static async sendWelcomeDayThree(user: BetaSignup): Promise<{
+  static async sendWelcomeDayThree(
+    user: BetaSignup,
+    campaignId?: string,
+    options?: { is_test?: boolean; on_frequency_cap?: FrequencyCapAction }
+  ): Promise<{
     success: boolean
     error: string | null
     messageId?: string
+    deferred_until?: string
   }> {
     try {
       const templateData: WelcomeEmailData = {
         first_name: user.github_username || 'Developer',
         github_username: user.github_username || '',
         user_email: user.email,
-        unsubscribe_url: `${process.env.NEXT_PUBLIC_SITE_URL}/unsubscribe?email=${encodeURIComponent(user.email)}`,
+        referral_link: user.referral_code
+          ? ReferralService.getReferralUrl(user.referral_code)
+          : undefined,
+        unsubscribe_url: getUnsubscribeUrl(user.email),
         beta_signup_date: new Date(user.created_at).toLocaleDateString(
           'en-US',
           {
@@ -167,6 +373,9 @@ export class EmailCampaignService {
         subject: 'Silent Scribe Development Philosophy - Privacy First 🔒',
         user_id: user.id,
         email_type: 'welcome',
+        campaign_id: campaignId,
+        is_test: options?.is_test,
+        on_frequency_cap: options?.on_frequency_cap,
       })
 
       return result
@@ -179,17 +388,25 @@ export class EmailCampaignService {
   /**
    * Send welcome email series - Week 1 community highlights
    */
-  static async sendWelcomeWeekOne(user: BetaSignup): Promise<{
+  static async sendWelcomeWeekOne(
+    user: BetaSignup,
+    campaignId?: string,
+    options?: { is_test?: boolean; on_frequency_cap?: FrequencyCapAction }
+  ): Promise<{
     success: boolean
     error: string | null
     messageId?: string
+    deferred_until?: string
   }> {
     try {
       const templateData: WelcomeEmailData = {
         first_name: user.github_username || 'Developer',
         github_username: user.github_username || '',
         user_email: user.email,
-        unsubscribe_url: `${process.env.NEXT_PUBLIC_SITE_URL}/unsubscribe?email=${encodeURIComponent(user.email)}`,
+        referral_link: user.referral_code
+          ? ReferralService.getReferralUrl(user.referral_code)
+          : undefined,
+        unsubscribe_url: getUnsubscribeUrl(user.email),
         beta_signup_date: new Date(user.created_at).toLocaleDateString(
           'en-US',
           {
@@ -212,6 +429,9 @@ export class EmailCampaignService {
         subject: "Community Highlights & What's Coming Next 🚀",
         user_id: user.id,
         email_type: 'welcome',
+        campaign_id: campaignId,
+        is_test: options?.is_test,
+        on_frequency_cap: options?.on_frequency_cap,
       })
 
       return result
@@ -233,7 +453,9 @@ export class EmailCampaignService {
       engagement_level?: 'high' | 'medium' | 'low'
       beta_status?: 'pending' | 'invited' | 'active'
       team_size?: string[]
-    }
+      segment_id?: string // A saved segment, instead of the fields above
+    },
+    testSend?: CampaignTestSend
   ): Promise<{
     campaign_id: string
     total_sent: number
@@ -241,7 +463,10 @@ export class EmailCampaignService {
   }> {
     try {
       const campaignId = `newsletter-${Date.now()}`
-      const users = await this.getSegmentedUsers(segmentFilter)
+      const users = this.getAudience(
+        await this.getSegmentedUsers(segmentFilter),
+        testSend
+      )
 
       if (users.length === 0) {
         return {
@@ -259,6 +484,7 @@ export class EmailCampaignService {
         segment_filter: JSON.stringify(segmentFilter),
         total_recipients: users.length,
         status: 'sending',
+        is_test: !!testSend,
       })
 
       const errors: string[] = []
@@ -269,7 +495,7 @@ export class EmailCampaignService {
           ...newsletterData,
           first_name: user.github_username || 'Developer',
           user_email: user.email,
-          unsubscribe_url: `${process.env.NEXT_PUBLIC_SITE_URL}/unsubscribe?email=${encodeURIComponent(user.email)}`,
+          unsubscribe_url: getUnsubscribeUrl(user.email),
           update_date: new Date().toLocaleDateString('en-US', {
             year: 'numeric',
             month: 'long',
@@ -285,6 +511,7 @@ export class EmailCampaignService {
           user_id: user.id,
           email_type: 'update',
           campaign_id: campaignId,
+          is_test: !!testSend,
         })
 
         if (result.success) {
@@ -330,7 +557,8 @@ export class EmailCampaignService {
       download_link?: string
       instructions_link?: string
       exclusive_features: string[]
-    }
+    },
+    testSend?: CampaignTestSend
   ): Promise<{
     campaign_id: string
     total_sent: number
@@ -354,7 +582,7 @@ export class EmailCampaignService {
       }
 
       // Type assertion to fix the never type issue
-      const typedUsers = users as BetaSignup[]
+      const typedUsers = this.getAudience(users as BetaSignup[], testSend)
 
       if (typedUsers.length === 0) {
         return {
@@ -372,6 +600,7 @@ export class EmailCampaignService {
         segment_filter: JSON.stringify({ user_ids: targetUsers }),
         total_recipients: typedUsers.length,
         status: 'sending',
+        is_test: !!testSend,
       })
 
       const errors: string[] = []
@@ -385,7 +614,7 @@ export class EmailCampaignService {
           download_link: invitationData.download_link || '',
           instructions_link: invitationData.instructions_link || '',
           exclusive_features: invitationData.exclusive_features,
-          unsubscribe_url: `${process.env.NEXT_PUBLIC_SITE_URL}/unsubscribe?email=${encodeURIComponent(user.email)}`,
+          unsubscribe_url: getUnsubscribeUrl(user.email),
           invitation_date: new Date().toLocaleDateString('en-US', {
             year: 'numeric',
             month: 'long',
@@ -401,12 +630,13 @@ export class EmailCampaignService {
           user_id: user.id,
           email_type: 'early_access',
           campaign_id: campaignId,
+          is_test: !!testSend,
         })
 
         if (result.success) {
           sentCount++
-          // Update user beta status
-          if (supabaseAdmin) {
+          // Update user beta status, unless this only went to seed addresses
+          if (supabaseAdmin && !testSend) {
             await (supabaseAdmin as any)
               .from('beta_signups')
               .update({
@@ -450,7 +680,8 @@ export class EmailCampaignService {
    * Send re-engagement campaign to inactive users
    */
   static async sendReEngagementCampaign(
-    inactivityThresholdDays: number = 30
+    inactivityThresholdDays: number = 30,
+    testSend?: CampaignTestSend
   ): Promise<{
     campaign_id: string
     total_sent: number
@@ -471,6 +702,7 @@ export class EmailCampaignService {
         .from('beta_signups')
         .select('*')
         .eq('opted_in_marketing', true)
+        .eq('email_verified', true)
         .lt('engagement_score', 20) // Low engagement score
         .lt('created_at', thresholdDate.toISOString()) // Signed up before threshold
 
@@ -479,7 +711,7 @@ export class EmailCampaignService {
       }
 
       // Type assertion to fix the never type issue
-      const typedUsers = users as BetaSignup[]
+      const typedUsers = this.getAudience(users as BetaSignup[], testSend)
 
       if (typedUsers.length === 0) {
         return {
@@ -501,6 +733,7 @@ export class EmailCampaignService {
         }),
         total_recipients: typedUsers.length,
         status: 'sending',
+        is_test: !!testSend,
       })
 
       const errors: string[] = []
@@ -517,7 +750,7 @@ export class EmailCampaignService {
             'VS Code extension alpha ready',
           ],
           feedback_link: `${process.env.NEXT_PUBLIC_SITE_URL}/feedback`,
-          unsubscribe_url: `${process.env.NEXT_PUBLIC_SITE_URL}/unsubscribe?email=${encodeURIComponent(user.email)}`,
+          unsubscribe_url: getUnsubscribeUrl(user.email),
           campaign_date: new Date().toLocaleDateString('en-US', {
             year: 'numeric',
             month: 'long',
@@ -534,6 +767,7 @@ export class EmailCampaignService {
           user_id: user.id,
           email_type: 'update',
           campaign_id: campaignId,
+          is_test: !!testSend,
         })
 
         if (result.success) {
@@ -600,6 +834,79 @@ export class EmailCampaignService {
     }
   }
 
+  /**
+   * Create a campaign record for sends made outside the campaign methods
+   * here, such as A/B test variants. Give it html_content to send it with
+   * queueCampaign.
+   */
+  static async createCampaign(campaignData: {
+    campaign_type: string
+    subject: string
+    segment_filter: string
+    total_recipients: number
+    template_id?: string
+    html_content?: string
+    is_test?: boolean
+  }): Promise<{ campaign_id: string; error: string | null }> {
+    try {
+      const campaignId = `camp_${Date.now()}_${crypto.randomBytes(5).toString('hex')}`
+
+      await this.insertCampaign({
+        campaign_id: campaignId,
+        ...campaignData,
+        status: 'sending',
+      })
+
+      return { campaign_id: campaignId, error: null }
+    } catch (err) {
+      console.error('Error creating campaign:', err)
+      return { campaign_id: '', error: 'Failed to create campaign' }
+    }
+  }
+
+  /**
+   * Queue a campaign made with createCampaign as one delivery per user, due
+   * now, for dispatchDueDeliveries to send over as many cron runs as it
+   * takes
+   */
+  static async queueCampaign(
+    campaignId: string,
+    users: BetaSignup[]
+  ): Promise<{ error: string | null }> {
+    try {
+      const { data: campaign, error } = await supabaseAdmin
+        .from('email_campaigns')
+        .select('*')
+        .eq('campaign_id', campaignId)
+        .single()
+
+      if (error || !campaign) {
+        return { error: error?.message || 'Campaign not found' }
+      }
+
+      await this.queueRecipientDeliveries(campaign as EmailCampaign, users)
+
+      const now = new Date().toISOString()
+      const { error: updateError } = await supabaseAdmin
+        .from('email_campaigns')
+        .update(
+          users.length > 0
+            ? { status: 'delivering', updated_at: now }
+            : { status: 'sent', sent_at: now, updated_at: now }
+        )
+        .eq('campaign_id', campaignId)
+
+      if (updateError) {
+        return { error: updateError.message }
+      }
+
+      return { error: null }
+    } catch (err) {
+      console.error('Error in EmailCampaignService.queueCampaign:', err)
+      return { error: 'Failed to queue campaign' }
+    }
+  }
+
   /**
    * Send development update to user segments
    */
@@ -612,7 +919,9 @@ export class EmailCampaignService {
       engagement_level?: 'high' | 'medium' | 'low'
       beta_status?: 'pending' | 'invited' | 'active'
       team_size?: string[]
-    }
+      segment_id?: string // A saved segment, instead of the fields above
+    },
+    testSend?: CampaignTestSend
   ): Promise<{
     campaign_id: string
     total_sent: number
@@ -623,7 +932,10 @@ export class EmailCampaignService {
       const campaignId = `dev-update-${Date.now()}`
 
       // Get target users based on segment filter
-      const users = await this.getSegmentedUsers(segmentFilter)
+      const users = this.getAudience(
+        await this.getSegmentedUsers(segmentFilter),
+        testSend
+      )
 
       if (users.length === 0) {
         return {
@@ -641,6 +953,7 @@ export class EmailCampaignService {
         segment_filter: JSON.stringify(segmentFilter),
         total_recipients: users.length,
         status: 'sending',
+        is_test: !!testSend,
       })
 
       const errors: string[] = []
@@ -656,7 +969,7 @@ export class EmailCampaignService {
             ...updateData,
             first_name: user.github_username || 'Developer',
             user_email: user.email,
-            unsubscribe_url: `${process.env.NEXT_PUBLIC_SITE_URL}/unsubscribe?email=${encodeURIComponent(user.email)}`,
+            unsubscribe_url: getUnsubscribeUrl(user.email),
             update_date: new Date().toLocaleDateString('en-US', {
               year: 'numeric',
               month: 'long',
@@ -672,6 +985,7 @@ export class EmailCampaignService {
             user_id: user.id,
             email_type: 'update',
             campaign_id: campaignId,
+            is_test: !!testSend,
           })
 
           if (result.success) {
@@ -726,7 +1040,9 @@ export class EmailCampaignService {
     segmentFilter?: {
       engagement_level?: 'high' | 'medium' | 'low'
       beta_status?: 'pending' | 'invited' | 'active'
-    }
+      segment_id?: string // A saved segment, instead of the fields above
+    },
+    testSend?: CampaignTestSend
   ): Promise<{
     campaign_id: string
     total_sent: number
@@ -758,6 +1074,8 @@ export class EmailCampaignService {
         users = await this.getSegmentedUsers(segmentFilter)
       }
 
+      users = this.getAudience(users, testSend)
+
       if (users.length === 0) {
         return {
           campaign_id: campaignId,
@@ -774,6 +1092,7 @@ export class EmailCampaignService {
         segment_filter: JSON.stringify(segmentFilter || {}),
         total_recipients: users.length,
         status: 'sending',
+        is_test: !!testSend,
       }
 
       const { error: insertError } = await (
@@ -792,7 +1111,7 @@ export class EmailCampaignService {
           ...feedbackData,
           first_name: user.github_username || 'Developer',
           user_email: user.email,
-          unsubscribe_url: `${process.env.NEXT_PUBLIC_SITE_URL}/unsubscribe?email=${encodeURIComponent(user.email)}`,
+          unsubscribe_url: getUnsubscribeUrl(user.email),
           request_date: new Date().toLocaleDateString('en-US', {
             year: 'numeric',
             month: 'long',
@@ -808,6 +1127,7 @@ export class EmailCampaignService {
           user_id: user.id,
           email_type: 'feedback_request',
           campaign_id: campaignId,
+          is_test: !!testSend,
         })
 
         if (result.success) {
@@ -846,7 +1166,58 @@ export class EmailCampaignService {
   }
 
   /**
-   * Send template email via SendGrid
+   * Send an email with inline content rather than a template. Sends with a
+   * user_id are tracked in email_events like template sends. Transactional
+   * sends are exempt from frequency caps.
+   */
+  static async sendEmail({
+    to_email,
+    subject,
+    html,
+    text,
+    template_id,
+    user_id,
+    email_type,
+    campaign_id,
+    is_test,
+    transactional,
+  }: {
+    to_email: string
+    subject: string
+    html?: string
+    text?: string
+    template_id?: string
+    user_id?: string
+    email_type?: EmailEvent['email_type']
+    campaign_id?: string
+    is_test?: boolean
+    transactional?: boolean
+  }): Promise<{ success: boolean; error: string | null; messageId?: string }> {
+    return this.deliver(
+      {
+        to: to_email,
+        subject,
+        html,
+        text,
+        templateId: template_id,
+      },
+      user_id
+        ? {
+            user_id,
+            email_type: email_type || 'update',
+            campaign_id,
+            is_test,
+            transactional,
+          }
+        : undefined
+    )
+  }
+
+  /**
+   * Render a repo template and send it. The subject defaults to the
+   * template's own. IDs that aren't repo templates are sent as SendGrid
+   * dynamic templates, for campaigns scheduled before templates moved into
+   * the repo.
    */
   private static async sendTemplateEmail({
     to_email,
@@ -856,104 +1227,212 @@ export class EmailCampaignService {
     user_id,
     email_type,
     campaign_id,
+    is_test,
+    on_frequency_cap,
   }: {
     to_email: string
     template_id: string
     template_data: EmailTemplateData
-    subject: string
+    subject?: string
     user_id: string
-    email_type:
-      | 'welcome'
-      | 'update'
-      | 'feedback_request'
-      | 'early_access'
-      | 're_engagement'
-      | 'monthly_newsletter'
+    email_type: EmailEvent['email_type']
     campaign_id?: string
-  }): Promise<{ success: boolean; error: string | null; messageId?: string }> {
-    try {
-      const sgMail = await import('@sendgrid/mail')
-      sgMail.default.setApiKey(this.sendGridApiKey)
+    is_test?: boolean
+    on_frequency_cap?: FrequencyCapAction
+  }): Promise<{
+    success: boolean
+    error: string | null
+    messageId?: string
+    deferred_until?: string
+  }> {
+    const tracking = {
+      user_id,
+      email_type,
+      campaign_id,
+      is_test,
+      on_frequency_cap,
+    }
 
-      const msg = {
-        to: to_email,
-        from: {
-          email: this.fromEmail,
-          name: this.fromName,
-        },
-        templateId: template_id,
-        dynamicTemplateData: template_data,
-        // Custom args for tracking
-        customArgs: {
-          user_id,
-          email_type,
-          campaign_id: campaign_id || '',
-          sent_at: new Date().toISOString(),
-        },
-        // Enable click and open tracking
-        trackingSettings: {
-          clickTracking: { enable: true },
-          openTracking: { enable: true },
+    if (!isEmailTemplateKey(template_id)) {
+      if (!subject) {
+        return { success: false, error: 'SendGrid templates need a subject' }
+      }
+
+      return this.deliver(
+        {
+          to: to_email,
+          subject,
+          templateId: template_id,
+          templateData: template_data as unknown as Record<string, unknown>,
         },
+        tracking
+      )
+    }
+
+    const rendered = renderEmailTemplate(template_id, template_data)
+    if (rendered.error) {
+      return {
+        success: false,
+        error: `Failed to render ${template_id}: ${rendered.error}`,
       }
+    }
 
-      const [response] = await sgMail.default.send(msg)
+    return this.deliver(
+      {
+        to: to_email,
+        subject: subject || rendered.subject,
+        html: rendered.html,
+        text: rendered.text,
+      },
+      tracking
+    )
+  }
 
-      // Log the email event
-      await EmailEventService.logEvent({
-        user_id,
-        email_type: email_type as any,
-        event_type: 'sent',
-        email_subject: subject,
-        campaign_id: campaign_id || undefined,
-      })
+  /**
+   * Send a message through the mail transport. Suppressed recipients are
+   * skipped, and tracked sends over the user's frequency cap are dropped,
+   * or deferred with deferred_until when the caller will retry. Tracked
+   * sends get open/click tracking and custom args for the event webhook,
+   * and are logged to email_events whether or not they succeed. Test sends
+   * carry is_test through to their events.
+   */
+  private static async deliver(
+    message: Pick<
+      MailMessage,
+      'to' | 'subject' | 'html' | 'text' | 'templateId' | 'templateData'
+    >,
+    tracking?: {
+      user_id: string
+      email_type: EmailEvent['email_type']
+      campaign_id?: string
+      is_test?: boolean
+      transactional?: boolean // Exempt from frequency caps
+      on_frequency_cap?: FrequencyCapAction // Defaults to 'drop'
+    }
+  ): Promise<{
+    success: boolean
+    error: string | null
+    messageId?: string
+    deferred_until?: string
+  }> {
+    try {
+      const { data: suppression, error: suppressionError } =
+        await SuppressionService.check(message.to)
 
-      return {
-        success: true,
-        error: null,
-        messageId: response.headers['x-message-id'] as string,
-      }
-    } catch (err: any) {
-      console.error('SendGrid error:', err)
-
-      // Log failed send as sent with metadata indicating failure
-      await EmailEventService.logEvent({
-        user_id,
-        email_type: email_type as any,
-        event_type: 'sent',
-        email_subject: subject,
-        campaign_id: campaign_id || undefined,
-        metadata: {
-          error: err.message,
-          code: err.code,
-          failed: true,
+      if (suppressionError) {
+        // Don't block sending because the lookup failed
+        console.error('Error checking suppression list:', suppressionError)
+      } else if (suppression) {
+        return {
+          success: false,
+          error: `Recipient is suppressed (${suppression.reason})`,
+        }
+      }
+
+      if (tracking && !tracking.is_test && !tracking.transactional) {
+        const { data: cap, error: capError } = await FrequencyCapService.check(
+          tracking.user_id
+        )
+
+        if (capError) {
+          // As with suppressions, a failed lookup doesn't block sending
+          console.error('Error checking frequency cap:', capError)
+        } else if (cap && !cap.allowed) {
+          const deferred = tracking.on_frequency_cap === 'defer'
+
+          await FrequencyCapService.logCapped({
+            user_id: tracking.user_id,
+            email_type: tracking.email_type,
+            email_subject: message.subject,
+            campaign_id: tracking.campaign_id,
+            check: cap,
+            action: deferred ? 'deferred' : 'dropped',
+          })
+
+          return {
+            success: false,
+            error: `Frequency cap: ${cap.reason}`,
+            ...(deferred && cap.retry_at && { deferred_until: cap.retry_at }),
+          }
+        }
+      }
+
+      const result = await getMailTransport().send({
+        ...message,
+        from: {
+          email: this.fromEmail,
+          name: this.fromName,
         },
+        // One-click unsubscribe (RFC 8058) with a per-recipient signed token
+        headers: getListUnsubscribeHeaders(message.to),
+        ...(tracking && {
+          customArgs: {
+            user_id: tracking.user_id,
+            email_type: tracking.email_type,
+            campaign_id: tracking.campaign_id || '',
+            sent_at: new Date().toISOString(),
+            ...(tracking.is_test && { is_test: 'true' }),
+          },
+          tracking: true,
+        }),
       })
 
-      return {
-        success: false,
-        error: err.message || 'Failed to send email',
+      if (tracking) {
+        // Failed sends are logged as sent with metadata indicating failure
+        await EmailEventService.logEvent({
+          user_id: tracking.user_id,
+          email_type: tracking.email_type,
+          event_type: 'sent',
+          email_subject: message.subject,
+          campaign_id: tracking.campaign_id || undefined,
+          is_test: !!tracking.is_test,
+          metadata: result.success
+            ? undefined
+            : { error: result.error, failed: true },
+        })
       }
+
+      return result
+    } catch (err) {
+      console.error('Error in EmailCampaignService.deliver:', err)
+      return { success: false, error: 'Failed to send email' }
     }
   }
 
   /**
-   * Get users based on segment criteria
+   * Get opted-in, confirmed users matching the segment criteria
    */
-  private static async getSegmentedUsers(segmentFilter?: {
+  static async getSegmentedUsers(segmentFilter?: {
     engagement_level?: 'high' | 'medium' | 'low'
     beta_status?: 'pending' | 'invited' | 'active'
     team_size?: string[]
+    has_github?: boolean
+    signed_up_after?: string
+    segment_id?: string // A saved segment, instead of the fields above
   }): Promise<BetaSignup[]> {
     try {
       if (!supabaseAdmin) {
         throw new Error('Supabase admin client not available')
       }
 
+      if (segmentFilter?.segment_id) {
+        const { data, error } = await SegmentService.getSegmentUsers(
+          segmentFilter.segment_id
+        )
+
+        if (error || !data) {
+          console.error('Error resolving saved segment:', error)
+          return []
+        }
+
+        return data
+      }
+
       let query = supabaseAdmin
         .from('beta_signups')
         .select('*')
         .eq('opted_in_marketing', true) // Only send to users who opted in
+        .eq('email_verified', true) // ...and confirmed their address
 
       if (segmentFilter?.engagement_level) {
         switch (segmentFilter.engagement_level) {
@@ -977,6 +1456,14 @@ export class EmailCampaignService {
         query = query.in('team_size', segmentFilter.team_size)
       }
 
+      if (segmentFilter?.has_github) {
+        query = query.not('github_username', 'is', null)
+      }
+
+      if (segmentFilter?.signed_up_after) {
+        query = query.gte('created_at', segmentFilter.signed_up_after)
+      }
+
       const { data, error } = await query
 
       if (error) {
@@ -984,13 +1471,116 @@ export class EmailCampaignService {
         return []
       }
 
-      return data
+      // Leave suppressed addresses out of the recipient count as well as
+      // the send; sendTemplateEmail would skip them anyway
+      const users = data as BetaSignup[]
+      const { data: suppressed, error: suppressionError } =
+        await SuppressionService.getSuppressedEmails(
+          users.map((user) => user.email)
+        )
+
+      if (suppressionError || !suppressed) {
+        console.error('Error checking suppression list:', suppressionError)
+        return users
+      }
+
+      return users.filter(
+        (user) => !suppressed.has(user.email.trim().toLowerCase())
+      )
     } catch (err) {
       console.error('Error in getSegmentedUsers:', err)
       return []
     }
   }
 
+  /**
+   * The users a campaign goes to. A test send swaps the audience for the
+   * seed list: each seed address gets the email personalized for a real
+   * recipient, in turn, with the seed address in place of theirs so that
+   * links such as unsubscribe act on the seed address.
+   */
+  static getAudience(
+    users: BetaSignup[],
+    testSend?: CampaignTestSend
+  ): BetaSignup[] {
+    if (!testSend || users.length === 0) {
+      return users
+    }
+
+    return testSend.recipients.map((email, index) => ({
+      ...users[index % users.length],
+      email,
+    }))
+  }
+
+  /**
+   * Check that test send addresses are internal: on an INTERNAL_EMAIL_DOMAINS
+   * domain (by default the FROM_EMAIL domain) or an active admin account.
+   * Returns the addresses lowercased and deduplicated.
+   */
+  static async checkTestRecipients(
+    emails: string[]
+  ): Promise<{ data: string[] | null; error: string | null }> {
+    try {
+      const recipients = Array.from(
+        new Set(emails.map((email) => email.trim().toLowerCase()))
+      )
+
+      if (recipients.length === 0) {
+        return { data: null, error: 'No test recipients' }
+      }
+
+      if (recipients.length > MAX_TEST_RECIPIENTS) {
+        return {
+          data: null,
+          error: `Test sends are limited to ${MAX_TEST_RECIPIENTS} addresses`,
+        }
+      }
+
+      const internalDomains = (
+        process.env.INTERNAL_EMAIL_DOMAINS || this.fromEmail.split('@')[1]
+      )
+        .split(',')
+        .map((domain) => domain.trim().toLowerCase())
+        .filter(Boolean)
+
+      const outsideDomains = recipients.filter(
+        (email) => !internalDomains.includes(email.split('@')[1])
+      )
+
+      if (outsideDomains.length > 0) {
+        const { data: admins, error } = await supabaseAdmin
+          .from('admin_users')
+          .select('email')
+          .in('email', outsideDomains)
+          .eq('disabled', false)
+
+        if (error) {
+          return { data: null, error: error.message }
+        }
+
+        const adminEmails = new Set(
+          (admins || []).map((admin: { email: string }) => admin.email)
+        )
+        const external = outsideDomains.filter(
+          (email) => !adminEmails.has(email)
+        )
+
+        if (external.length > 0) {
+          return {
+            data: null,
+            error: `Not internal addresses: ${external.join(', ')}`,
+          }
+        }
+      }
+
+      return { data: recipients, error: null }
+    } catch (err) {
+      console.error('Error in EmailCampaignService.checkTestRecipients:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
   /**
    * Get campaign statistics
    */
@@ -1073,6 +1663,7 @@ export class EmailCampaignService {
     template_data: Partial<EmailTemplateData>
     segment_filter?: any
     scheduled_at: string
+    optimize_send_time?: boolean
   }): Promise<{ campaign_id: string; error: string | null }> {
     try {
       if (!supabaseAdmin) {
@@ -1104,4 +1695,726 @@ export class EmailCampaignService {
       return { campaign_id: '', error: 'Failed to schedule campaign' }
     }
   }
+
+  /**
+   * List campaigns waiting to be sent or currently sending, including
+   * campaigns whose per-recipient deliveries are still going out
+   */
+  static async getScheduledCampaigns(): Promise<{
+    data: EmailCampaign[]
+    error: string | null
+  }> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('email_campaigns')
+        .select('*')
+        .in('status', ['scheduled', 'sending', 'delivering'])
+        .order('scheduled_at', { ascending: true })
+
+      if (error) {
+        return { data: [], error: error.message }
+      }
+
+      return { data, error: null }
+    } catch (err) {
+      console.error('Error getting scheduled campaigns:', err)
+      return { data: [], error: 'Failed to get scheduled campaigns' }
+    }
+  }
+
+  /**
+   * Cancel a scheduled campaign. Possible before the dispatcher has claimed
+   * it, or while its per-recipient deliveries are going out, in which case
+   * the deliveries not yet sent are skipped.
+   */
+  static async cancelScheduledCampaign(
+    campaignId: string
+  ): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('email_campaigns')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('campaign_id', campaignId)
+        .in('status', ['scheduled', 'delivering'])
+        .select('campaign_id')
+
+      if (error) {
+        return { success: false, error: error.message }
+      }
+
+      if (!data || data.length === 0) {
+        return {
+          success: false,
+          error: 'Campaign not found or no longer scheduled',
+        }
+      }
+
+      const { error: deliveriesError } = await supabaseAdmin
+        .from('email_campaign_deliveries')
+        .update({ status: 'skipped', error: 'Campaign cancelled' })
+        .eq('campaign_id', campaignId)
+        .eq('status', 'pending')
+
+      if (deliveriesError) {
+        return { success: false, error: deliveriesError.message }
+      }
+
+      return { success: true, error: null }
+    } catch (err) {
+      console.error('Error cancelling campaign:', err)
+      return { success: false, error: 'Failed to cancel campaign' }
+    }
+  }
+
+  /**
+   * Move a scheduled campaign to a new send time. Only possible before the
+   * dispatcher has claimed it.
+   */
+  static async rescheduleCampaign(
+    campaignId: string,
+    scheduledAt: string
+  ): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('email_campaigns')
+        .update({
+          scheduled_at: scheduledAt,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('campaign_id', campaignId)
+        .eq('status', 'scheduled')
+        .select('campaign_id')
+
+      if (error) {
+        return { success: false, error: error.message }
+      }
+
+      if (!data || data.length === 0) {
+        return {
+          success: false,
+          error: 'Campaign not found or no longer scheduled',
+        }
+      }
+
+      return { success: true, error: null }
+    } catch (err) {
+      console.error('Error rescheduling campaign:', err)
+      return { success: false, error: 'Failed to reschedule campaign' }
+    }
+  }
+
+  /**
+   * Send every scheduled campaign that is due. Called from the cron
+   * dispatcher route.
+   */
+  static async dispatchDueCampaigns(): Promise<{
+    campaigns: Array<{
+      campaign_id: string
+      status: 'sent' | 'failed' | 'delivering'
+      sent_count: number
+      error_count: number
+    }>
+    errors: string[]
+  }> {
+    try {
+      const now = new Date()
+      const errors: string[] = []
+
+      // A campaign is only 'sending' while its deliveries are queued, before
+      // anything is mailed, and queueing skips recipients already queued.
+      // So a run that died part-way leaves the campaign to be picked up
+      // again.
+      const { error: staleError } = await supabaseAdmin
+        .from('email_campaigns')
+        .update({
+          status: 'scheduled',
+          lock_id: null,
+          locked_at: null,
+          updated_at: now.toISOString(),
+        })
+        .eq('status', 'sending')
+        .lt(
+          'locked_at',
+          new Date(now.getTime() - DISPATCH_LOCK_TIMEOUT_MS).toISOString()
+        )
+
+      if (staleError) {
+        errors.push(`Failed to release stale locks: ${staleError.message}`)
+      }
+
+      const { data: dueCampaigns, error } = await supabaseAdmin
+        .from('email_campaigns')
+        .select('campaign_id')
+        .eq('status', 'scheduled')
+        .lte('scheduled_at', now.toISOString())
+        .order('scheduled_at', { ascending: true })
+        .limit(DISPATCH_MAX_CAMPAIGNS)
+
+      if (error) {
+        return { campaigns: [], errors: [...errors, error.message] }
+      }
+
+      const campaigns = []
+      for (const { campaign_id } of dueCampaigns as Array<{
+        campaign_id: string
+      }>) {
+        const lockId = crypto.randomUUID()
+
+        // Claim the campaign. The status guard makes this a compare-and-set,
+        // so only one run can move it out of 'scheduled'.
+        const { data: claimed, error: claimError } = await supabaseAdmin
+          .from('email_campaigns')
+          .update({
+            status: 'sending',
+            lock_id: lockId,
+            locked_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          })
+          .eq('campaign_id', campaign_id)
+          .eq('status', 'scheduled')
+          .select('*')
+
+        if (claimError) {
+          errors.push(`${campaign_id}: ${claimError.message}`)
+          continue
+        }
+
+        // Claimed by another run, or cancelled in the meantime
+        if (!claimed || claimed.length === 0) {
+          continue
+        }
+
+        campaigns.push(await this.queueScheduledCampaign(claimed[0], lockId))
+      }
+
+      return { campaigns, errors }
+    } catch (err) {
+      console.error('Error dispatching scheduled campaigns:', err)
+      return {
+        campaigns: [],
+        errors: ['Failed to dispatch scheduled campaigns'],
+      }
+    }
+  }
+
+  /**
+   * Queue a campaign claimed by the dispatcher as one delivery per
+   * recipient, for dispatchDueDeliveries to send. Recording each delivery
+   * lets a large campaign go out over several cron runs.
+   */
+  private static async queueScheduledCampaign(
+    campaign: EmailCampaign,
+    lockId: string
+  ): Promise<{
+    campaign_id: string
+    status: 'sent' | 'failed' | 'delivering'
+    sent_count: number
+    error_count: number
+  }> {
+    const campaignId = campaign.campaign_id
+
+    // Only the run holding the lock may write progress
+    const updateLocked = async (updates: Record<string, unknown>) => {
+      const { error } = await supabaseAdmin
+        .from('email_campaigns')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('campaign_id', campaignId)
+        .eq('lock_id', lockId)
+
+      if (error) {
+        throw new Error(`Failed to update campaign: ${error.message}`)
+      }
+    }
+
+    try {
+      if (!campaign.template_id) {
+        throw new Error('Campaign has no template')
+      }
+
+      const users = await this.getSegmentedUsers(
+        JSON.parse(campaign.segment_filter || '{}')
+      )
+
+      await updateLocked({
+        total_recipients: users.length,
+        sent_count: 0,
+        error_count: 0,
+      })
+
+      if (users.length > 0) {
+        await this.queueRecipientDeliveries(campaign, users)
+
+        // The delivery runner sends the queue over as many cron runs as it
+        // takes and finishes the campaign once every delivery has gone out
+        await updateLocked({
+          status: 'delivering',
+          lock_id: null,
+          locked_at: null,
+        })
+
+        return {
+          campaign_id: campaignId,
+          status: 'delivering',
+          sent_count: 0,
+          error_count: 0,
+        }
+      }
+
+      await updateLocked({
+        status: 'sent',
+        sent_at: new Date().toISOString(),
+        lock_id: null,
+        locked_at: null,
+      })
+
+      return {
+        campaign_id: campaignId,
+        status: 'sent',
+        sent_count: 0,
+        error_count: 0,
+      }
+    } catch (err) {
+      console.error(`Error queueing scheduled campaign ${campaignId}:`, err)
+
+      // Nothing has been sent yet; deliveries queued so far are skipped by
+      // the delivery runner once the campaign is no longer delivering
+      try {
+        await updateLocked({
+          status: 'failed',
+          lock_id: null,
+          locked_at: null,
+        })
+      } catch (updateErr) {
+        console.error('Error marking campaign as failed:', updateErr)
+      }
+
+      return {
+        campaign_id: campaignId,
+        status: 'failed',
+        sent_count: 0,
+        error_count: 0,
+      }
+    }
+  }
+
+  /**
+   * Send a queued campaign to one recipient: its repo template, or for
+   * campaigns without one its stored HTML
+   */
+  private static sendCampaignToUser(
+    campaign: EmailCampaign,
+    user: BetaSignup
+  ): Promise<{ success: boolean; error: string | null; messageId?: string }> {
+    if (campaign.html_content) {
+      return this.sendEmail({
+        to_email: user.email,
+        subject: campaign.subject,
+        html: campaign.html_content,
+        template_id: campaign.template_id,
+        user_id: user.id,
+        email_type: 'update',
+        campaign_id: campaign.campaign_id,
+      })
+    }
+
+    return this.sendTemplateEmail({
+      to_email: user.email,
+      template_id: campaign.template_id as string,
+      template_data: {
+        ...campaign.template_data,
+        first_name: user.github_username || 'Developer',
+        user_email: user.email,
+        unsubscribe_url: getUnsubscribeUrl(user.email),
+      } as EmailTemplateData,
+      subject: campaign.subject,
+      user_id: user.id,
+      email_type: 'update',
+      campaign_id: campaign.campaign_id,
+    })
+  }
+
+  /**
+   * Queue one delivery per recipient, due at the campaign's scheduled time
+   * or, with optimize_send_time, at the recipient's best local time within
+   * the 24 hours from it
+   */
+  private static async queueRecipientDeliveries(
+    campaign: EmailCampaign,
+    users: BetaSignup[]
+  ): Promise<void> {
+    const windowStart = campaign.scheduled_at
+      ? new Date(campaign.scheduled_at)
+      : new Date()
+
+    let sendTimes = new Map<string, RecipientSendTime>()
+    if (campaign.optimize_send_time) {
+      const { data, error } = await SendTimeService.getRecipientSendTimes(
+        users.map((user) => user.id),
+        windowStart
+      )
+
+      if (error || !data) {
+        throw new Error(`Failed to pick send times: ${error}`)
+      }
+      sendTimes = data
+    }
+
+    const deliveries = users.map((user) => {
+      const sendTime = sendTimes.get(user.id)
+      return {
+        campaign_id: campaign.campaign_id,
+        user_id: user.id,
+        send_at: (sendTime?.send_at || windowStart).toISOString(),
+        send_time_source: sendTime?.source || 'default',
+        local_hour: sendTime?.local_hour ?? null,
+        timezone: sendTime?.timezone || null,
+        status: 'pending' as const,
+      }
+    })
+
+    for (let i = 0; i < deliveries.length; i += DELIVERY_INSERT_CHUNK_SIZE) {
+      // A retried dispatch leaves already-queued recipients alone
+      const { error: insertError } = await supabaseAdmin
+        .from('email_campaign_deliveries')
+        .upsert(deliveries.slice(i, i + DELIVERY_INSERT_CHUNK_SIZE), {
+          onConflict: 'campaign_id,user_id',
+          ignoreDuplicates: true,
+        })
+
+      if (insertError) {
+        throw new Error(`Failed to queue deliveries: ${insertError.message}`)
+      }
+    }
+  }
+
+  /**
+   * Send per-recipient deliveries that are due, a claimed batch at a time,
+   * until none are left or the run's time budget is spent; whatever is left
+   * goes out on the next run. Campaigns with nothing left to send are
+   * finished. Called from the cron dispatcher route after
+   * dispatchDueCampaigns.
+   */
+  static async dispatchDueDeliveries(
+    runStartedAt = Date.now()
+  ): Promise<DeliveryRunResult> {
+    const result: DeliveryRunResult = {
+      sent: 0,
+      failed: 0,
+      skipped: 0,
+      completed_campaigns: [],
+      errors: [],
+    }
+
+    try {
+      const now = new Date()
+
+      // A delivery left mid-send may already have gone out, so it is
+      // failed rather than retried
+      const { data: stale, error: staleError } = await supabaseAdmin
+        .from('email_campaign_deliveries')
+        .update({
+          status: 'failed',
+          error: 'Delivery run did not finish',
+          lock_id: null,
+          locked_at: null,
+        })
+        .eq('status', 'sending')
+        .lt(
+          'locked_at',
+          new Date(now.getTime() - DISPATCH_LOCK_TIMEOUT_MS).toISOString()
+        )
+        .select('campaign_id')
+
+      if (staleError) {
+        result.errors.push(
+          `Failed to release stale delivery locks: ${staleError.message}`
+        )
+      }
+
+      // The run that died may have held a campaign's last batch, in which
+      // case no later batch would refresh it
+      const staleCampaignIds = Array.from(
+        new Set(
+          ((stale || []) as Array<{ campaign_id: string }>).map(
+            (delivery) => delivery.campaign_id
+          )
+        )
+      )
+      for (const campaignId of staleCampaignIds) {
+        const { completed, error: progressError } =
+          await this.refreshDeliveryProgress(campaignId)
+
+        if (progressError) {
+          result.errors.push(`${campaignId}: ${progressError}`)
+        } else if (completed) {
+          result.completed_campaigns.push(campaignId)
+        }
+      }
+
+      while (Date.now() - runStartedAt < DISPATCH_RUN_BUDGET_MS) {
+        const claimed = await this.sendDeliveryBatch(result)
+        if (claimed === 0) {
+          break
+        }
+      }
+
+      return result
+    } catch (err) {
+      console.error('Error dispatching campaign deliveries:', err)
+      result.errors.push('Failed to dispatch campaign deliveries')
+      return result
+    }
+  }
+
+  /**
+   * Claim and send one batch of due deliveries, then refresh the progress
+   * of the campaigns they belong to. Returns how many deliveries were
+   * claimed; 0 when nothing is due or the claim failed.
+   */
+  private static async sendDeliveryBatch(
+    result: DeliveryRunResult
+  ): Promise<number> {
+    const lockId = crypto.randomUUID()
+
+    const { data: due, error } = await supabaseAdmin
+      .from('email_campaign_deliveries')
+      .select('id')
+      .eq('status', 'pending')
+      .lte('send_at', new Date().toISOString())
+      .order('send_at', { ascending: true })
+      .limit(DISPATCH_MAX_DELIVERIES)
+
+    if (error) {
+      result.errors.push(error.message)
+      return 0
+    }
+
+    if (due.length === 0) {
+      return 0
+    }
+
+    // Claim the batch; rows another run got to first won't come back
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('email_campaign_deliveries')
+      .update({
+        status: 'sending',
+        lock_id: lockId,
+        locked_at: new Date().toISOString(),
+      })
+      .in(
+        'id',
+        (due as Array<{ id: string }>).map((delivery) => delivery.id)
+      )
+      .eq('status', 'pending')
+      .select('*')
+
+    if (claimError) {
+      result.errors.push(claimError.message)
+      return 0
+    }
+
+    const deliveries = claimed as EmailCampaignDelivery[]
+    const campaignIds = Array.from(
+      new Set(deliveries.map((delivery) => delivery.campaign_id))
+    )
+
+    const [{ data: campaigns, error: campaignsError }, { data: users }] =
+      await Promise.all([
+        supabaseAdmin
+          .from('email_campaigns')
+          .select('*')
+          .in('campaign_id', campaignIds),
+        // Recipients who have opted out since the campaign was queued
+        // are skipped
+        supabaseAdmin
+          .from('beta_signups')
+          .select('*')
+          .in(
+            'id',
+            deliveries.map((delivery) => delivery.user_id)
+          )
+          .eq('opted_in_marketing', true)
+          .eq('email_verified', true),
+      ])
+
+    if (campaignsError) {
+      throw new Error(`Failed to load campaigns: ${campaignsError.message}`)
+    }
+
+    const campaignsById = new Map(
+      (campaigns as EmailCampaign[]).map((campaign) => [
+        campaign.campaign_id,
+        campaign,
+      ])
+    )
+    const usersById = new Map(
+      ((users || []) as BetaSignup[]).map((user) => [user.id, user])
+    )
+
+    // Only the run holding the lock may finish its deliveries
+    const finishDeliveries = async (
+      ids: string[],
+      updates: { status: 'sent' | 'failed' | 'skipped'; error?: string }
+    ) => {
+      if (ids.length === 0) {
+        return
+      }
+
+      const { error: updateError } = await supabaseAdmin
+        .from('email_campaign_deliveries')
+        .update({
+          ...updates,
+          sent_at: updates.status === 'sent' ? new Date().toISOString() : null,
+          lock_id: null,
+          locked_at: null,
+        })
+        .in('id', ids)
+        .eq('lock_id', lockId)
+
+      if (updateError) {
+        result.errors.push(
+          `Failed to update deliveries: ${updateError.message}`
+        )
+      }
+    }
+
+    const skipped: Array<{ id: string; reason: string }> = []
+    const sendable: Array<{
+      delivery: EmailCampaignDelivery
+      campaign: EmailCampaign
+      user: BetaSignup
+    }> = []
+
+    for (const delivery of deliveries) {
+      const campaign = campaignsById.get(delivery.campaign_id)
+      const user = usersById.get(delivery.user_id)
+
+      if (!campaign || campaign.status !== 'delivering') {
+        skipped.push({ id: delivery.id, reason: 'Campaign not delivering' })
+      } else if (!user) {
+        skipped.push({ id: delivery.id, reason: 'Recipient opted out' })
+      } else {
+        sendable.push({ delivery, campaign, user })
+      }
+    }
+
+    for (const reason of Array.from(
+      new Set(skipped.map((delivery) => delivery.reason))
+    )) {
+      await finishDeliveries(
+        skipped
+          .filter((delivery) => delivery.reason === reason)
+          .map((delivery) => delivery.id),
+        { status: 'skipped', error: reason }
+      )
+    }
+    result.skipped += skipped.length
+
+    // Send in batches to avoid rate limits
+    const batchSize = 10
+    for (let i = 0; i < sendable.length; i += batchSize) {
+      const batch = sendable.slice(i, i + batchSize)
+
+      const results = await Promise.all(
+        batch.map(({ campaign, user }) =>
+          this.sendCampaignToUser(campaign, user)
+        )
+      )
+
+      const sentIds: string[] = []
+      for (const [index, sendResult] of results.entries()) {
+        if (sendResult.success) {
+          sentIds.push(batch[index].delivery.id)
+        } else {
+          await finishDeliveries([batch[index].delivery.id], {
+            status: 'failed',
+            error: sendResult.error || 'Failed to send email',
+          })
+        }
+      }
+      await finishDeliveries(sentIds, { status: 'sent' })
+
+      result.sent += sentIds.length
+      result.failed += batch.length - sentIds.length
+
+      if (i + batchSize < sendable.length) {
+        await new Promise((resolve) => setTimeout(resolve, 1000))
+      }
+    }
+
+    for (const campaignId of campaignIds) {
+      const { completed, error: progressError } =
+        await this.refreshDeliveryProgress(campaignId)
+
+      if (progressError) {
+        result.errors.push(`${campaignId}: ${progressError}`)
+      } else if (completed) {
+        result.completed_campaigns.push(campaignId)
+      }
+    }
+
+    return deliveries.length
+  }
+
+  /**
+   * Copy delivery counts onto a delivering campaign, and mark it sent once
+   * no deliveries are left to send
+   */
+  private static async refreshDeliveryProgress(
+    campaignId: string
+  ): Promise<{ completed: boolean; error: string | null }> {
+    const countDeliveries = async (
+      statuses: Array<EmailCampaignDelivery['status']>
+    ) => {
+      const { count, error } = await supabaseAdmin
+        .from('email_campaign_deliveries')
+        .select('*', { count: 'exact', head: true })
+        .eq('campaign_id', campaignId)
+        .in('status', statuses)
+
+      if (error) {
+        throw new Error(error.message)
+      }
+      return count || 0
+    }
+
+    try {
+      const [sentCount, errorCount, remaining] = await Promise.all([
+        countDeliveries(['sent']),
+        countDeliveries(['failed']),
+        countDeliveries(['pending', 'sending']),
+      ])
+
+      const now = new Date().toISOString()
+      const { data, error } = await supabaseAdmin
+        .from('email_campaigns')
+        .update({
+          sent_count: sentCount,
+          error_count: errorCount,
+          updated_at: now,
+          ...(remaining === 0 && {
+            status: errorCount > 0 && sentCount === 0 ? 'failed' : 'sent',
+            sent_at: now,
+          }),
+        })
+        .eq('campaign_id', campaignId)
+        .eq('status', 'delivering')
+        .select('campaign_id')
+
+      if (error) {
+        return { completed: false, error: error.message }
+      }
+
+      return {
+        completed: remaining === 0 && !!data && data.length > 0,
+        error: null,
+      }
+    } catch (err) {
+      console.error(
+        'Error in EmailCampaignService.refreshDeliveryProgress:',
+        err
+      )
+      return { completed: false, error: 'An unexpected error occurred' }
+    }
+  }
 }
@@ -1,5 +1,9 @@
 import { supabaseAdmin } from '../supabase'
-import { EmailEvent } from '../../types'
+import { ABTestService, type ABTestVariantStats } from './ab-tests'
+
+// ab_tests.id; older tests are also addressed by their test_id
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
 
 /**
  * A/B Testing and Email Campaign Optimization Service
@@ -112,71 +116,69 @@ export class EmailOptimizationService {
   }
 
   /**
-   * Analyze A/B test results
+   * Analyze A/B test results. The numbers come from ABTestService, which
+   * sends the tests; tests recorded by createABTest are looked up by their
+   * test_id and have no sends to report.
    */
   static async analyzeABTest(testId: string): Promise<{
     results: ABTestResult | null
     error: string | null
   }> {
     try {
-      if (!supabaseAdmin) {
-        throw new Error('Database not available')
-      }
-
-      // Get test configuration
-      const { data: testConfig, error: testError } = await supabaseAdmin
-        .from('ab_tests')
-        .select('*')
-        .eq('test_id', testId)
-        .single()
-
-      if (testError || !testConfig) {
-        return { results: null, error: 'Test not found' }
+      let id = testId
+      if (!UUID_PATTERN.test(testId)) {
+        const { data: legacyTest, error: lookupError } = await supabaseAdmin
+          .from('ab_tests')
+          .select('id')
+          .eq('test_id', testId)
+          .maybeSingle()
+
+        if (lookupError) {
+          return { results: null, error: lookupError.message }
+        }
+        if (!legacyTest) {
+          return { results: null, error: 'Test not found' }
+        }
+        id = legacyTest.id
       }
 
-      // Get email events for both variants
-      const { data: events, error: eventsError } = await supabaseAdmin
-        .from('email_events')
-        .select('*')
-        .eq('campaign_id', (testConfig as any).campaign_id)
-
-      if (eventsError) {
-        return { results: null, error: eventsError.message }
+      const { data, error } = await ABTestService.getResults(id)
+      if (error || !data) {
+        return { results: null, error: error || 'Test not found' }
       }
 
-      // Calculate results for each variant
-      const variantAResults = this.calculateVariantResults(
-        (events as any[])?.filter((e) => e.metadata?.ab_variant === 'a') || []
-      )
-      const variantBResults = this.calculateVariantResults(
-        (events as any[])?.filter((e) => e.metadata?.ab_variant === 'b') || []
-      )
+      // Rates here are percentages; conversions aren't tracked per variant
+      const toVariantResults = (stats: ABTestVariantStats) => ({
+        sent: stats.sent,
+        opened: stats.opened,
+        clicked: stats.clicked,
+        converted: 0,
+        open_rate: stats.open_rate * 100,
+        click_rate: stats.click_rate * 100,
+        conversion_rate: 0,
+      })
 
-      // Determine statistical significance and winner
-      const { winner, significance } = this.calculateStatisticalSignificance(
-        variantAResults,
-        variantBResults,
-        (testConfig as any).success_metric,
-        (testConfig as any).confidence_level
-      )
+      const variantAResults = toVariantResults(data.variant_a)
+      const variantBResults = toVariantResults(data.variant_b)
+      const significance =
+        data.significance[data.test.winner_metric || 'open_rate'].confidence
 
-      // Generate recommendations
       const recommendations = this.generateRecommendations(
         variantAResults,
         variantBResults,
-        testConfig,
-        winner,
+        data.test,
+        data.winner,
         significance
       )
 
       const results: ABTestResult = {
         test_id: testId,
-        status: (testConfig as any).status,
-        start_date: (testConfig as any).start_date,
-        end_date: (testConfig as any).end_date,
+        status: data.test.status,
+        start_date: data.test.start_date || data.test.created_at,
+        end_date: data.test.end_date,
         variant_a_results: variantAResults,
         variant_b_results: variantBResults,
-        winner: winner as 'variant_a' | 'variant_b' | 'inconclusive',
+        winner: data.winner,
         statistical_significance: significance,
         recommendations,
       }
@@ -217,6 +219,7 @@ export class EmailOptimizationService {
         `
         )
         .gte('timestamp', ninetyDaysAgo.toISOString())
+        .eq('is_test', false)
         .in('event_type', ['opened', 'clicked'])
 
       if (error || !events) {
@@ -301,6 +304,7 @@ export class EmailOptimizationService {
       const { data: events, error } = await supabaseAdmin
         .from('email_events')
         .select('*')
+        .eq('is_test', false)
         .gte('timestamp', startDate.toISOString())
 
       if (error || !events) {
@@ -456,61 +460,6 @@ export class EmailOptimizationService {
   }
 
   // Private helper methods
-  private static calculateVariantResults(events: EmailEvent[]) {
-    const sent = events.filter((e) => e.event_type === 'sent').length
-    const opened = events.filter((e) => e.event_type === 'opened').length
-    const clicked = events.filter((e) => e.event_type === 'clicked').length
-    const converted = 0 // Would need conversion tracking
-
-    return {
-      sent,
-      opened,
-      clicked,
-      converted,
-      open_rate: sent > 0 ? (opened / sent) * 100 : 0,
-      click_rate: sent > 0 ? (clicked / sent) * 100 : 0,
-      conversion_rate: sent > 0 ? (converted / sent) * 100 : 0,
-    }
-  }
-
-  private static calculateStatisticalSignificance(
-    variantA: any,
-    variantB: any,
-    metric: string,
-    confidenceLevel: number
-  ) {
-    // Simplified statistical significance calculation
-    // In production, use proper statistical methods like Chi-square test
-    const getMetricValue = (variant: any, metric: string) => {
-      switch (metric) {
-        case 'open_rate':
-          return variant.open_rate
-        case 'click_rate':
-          return variant.click_rate
-        case 'conversion_rate':
-          return variant.conversion_rate
-        default:
-          return 0
-      }
-    }
-
-    const valueA = getMetricValue(variantA, metric)
-    const valueB = getMetricValue(variantB, metric)
-    const difference = Math.abs(valueA - valueB)
-
-    // Simplified significance calculation (would use proper statistical test in production)
-    const significance = Math.min(difference * 10, 99) // Placeholder calculation
-
-    const winner =
-      significance >= 100 - confidenceLevel
-        ? valueA > valueB
-          ? 'variant_a'
-          : 'variant_b'
-        : 'inconclusive'
-
-    return { winner, significance }
-  }
-
   private static generateRecommendations(
     variantA: any,
     variantB: any,
@@ -543,7 +492,7 @@ export class EmailOptimizationService {
       }
     }
 
-    if (significance < 95) {
+    if (significance < (testConfig.confidence_level || 95)) {
       recommendations.push(
         'Statistical significance is low. Results may not be reliable.'
       )
@@ -573,9 +522,10 @@ export class EmailOptimizationService {
     > = {}
 
     events.forEach((event) => {
+      // Reported as UTC, whatever the server's timezone
       const date = new Date(event.timestamp)
-      const hour = date.getHours()
-      const dayOfWeek = date.getDay()
+      const hour = date.getUTCHours()
+      const dayOfWeek = date.getUTCDay()
       const key = `${dayOfWeek}-${hour}`
 
       if (!timeSlots[key]) {
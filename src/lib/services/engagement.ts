@@ -1,4 +1,5 @@
 import { supabaseAdmin } from '@/lib/supabase'
+import { ReferralService } from './referrals'
 import type { BetaSignup } from '../../types'
 
 /**
@@ -17,6 +18,7 @@ export class EngagementService {
       feedback_submissions: number
       profile_completeness: number
       activity_recency: number
+      referrals: number
     }
     error: string | null
   }> {
@@ -42,6 +44,7 @@ export class EngagementService {
             feedback_submissions: 0,
             profile_completeness: 0,
             activity_recency: 0,
+            referrals: 0,
           },
           error: userError.message,
         }
@@ -51,7 +54,8 @@ export class EngagementService {
       const { data: emailEvents, error: emailError } = (await admin
         .from('email_events')
         .select('event_type, timestamp')
-        .eq('user_id', userId)) as any
+        .eq('user_id', userId)
+        .eq('is_test', false)) as any
 
       if (emailError) {
         return {
@@ -61,6 +65,7 @@ export class EngagementService {
             feedback_submissions: 0,
             profile_completeness: 0,
             activity_recency: 0,
+            referrals: 0,
           },
           error: emailError.message,
         }
@@ -80,11 +85,31 @@ export class EngagementService {
             feedback_submissions: 0,
             profile_completeness: 0,
             activity_recency: 0,
+            referrals: 0,
           },
           error: feedbackError.message,
         }
       }
 
+      // Get confirmed referrals made with this user's invite link
+      const { count: referralCount, error: referralError } = user.referral_code
+        ? await ReferralService.getReferralCount(user.referral_code)
+        : { count: 0, error: null }
+
+      if (referralError) {
+        return {
+          score: 0,
+          breakdown: {
+            email_interactions: 0,
+            feedback_submissions: 0,
+            profile_completeness: 0,
+            activity_recency: 0,
+            referrals: 0,
+          },
+          error: referralError,
+        }
+      }
+
       // Calculate email interaction score (0-40 points)
       const emailOpens =
         emailEvents?.filter((e) => e.event_type === 'opened').length || 0
@@ -121,8 +146,18 @@ export class EngagementService {
       else if (daysSinceActivity <= 30) recencyScore = 5
       else if (daysSinceActivity <= 60) recencyScore = 2
 
-      const totalScore =
-        emailInteractionScore + feedbackScore + completenessScore + recencyScore
+      // Calculate referral score (0-20 points)
+      const referralScore = Math.min(20, referralCount * 5)
+
+      // Referrals can make up for other components, but the score stays 0-100
+      const totalScore = Math.min(
+        100,
+        emailInteractionScore +
+          feedbackScore +
+          completenessScore +
+          recencyScore +
+          referralScore
+      )
 
       return {
         score: totalScore,
@@ -131,6 +166,7 @@ export class EngagementService {
           feedback_submissions: feedbackScore,
           profile_completeness: completenessScore,
           activity_recency: recencyScore,
+          referrals: referralScore,
         },
         error: null,
       }
@@ -143,6 +179,7 @@ export class EngagementService {
           feedback_submissions: 0,
           profile_completeness: 0,
           activity_recency: 0,
+          referrals: 0,
         },
         error: 'An unexpected error occurred',
       }
@@ -375,9 +412,12 @@ export class SegmentationService {
   }
 
   /**
-   * Get users ready for early access invitation
+   * Get users ready for early access invitation. With prioritizeReferrers,
+   * candidates with the most confirmed referrals come first.
    */
-  static async getEarlyAccessCandidates(): Promise<{
+  static async getEarlyAccessCandidates(options?: {
+    prioritizeReferrers?: boolean
+  }): Promise<{
     candidates: BetaSignup[]
     error: string | null
   }> {
@@ -393,7 +433,26 @@ export class SegmentationService {
         return { candidates: [], error: error.message }
       }
 
-      return { candidates: users, error: null }
+      if (!options?.prioritizeReferrers) {
+        return { candidates: users, error: null }
+      }
+
+      const { counts, error: countsError } =
+        await ReferralService.getReferralCounts()
+
+      if (countsError) {
+        return { candidates: [], error: countsError }
+      }
+
+      const referralsFor = (user: BetaSignup) =>
+        user.referral_code ? counts[user.referral_code] || 0 : 0
+
+      // Stable sort keeps engagement order among equal referral counts
+      const candidates = [...(users as BetaSignup[])].sort(
+        (a, b) => referralsFor(b) - referralsFor(a)
+      )
+
+      return { candidates, error: null }
     } catch (err) {
       console.error('Error getting early access candidates:', err)
       return { candidates: [], error: 'An unexpected error occurred' }
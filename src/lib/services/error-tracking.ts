@@ -7,6 +7,8 @@
 
 'use client'
 
+import { hasConsent } from '@/lib/consent'
+
 interface ErrorDetails {
   message: string
   stack?: string
@@ -279,6 +281,12 @@ class ErrorTrackingService {
    * Flush error and performance queues
    */
   private async flushQueues() {
+    // Nothing is reported without performance monitoring consent
+    if (!hasConsent('performance')) {
+      this.clearQueues()
+      return
+    }
+
     const errors = this.errorQueue.splice(0, this.batchSize)
     const performanceIssues = this.performanceQueue.splice(0, this.batchSize)
 
@@ -0,0 +1,166 @@
+import { supabaseAdmin } from '../supabase'
+import { EmailEventService } from './database'
+import type { EmailEvent, UserPreferences } from '../../types'
+
+/**
+ * Email Frequency Caps
+ * Limits how much non-transactional mail a user gets, from the
+ * communication_frequency they chose in the preference center plus a
+ * global cap that applies whatever they chose. Checked in the shared send
+ * path (EmailCampaignService.deliver) against the user's recent sends in
+ * email_events. Transactional mail such as signup verification and
+ * preference-center links, and test sends, are exempt.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type CommunicationFrequency = UserPreferences['communication_frequency']
+
+// Sends allowed per rolling window for each communication_frequency
+export const FREQUENCY_CAPS: Record<
+  CommunicationFrequency,
+  { limit: number; window_ms: number }
+> = {
+  daily: { limit: 1, window_ms: DAY_MS },
+  weekly: { limit: 1, window_ms: 7 * DAY_MS },
+  monthly: { limit: 1, window_ms: 30 * DAY_MS },
+}
+
+// Applies to every user, including those who chose daily
+export const GLOBAL_FREQUENCY_CAP = { limit: 3, window_ms: 7 * DAY_MS }
+
+// Users who haven't set a preference get the preference center's default
+const DEFAULT_COMMUNICATION_FREQUENCY: CommunicationFrequency = 'weekly'
+
+// What the send path does with an over-cap send: drop it, or tell the
+// caller when to retry
+export type FrequencyCapAction = 'defer' | 'drop'
+
+export interface FrequencyCapCheck {
+  allowed: boolean
+  frequency: CommunicationFrequency
+  reason: string | null // Which cap the send would exceed
+  retry_at: string | null // When the send would fit under every cap
+}
+
+export class FrequencyCapService {
+  /**
+   * Whether one more email can go to the user now
+   */
+  static async check(
+    userId: string
+  ): Promise<{ data: FrequencyCapCheck | null; error: string | null }> {
+    try {
+      const now = Date.now()
+      const longestWindow = Math.max(
+        GLOBAL_FREQUENCY_CAP.window_ms,
+        ...Object.values(FREQUENCY_CAPS).map((cap) => cap.window_ms)
+      )
+
+      const [preferences, events] = await Promise.all([
+        supabaseAdmin
+          .from('user_preferences')
+          .select('communication_frequency')
+          .eq('user_id', userId)
+          .maybeSingle(),
+        supabaseAdmin
+          .from('email_events')
+          .select('timestamp, metadata')
+          .eq('user_id', userId)
+          .eq('event_type', 'sent')
+          .eq('is_test', false)
+          .gte('timestamp', new Date(now - longestWindow).toISOString())
+          .order('timestamp', { ascending: false }),
+      ])
+
+      if (preferences.error) {
+        return { data: null, error: preferences.error.message }
+      }
+      if (events.error) {
+        return { data: null, error: events.error.message }
+      }
+
+      const frequency: CommunicationFrequency =
+        (
+          preferences.data as Pick<
+            UserPreferences,
+            'communication_frequency'
+          > | null
+        )?.communication_frequency || DEFAULT_COMMUNICATION_FREQUENCY
+
+      // Newest first; failed sends are logged as sent but never arrived
+      const sentAt = (
+        events.data as Array<{
+          timestamp: string
+          metadata: Record<string, unknown> | null
+        }>
+      )
+        .filter((event) => !event.metadata?.failed)
+        .map((event) => new Date(event.timestamp).getTime())
+
+      const caps = [
+        { name: `${frequency} preference`, ...FREQUENCY_CAPS[frequency] },
+        { name: 'global cap', ...GLOBAL_FREQUENCY_CAP },
+      ]
+
+      let reason: string | null = null
+      let retryAt = 0
+
+      for (const cap of caps) {
+        const inWindow = sentAt.filter((time) => time > now - cap.window_ms)
+        if (inWindow.length < cap.limit) {
+          continue
+        }
+
+        // Room opens up when the send that fills the cap leaves the window
+        const capRetryAt = inWindow[cap.limit - 1] + cap.window_ms
+        if (capRetryAt > retryAt) {
+          retryAt = capRetryAt
+          reason = `${inWindow.length} email(s) in the last ${Math.round(
+            cap.window_ms / DAY_MS
+          )} day(s) (${cap.name} allows ${cap.limit})`
+        }
+      }
+
+      return {
+        data: {
+          allowed: reason === null,
+          frequency,
+          reason,
+          retry_at: reason ? new Date(retryAt).toISOString() : null,
+        },
+        error: null,
+      }
+    } catch (err) {
+      console.error('Error in FrequencyCapService.check:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Log a send held back by a cap to email_events, with whether it will be
+   * retried or has been dropped
+   */
+  static async logCapped(event: {
+    user_id: string
+    email_type: EmailEvent['email_type']
+    email_subject: string
+    campaign_id?: string
+    check: FrequencyCapCheck
+    action: 'deferred' | 'dropped'
+  }): Promise<void> {
+    await EmailEventService.logEvent({
+      user_id: event.user_id,
+      email_type: event.email_type,
+      event_type: 'frequency_capped',
+      email_subject: event.email_subject,
+      campaign_id: event.campaign_id,
+      metadata: {
+        action: event.action,
+        reason: event.check.reason,
+        frequency: event.check.frequency,
+        retry_at: event.check.retry_at,
+      },
+    })
+  }
+}
@@ -28,10 +28,68 @@ export {
   type DevelopmentUpdateData,
   type FeedbackRequestData,
   type EmailTemplateData,
+  type CampaignTestSend,
 } from './email-campaigns'
 
 export { SendGridWebhookService } from './sendgrid-webhook'
 
+export { AdminUserService, AdminAuditService, hasRequiredRole } from './admin'
+
+export { ReferralService, type ReferralLeaderboardEntry } from './referrals'
+
+export {
+  ConversionService,
+  type AttributionModel,
+  type AttributionStats,
+  type ConversionReport,
+  type GoalConversionStats,
+} from './conversions'
+
+export {
+  SequenceService,
+  EMAIL_SEQUENCES,
+  type EmailSequence,
+  type SequenceStep,
+  type SequenceCondition,
+  type SequenceId,
+} from './sequences'
+
+export {
+  SuppressionService,
+  SOFT_BOUNCE_THRESHOLD,
+  SOFT_BOUNCE_WINDOW_MS,
+} from './suppressions'
+
+export {
+  FrequencyCapService,
+  FREQUENCY_CAPS,
+  GLOBAL_FREQUENCY_CAP,
+  type CommunicationFrequency,
+  type FrequencyCapAction,
+  type FrequencyCapCheck,
+} from './frequency-caps'
+
+export {
+  SendTimeService,
+  SEND_TIME_WINDOW_MS,
+  type RecipientSendTime,
+} from './send-time'
+
+export {
+  ABTestService,
+  AB_TEST_MIN_GROUP_SIZE,
+  type ABTestResults,
+  type ABTestSampleSize,
+  type ABTestSplit,
+  type ABTestVariantStats,
+} from './ab-tests'
+
+export {
+  SegmentService,
+  type SegmentPreview,
+  type SegmentSampleMember,
+} from './segments'
+
 // Re-export types from other modules
 export type { EmailCampaign } from '../../types'
 
@@ -44,4 +102,17 @@ export type {
   UserPreferences,
   BetaSignupFormData,
   ApiResponse,
+  AdminRole,
+  AdminUser,
+  AdminAuditEntry,
+  EmailSequenceEnrollment,
+  GoalConversion,
+  EmailSuppression,
+  SuppressionReason,
+  EmailCampaignDelivery,
+  ABTest,
+  ABTestMetric,
+  ABTestVariantKey,
+  SavedSegment,
+  SegmentRule,
 } from '../../types'
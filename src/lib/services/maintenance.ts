@@ -1,11 +1,22 @@
 import { supabaseAdmin } from '../supabase'
 import { EngagementService } from './engagement'
+import { BETA_VERIFICATION_WINDOW_MS } from '../unsubscribe-token'
 
 /**
  * Database Maintenance & Monitoring Utilities
  * Provides functions for data cleanup, health checks, and system monitoring
  */
 
+// Raw analytics event tables and the column each is aged out by
+const ANALYTICS_EVENT_TABLES: Array<[string, string]> = [
+  ['page_analytics', 'timestamp'],
+  ['engagement_events', 'occurred_at'],
+  ['web_vitals', 'recorded_at'],
+  ['client_errors', 'occurred_at'],
+  ['performance_issues', 'occurred_at'],
+  ['system_alerts', 'created_at'],
+]
+
 export class DatabaseMaintenanceService {
   /**
    * Clean up old analytics data (older than specified days)
@@ -18,16 +29,21 @@ export class DatabaseMaintenanceService {
       const cutoffDate = new Date()
       cutoffDate.setDate(cutoffDate.getDate() - daysToKeep)
 
-      const { count, error } = await supabaseAdmin
-        .from('page_analytics')
-        .delete({ count: 'exact' })
-        .lt('timestamp', cutoffDate.toISOString())
+      let deleted = 0
+      for (const [table, timestampColumn] of ANALYTICS_EVENT_TABLES) {
+        const { count, error } = await supabaseAdmin
+          .from(table)
+          .delete({ count: 'exact' })
+          .lt(timestampColumn, cutoffDate.toISOString())
 
-      if (error) {
-        return { deleted: 0, error: error.message }
+        if (error) {
+          return { deleted, error: error.message }
+        }
+
+        deleted += count || 0
       }
 
-      return { deleted: count || 0, error: null }
+      return { deleted, error: null }
     } catch (err) {
       console.error('Error cleaning up old analytics:', err)
       return { deleted: 0, error: 'An unexpected error occurred' }
@@ -61,6 +77,36 @@ export class DatabaseMaintenanceService {
     }
   }
 
+  /**
+   * Remove signups that never confirmed their email address within the
+   * verification window (BETA_VERIFICATION_WINDOW_HOURS, default 72 hours)
+   */
+  static async expireUnverifiedSignups(
+    windowMs = BETA_VERIFICATION_WINDOW_MS
+  ): Promise<{
+    deleted: number
+    error: string | null
+  }> {
+    try {
+      const cutoffDate = new Date(Date.now() - windowMs)
+
+      const { count, error } = await supabaseAdmin
+        .from('beta_signups')
+        .delete({ count: 'exact' })
+        .eq('email_verified', false)
+        .lt('created_at', cutoffDate.toISOString())
+
+      if (error) {
+        return { deleted: 0, error: error.message }
+      }
+
+      return { deleted: count || 0, error: null }
+    } catch (err) {
+      console.error('Error expiring unverified signups:', err)
+      return { deleted: 0, error: 'An unexpected error occurred' }
+    }
+  }
+
   /**
    * Update all engagement scores (should be run periodically)
    */
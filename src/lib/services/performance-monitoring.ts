@@ -8,6 +8,7 @@
 'use client'
 
 import { useEffect, useRef } from 'react'
+import { hasConsent } from '@/lib/consent'
 
 interface PerformanceMetrics {
   // Core Web Vitals
@@ -202,6 +203,8 @@ export function usePerformanceMonitoring() {
    * Send performance metrics to analytics
    */
   const sendPerformanceMetrics = async () => {
+    if (!hasConsent('performance')) return
+
     try {
       const metrics: PerformanceMetrics = {
         ...metricsRef.current,
@@ -228,6 +231,8 @@ export function usePerformanceMonitoring() {
    * Track API performance
    */
   const trackAPIPerformance = (metrics: APIPerformanceMetrics) => {
+    if (!hasConsent('performance')) return
+
     try {
       fetch('/api/analytics/api-performance', {
         method: 'POST',
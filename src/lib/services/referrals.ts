@@ -0,0 +1,195 @@
+import crypto from 'crypto'
+import { supabaseAdmin } from '../supabase'
+import type { BetaSignup } from '../../types'
+
+/**
+ * Referral Program Service
+ * Generates per-signup referral codes and credits referrals made through
+ * /beta?ref=CODE invite links. Only confirmed (email-verified) referrals
+ * count, so unconfirmed throwaway signups can't inflate a referrer's total.
+ */
+
+// Unambiguous characters only (no 0/O, 1/I/L) so codes survive being read aloud
+const REFERRAL_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+const REFERRAL_CODE_LENGTH = 8
+
+// PostgREST caps a single response at 1000 rows
+const PAGE_SIZE = 1000
+
+export interface ReferralLeaderboardEntry {
+  user_id: string
+  email: string
+  github_username?: string
+  referral_code: string
+  referral_count: number
+  beta_status: 'pending' | 'invited' | 'active'
+}
+
+export class ReferralService {
+  /**
+   * Generate a new random referral code
+   */
+  static generateCode(): string {
+    const bytes = crypto.randomBytes(REFERRAL_CODE_LENGTH)
+    return Array.from(
+      bytes,
+      (byte) => REFERRAL_CODE_ALPHABET[byte % REFERRAL_CODE_ALPHABET.length]
+    ).join('')
+  }
+
+  /**
+   * Normalise a code typed or pasted by a user
+   */
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase()
+  }
+
+  /**
+   * Shareable invite link for a referral code
+   */
+  static getReferralUrl(code: string): string {
+    const siteUrl =
+      process.env.NEXT_PUBLIC_SITE_URL || 'https://silentscribe.dev'
+    return `${siteUrl}/beta?ref=${encodeURIComponent(code)}`
+  }
+
+  /**
+   * Check that a referral code belongs to an existing signup
+   */
+  static async isValidCode(
+    code: string
+  ): Promise<{ valid: boolean; error: string | null }> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('beta_signups')
+        .select('id')
+        .eq('referral_code', this.normalizeCode(code))
+        .maybeSingle()
+
+      if (error) {
+        return { valid: false, error: error.message }
+      }
+
+      return { valid: !!data, error: null }
+    } catch (err) {
+      console.error('Error in ReferralService.isValidCode:', err)
+      return { valid: false, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Count confirmed referrals for one referral code
+   */
+  static async getReferralCount(
+    code: string
+  ): Promise<{ count: number; error: string | null }> {
+    try {
+      const { count, error } = await supabaseAdmin
+        .from('beta_signups')
+        .select('id', { count: 'exact', head: true })
+        .eq('referrer_code', code)
+        .eq('email_verified', true)
+
+      if (error) {
+        return { count: 0, error: error.message }
+      }
+
+      return { count: count || 0, error: null }
+    } catch (err) {
+      console.error('Error in ReferralService.getReferralCount:', err)
+      return { count: 0, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Count confirmed referrals for every referral code, a page of signups
+   * at a time
+   */
+  static async getReferralCounts(): Promise<{
+    counts: Record<string, number>
+    error: string | null
+  }> {
+    try {
+      const counts: Record<string, number> = {}
+
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        const { data, error } = await supabaseAdmin
+          .from('beta_signups')
+          .select('referrer_code')
+          .eq('email_verified', true)
+          .not('referrer_code', 'is', null)
+          .order('id', { ascending: true })
+          .range(offset, offset + PAGE_SIZE - 1)
+
+        if (error) {
+          return { counts: {}, error: error.message }
+        }
+
+        for (const row of (data || []) as { referrer_code: string }[]) {
+          counts[row.referrer_code] = (counts[row.referrer_code] || 0) + 1
+        }
+
+        if (!data || data.length < PAGE_SIZE) {
+          break
+        }
+      }
+
+      return { counts, error: null }
+    } catch (err) {
+      console.error('Error in ReferralService.getReferralCounts:', err)
+      return { counts: {}, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Top referrers by confirmed referrals (admin only)
+   */
+  static async getLeaderboard(limit = 20): Promise<{
+    data: ReferralLeaderboardEntry[]
+    error: string | null
+  }> {
+    try {
+      const { counts, error: countsError } = await this.getReferralCounts()
+      if (countsError) {
+        return { data: [], error: countsError }
+      }
+
+      const topCodes = Object.entries(counts)
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, limit)
+
+      if (topCodes.length === 0) {
+        return { data: [], error: null }
+      }
+
+      const { data: referrers, error } = await supabaseAdmin
+        .from('beta_signups')
+        .select('id, email, github_username, referral_code, beta_status')
+        .in(
+          'referral_code',
+          topCodes.map(([code]) => code)
+        )
+
+      if (error) {
+        return { data: [], error: error.message }
+      }
+
+      const leaderboard: ReferralLeaderboardEntry[] = (
+        (referrers || []) as BetaSignup[]
+      ).map((referrer) => ({
+        user_id: referrer.id,
+        email: referrer.email,
+        github_username: referrer.github_username,
+        referral_code: referrer.referral_code as string,
+        referral_count: counts[referrer.referral_code as string] || 0,
+        beta_status: referrer.beta_status,
+      }))
+      leaderboard.sort((a, b) => b.referral_count - a.referral_count)
+
+      return { data: leaderboard, error: null }
+    } catch (err) {
+      console.error('Error in ReferralService.getLeaderboard:', err)
+      return { data: [], error: 'An unexpected error occurred' }
+    }
+  }
+}
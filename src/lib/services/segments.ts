@@ -0,0 +1,462 @@
+import { supabaseAdmin } from '../supabase'
+import { SuppressionService } from './suppressions'
+import {
+  evaluateSegmentRule,
+  getSegmentDataNeeds,
+  type SegmentMemberData,
+} from '../segment-rules'
+import type { BetaSignup, SavedSegment, SegmentRule } from '../../types'
+
+/**
+ * Saved Segments
+ * Named audiences defined by a rule tree (see src/lib/segment-rules.ts).
+ * Members are always opted-in, verified and unsuppressed signups that
+ * match the rules; they're worked out on demand, so a campaign scheduled
+ * against a segment goes to whoever matches when it's sent.
+ */
+
+const UNIQUE_VIOLATION = '23505'
+const PAGE_SIZE = 1000
+const DEFAULT_SAMPLE_SIZE = 10
+
+// Campaign statuses that will still resolve their segment
+const PENDING_CAMPAIGN_STATUSES = ['draft', 'scheduled']
+
+// Member fields shown in previews
+export type SegmentSampleMember = Pick<
+  BetaSignup,
+  | 'id'
+  | 'email'
+  | 'beta_status'
+  | 'team_size'
+  | 'engagement_score'
+  | 'current_tools'
+  | 'documentation_platform'
+  | 'created_at'
+>
+
+export interface SegmentPreview {
+  count: number
+  sample: SegmentSampleMember[]
+}
+
+export class SegmentService {
+  /**
+   * List saved segments by name
+   */
+  static async getAll(): Promise<{
+    data: SavedSegment[] | null
+    error: string | null
+  }> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('saved_segments')
+        .select('*')
+        .order('name', { ascending: true })
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+
+      return { data, error: null }
+    } catch (err) {
+      console.error('Error in SegmentService.getAll:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Get a saved segment
+   */
+  static async getById(
+    id: string
+  ): Promise<{ data: SavedSegment | null; error: string | null }> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('saved_segments')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+
+      if (!data) {
+        return { data: null, error: 'Segment not found' }
+      }
+
+      return { data, error: null }
+    } catch (err) {
+      console.error('Error in SegmentService.getById:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Save a new segment
+   */
+  static async create(segment: {
+    name: string
+    description?: string
+    rules: SegmentRule
+    created_by?: string
+  }): Promise<{ data: SavedSegment | null; error: string | null }> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('saved_segments')
+        .insert([
+          {
+            name: segment.name,
+            description: segment.description,
+            rules: segment.rules,
+            created_by: segment.created_by || 'system',
+          },
+        ])
+        .select()
+        .single()
+
+      if (error?.code === UNIQUE_VIOLATION) {
+        return {
+          data: null,
+          error: `A segment named "${segment.name}" already exists`,
+        }
+      }
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+
+      return { data, error: null }
+    } catch (err) {
+      console.error('Error in SegmentService.create:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Rename a segment or change its rules
+   */
+  static async update(
+    id: string,
+    updates: { name?: string; description?: string; rules?: SegmentRule }
+  ): Promise<{ data: SavedSegment | null; error: string | null }> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('saved_segments')
+        .update({
+          ...updates,
+          // A count for the old rules would be misleading
+          ...(updates.rules && { last_count: null, last_counted_at: null }),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .select()
+        .maybeSingle()
+
+      if (error?.code === UNIQUE_VIOLATION) {
+        return {
+          data: null,
+          error: `A segment named "${updates.name}" already exists`,
+        }
+      }
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+
+      if (!data) {
+        return { data: null, error: 'Segment not found' }
+      }
+
+      return { data, error: null }
+    } catch (err) {
+      console.error('Error in SegmentService.update:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Delete a segment. Segments that a scheduled campaign still has to
+   * resolve can't be deleted.
+   */
+  static async delete(
+    id: string
+  ): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const { data: campaigns, error: campaignError } = await supabaseAdmin
+        .from('email_campaigns')
+        .select('campaign_id')
+        .in('status', PENDING_CAMPAIGN_STATUSES)
+        .like('segment_filter', `%"segment_id":"${id}"%`)
+
+      if (campaignError) {
+        return { success: false, error: campaignError.message }
+      }
+
+      if (campaigns && campaigns.length > 0) {
+        return {
+          success: false,
+          error: `Segment is used by scheduled campaign(s): ${campaigns
+            .map((campaign: { campaign_id: string }) => campaign.campaign_id)
+            .join(', ')}`,
+        }
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from('saved_segments')
+        .delete()
+        .eq('id', id)
+        .select('id')
+
+      if (error) {
+        return { success: false, error: error.message }
+      }
+
+      if (!data || data.length === 0) {
+        return { success: false, error: 'Segment not found' }
+      }
+
+      return { success: true, error: null }
+    } catch (err) {
+      console.error('Error in SegmentService.delete:', err)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Count the signups matching a rule tree and show a few of them. Used to
+   * check rules before they're saved.
+   */
+  static async preview(
+    rules: SegmentRule,
+    sampleSize: number = DEFAULT_SAMPLE_SIZE
+  ): Promise<{ data: SegmentPreview | null; error: string | null }> {
+    try {
+      const { data: users, error } = await this.getMatchingUsers(rules)
+
+      if (error || !users) {
+        return { data: null, error: error || 'Failed to resolve segment' }
+      }
+
+      return { data: this.toPreview(users, sampleSize), error: null }
+    } catch (err) {
+      console.error('Error in SegmentService.preview:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Current audience of a saved segment, recording its size
+   */
+  static async previewSegment(
+    id: string,
+    sampleSize: number = DEFAULT_SAMPLE_SIZE
+  ): Promise<{
+    data: (SegmentPreview & { segment: SavedSegment }) | null
+    error: string | null
+  }> {
+    try {
+      const { data: segment, error: segmentError } = await this.getById(id)
+      if (segmentError || !segment) {
+        return { data: null, error: segmentError || 'Segment not found' }
+      }
+
+      const { data: users, error } = await this.getMatchingUsers(segment.rules)
+      if (error || !users) {
+        return { data: null, error: error || 'Failed to resolve segment' }
+      }
+
+      await this.recordCount(id, users.length)
+
+      return {
+        data: { segment, ...this.toPreview(users, sampleSize) },
+        error: null,
+      }
+    } catch (err) {
+      console.error('Error in SegmentService.previewSegment:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Everyone a send to a saved segment should go to
+   */
+  static async getSegmentUsers(
+    id: string
+  ): Promise<{ data: BetaSignup[] | null; error: string | null }> {
+    try {
+      const { data: segment, error: segmentError } = await this.getById(id)
+      if (segmentError || !segment) {
+        return { data: null, error: segmentError || 'Segment not found' }
+      }
+
+      const { data: users, error } = await this.getMatchingUsers(segment.rules)
+      if (error || !users) {
+        return { data: null, error: error || 'Failed to resolve segment' }
+      }
+
+      await this.recordCount(id, users.length)
+
+      return { data: users, error: null }
+    } catch (err) {
+      console.error('Error in SegmentService.getSegmentUsers:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  private static toPreview(
+    users: BetaSignup[],
+    sampleSize: number
+  ): SegmentPreview {
+    return {
+      count: users.length,
+      sample: users.slice(0, sampleSize).map((user) => ({
+        id: user.id,
+        email: user.email,
+        beta_status: user.beta_status,
+        team_size: user.team_size,
+        engagement_score: user.engagement_score,
+        current_tools: user.current_tools,
+        documentation_platform: user.documentation_platform,
+        created_at: user.created_at,
+      })),
+    }
+  }
+
+  private static async recordCount(id: string, count: number): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('saved_segments')
+      .update({ last_count: count, last_counted_at: new Date().toISOString() })
+      .eq('id', id)
+
+    if (error) {
+      console.error('Error recording segment count:', error)
+    }
+  }
+
+  /**
+   * Opted-in, verified, unsuppressed signups matching the rules, newest
+   * first
+   */
+  private static async getMatchingUsers(
+    rules: SegmentRule
+  ): Promise<{ data: BetaSignup[] | null; error: string | null }> {
+    const now = new Date()
+    const needs = getSegmentDataNeeds(rules, now)
+
+    const candidates: BetaSignup[] = []
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from('beta_signups')
+        .select('*')
+        .eq('opted_in_marketing', true)
+        .eq('email_verified', true)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+
+      candidates.push(...(data as BetaSignup[]))
+      if (data.length < PAGE_SIZE) {
+        break
+      }
+    }
+
+    const members = new Map<string, SegmentMemberData>(
+      candidates.map((user) => [
+        user.id,
+        { user, email_events: [], feedback: [] },
+      ])
+    )
+
+    if (needs.email_events.length > 0) {
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        let query = supabaseAdmin
+          .from('email_events')
+          .select('user_id, event_type, timestamp, metadata')
+          .in('event_type', needs.email_events)
+          .eq('is_test', false)
+
+        if (needs.email_events_since) {
+          query = query.gte('timestamp', needs.email_events_since.toISOString())
+        }
+
+        const { data, error } = await query
+          .order('id', { ascending: true })
+          .range(offset, offset + PAGE_SIZE - 1)
+
+        if (error) {
+          return { data: null, error: error.message }
+        }
+
+        for (const event of data as Array<{
+          user_id: string
+          event_type: string
+          timestamp: string
+          metadata: Record<string, unknown> | null
+        }>) {
+          // Failed sends are logged as sent but never arrived
+          if (event.event_type === 'sent' && event.metadata?.failed) {
+            continue
+          }
+          members.get(event.user_id)?.email_events.push(event)
+        }
+
+        if (data.length < PAGE_SIZE) {
+          break
+        }
+      }
+    }
+
+    if (needs.feedback) {
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        const { data, error } = await supabaseAdmin
+          .from('feedback_submissions')
+          .select('id, user_id, feedback_type, rating, submitted_at')
+          .order('id', { ascending: true })
+          .range(offset, offset + PAGE_SIZE - 1)
+
+        if (error) {
+          return { data: null, error: error.message }
+        }
+
+        for (const submission of data as Array<
+          SegmentMemberData['feedback'][number] & { user_id: string }
+        >) {
+          members.get(submission.user_id)?.feedback.push(submission)
+        }
+
+        if (data.length < PAGE_SIZE) {
+          break
+        }
+      }
+    }
+
+    const matching = candidates.filter((user) =>
+      evaluateSegmentRule(rules, members.get(user.id)!, now)
+    )
+
+    const { data: suppressed, error: suppressionError } =
+      await SuppressionService.getSuppressedEmails(
+        matching.map((user) => user.email)
+      )
+
+    if (suppressionError || !suppressed) {
+      return {
+        data: null,
+        error: suppressionError || 'Failed to check suppression list',
+      }
+    }
+
+    return {
+      data: matching.filter(
+        (user) => !suppressed.has(user.email.trim().toLowerCase())
+      ),
+      error: null,
+    }
+  }
+}
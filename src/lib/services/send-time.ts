@@ -0,0 +1,244 @@
+import { supabaseAdmin } from '../supabase'
+
+/**
+ * Per-Recipient Send-Time Optimization
+ * Picks when each recipient of a campaign should get it: the local hour
+ * they have most often opened email at, from their email_events history and
+ * the timezone in user_preferences. Recipients without enough opens get the
+ * best hour across the campaign's segment, and with no history at all the
+ * campaign goes out at the start of its window. Every send lands within
+ * the 24 hours after the campaign's scheduled time.
+ */
+
+export const SEND_TIME_WINDOW_MS = 24 * 60 * 60 * 1000
+
+// Opens a recipient needs before their own history is trusted
+const MIN_RECIPIENT_OPENS = 3
+
+// Opens across the segment needed for a segment-level hour
+const MIN_SEGMENT_OPENS = 20
+
+// How far back to look at opens
+const SEND_TIME_HISTORY_DAYS = 90
+
+// Window positions are checked on a quarter-hour grid, which also lands on
+// the start of the hour in half- and quarter-hour offset timezones
+const SLOT_MS = 15 * 60 * 1000
+
+const USER_LOOKUP_CHUNK_SIZE = 100
+const EVENT_PAGE_SIZE = 1000
+
+export interface RecipientSendTime {
+  send_at: Date
+  local_hour: number | null // Hour in the recipient's timezone
+  timezone: string // 'UTC' when the recipient has none set
+  source: 'recipient' | 'segment' | 'default'
+}
+
+const hourFormatters = new Map<string, Intl.DateTimeFormat>()
+
+/**
+ * Formatter for the hour in a timezone, or null if the timezone is unknown
+ */
+function getHourFormatter(timezone: string): Intl.DateTimeFormat | null {
+  if (!hourFormatters.has(timezone)) {
+    try {
+      hourFormatters.set(
+        timezone,
+        new Intl.DateTimeFormat('en-US', {
+          timeZone: timezone,
+          hour: 'numeric',
+          hourCycle: 'h23',
+        })
+      )
+    } catch {
+      return null
+    }
+  }
+
+  return hourFormatters.get(timezone) || null
+}
+
+/**
+ * Hour of the day (0-23) at an instant in a timezone
+ */
+export function getLocalHour(date: Date, timezone: string): number {
+  const formatter = getHourFormatter(timezone) || getHourFormatter('UTC')
+  return Number(formatter?.format(date)) % 24
+}
+
+/**
+ * The hour with the most opens, counting neighbouring hours at half weight
+ * so a single stray open doesn't decide it. Ties go to the earlier hour.
+ */
+function getBestHour(hours: number[]): number {
+  const counts = new Array(24).fill(0)
+  for (const hour of hours) {
+    counts[hour]++
+  }
+
+  let bestHour = 0
+  let bestScore = -1
+  for (let hour = 0; hour < 24; hour++) {
+    const score =
+      counts[hour] + 0.5 * (counts[(hour + 23) % 24] + counts[(hour + 1) % 24])
+    if (score > bestScore) {
+      bestHour = hour
+      bestScore = score
+    }
+  }
+
+  return bestHour
+}
+
+/**
+ * The first instant in [windowStart, windowStart + 24h) at which it is
+ * `hour` o'clock in the timezone. The window start itself counts if it's
+ * already that hour there.
+ */
+export function getNextLocalHour(
+  windowStart: Date,
+  hour: number,
+  timezone: string
+): Date {
+  const start = windowStart.getTime()
+
+  if (getLocalHour(windowStart, timezone) === hour) {
+    return windowStart
+  }
+
+  const firstSlot = Math.ceil(start / SLOT_MS) * SLOT_MS
+  for (
+    let time = firstSlot;
+    time < start + SEND_TIME_WINDOW_MS;
+    time += SLOT_MS
+  ) {
+    if (getLocalHour(new Date(time), timezone) === hour) {
+      return new Date(time)
+    }
+  }
+
+  // Only reachable for an hour skipped by a DST change
+  return windowStart
+}
+
+export class SendTimeService {
+  /**
+   * Work out when to send to each user within the 24 hours from
+   * `windowStart`. Returns send times keyed by user id.
+   */
+  static async getRecipientSendTimes(
+    userIds: string[],
+    windowStart: Date
+  ): Promise<{
+    data: Map<string, RecipientSendTime> | null
+    error: string | null
+  }> {
+    try {
+      const timezones = new Map<string, string>()
+      const openTimes = new Map<string, Date[]>()
+      const since = new Date(
+        Date.now() - SEND_TIME_HISTORY_DAYS * 24 * 60 * 60 * 1000
+      ).toISOString()
+
+      for (let i = 0; i < userIds.length; i += USER_LOOKUP_CHUNK_SIZE) {
+        const chunk = userIds.slice(i, i + USER_LOOKUP_CHUNK_SIZE)
+
+        const preferences = await supabaseAdmin
+          .from('user_preferences')
+          .select('user_id, timezone')
+          .in('user_id', chunk)
+          .not('timezone', 'is', null)
+
+        if (preferences.error) {
+          return { data: null, error: preferences.error.message }
+        }
+
+        for (const row of preferences.data as Array<{
+          user_id: string
+          timezone: string
+        }>) {
+          if (getHourFormatter(row.timezone)) {
+            timezones.set(row.user_id, row.timezone)
+          }
+        }
+
+        for (let offset = 0; ; offset += EVENT_PAGE_SIZE) {
+          const opens = await supabaseAdmin
+            .from('email_events')
+            .select('user_id, timestamp')
+            .in('user_id', chunk)
+            .eq('event_type', 'opened')
+            .eq('is_test', false)
+            .gte('timestamp', since)
+            .order('id', { ascending: true })
+            .range(offset, offset + EVENT_PAGE_SIZE - 1)
+
+          if (opens.error) {
+            return { data: null, error: opens.error.message }
+          }
+
+          for (const row of opens.data as Array<{
+            user_id: string
+            timestamp: string
+          }>) {
+            const userOpens = openTimes.get(row.user_id) || []
+            userOpens.push(new Date(row.timestamp))
+            openTimes.set(row.user_id, userOpens)
+          }
+
+          if (opens.data.length < EVENT_PAGE_SIZE) {
+            break
+          }
+        }
+      }
+
+      // Segment-level hour, in each opener's own local time
+      const segmentHours: number[] = []
+      openTimes.forEach((opens, userId) => {
+        const timezone = timezones.get(userId) || 'UTC'
+        for (const openedAt of opens) {
+          segmentHours.push(getLocalHour(openedAt, timezone))
+        }
+      })
+      const segmentHour =
+        segmentHours.length >= MIN_SEGMENT_OPENS
+          ? getBestHour(segmentHours)
+          : null
+
+      const sendTimes = new Map<string, RecipientSendTime>()
+      for (const userId of userIds) {
+        const timezone = timezones.get(userId) || 'UTC'
+        const opens = openTimes.get(userId) || []
+
+        const recipientHour =
+          opens.length >= MIN_RECIPIENT_OPENS
+            ? getBestHour(
+                opens.map((openedAt) => getLocalHour(openedAt, timezone))
+              )
+            : null
+        const localHour = recipientHour ?? segmentHour
+
+        sendTimes.set(userId, {
+          send_at:
+            localHour === null
+              ? windowStart
+              : getNextLocalHour(windowStart, localHour, timezone),
+          local_hour: localHour,
+          timezone,
+          source:
+            recipientHour !== null
+              ? 'recipient'
+              : segmentHour !== null
+                ? 'segment'
+                : 'default',
+        })
+      }
+
+      return { data: sendTimes, error: null }
+    } catch (err) {
+      console.error('Error in SendTimeService.getRecipientSendTimes:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+}
@@ -1,28 +1,30 @@
-import { NextApiRequest, NextApiResponse } from 'next'
-import crypto from 'crypto'
-import { EmailEventService } from '@/lib/services'
+import { supabaseAdmin } from '../supabase'
+import { BetaSignupService } from './database'
+import { SuppressionService } from './suppressions'
+import type { EmailEvent } from '../../types'
 
 /**
- * SendGrid Webhook Handler
- * Processes delivery events: sent, delivered, opened, clicked, bounce, dropped, spamreport, unsubscribe
+ * SendGrid Event Webhook pipeline
+ * Applies batches of delivery events (delivered, open, click, bounce,
+ * dropped, spamreport, unsubscribe, group_unsubscribe) to email_events,
+ * email_bounces, spam_complaints and beta_signups. Hard bounces, spam
+ * complaints and repeated soft bounces go on the suppression list.
+ *
+ * SendGrid retries a batch until it gets a 2xx, so every event is claimed
+ * by sg_event_id in sendgrid_processed_events first and repeats are skipped.
+ * Rows are also written with sg_event_id as a unique key, so a redelivered
+ * event never stores a row twice, and events whose rows the database
+ * rejects are dead-lettered rather than retried.
  *
  * Webhook ID: 6ae42398-d7a8-451a-bfdc-cfca20225273
- * Events: sent, delivered, opened, clicked, bounce, dropped, spamreport, unsubscribe
  */
 
-interface SendGridEvent {
+export interface SendGridEvent {
   email: string
   timestamp: number
-  event:
-    | 'delivered'
-    | 'opened'
-    | 'clicked'
-    | 'bounce'
-    | 'dropped'
-    | 'spamreport'
-    | 'unsubscribe'
+  event: string
   sg_event_id: string
-  sg_message_id: string
+  sg_message_id?: string
   useragent?: string
   ip?: string
   url?: string
@@ -36,253 +38,590 @@ interface SendGridEvent {
   email_type?: string
   campaign_id?: string
   sent_at?: string
+  is_test?: string // 'true' for test sends to seed addresses
 }
 
-export class SendGridWebhookService {
-  private static verifyWebhookSignature(
-    publicKey: string,
-    payload: string,
-    signature: string,
-    timestamp: string
-  ): boolean {
-    try {
-      const timestampedPayload = timestamp + payload
-      const expectedSignature = crypto
-        .createHmac('sha256', publicKey)
-        .update(timestampedPayload)
-        .digest('base64')
-
-      return crypto.timingSafeEqual(
-        Buffer.from(signature, 'base64'),
-        Buffer.from(expectedSignature, 'base64')
-      )
-    } catch (err) {
-      console.error('Error verifying webhook signature:', err)
-      return false
-    }
+export interface WebhookEventFailure {
+  sg_event_id: string | null
+  event: string | null
+  error: string
+  retryable: boolean // False for malformed events a retry can't fix
+}
+
+export interface WebhookBatchResult {
+  received: number
+  processed: number
+  duplicates: number
+  skipped: number // Event types we don't track, or unknown recipients
+  failed: WebhookEventFailure[]
+}
+
+// SendGrid event names mapped to email_events.event_type. 'processed' and
+// 'deferred' are ignored: sends are logged when the API call is made.
+const EVENT_TYPE_MAP: Record<string, EmailEvent['event_type']> = {
+  delivered: 'delivered',
+  open: 'opened',
+  opened: 'opened',
+  click: 'clicked',
+  clicked: 'clicked',
+  bounce: 'bounced',
+  dropped: 'bounced',
+  spamreport: 'spam_report',
+  unsubscribe: 'unsubscribe',
+  group_unsubscribe: 'group_unsubscribe',
+}
+
+const EMAIL_TYPES: EmailEvent['email_type'][] = [
+  'welcome',
+  'update',
+  'early_access',
+  'feedback_request',
+  're_engagement',
+  'monthly_newsletter',
+]
+
+// Events that change the recipient's address status even if they aren't a
+// beta signup we can find
+const ADDRESS_EVENTS = [
+  'bounce',
+  'dropped',
+  'spamreport',
+  'unsubscribe',
+  'group_unsubscribe',
+]
+
+// Same increments as EmailEventService.logEvent
+const ENGAGEMENT_INCREMENTS: Partial<Record<EmailEvent['event_type'], number>> =
+  {
+    opened: 2,
+    clicked: 5,
+  }
+
+// Emails per beta_signups lookup or update, to keep .in() filters short
+const EMAIL_LOOKUP_CHUNK_SIZE = 100
+
+// Postgres error classes for bad data (22) and constraint violations (23).
+// Writing the same row again fails the same way, so these aren't retried.
+const PERMANENT_ERROR_CLASSES = ['22', '23']
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
   }
+  return chunks
+}
+
+function isHardBounce(event: SendGridEvent): boolean {
+  return event.event === 'bounce' && event.type !== 'blocked'
+}
+
+function isPermanentError(error: { code?: string }): boolean {
+  return PERMANENT_ERROR_CLASSES.includes((error.code || '').substring(0, 2))
+}
 
+export class SendGridWebhookService {
   /**
-   * Process SendGrid webhook events
+   * Apply a batch of webhook events. Each table is written with one bulk
+   * insert, falling back to one row at a time if that fails. An event
+   * whose write fails is reported in `failed`: its claim is released so a
+   * redelivery can process it again, unless the database rejected the row
+   * itself, in which case the event is dead-lettered.
    */
-  static async processWebhookEvents(
-    req: NextApiRequest,
-    res: NextApiResponse
-  ): Promise<void> {
+  static async processEvents(payload: unknown[]): Promise<{
+    data: WebhookBatchResult | null
+    error: string | null
+  }> {
     try {
-      // Verify webhook signature if public key is configured
-      const publicKey = process.env.SENDGRID_WEBHOOK_PUBLIC_KEY
-      if (publicKey) {
-        const signature = req.headers[
-          'x-twilio-email-event-webhook-signature'
-        ] as string
-        const timestamp = req.headers[
-          'x-twilio-email-event-webhook-timestamp'
-        ] as string
-        const payload = JSON.stringify(req.body)
-
-        if (!signature || !timestamp) {
-          console.error('Missing webhook signature or timestamp')
-          return res.status(401).json({ error: 'Unauthorized' })
+      const result: WebhookBatchResult = {
+        received: payload.length,
+        processed: 0,
+        duplicates: 0,
+        skipped: 0,
+        failed: [],
+      }
+
+      // Validate, drop untracked event types and repeats within the batch
+      const events = new Map<string, SendGridEvent>()
+      for (const item of payload) {
+        const event = item as Partial<SendGridEvent> | null
+        if (
+          !event ||
+          typeof event.sg_event_id !== 'string' ||
+          typeof event.event !== 'string' ||
+          typeof event.email !== 'string'
+        ) {
+          result.failed.push({
+            sg_event_id:
+              typeof event?.sg_event_id === 'string' ? event.sg_event_id : null,
+            event: typeof event?.event === 'string' ? event.event : null,
+            error: 'Missing sg_event_id, event or email',
+            retryable: false,
+          })
+          continue
+        }
+
+        if (!EVENT_TYPE_MAP[event.event]) {
+          result.skipped++
+          continue
+        }
+
+        if (events.has(event.sg_event_id)) {
+          result.duplicates++
+          continue
+        }
+
+        events.set(event.sg_event_id, event as SendGridEvent)
+      }
+
+      if (events.size === 0) {
+        return { data: result, error: null }
+      }
+
+      // Claim every event. Only rows that didn't exist yet come back.
+      const { data: claimed, error: claimError } = await supabaseAdmin
+        .from('sendgrid_processed_events')
+        .upsert(
+          Array.from(events.values()).map((event) => ({
+            sg_event_id: event.sg_event_id,
+            event_type: event.event,
+            email: event.email,
+          })),
+          { onConflict: 'sg_event_id', ignoreDuplicates: true }
+        )
+        .select('sg_event_id')
+
+      if (claimError) {
+        return { data: null, error: claimError.message }
+      }
+
+      const claimedIds = new Set<string>(
+        (claimed || []).map((row: { sg_event_id: string }) => row.sg_event_id)
+      )
+      result.duplicates += events.size - claimedIds.size
+
+      const claimedEvents = Array.from(events.values()).filter((event) =>
+        claimedIds.has(event.sg_event_id)
+      )
+
+      const { data: userIds, error: lookupError } =
+        await this.getUserIds(claimedEvents)
+
+      if (lookupError || !userIds) {
+        await this.releaseClaims(Array.from(claimedIds))
+        return { data: null, error: lookupError || 'Failed to look up users' }
+      }
+
+      const failures = new Map<string, string>()
+      const deadLetters = new Map<string, string>()
+      const skippedIds = new Set<string>()
+
+      const emailEventRows: Array<{
+        sg_event_id: string
+        row: Record<string, unknown>
+      }> = []
+      const bounceRows: typeof emailEventRows = []
+      const spamRows: typeof emailEventRows = []
+      const hardBounces: SendGridEvent[] = []
+      const spamReports: SendGridEvent[] = []
+      const unsubscribes: SendGridEvent[] = []
+      const engagementEvents: Array<{
+        sg_event_id: string
+        user_id: string
+        increment: number
+      }> = []
+
+      for (const event of claimedEvents) {
+        const eventType = EVENT_TYPE_MAP[event.event]
+        const userId = event.user_id || userIds.get(event.email)
+        const timestamp = new Date(
+          (event.timestamp || Date.now() / 1000) * 1000
+        ).toISOString()
+
+        if (event.event === 'bounce' || event.event === 'dropped') {
+          bounceRows.push({
+            sg_event_id: event.sg_event_id,
+            row: {
+              email: event.email,
+              bounce_type: isHardBounce(event) ? 'hard' : 'soft',
+              reason: event.reason,
+              status_code: event.status,
+              response_text: event.response,
+              sg_event_id: event.sg_event_id,
+              timestamp,
+            },
+          })
+          if (isHardBounce(event)) {
+            hardBounces.push(event)
+          }
+        } else if (event.event === 'spamreport') {
+          spamRows.push({
+            sg_event_id: event.sg_event_id,
+            row: {
+              email: event.email,
+              sg_event_id: event.sg_event_id,
+              timestamp,
+              metadata: {
+                sg_message_id: event.sg_message_id,
+                user_agent: event.useragent,
+                ip: event.ip,
+              },
+            },
+          })
+          spamReports.push(event)
+        } else if (
+          event.event === 'unsubscribe' ||
+          event.event === 'group_unsubscribe'
+        ) {
+          unsubscribes.push(event)
+        }
+
+        // Bounces, complaints and unsubscribes are applied by address;
+        // email_events rows need a known signup
+        if (!userId) {
+          if (!ADDRESS_EVENTS.includes(event.event)) {
+            skippedIds.add(event.sg_event_id)
+          }
+          continue
+        }
+
+        emailEventRows.push({
+          sg_event_id: event.sg_event_id,
+          row: {
+            user_id: userId,
+            email_type: EMAIL_TYPES.includes(
+              event.email_type as EmailEvent['email_type']
+            )
+              ? event.email_type
+              : 'update',
+            event_type: eventType,
+            campaign_id: event.campaign_id || null,
+            is_test: event.is_test === 'true',
+            sg_event_id: event.sg_event_id,
+            timestamp,
+            metadata: {
+              sg_event_id: event.sg_event_id,
+              sg_message_id: event.sg_message_id,
+              ip: event.ip,
+              useragent: event.useragent,
+              url: event.url,
+              reason: event.reason,
+              bounce_type: event.type,
+              status: event.status,
+            },
+          },
+        })
+
+        // Test sends went to a seed address, not to the user they were
+        // personalized for
+        const increment =
+          event.is_test === 'true'
+            ? undefined
+            : ENGAGEMENT_INCREMENTS[eventType]
+        if (increment) {
+          engagementEvents.push({
+            sg_event_id: event.sg_event_id,
+            user_id: userId,
+            increment,
+          })
         }
+      }
+
+      await this.insertRows(
+        'email_events',
+        emailEventRows,
+        failures,
+        deadLetters
+      )
+      await this.insertRows('email_bounces', bounceRows, failures, deadLetters)
+      await this.insertRows('spam_complaints', spamRows, failures, deadLetters)
+
+      await this.updateSignups(
+        hardBounces,
+        (event) => ({
+          opted_in_marketing: false,
+          email_status: 'bounced',
+          bounce_reason: event.reason,
+        }),
+        failures
+      )
+      await this.updateSignups(
+        spamReports,
+        () => ({
+          opted_in_marketing: false,
+          opted_in_research: false,
+          email_status: 'spam_complaint',
+        }),
+        failures
+      )
+      await this.updateSignups(
+        unsubscribes,
+        () => ({
+          opted_in_marketing: false,
+          email_status: 'unsubscribed',
+        }),
+        failures
+      )
+
+      await this.suppress(hardBounces, 'hard_bounce', failures)
+      await this.suppress(spamReports, 'spam_complaint', failures)
+
+      // The soft bounce rule is re-checked on every new soft bounce, so a
+      // failure here only delays suppression
+      const softBounceEmails = bounceRows
+        .filter(
+          ({ sg_event_id, row }) =>
+            row.bounce_type === 'soft' &&
+            !failures.has(sg_event_id) &&
+            !deadLetters.has(sg_event_id)
+        )
+        .map(({ row }) => row.email as string)
+      const { error: softBounceError } =
+        await SuppressionService.applySoftBounceRule(softBounceEmails)
+      if (softBounceError) {
+        console.error('Error applying soft bounce rule:', softBounceError)
+      }
 
-        const isValid = this.verifyWebhookSignature(
-          publicKey,
-          payload,
-          signature,
-          timestamp
+      // Scores are a side effect of events that are already stored, so a
+      // failure here is logged rather than failing the event
+      const engagement = new Map<string, number>()
+      engagementEvents
+        .filter(
+          (entry) =>
+            !failures.has(entry.sg_event_id) &&
+            !deadLetters.has(entry.sg_event_id)
         )
-        if (!isValid) {
-          console.error('Invalid webhook signature')
-          return res.status(401).json({ error: 'Unauthorized' })
+        .forEach((entry) => {
+          engagement.set(
+            entry.user_id,
+            (engagement.get(entry.user_id) || 0) + entry.increment
+          )
+        })
+
+      for (const [userId, increment] of engagement) {
+        const { error } = await BetaSignupService.updateEngagementScore(
+          userId,
+          increment
+        )
+        if (error) {
+          console.error(`Error updating engagement score for ${userId}:`, error)
         }
       }
 
-      const events: SendGridEvent[] = Array.isArray(req.body)
-        ? req.body
-        : [req.body]
+      if (failures.size > 0) {
+        await this.releaseClaims(Array.from(failures.keys()))
+      }
 
-      for (const event of events) {
-        await this.processEvent(event)
+      // A retryable failure wins; the redelivery will dead-letter the event
+      // if its row is rejected again
+      const deadLettered = new Map(
+        Array.from(deadLetters).filter(
+          ([sgEventId]) => !failures.has(sgEventId)
+        )
+      )
+      if (deadLettered.size > 0) {
+        await this.markDeadLetters(deadLettered)
       }
 
-      res.status(200).json({ message: 'Events processed successfully' })
+      for (const event of claimedEvents) {
+        const failure = failures.get(event.sg_event_id)
+        const deadLetter = deadLettered.get(event.sg_event_id)
+        if (failure) {
+          result.failed.push({
+            sg_event_id: event.sg_event_id,
+            event: event.event,
+            error: failure,
+            retryable: true,
+          })
+        } else if (deadLetter) {
+          result.failed.push({
+            sg_event_id: event.sg_event_id,
+            event: event.event,
+            error: deadLetter,
+            retryable: false,
+          })
+        } else if (skippedIds.has(event.sg_event_id)) {
+          result.skipped++
+        } else {
+          result.processed++
+        }
+      }
+
+      return { data: result, error: null }
     } catch (err) {
-      console.error('Error processing SendGrid webhook:', err)
-      res.status(500).json({ error: 'Internal server error' })
+      console.error('Error in SendGridWebhookService.processEvents:', err)
+      return { data: null, error: 'An unexpected error occurred' }
     }
   }
 
   /**
-   * Process individual SendGrid event
+   * Map recipient addresses to beta signup IDs
    */
-  private static async processEvent(event: SendGridEvent): Promise<void> {
-    try {
-      console.log('Processing SendGrid event:', {
-        event: event.event,
-        email: event.email,
-        sg_event_id: event.sg_event_id,
-      })
+  private static async getUserIds(
+    events: SendGridEvent[]
+  ): Promise<{ data: Map<string, string> | null; error: string | null }> {
+    const userIds = new Map<string, string>()
+    const emails = Array.from(
+      new Set(
+        events.filter((event) => !event.user_id).map((event) => event.email)
+      )
+    )
 
-      // Map SendGrid event types to our database event types
-      let eventType: 'sent' | 'delivered' | 'opened' | 'clicked'
-
-      switch (event.event) {
-        case 'delivered':
-          eventType = 'delivered'
-          break
-        case 'opened':
-          eventType = 'opened'
-          break
-        case 'clicked':
-          eventType = 'clicked'
-          break
-        case 'bounce':
-        case 'dropped':
-        case 'spamreport':
-          // Handle bounces and spam reports separately
-          await this.handleBounceOrSpam(event)
-          return
-        case 'unsubscribe':
-          await this.handleUnsubscribe(event)
-          return
-        default:
-          console.log('Unhandled event type:', event.event)
-          return
+    for (const emailChunk of chunk(emails, EMAIL_LOOKUP_CHUNK_SIZE)) {
+      const { data, error } = await supabaseAdmin
+        .from('beta_signups')
+        .select('id, email')
+        .in('email', emailChunk)
+
+      if (error) {
+        return { data: null, error: error.message }
       }
 
-      // Find user_id from custom args or email lookup
-      let userId = event.user_id
+      ;(data || []).forEach((user: { id: string; email: string }) => {
+        userIds.set(user.email, user.id)
+      })
+    }
 
-      if (!userId) {
-        // Fallback: lookup user by email
-        const { BetaSignupService } = await import('@/lib/services')
-        const { data: user } = await BetaSignupService.getByEmail(event.email)
+    return { data: userIds, error: null }
+  }
 
-        if (user) {
-          userId = user.id
-        } else {
-          console.log('User not found for email:', event.email)
-          return
-        }
-      }
+  /**
+   * Insert all rows for one table, skipping events already stored. If the
+   * bulk insert fails, rows are retried one at a time so a bad row doesn't
+   * hold back the rest; rows the database rejects go in `deadLetters`,
+   * other failures in `failures`.
+   */
+  private static async insertRows(
+    table: 'email_events' | 'email_bounces' | 'spam_complaints',
+    rows: Array<{ sg_event_id: string; row: Record<string, unknown> }>,
+    failures: Map<string, string>,
+    deadLetters: Map<string, string>
+  ): Promise<void> {
+    if (rows.length === 0) {
+      return
+    }
 
-      // Log the email event
-      const { error } = await EmailEventService.logEvent({
-        user_id: userId,
-        email_type: (event.email_type as any) || 'unknown',
-        event_type: eventType,
-        campaign_id: event.campaign_id || undefined,
-        metadata: {
-          sg_event_id: event.sg_event_id,
-          sg_message_id: event.sg_message_id,
-          timestamp: event.timestamp,
-          ip: event.ip,
-          useragent: event.useragent,
-          url: event.url, // For click events
-        },
-      })
+    const { error } = await supabaseAdmin.from(table).upsert(
+      rows.map(({ row }) => row),
+      { onConflict: 'sg_event_id', ignoreDuplicates: true }
+    )
 
-      if (error) {
-        console.error('Error logging email event:', error)
+    if (!error) {
+      return
+    }
+
+    console.error(`Error inserting SendGrid events into ${table}:`, error)
+
+    for (const { sg_event_id, row } of rows) {
+      const { error: rowError } = await supabaseAdmin
+        .from(table)
+        .upsert(row, { onConflict: 'sg_event_id', ignoreDuplicates: true })
+
+      if (rowError) {
+        const target = isPermanentError(rowError) ? deadLetters : failures
+        target.set(sg_event_id, `${table}: ${rowError.message}`)
       }
-    } catch (err) {
-      console.error('Error processing event:', err, event)
     }
   }
 
   /**
-   * Handle bounce, dropped, or spam report events
+   * Apply the same status change to every signup an event refers to.
+   * Events that produce identical updates are written together.
    */
-  private static async handleBounceOrSpam(event: SendGridEvent): Promise<void> {
-    try {
-      const { supabaseAdmin } = await import('@/lib/supabase')
+  private static async updateSignups(
+    events: SendGridEvent[],
+    getUpdate: (event: SendGridEvent) => Record<string, unknown>,
+    failures: Map<string, string>
+  ): Promise<void> {
+    const groups = new Map<
+      string,
+      { update: Record<string, unknown>; events: SendGridEvent[] }
+    >()
+
+    events.forEach((event) => {
+      const update = getUpdate(event)
+      const key = JSON.stringify(update)
+      if (!groups.has(key)) {
+        groups.set(key, { update, events: [] })
+      }
+      groups.get(key)!.events.push(event)
+    })
 
-      if (event.event === 'bounce' || event.event === 'dropped') {
-        // Log to bounces table
-        await supabaseAdmin.from('email_bounces').insert([
-          {
-            email: event.email,
-            bounce_type: event.type === 'bounce' ? 'hard' : 'soft',
-            reason: event.reason,
-            status_code: event.status,
-            response_text: event.response,
-            sg_event_id: event.sg_event_id,
-          },
-        ])
+    for (const group of groups.values()) {
+      const emails = Array.from(new Set(group.events.map((e) => e.email)))
 
-        // Update user email status
-        await supabaseAdmin
+      for (const emailChunk of chunk(emails, EMAIL_LOOKUP_CHUNK_SIZE)) {
+        const { error } = await supabaseAdmin
           .from('beta_signups')
-          .update({
-            email_status: 'bounced',
-            bounce_reason: event.reason,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('email', event.email)
-      } else if (event.event === 'spamreport') {
-        // Log spam complaint
-        await supabaseAdmin.from('spam_complaints').insert([
-          {
-            email: event.email,
-            sg_event_id: event.sg_event_id,
-            metadata: {
-              sg_message_id: event.sg_message_id,
-              timestamp: event.timestamp,
-            },
-          },
-        ])
-
-        // Update user email status
-        await supabaseAdmin
-          .from('beta_signups')
-          .update({
-            email_status: 'spam_complaint',
-            updated_at: new Date().toISOString(),
-          })
-          .eq('email', event.email)
+          .update({ ...group.update, updated_at: new Date().toISOString() })
+          .in('email', emailChunk)
+
+        if (error) {
+          console.error('Error updating signups from SendGrid events:', error)
+          group.events
+            .filter((event) => emailChunk.includes(event.email))
+            .forEach((event) => {
+              failures.set(event.sg_event_id, `beta_signups: ${error.message}`)
+            })
+        }
       }
-    } catch (err) {
-      console.error('Error handling bounce/spam event:', err)
     }
   }
 
   /**
-   * Handle unsubscribe events
+   * Add the recipients of these events to the suppression list
    */
-  private static async handleUnsubscribe(event: SendGridEvent): Promise<void> {
-    try {
-      const { supabaseAdmin } = await import('@/lib/supabase')
+  private static async suppress(
+    events: SendGridEvent[],
+    reason: 'hard_bounce' | 'spam_complaint',
+    failures: Map<string, string>
+  ): Promise<void> {
+    const { error } = await SuppressionService.suppressMany(
+      events.map((event) => ({
+        email: event.email,
+        reason,
+        details: event.reason,
+      }))
+    )
+
+    if (error) {
+      console.error('Error suppressing addresses from SendGrid events:', error)
+      events.forEach((event) => {
+        failures.set(event.sg_event_id, `email_suppressions: ${error}`)
+      })
+    }
+  }
 
-      // Update user marketing opt-in status
-      await supabaseAdmin
-        .from('beta_signups')
-        .update({
-          opted_in_marketing: false,
-          email_status: 'unsubscribed',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('email', event.email)
-
-      // Log the unsubscribe event for tracking
-      const { BetaSignupService } = await import('@/lib/services')
-      const { data: user } = await BetaSignupService.getByEmail(event.email)
-
-      if (user) {
-        await EmailEventService.logEvent({
-          user_id: user.id,
-          email_type: 'system' as any,
-          event_type: 'clicked', // Use clicked as closest analog
-          campaign_id: event.campaign_id || undefined,
-          metadata: {
-            action: 'unsubscribe',
-            sg_event_id: event.sg_event_id,
-            timestamp: event.timestamp,
-          },
-        })
+  /**
+   * Keep the claims of events that can't be stored, with the reason, so
+   * redeliveries skip them
+   */
+  private static async markDeadLetters(
+    deadLetters: Map<string, string>
+  ): Promise<void> {
+    for (const [sgEventId, reason] of deadLetters) {
+      const { error } = await supabaseAdmin
+        .from('sendgrid_processed_events')
+        .update({ status: 'dead_letter', error: reason })
+        .eq('sg_event_id', sgEventId)
+
+      if (error) {
+        console.error('Error dead-lettering SendGrid event:', error)
       }
-    } catch (err) {
-      console.error('Error handling unsubscribe event:', err)
+    }
+  }
+
+  /**
+   * Forget claims so SendGrid's redelivery of these events is processed
+   */
+  private static async releaseClaims(sgEventIds: string[]): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('sendgrid_processed_events')
+      .delete()
+      .in('sg_event_id', sgEventIds)
+
+    if (error) {
+      console.error('Error releasing SendGrid event claims:', error)
     }
   }
 
@@ -310,6 +649,7 @@ export class SendGridWebhookService {
       const { data: events, error: eventsError } = await supabaseAdmin
         .from('email_events')
         .select('event_type')
+        .eq('is_test', false)
         .gte('timestamp', startDate.toISOString())
 
       if (eventsError) {
@@ -0,0 +1,432 @@
+import { supabaseAdmin } from '../supabase'
+import { EmailCampaignService } from './email-campaigns'
+import type { BetaSignup, EmailSequenceEnrollment } from '../../types'
+
+/**
+ * Drip Sequence Engine
+ * Sequences are ordered email steps sent with delays between them. Each
+ * user's progress is stored in email_sequence_enrollments and advanced by
+ * the /api/cron/run-sequences runner.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// How long to wait before re-checking a step that is waiting on a condition
+// or whose send failed
+const SEQUENCE_RETRY_DELAY_MS = 60 * 60 * 1000
+
+// Consecutive send failures before a user is taken out of a sequence
+const SEQUENCE_MAX_FAILED_ATTEMPTS = 3
+
+// A runner claims an enrollment by pushing next_run_at this far ahead, so
+// overlapping runs skip it while it's being processed
+const SEQUENCE_CLAIM_LEASE_MS = 10 * 60 * 1000
+
+const SEQUENCE_RUN_BATCH_SIZE = 100
+
+export type SequenceCondition =
+  | { type: 'email_verified' }
+  | { type: 'opted_in_marketing' }
+  | { type: 'beta_status'; in: Array<BetaSignup['beta_status']> }
+  // The user opened the email sent by an earlier step of this sequence
+  | { type: 'opened_step'; step: string }
+  | { type: 'not'; condition: SequenceCondition }
+
+export interface SequenceStep {
+  id: string
+  delay_ms: number // After the previous step (or enrollment, for the first)
+  wait_for?: SequenceCondition[] // Hold the step until all are true
+  only_if?: SequenceCondition[] // Skip the step unless all are true
+  skip_if?: SequenceCondition[] // Skip the step if any is true
+  // Sends over the user's frequency cap should be deferred
+  // (on_frequency_cap: 'defer'); the step is retried at deferred_until
+  send: (
+    user: BetaSignup,
+    campaignId: string
+  ) => Promise<{
+    success: boolean
+    error: string | null
+    deferred_until?: string
+  }>
+}
+
+export interface EmailSequence {
+  id: string
+  name: string
+  exit_if?: SequenceCondition[] // Leave the sequence if any is true
+  steps: SequenceStep[]
+}
+
+export type SequenceId = 'welcome_series'
+
+export const EMAIL_SEQUENCES: Record<SequenceId, EmailSequence> = {
+  welcome_series: {
+    id: 'welcome_series',
+    name: 'Welcome series',
+    exit_if: [
+      { type: 'not', condition: { type: 'opted_in_marketing' } },
+      { type: 'beta_status', in: ['active'] },
+    ],
+    steps: [
+      {
+        id: 'welcome',
+        delay_ms: 0,
+        wait_for: [{ type: 'email_verified' }],
+        send: (user, campaignId) =>
+          EmailCampaignService.sendWelcomeEmail(user, campaignId, {
+            on_frequency_cap: 'defer',
+          }),
+      },
+      {
+        id: 'day_3',
+        delay_ms: 3 * DAY_MS,
+        send: (user, campaignId) =>
+          EmailCampaignService.sendWelcomeDayThree(user, campaignId, {
+            on_frequency_cap: 'defer',
+          }),
+      },
+      {
+        id: 'week_1',
+        delay_ms: 4 * DAY_MS,
+        only_if: [{ type: 'beta_status', in: ['pending'] }],
+        send: (user, campaignId) =>
+          EmailCampaignService.sendWelcomeWeekOne(user, campaignId, {
+            on_frequency_cap: 'defer',
+          }),
+      },
+    ],
+  },
+}
+
+export class SequenceService {
+  /**
+   * Campaign ID that a sequence step's emails are tagged with, so webhook
+   * events can be traced back to the step
+   */
+  static getStepCampaignId(sequenceId: string, stepId: string): string {
+    return `${sequenceId}:${stepId}`
+  }
+
+  /**
+   * Enroll a user in a sequence. Enrolling twice is a no-op.
+   */
+  static async enroll(
+    userId: string,
+    sequenceId: SequenceId
+  ): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const sequence = EMAIL_SEQUENCES[sequenceId]
+      if (!sequence) {
+        return { success: false, error: `Unknown sequence: ${sequenceId}` }
+      }
+
+      const now = Date.now()
+      const { error } = await supabaseAdmin
+        .from('email_sequence_enrollments')
+        .upsert(
+          [
+            {
+              user_id: userId,
+              sequence_id: sequenceId,
+              status: 'active',
+              current_step: 0,
+              failed_attempts: 0,
+              next_run_at: new Date(
+                now + sequence.steps[0].delay_ms
+              ).toISOString(),
+            },
+          ],
+          { onConflict: 'user_id,sequence_id', ignoreDuplicates: true }
+        )
+
+      if (error) {
+        return { success: false, error: error.message }
+      }
+
+      return { success: true, error: null }
+    } catch (err) {
+      console.error('Error in SequenceService.enroll:', err)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Advance one user's enrollment now, without waiting for the runner.
+   * Used when something the next step is waiting on has just happened.
+   */
+  static async runForUser(
+    userId: string,
+    sequenceId: SequenceId
+  ): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const { data: enrollment, error } = await supabaseAdmin
+        .from('email_sequence_enrollments')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('sequence_id', sequenceId)
+        .eq('status', 'active')
+        .maybeSingle()
+
+      if (error) {
+        return { success: false, error: error.message }
+      }
+
+      if (!enrollment) {
+        return { success: true, error: null }
+      }
+
+      // Don't jump ahead of the current step's delay
+      const step = EMAIL_SEQUENCES[sequenceId].steps[enrollment.current_step]
+      const stepDueAt =
+        new Date(enrollment.last_step_at || enrollment.enrolled_at).getTime() +
+        (step?.delay_ms || 0)
+      if (stepDueAt > Date.now()) {
+        return { success: true, error: null }
+      }
+
+      return await this.processEnrollment(enrollment)
+    } catch (err) {
+      console.error('Error in SequenceService.runForUser:', err)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Advance every active enrollment whose next step is due
+   */
+  static async runDueEnrollments(): Promise<{
+    processed: number
+    errors: string[]
+  }> {
+    try {
+      const { data: enrollments, error } = await supabaseAdmin
+        .from('email_sequence_enrollments')
+        .select('*')
+        .eq('status', 'active')
+        .lte('next_run_at', new Date().toISOString())
+        .order('next_run_at', { ascending: true })
+        .limit(SEQUENCE_RUN_BATCH_SIZE)
+
+      if (error) {
+        return { processed: 0, errors: [error.message] }
+      }
+
+      let processed = 0
+      const errors: string[] = []
+
+      for (const enrollment of enrollments as EmailSequenceEnrollment[]) {
+        const { error: processError } = await this.processEnrollment(enrollment)
+
+        if (processError) {
+          errors.push(`Enrollment ${enrollment.id}: ${processError}`)
+        } else {
+          processed++
+        }
+      }
+
+      return { processed, errors }
+    } catch (err) {
+      console.error('Error in SequenceService.runDueEnrollments:', err)
+      return { processed: 0, errors: ['An unexpected error occurred'] }
+    }
+  }
+
+  /**
+   * Evaluate exit rules and the current step for one enrollment, sending
+   * the step's email if it is due
+   */
+  private static async processEnrollment(
+    enrollment: EmailSequenceEnrollment
+  ): Promise<{ success: boolean; error: string | null }> {
+    // Claim the enrollment. The next_run_at guard means only one runner
+    // can win it.
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('email_sequence_enrollments')
+      .update({
+        next_run_at: new Date(
+          Date.now() + SEQUENCE_CLAIM_LEASE_MS
+        ).toISOString(),
+      })
+      .eq('id', enrollment.id)
+      .eq('status', 'active')
+      .eq('next_run_at', enrollment.next_run_at)
+      .select('id')
+
+    if (claimError) {
+      return { success: false, error: claimError.message }
+    }
+
+    if (!claimed || claimed.length === 0) {
+      return { success: true, error: null }
+    }
+
+    const sequence = EMAIL_SEQUENCES[enrollment.sequence_id as SequenceId]
+    if (!sequence) {
+      return this.finishEnrollment(enrollment.id, 'exited', 'unknown_sequence')
+    }
+
+    const { data: user, error: userError } = await supabaseAdmin
+      .from('beta_signups')
+      .select('*')
+      .eq('id', enrollment.user_id)
+      .maybeSingle()
+
+    if (userError) {
+      return { success: false, error: userError.message }
+    }
+
+    if (!user) {
+      return this.finishEnrollment(enrollment.id, 'exited', 'user_not_found')
+    }
+
+    if (await this.anyConditionMet(sequence.exit_if, user, sequence)) {
+      return this.finishEnrollment(enrollment.id, 'exited', 'exit_rule')
+    }
+
+    const step = sequence.steps[enrollment.current_step]
+    if (!step) {
+      return this.finishEnrollment(enrollment.id, 'completed')
+    }
+
+    if (!(await this.allConditionsMet(step.wait_for, user, sequence))) {
+      return this.updateEnrollment(enrollment.id, {
+        next_run_at: new Date(
+          Date.now() + SEQUENCE_RETRY_DELAY_MS
+        ).toISOString(),
+      })
+    }
+
+    const shouldSend =
+      (await this.allConditionsMet(step.only_if, user, sequence)) &&
+      !(await this.anyConditionMet(step.skip_if, user, sequence))
+
+    if (shouldSend) {
+      const result = await step.send(
+        user,
+        this.getStepCampaignId(sequence.id, step.id)
+      )
+
+      // Over the user's frequency cap: try again once there's room, without
+      // counting it as a failure
+      if (result.deferred_until) {
+        return this.updateEnrollment(enrollment.id, {
+          next_run_at: result.deferred_until,
+        })
+      }
+
+      if (!result.success) {
+        const failedAttempts = enrollment.failed_attempts + 1
+        if (failedAttempts >= SEQUENCE_MAX_FAILED_ATTEMPTS) {
+          return this.finishEnrollment(enrollment.id, 'exited', 'send_failed')
+        }
+
+        return this.updateEnrollment(enrollment.id, {
+          failed_attempts: failedAttempts,
+          next_run_at: new Date(
+            Date.now() + SEQUENCE_RETRY_DELAY_MS
+          ).toISOString(),
+        })
+      }
+    }
+
+    const nextStep = sequence.steps[enrollment.current_step + 1]
+    if (!nextStep) {
+      return this.finishEnrollment(enrollment.id, 'completed', undefined, {
+        current_step: enrollment.current_step + 1,
+        last_step_at: new Date().toISOString(),
+      })
+    }
+
+    return this.updateEnrollment(enrollment.id, {
+      current_step: enrollment.current_step + 1,
+      failed_attempts: 0,
+      last_step_at: new Date().toISOString(),
+      next_run_at: new Date(Date.now() + nextStep.delay_ms).toISOString(),
+    })
+  }
+
+  private static async updateEnrollment(
+    enrollmentId: string,
+    updates: Partial<EmailSequenceEnrollment>
+  ): Promise<{ success: boolean; error: string | null }> {
+    const { error } = await supabaseAdmin
+      .from('email_sequence_enrollments')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', enrollmentId)
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+
+    return { success: true, error: null }
+  }
+
+  private static finishEnrollment(
+    enrollmentId: string,
+    status: 'completed' | 'exited',
+    exitReason?: string,
+    updates?: Partial<EmailSequenceEnrollment>
+  ) {
+    return this.updateEnrollment(enrollmentId, {
+      ...updates,
+      status,
+      exit_reason: exitReason,
+    })
+  }
+
+  private static async allConditionsMet(
+    conditions: SequenceCondition[] | undefined,
+    user: BetaSignup,
+    sequence: EmailSequence
+  ): Promise<boolean> {
+    for (const condition of conditions || []) {
+      if (!(await this.isConditionMet(condition, user, sequence))) {
+        return false
+      }
+    }
+    return true
+  }
+
+  private static async anyConditionMet(
+    conditions: SequenceCondition[] | undefined,
+    user: BetaSignup,
+    sequence: EmailSequence
+  ): Promise<boolean> {
+    for (const condition of conditions || []) {
+      if (await this.isConditionMet(condition, user, sequence)) {
+        return true
+      }
+    }
+    return false
+  }
+
+  private static async isConditionMet(
+    condition: SequenceCondition,
+    user: BetaSignup,
+    sequence: EmailSequence
+  ): Promise<boolean> {
+    switch (condition.type) {
+      case 'email_verified':
+        return user.email_verified
+      case 'opted_in_marketing':
+        return user.opted_in_marketing
+      case 'beta_status':
+        return condition.in.includes(user.beta_status)
+      case 'opened_step': {
+        const { count } = await supabaseAdmin
+          .from('email_events')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', user.id)
+          .eq(
+            'campaign_id',
+            this.getStepCampaignId(sequence.id, condition.step)
+          )
+          .eq('event_type', 'opened')
+
+        return (count || 0) > 0
+      }
+      case 'not':
+        return !(await this.isConditionMet(condition.condition, user, sequence))
+    }
+  }
+}
@@ -0,0 +1,346 @@
+import { supabaseAdmin } from '../supabase'
+import type { EmailSuppression, SuppressionReason } from '../../types'
+
+/**
+ * Email Suppression List
+ * Addresses that must not be emailed: hard bounces, repeated soft bounces,
+ * spam complaints and manual entries. Checked before every send by
+ * sendEmail and EmailCampaignService.sendTemplateEmail. Unsubscribes stay
+ * on the per-category opt-in flags, so transactional mail still reaches
+ * users who have only opted out of marketing.
+ */
+
+// Soft bounces within the window before an address is suppressed
+export const SOFT_BOUNCE_THRESHOLD = 3
+export const SOFT_BOUNCE_WINDOW_MS = 30 * 24 * 60 * 60 * 1000
+
+// Emails per query when checking many addresses, to keep .in() filters short
+const SUPPRESSION_LOOKUP_CHUNK_SIZE = 100
+
+// Postgres unique_violation: the address already has an active suppression
+const UNIQUE_VIOLATION = '23505'
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+export class SuppressionService {
+  /**
+   * Get the active suppression for an address, if any
+   */
+  static async check(
+    email: string
+  ): Promise<{ data: EmailSuppression | null; error: string | null }> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('email_suppressions')
+        .select('*')
+        .eq('email', normalizeEmail(email))
+        .is('lifted_at', null)
+        .maybeSingle()
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+
+      return { data, error: null }
+    } catch (err) {
+      console.error('Error in SuppressionService.check:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Which of these addresses are suppressed (returned lowercased)
+   */
+  static async getSuppressedEmails(
+    emails: string[]
+  ): Promise<{ data: Set<string> | null; error: string | null }> {
+    try {
+      const suppressed = new Set<string>()
+      const normalized = Array.from(new Set(emails.map(normalizeEmail)))
+
+      for (
+        let i = 0;
+        i < normalized.length;
+        i += SUPPRESSION_LOOKUP_CHUNK_SIZE
+      ) {
+        const { data, error } = await supabaseAdmin
+          .from('email_suppressions')
+          .select('email')
+          .in('email', normalized.slice(i, i + SUPPRESSION_LOOKUP_CHUNK_SIZE))
+          .is('lifted_at', null)
+
+        if (error) {
+          return { data: null, error: error.message }
+        }
+
+        ;(data || []).forEach((row: { email: string }) => {
+          suppressed.add(row.email)
+        })
+      }
+
+      return { data: suppressed, error: null }
+    } catch (err) {
+      console.error('Error in SuppressionService.getSuppressedEmails:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * List suppressions, newest first (admin only)
+   */
+  static async getAll(filters?: {
+    reason?: SuppressionReason
+    search?: string
+    includeLifted?: boolean
+    limit?: number
+    offset?: number
+  }): Promise<{
+    data: EmailSuppression[] | null
+    total: number
+    error: string | null
+  }> {
+    try {
+      const limit = filters?.limit || 50
+      const offset = filters?.offset || 0
+
+      let query = supabaseAdmin
+        .from('email_suppressions')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1)
+
+      if (!filters?.includeLifted) {
+        query = query.is('lifted_at', null)
+      }
+
+      if (filters?.reason) {
+        query = query.eq('reason', filters.reason)
+      }
+
+      if (filters?.search) {
+        query = query.ilike('email', `%${normalizeEmail(filters.search)}%`)
+      }
+
+      const { data, count, error } = await query
+
+      if (error) {
+        return { data: null, total: 0, error: error.message }
+      }
+
+      return { data, total: count || 0, error: null }
+    } catch (err) {
+      console.error('Error in SuppressionService.getAll:', err)
+      return { data: null, total: 0, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Suppress an address. Suppressing an address that is already suppressed
+   * returns the existing entry.
+   */
+  static async suppress(entry: {
+    email: string
+    reason: SuppressionReason
+    details?: string
+    created_by?: string
+  }): Promise<{ data: EmailSuppression | null; error: string | null }> {
+    try {
+      const email = normalizeEmail(entry.email)
+
+      const { data, error } = await supabaseAdmin
+        .from('email_suppressions')
+        .insert([
+          {
+            email,
+            reason: entry.reason,
+            details: entry.details,
+            created_by: entry.created_by || 'system',
+          },
+        ])
+        .select()
+        .single()
+
+      if (error?.code === UNIQUE_VIOLATION) {
+        return this.check(email)
+      }
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+
+      return { data, error: null }
+    } catch (err) {
+      console.error('Error in SuppressionService.suppress:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Suppress many addresses at once, skipping any that are already
+   * suppressed
+   */
+  static async suppressMany(
+    entries: Array<{
+      email: string
+      reason: SuppressionReason
+      details?: string
+    }>
+  ): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const byEmail = new Map<string, (typeof entries)[number]>()
+      entries.forEach((entry) => {
+        byEmail.set(normalizeEmail(entry.email), entry)
+      })
+
+      if (byEmail.size === 0) {
+        return { success: true, error: null }
+      }
+
+      const { data: existing, error: existingError } =
+        await this.getSuppressedEmails(Array.from(byEmail.keys()))
+
+      if (existingError || !existing) {
+        return { success: false, error: existingError }
+      }
+
+      const rows = Array.from(byEmail.entries())
+        .filter(([email]) => !existing.has(email))
+        .map(([email, entry]) => ({
+          email,
+          reason: entry.reason,
+          details: entry.details,
+          created_by: 'system',
+        }))
+
+      if (rows.length === 0) {
+        return { success: true, error: null }
+      }
+
+      const { error } = await supabaseAdmin
+        .from('email_suppressions')
+        .insert(rows)
+
+      // Something else suppressed one of these addresses in the meantime;
+      // fall back to one insert per address
+      if (error?.code === UNIQUE_VIOLATION) {
+        for (const row of rows) {
+          const { error: rowError } = await this.suppress(row)
+          if (rowError) {
+            return { success: false, error: rowError }
+          }
+        }
+        return { success: true, error: null }
+      }
+
+      if (error) {
+        return { success: false, error: error.message }
+      }
+
+      return { success: true, error: null }
+    } catch (err) {
+      console.error('Error in SuppressionService.suppressMany:', err)
+      return { success: false, error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Suppress addresses that have reached SOFT_BOUNCE_THRESHOLD soft
+   * bounces within SOFT_BOUNCE_WINDOW_MS. Called after new soft bounces
+   * are recorded in email_bounces.
+   */
+  static async applySoftBounceRule(
+    emails: string[]
+  ): Promise<{ suppressed: string[]; error: string | null }> {
+    try {
+      if (emails.length === 0) {
+        return { suppressed: [], error: null }
+      }
+
+      const since = new Date(Date.now() - SOFT_BOUNCE_WINDOW_MS).toISOString()
+      const uniqueEmails = Array.from(new Set(emails))
+      const counts = new Map<string, number>()
+
+      for (
+        let i = 0;
+        i < uniqueEmails.length;
+        i += SUPPRESSION_LOOKUP_CHUNK_SIZE
+      ) {
+        const { data, error } = await supabaseAdmin
+          .from('email_bounces')
+          .select('email')
+          .in('email', uniqueEmails.slice(i, i + SUPPRESSION_LOOKUP_CHUNK_SIZE))
+          .eq('bounce_type', 'soft')
+          .gte('timestamp', since)
+
+        if (error) {
+          return { suppressed: [], error: error.message }
+        }
+
+        ;(data || []).forEach((row: { email: string }) => {
+          const email = normalizeEmail(row.email)
+          counts.set(email, (counts.get(email) || 0) + 1)
+        })
+      }
+
+      const suppressed = Array.from(counts.entries())
+        .filter(([, count]) => count >= SOFT_BOUNCE_THRESHOLD)
+        .map(([email]) => email)
+
+      const { error } = await this.suppressMany(
+        suppressed.map((email) => ({
+          email,
+          reason: 'soft_bounce' as const,
+          details: `${counts.get(email)} soft bounces in ${Math.round(
+            SOFT_BOUNCE_WINDOW_MS / (24 * 60 * 60 * 1000)
+          )} days`,
+        }))
+      )
+
+      if (error) {
+        return { suppressed: [], error }
+      }
+
+      return { suppressed, error: null }
+    } catch (err) {
+      console.error('Error in SuppressionService.applySoftBounceRule:', err)
+      return { suppressed: [], error: 'An unexpected error occurred' }
+    }
+  }
+
+  /**
+   * Lift an active suppression so the address can be emailed again
+   */
+  static async lift(
+    id: string,
+    options: { lifted_by: string; reason?: string }
+  ): Promise<{ data: EmailSuppression | null; error: string | null }> {
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('email_suppressions')
+        .update({
+          lifted_at: new Date().toISOString(),
+          lifted_by: options.lifted_by,
+          lift_reason: options.reason,
+        })
+        .eq('id', id)
+        .is('lifted_at', null)
+        .select()
+        .maybeSingle()
+
+      if (error) {
+        return { data: null, error: error.message }
+      }
+
+      if (!data) {
+        return { data: null, error: 'Suppression not found or already lifted' }
+      }
+
+      return { data, error: null }
+    } catch (err) {
+      console.error('Error in SuppressionService.lift:', err)
+      return { data: null, error: 'An unexpected error occurred' }
+    }
+  }
+}
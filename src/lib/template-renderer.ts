@@ -0,0 +1,447 @@
+/**
+ * Template Renderer
+ * A Handlebars-compatible subset for email templates, enough to render the
+ * templates SendGrid used to render for us:
+ *
+ * - `{{path.to.value}}` (HTML-escaped) and `{{{path}}}` / `{{& path}}` (raw)
+ * - `{{#if}}`, `{{#unless}}` and `{{#each}}` blocks, with `{{else}}`
+ * - `this`, `../parent`, `@root.path`, `@index`, `@key`, `@first`, `@last`
+ * - `{{! comments }}`, `{{!-- comments --}}` and `~` whitespace control
+ *
+ * Helpers with arguments are not supported and fail to parse, so a template
+ * that relies on one is caught when it is previewed rather than at send time.
+ */
+
+type PathExpression = {
+  depth: number // Number of ../ segments
+  root: boolean // @root.path
+  data: string | null // @index, @key, @first, @last
+  parts: string[]
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'mustache'; path: PathExpression; raw: boolean }
+  | {
+      type: 'block'
+      helper: 'if' | 'unless' | 'each'
+      path: PathExpression
+      body: TemplateNode[]
+      inverse: TemplateNode[]
+    }
+
+type Frame = {
+  context: unknown
+  prefix: string // Variable name prefix, e.g. 'roadmap_items[]' inside #each
+  data: Record<string, unknown>
+}
+
+export interface TemplateRenderResult {
+  output: string
+  missing: string[] // Variables that rendered as nothing
+  error: string | null // Template syntax error
+}
+
+const BLOCK_HELPERS = ['if', 'unless', 'each'] as const
+const DATA_VARIABLES = ['index', 'key', 'first', 'last']
+
+// {{!-- comment --}} first, since it may contain }}; then any other tag
+const TAG_PATTERN =
+  /\{\{(~?)!--[\s\S]*?--(~?)\}\}|\{\{(~?)(\{?)([\s\S]*?)(\}?)(~?)\}\}/g
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#x27;',
+  '`': '&#x60;',
+  '=': '&#x3D;',
+}
+
+/**
+ * Escape a value for interpolation into HTML
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"'`=]/g, (char) => HTML_ESCAPES[char])
+}
+
+function parsePath(expression: string): PathExpression {
+  let rest = expression
+  let depth = 0
+
+  while (rest.startsWith('../')) {
+    depth++
+    rest = rest.slice(3)
+  }
+
+  if (!/^(@?[A-Za-z_][\w-]*|this|\.)(\.[A-Za-z_][\w-]*)*$/.test(rest)) {
+    throw new Error(`Unsupported expression "{{${expression}}}"`)
+  }
+
+  if (rest.startsWith('@root')) {
+    return {
+      depth: 0,
+      root: true,
+      data: null,
+      parts: rest.split('.').slice(1),
+    }
+  }
+
+  if (rest.startsWith('@')) {
+    const name = rest.slice(1)
+    if (!DATA_VARIABLES.includes(name)) {
+      throw new Error(`Unknown data variable "@${name}"`)
+    }
+    return { depth, root: false, data: name, parts: [] }
+  }
+
+  const parts = rest.split('.').filter((part) => part !== '')
+  if (parts[0] === 'this') {
+    parts.shift()
+  }
+
+  return { depth, root: false, data: null, parts }
+}
+
+/**
+ * Split a template into tags and text, applying ~ whitespace control
+ */
+function tokenize(
+  source: string
+): Array<{ type: 'text'; value: string } | { type: 'tag'; value: string }> {
+  const tokens: Array<
+    { type: 'text'; value: string } | { type: 'tag'; value: string }
+  > = []
+  let lastIndex = 0
+  let trimNext = false
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const isComment = match[5] === undefined
+    const trimBefore = isComment ? match[1] === '~' : match[3] === '~'
+    const trimAfter = isComment ? match[2] === '~' : match[7] === '~'
+
+    let text = source.slice(lastIndex, match.index)
+    if (trimNext) {
+      text = text.replace(/^\s+/, '')
+    }
+    if (trimBefore) {
+      text = text.replace(/\s+$/, '')
+    }
+    if (text) {
+      tokens.push({ type: 'text', value: text })
+    }
+
+    if (!isComment) {
+      const triple = match[4] === '{'
+      if (triple !== (match[6] === '}')) {
+        throw new Error(`Unbalanced braces in "${match[0]}"`)
+      }
+      const content = match[5].trim()
+      if (!content.startsWith('!')) {
+        tokens.push({ type: 'tag', value: triple ? `&${content}` : content })
+      }
+    }
+
+    trimNext = trimAfter
+    lastIndex = (match.index || 0) + match[0].length
+  }
+
+  let text = source.slice(lastIndex)
+  if (trimNext) {
+    text = text.replace(/^\s+/, '')
+  }
+  if (text) {
+    tokens.push({ type: 'text', value: text })
+  }
+
+  return tokens
+}
+
+function parse(source: string): TemplateNode[] {
+  const root: TemplateNode[] = []
+  const stack: Array<{
+    node: Extract<TemplateNode, { type: 'block' }>
+    inElse: boolean
+  }> = []
+
+  const append = (node: TemplateNode) => {
+    const open = stack[stack.length - 1]
+    if (!open) {
+      root.push(node)
+    } else if (open.inElse) {
+      open.node.inverse.push(node)
+    } else {
+      open.node.body.push(node)
+    }
+  }
+
+  for (const token of tokenize(source)) {
+    if (token.type === 'text') {
+      append(token)
+      continue
+    }
+
+    const tag = token.value
+
+    if (tag.startsWith('#')) {
+      const [helper, ...args] = tag.slice(1).trim().split(/\s+/)
+      if (!(BLOCK_HELPERS as readonly string[]).includes(helper)) {
+        throw new Error(`Unsupported block helper "{{#${helper}}}"`)
+      }
+      if (args.length !== 1) {
+        throw new Error(`"{{#${helper}}}" takes exactly one variable`)
+      }
+
+      const node: Extract<TemplateNode, { type: 'block' }> = {
+        type: 'block',
+        helper: helper as (typeof BLOCK_HELPERS)[number],
+        path: parsePath(args[0]),
+        body: [],
+        inverse: [],
+      }
+      append(node)
+      stack.push({ node, inElse: false })
+    } else if (tag.startsWith('/')) {
+      const helper = tag.slice(1).trim()
+      const open = stack.pop()
+      if (!open || open.node.helper !== helper) {
+        throw new Error(
+          open
+            ? `"{{/${helper}}}" closes "{{#${open.node.helper}}}"`
+            : `"{{/${helper}}}" has no matching block`
+        )
+      }
+    } else if (tag === 'else' || tag === '^') {
+      const open = stack[stack.length - 1]
+      if (!open || open.inElse) {
+        throw new Error('"{{else}}" outside of a block')
+      }
+      open.inElse = true
+    } else {
+      const raw = tag.startsWith('&')
+      const expression = raw ? tag.slice(1).trim() : tag
+      if (/\s/.test(expression)) {
+        throw new Error(`Helpers are not supported: "{{${expression}}}"`)
+      }
+      append({ type: 'mustache', path: parsePath(expression), raw })
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(
+      `"{{#${stack[stack.length - 1].node.helper}}}" is never closed`
+    )
+  }
+
+  return root
+}
+
+/**
+ * Name a path the way it appears in the template data, e.g. `first_name`,
+ * `community_links.discord` or `roadmap_items[]` for an #each item. Returns
+ * null for @data variables.
+ */
+function qualify(path: PathExpression, prefixes: string[]): string | null {
+  if (path.data) {
+    return null
+  }
+
+  const prefix = path.root
+    ? ''
+    : prefixes[Math.max(prefixes.length - 1 - path.depth, 0)]
+
+  return [prefix, ...path.parts].filter(Boolean).join('.') || null
+}
+
+function resolve(
+  path: PathExpression,
+  frames: Frame[]
+): { found: boolean; value: unknown } {
+  const frame = path.root
+    ? frames[0]
+    : frames[Math.max(frames.length - 1 - path.depth, 0)]
+
+  if (path.data) {
+    return {
+      found: path.data in frame.data,
+      value: frame.data[path.data],
+    }
+  }
+
+  let value: unknown = frame.context
+  for (const part of path.parts) {
+    if (value === null || value === undefined || typeof value !== 'object') {
+      return { found: false, value: undefined }
+    }
+    value = (value as Record<string, unknown>)[part]
+  }
+
+  return { found: value !== undefined && value !== null, value }
+}
+
+// Handlebars treats empty arrays as falsy in #if, unlike JavaScript
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value
+}
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+  return Array.isArray(value) ? value.join(',') : String(value)
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  frames: Frame[],
+  escape: boolean,
+  missing: Set<string>
+): string {
+  let output = ''
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value
+      continue
+    }
+
+    const { found, value } = resolve(node.path, frames)
+    const name = qualify(
+      node.path,
+      frames.map((frame) => frame.prefix)
+    )
+
+    if (node.type === 'mustache') {
+      if (!found && name) {
+        missing.add(name)
+      }
+      output +=
+        escape && !node.raw ? escapeHtml(stringify(value)) : stringify(value)
+      continue
+    }
+
+    if (node.helper === 'each') {
+      const entries: Array<[string | number, unknown]> = Array.isArray(value)
+        ? value.map((item, index) => [index, item])
+        : value && typeof value === 'object'
+          ? Object.entries(value)
+          : []
+
+      if (!found && name) {
+        missing.add(name)
+      }
+
+      if (entries.length === 0) {
+        output += renderNodes(node.inverse, frames, escape, missing)
+        continue
+      }
+
+      entries.forEach(([key, item], position) => {
+        output += renderNodes(
+          node.body,
+          [
+            ...frames,
+            {
+              context: item,
+              prefix: `${name || ''}[]`,
+              data: {
+                index: position,
+                key,
+                first: position === 0,
+                last: position === entries.length - 1,
+              },
+            },
+          ],
+          escape,
+          missing
+        )
+      })
+      continue
+    }
+
+    const condition = node.helper === 'if' ? isTruthy(value) : !isTruthy(value)
+    output += renderNodes(
+      condition ? node.body : node.inverse,
+      frames,
+      escape,
+      missing
+    )
+  }
+
+  return output
+}
+
+function collectVariables(
+  nodes: TemplateNode[],
+  prefixes: string[],
+  variables: Set<string>
+) {
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      continue
+    }
+
+    const name = qualify(node.path, prefixes)
+    if (name) {
+      variables.add(name)
+    }
+
+    if (node.type === 'block') {
+      collectVariables(
+        node.body,
+        node.helper === 'each' ? [...prefixes, `${name || ''}[]`] : prefixes,
+        variables
+      )
+      collectVariables(node.inverse, prefixes, variables)
+    }
+  }
+}
+
+/**
+ * Render a template against its data. Values are HTML-escaped unless
+ * `escape` is false, which plain-text bodies should use.
+ */
+export function renderTemplate(
+  source: string,
+  data: Record<string, unknown>,
+  options: { escape?: boolean } = {}
+): TemplateRenderResult {
+  try {
+    const missing = new Set<string>()
+    const output = renderNodes(
+      parse(source),
+      [{ context: data, prefix: '', data: {} }],
+      options.escape ?? true,
+      missing
+    )
+
+    return { output, missing: Array.from(missing), error: null }
+  } catch (err) {
+    return {
+      output: '',
+      missing: [],
+      error: err instanceof Error ? err.message : 'Invalid template',
+    }
+  }
+}
+
+/**
+ * Every variable a template references, including ones only used in
+ * conditions and inside blocks that may not render
+ */
+export function getTemplateVariables(source: string): {
+  variables: string[]
+  error: string | null
+} {
+  try {
+    const variables = new Set<string>()
+    collectVariables(parse(source), [''], variables)
+    return { variables: Array.from(variables).sort(), error: null }
+  } catch (err) {
+    return {
+      variables: [],
+      error: err instanceof Error ? err.message : 'Invalid template',
+    }
+  }
+}
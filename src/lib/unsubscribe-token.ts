@@ -0,0 +1,190 @@
+import crypto from 'crypto'
+
+/**
+ * Unsubscribe and Email Link Tokens
+ * Per-recipient HMAC-signed tokens embedded in links we email out:
+ * unsubscribe links (including the RFC 8058 one-click List-Unsubscribe
+ * headers), magic links into the preference center and beta signup
+ * confirmation links. A token only acts on the address it was issued to,
+ * and only for its purpose.
+ */
+
+export const PREFERENCE_LINK_TTL_MS = 24 * 60 * 60 * 1000 // 24 hours
+
+// How long a new signup has to confirm their address before it expires
+export const BETA_VERIFICATION_WINDOW_MS =
+  Number(process.env.BETA_VERIFICATION_WINDOW_HOURS || 72) * 60 * 60 * 1000
+
+export type EmailLinkPurpose = 'unsubscribe' | 'preferences' | 'verify_email'
+
+export interface EmailLinkTokenClaims {
+  purpose: EmailLinkPurpose
+  email: string
+  exp?: number // Expires at, ms since epoch (unsubscribe links never expire)
+}
+
+export interface EmailLinkTokenVerification {
+  valid: boolean
+  claims: EmailLinkTokenClaims | null
+  error: string | null
+}
+
+function getLinkSecret(): string | null {
+  return process.env.UNSUBSCRIBE_TOKEN_SECRET || null
+}
+
+function sign(payload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('base64url')
+}
+
+function getSiteUrl(): string {
+  return process.env.NEXT_PUBLIC_SITE_URL || 'https://silentscribe.dev'
+}
+
+function createToken(claims: EmailLinkTokenClaims): string {
+  const secret = getLinkSecret()
+  if (!secret) {
+    throw new Error('UNSUBSCRIBE_TOKEN_SECRET not configured')
+  }
+
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url')
+  return `${payload}.${sign(payload, secret)}`
+}
+
+function verifyToken(
+  token: string,
+  purpose: EmailLinkPurpose
+): EmailLinkTokenVerification {
+  const secret = getLinkSecret()
+  if (!secret) {
+    return {
+      valid: false,
+      claims: null,
+      error: 'Email link tokens not configured',
+    }
+  }
+
+  const [payload, signature] = token.split('.')
+  if (!payload || !signature) {
+    return { valid: false, claims: null, error: 'Invalid token format' }
+  }
+
+  const expected = Buffer.from(sign(payload, secret))
+  const provided = Buffer.from(signature)
+  if (
+    expected.length !== provided.length ||
+    !crypto.timingSafeEqual(expected, provided)
+  ) {
+    return { valid: false, claims: null, error: 'Invalid token signature' }
+  }
+
+  let claims: EmailLinkTokenClaims
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString())
+  } catch {
+    return { valid: false, claims: null, error: 'Invalid token format' }
+  }
+
+  if (claims.purpose !== purpose || !claims.email) {
+    return { valid: false, claims: null, error: 'Invalid token claims' }
+  }
+
+  if (claims.exp && Date.now() >= claims.exp) {
+    return { valid: false, claims: null, error: 'Link has expired' }
+  }
+
+  return { valid: true, claims, error: null }
+}
+
+/**
+ * Create the unsubscribe token for a recipient. Tokens carry no expiry so
+ * links in old emails keep working.
+ */
+export function createUnsubscribeToken(email: string): string {
+  return createToken({ purpose: 'unsubscribe', email })
+}
+
+/**
+ * Verify an unsubscribe token and return the recipient it was issued to
+ */
+export function verifyUnsubscribeToken(
+  token: string
+): EmailLinkTokenVerification {
+  return verifyToken(token, 'unsubscribe')
+}
+
+/**
+ * Link to the unsubscribe page for a recipient
+ */
+export function getUnsubscribeUrl(email: string): string {
+  return `${getSiteUrl()}/unsubscribe?token=${encodeURIComponent(createUnsubscribeToken(email))}`
+}
+
+/**
+ * RFC 2369 / RFC 8058 headers that let mail clients unsubscribe the
+ * recipient with a single POST to /api/unsubscribe
+ */
+export function getListUnsubscribeHeaders(
+  email: string
+): Record<string, string> {
+  const token = encodeURIComponent(createUnsubscribeToken(email))
+
+  return {
+    'List-Unsubscribe': `<${getSiteUrl()}/api/unsubscribe?token=${token}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  }
+}
+
+/**
+ * Create a short-lived preference center token for a recipient
+ */
+export function createPreferenceToken(email: string): string {
+  return createToken({
+    purpose: 'preferences',
+    email,
+    exp: Date.now() + PREFERENCE_LINK_TTL_MS,
+  })
+}
+
+/**
+ * Verify a preference center token and return the recipient it was issued to
+ */
+export function verifyPreferenceToken(
+  token: string
+): EmailLinkTokenVerification {
+  return verifyToken(token, 'preferences')
+}
+
+/**
+ * Magic link into the preference center for a recipient
+ */
+export function getPreferenceCenterUrl(email: string): string {
+  return `${getSiteUrl()}/preferences?token=${encodeURIComponent(createPreferenceToken(email))}`
+}
+
+/**
+ * Create a beta signup confirmation token, valid for the verification window
+ */
+export function createVerificationToken(email: string): string {
+  return createToken({
+    purpose: 'verify_email',
+    email,
+    exp: Date.now() + BETA_VERIFICATION_WINDOW_MS,
+  })
+}
+
+/**
+ * Verify a beta signup confirmation token
+ */
+export function verifyVerificationToken(
+  token: string
+): EmailLinkTokenVerification {
+  return verifyToken(token, 'verify_email')
+}
+
+/**
+ * Confirmation link for a new beta signup
+ */
+export function getVerificationUrl(email: string): string {
+  return `${getSiteUrl()}/beta/verify?token=${encodeURIComponent(createVerificationToken(email))}`
+}
@@ -28,6 +28,7 @@ export interface Database {
             | null
           signup_source: string | null
           referrer_code: string | null
+          referral_code: string | null
           created_at: string
           email_verified: boolean
           beta_status: 'pending' | 'invited' | 'active'
@@ -35,6 +36,10 @@ export interface Database {
           notes: string | null
           opted_in_marketing: boolean
           opted_in_research: boolean
+          email_status: string | null
+          bounce_reason: string | null
+          updated_at: string | null
+          preference_link_sent_at: string | null
         }
         Insert: {
           id?: string
@@ -54,6 +59,7 @@ export interface Database {
             | null
           signup_source?: string | null
           referrer_code?: string | null
+          referral_code?: string | null
           created_at?: string
           email_verified?: boolean
           beta_status?: 'pending' | 'invited' | 'active'
@@ -61,6 +67,10 @@ export interface Database {
           notes?: string | null
           opted_in_marketing?: boolean
           opted_in_research?: boolean
+          email_status?: string | null
+          bounce_reason?: string | null
+          updated_at?: string | null
+          preference_link_sent_at?: string | null
         }
         Update: {
           id?: string
@@ -80,6 +90,7 @@ export interface Database {
             | null
           signup_source?: string | null
           referrer_code?: string | null
+          referral_code?: string | null
           created_at?: string
           email_verified?: boolean
           beta_status?: 'pending' | 'invited' | 'active'
@@ -87,6 +98,10 @@ export interface Database {
           notes?: string | null
           opted_in_marketing?: boolean
           opted_in_research?: boolean
+          email_status?: string | null
+          bounce_reason?: string | null
+          updated_at?: string | null
+          preference_link_sent_at?: string | null
         }
       }
       page_analytics: {
@@ -100,6 +115,7 @@ export interface Database {
           referrer: string | null
           user_agent_hash: string | null
           metadata: Json | null
+          client_event_id: string | null
         }
         Insert: {
           id?: string
@@ -111,6 +127,7 @@ export interface Database {
           referrer?: string | null
           user_agent_hash?: string | null
           metadata?: Json | null
+          client_event_id?: string | null
         }
         Update: {
           id?: string
@@ -122,6 +139,7 @@ export interface Database {
           referrer?: string | null
           user_agent_hash?: string | null
           metadata?: Json | null
+          client_event_id?: string | null
         }
       }
       email_events: {
@@ -144,10 +162,14 @@ export interface Database {
             | 'spam_report'
             | 'unsubscribe'
             | 'group_unsubscribe'
+            | 'preference_change'
+            | 'frequency_capped'
           timestamp: string
           email_subject: string | null
           campaign_id: string | null
           metadata: Json | null
+          is_test: boolean
+          sg_event_id: string | null
         }
         Insert: {
           id?: string
@@ -168,10 +190,14 @@ export interface Database {
             | 'spam_report'
             | 'unsubscribe'
             | 'group_unsubscribe'
+            | 'preference_change'
+            | 'frequency_capped'
           timestamp?: string
           email_subject?: string | null
           campaign_id?: string | null
           metadata?: Json | null
+          is_test?: boolean
+          sg_event_id?: string | null
         }
         Update: {
           id?: string
@@ -192,10 +218,14 @@ export interface Database {
             | 'spam_report'
             | 'unsubscribe'
             | 'group_unsubscribe'
+            | 'preference_change'
+            | 'frequency_capped'
           timestamp?: string
           email_subject?: string | null
           campaign_id?: string | null
           metadata?: Json | null
+          is_test?: boolean
+          sg_event_id?: string | null
         }
       }
       feedback_submissions: {
@@ -249,6 +279,13 @@ export interface Database {
           utm_source: string | null
           utm_medium: string | null
           utm_campaign: string | null
+          landing_page: string | null
+          last_referrer_domain: string | null
+          last_utm_source: string | null
+          last_utm_medium: string | null
+          last_utm_campaign: string | null
+          last_landing_page: string | null
+          last_touch_at: string | null
           is_returning: boolean
           created_at: string
           updated_at: string
@@ -268,6 +305,13 @@ export interface Database {
           utm_source?: string | null
           utm_medium?: string | null
           utm_campaign?: string | null
+          landing_page?: string | null
+          last_referrer_domain?: string | null
+          last_utm_source?: string | null
+          last_utm_medium?: string | null
+          last_utm_campaign?: string | null
+          last_landing_page?: string | null
+          last_touch_at?: string | null
           is_returning?: boolean
           created_at?: string
           updated_at?: string
@@ -287,11 +331,77 @@ export interface Database {
           utm_source?: string | null
           utm_medium?: string | null
           utm_campaign?: string | null
+          landing_page?: string | null
+          last_referrer_domain?: string | null
+          last_utm_source?: string | null
+          last_utm_medium?: string | null
+          last_utm_campaign?: string | null
+          last_landing_page?: string | null
+          last_touch_at?: string | null
           is_returning?: boolean
           created_at?: string
           updated_at?: string
         }
       }
+      goal_conversions: {
+        Row: {
+          id: string
+          goal_key: string
+          visitor_id: string
+          session_id: string | null
+          page_path: string | null
+          value: number
+          first_touch_source: string
+          first_touch_medium: string | null
+          first_touch_campaign: string | null
+          first_touch_landing_page: string | null
+          last_touch_source: string
+          last_touch_medium: string | null
+          last_touch_campaign: string | null
+          last_touch_landing_page: string | null
+          metadata: Json | null
+          converted_at: string
+          client_event_id: string | null
+        }
+        Insert: {
+          id?: string
+          goal_key: string
+          visitor_id: string
+          session_id?: string | null
+          page_path?: string | null
+          value?: number
+          first_touch_source?: string
+          first_touch_medium?: string | null
+          first_touch_campaign?: string | null
+          first_touch_landing_page?: string | null
+          last_touch_source?: string
+          last_touch_medium?: string | null
+          last_touch_campaign?: string | null
+          last_touch_landing_page?: string | null
+          metadata?: Json | null
+          converted_at?: string
+          client_event_id?: string | null
+        }
+        Update: {
+          id?: string
+          goal_key?: string
+          visitor_id?: string
+          session_id?: string | null
+          page_path?: string | null
+          value?: number
+          first_touch_source?: string
+          first_touch_medium?: string | null
+          first_touch_campaign?: string | null
+          first_touch_landing_page?: string | null
+          last_touch_source?: string
+          last_touch_medium?: string | null
+          last_touch_campaign?: string | null
+          last_touch_landing_page?: string | null
+          metadata?: Json | null
+          converted_at?: string
+          client_event_id?: string | null
+        }
+      }
       analytics_sessions: {
         Row: {
           id: string
@@ -431,7 +541,20 @@ export interface Database {
           template_id: string | null
           segment_filter: string
           scheduled_at: string | null
-          status: 'draft' | 'scheduled' | 'sending' | 'sent' | 'failed'
+          status:
+            | 'draft'
+            | 'scheduled'
+            | 'sending'
+            | 'delivering'
+            | 'sent'
+            | 'failed'
+            | 'cancelled'
+          optimize_send_time: boolean
+          template_data: Json | null
+          html_content: string | null
+          locked_at: string | null
+          is_test: boolean
+          lock_id: string | null
           total_recipients: number
           sent_count: number | null
           error_count: number | null
@@ -448,7 +571,20 @@ export interface Database {
           template_id?: string | null
           segment_filter: string
           scheduled_at?: string | null
-          status?: 'draft' | 'scheduled' | 'sending' | 'sent' | 'failed'
+          status?:
+            | 'draft'
+            | 'scheduled'
+            | 'sending'
+            | 'delivering'
+            | 'sent'
+            | 'failed'
+            | 'cancelled'
+          optimize_send_time?: boolean
+          template_data?: Json | null
+          html_content?: string | null
+          locked_at?: string | null
+          is_test?: boolean
+          lock_id?: string | null
           total_recipients: number
           sent_count?: number | null
           error_count?: number | null
@@ -465,7 +601,20 @@ export interface Database {
           template_id?: string | null
           segment_filter?: string
           scheduled_at?: string | null
-          status?: 'draft' | 'scheduled' | 'sending' | 'sent' | 'failed'
+          status?:
+            | 'draft'
+            | 'scheduled'
+            | 'sending'
+            | 'delivering'
+            | 'sent'
+            | 'failed'
+            | 'cancelled'
+          optimize_send_time?: boolean
+          template_data?: Json | null
+          html_content?: string | null
+          locked_at?: string | null
+          is_test?: boolean
+          lock_id?: string | null
           total_recipients?: number
           sent_count?: number | null
           error_count?: number | null
@@ -474,6 +623,53 @@ export interface Database {
           updated_at?: string | null
         }
       }
+      email_campaign_deliveries: {
+        Row: {
+          id: string
+          campaign_id: string
+          user_id: string
+          send_at: string
+          send_time_source: 'recipient' | 'segment' | 'default'
+          local_hour: number | null
+          timezone: string | null
+          status: 'pending' | 'sending' | 'sent' | 'failed' | 'skipped'
+          error: string | null
+          lock_id: string | null
+          locked_at: string | null
+          sent_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          campaign_id: string
+          user_id: string
+          send_at: string
+          send_time_source: 'recipient' | 'segment' | 'default'
+          local_hour?: number | null
+          timezone?: string | null
+          status?: 'pending' | 'sending' | 'sent' | 'failed' | 'skipped'
+          error?: string | null
+          lock_id?: string | null
+          locked_at?: string | null
+          sent_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          campaign_id?: string
+          user_id?: string
+          send_at?: string
+          send_time_source?: 'recipient' | 'segment' | 'default'
+          local_hour?: number | null
+          timezone?: string | null
+          status?: 'pending' | 'sending' | 'sent' | 'failed' | 'skipped'
+          error?: string | null
+          lock_id?: string | null
+          locked_at?: string | null
+          sent_at?: string | null
+          created_at?: string
+        }
+      }
       email_bounces: {
         Row: {
           id: string
@@ -529,12 +725,792 @@ export interface Database {
           metadata?: Json | null
         }
       }
+      email_suppressions: {
+        Row: {
+          id: string
+          email: string
+          reason: 'hard_bounce' | 'soft_bounce' | 'spam_complaint' | 'manual'
+          details: string | null
+          created_by: string
+          created_at: string
+          lifted_at: string | null
+          lifted_by: string | null
+          lift_reason: string | null
+        }
+        Insert: {
+          id?: string
+          email: string
+          reason: 'hard_bounce' | 'soft_bounce' | 'spam_complaint' | 'manual'
+          details?: string | null
+          created_by?: string
+          created_at?: string
+          lifted_at?: string | null
+          lifted_by?: string | null
+          lift_reason?: string | null
+        }
+        Update: {
+          id?: string
+          email?: string
+          reason?: 'hard_bounce' | 'soft_bounce' | 'spam_complaint' | 'manual'
+          details?: string | null
+          created_by?: string
+          created_at?: string
+          lifted_at?: string | null
+          lifted_by?: string | null
+          lift_reason?: string | null
+        }
+      }
+      sendgrid_processed_events: {
+        Row: {
+          sg_event_id: string
+          event_type: string
+          email: string | null
+          processed_at: string
+          status: 'processed' | 'dead_letter'
+          error: string | null
+        }
+        Insert: {
+          sg_event_id: string
+          event_type: string
+          email?: string | null
+          processed_at?: string
+          status?: 'processed' | 'dead_letter'
+          error?: string | null
+        }
+        Update: {
+          sg_event_id?: string
+          event_type?: string
+          email?: string | null
+          processed_at?: string
+          status?: 'processed' | 'dead_letter'
+          error?: string | null
+        }
+      }
+      admin_sessions: {
+        Row: {
+          id: string
+          issued_at: string
+          expires_at: string
+          revoked_at: string | null
+          admin_user_id: string | null
+          ip_hash: string | null
+          user_agent_hash: string | null
+        }
+        Insert: {
+          id: string
+          issued_at?: string
+          expires_at: string
+          revoked_at?: string | null
+          admin_user_id?: string | null
+          ip_hash?: string | null
+          user_agent_hash?: string | null
+        }
+        Update: {
+          id?: string
+          issued_at?: string
+          expires_at?: string
+          revoked_at?: string | null
+          admin_user_id?: string | null
+          ip_hash?: string | null
+          user_agent_hash?: string | null
+        }
+      }
+      admin_users: {
+        Row: {
+          id: string
+          email: string
+          name: string
+          password_hash: string
+          role: 'viewer' | 'marketer' | 'owner'
+          disabled: boolean
+          created_at: string
+          last_login_at: string | null
+        }
+        Insert: {
+          id?: string
+          email: string
+          name: string
+          password_hash: string
+          role?: 'viewer' | 'marketer' | 'owner'
+          disabled?: boolean
+          created_at?: string
+          last_login_at?: string | null
+        }
+        Update: {
+          id?: string
+          email?: string
+          name?: string
+          password_hash?: string
+          role?: 'viewer' | 'marketer' | 'owner'
+          disabled?: boolean
+          created_at?: string
+          last_login_at?: string | null
+        }
+      }
+      admin_audit_log: {
+        Row: {
+          id: string
+          admin_user_id: string | null
+          actor_email: string
+          actor_role: 'viewer' | 'marketer' | 'owner'
+          method: string
+          path: string
+          params: Json | null
+          outcome: 'allowed' | 'denied'
+          ip_hash: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          admin_user_id?: string | null
+          actor_email: string
+          actor_role: 'viewer' | 'marketer' | 'owner'
+          method: string
+          path: string
+          params?: Json | null
+          outcome: 'allowed' | 'denied'
+          ip_hash?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          admin_user_id?: string | null
+          actor_email?: string
+          actor_role?: 'viewer' | 'marketer' | 'owner'
+          method?: string
+          path?: string
+          params?: Json | null
+          outcome?: 'allowed' | 'denied'
+          ip_hash?: string | null
+          created_at?: string
+        }
+      }
+      email_sequence_enrollments: {
+        Row: {
+          id: string
+          user_id: string
+          sequence_id: string
+          status: 'active' | 'completed' | 'exited'
+          current_step: number
+          next_run_at: string
+          last_step_at: string | null
+          failed_attempts: number
+          exit_reason: string | null
+          enrolled_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          sequence_id: string
+          status?: 'active' | 'completed' | 'exited'
+          current_step?: number
+          next_run_at?: string
+          last_step_at?: string | null
+          failed_attempts?: number
+          exit_reason?: string | null
+          enrolled_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          sequence_id?: string
+          status?: 'active' | 'completed' | 'exited'
+          current_step?: number
+          next_run_at?: string
+          last_step_at?: string | null
+          failed_attempts?: number
+          exit_reason?: string | null
+          enrolled_at?: string
+          updated_at?: string
+        }
+      }
+      ab_tests: {
+        Row: {
+          id: string
+          test_id: string | null
+          test_name: string
+          test_type: string
+          status: 'running' | 'completed' | 'stopped'
+          campaign_id: string | null
+          campaign_a_id: string | null
+          campaign_b_id: string | null
+          variant_a: Json | null
+          variant_b: Json | null
+          variant_a_count: number
+          variant_b_count: number
+          split_percentage: number
+          sample_size: number | null
+          duration_hours: number | null
+          success_metric: string | null
+          confidence_level: number
+          segment_filter: string | null
+          email_type: string | null
+          shuffle_seed: string | null
+          test_percentage: number
+          winner_metric: 'open_rate' | 'click_rate'
+          holdout_user_ids: Json
+          holdout_count: number
+          rollout_at: string | null
+          rollout_status:
+            | 'none'
+            | 'pending'
+            | 'sending'
+            | 'sent'
+            | 'failed'
+            | 'cancelled'
+          winner: 'variant_a' | 'variant_b' | 'inconclusive' | null
+          rollout_variant: 'variant_a' | 'variant_b' | null
+          rollout_campaign_id: string | null
+          decided_at: string | null
+          lock_id: string | null
+          locked_at: string | null
+          start_date: string | null
+          end_date: string | null
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          test_id?: string | null
+          test_name: string
+          test_type?: string
+          status?: 'running' | 'completed' | 'stopped'
+          campaign_id?: string | null
+          campaign_a_id?: string | null
+          campaign_b_id?: string | null
+          variant_a?: Json | null
+          variant_b?: Json | null
+          variant_a_count?: number
+          variant_b_count?: number
+          split_percentage?: number
+          sample_size?: number | null
+          duration_hours?: number | null
+          success_metric?: string | null
+          confidence_level?: number
+          segment_filter?: string | null
+          email_type?: string | null
+          shuffle_seed?: string | null
+          test_percentage?: number
+          winner_metric?: 'open_rate' | 'click_rate'
+          holdout_user_ids?: Json
+          holdout_count?: number
+          rollout_at?: string | null
+          rollout_status?:
+            | 'none'
+            | 'pending'
+            | 'sending'
+            | 'sent'
+            | 'failed'
+            | 'cancelled'
+          winner?: 'variant_a' | 'variant_b' | 'inconclusive' | null
+          rollout_variant?: 'variant_a' | 'variant_b' | null
+          rollout_campaign_id?: string | null
+          decided_at?: string | null
+          lock_id?: string | null
+          locked_at?: string | null
+          start_date?: string | null
+          end_date?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          test_id?: string | null
+          test_name?: string
+          test_type?: string
+          status?: 'running' | 'completed' | 'stopped'
+          campaign_id?: string | null
+          campaign_a_id?: string | null
+          campaign_b_id?: string | null
+          variant_a?: Json | null
+          variant_b?: Json | null
+          variant_a_count?: number
+          variant_b_count?: number
+          split_percentage?: number
+          sample_size?: number | null
+          duration_hours?: number | null
+          success_metric?: string | null
+          confidence_level?: number
+          segment_filter?: string | null
+          email_type?: string | null
+          shuffle_seed?: string | null
+          test_percentage?: number
+          winner_metric?: 'open_rate' | 'click_rate'
+          holdout_user_ids?: Json
+          holdout_count?: number
+          rollout_at?: string | null
+          rollout_status?:
+            | 'none'
+            | 'pending'
+            | 'sending'
+            | 'sent'
+            | 'failed'
+            | 'cancelled'
+          winner?: 'variant_a' | 'variant_b' | 'inconclusive' | null
+          rollout_variant?: 'variant_a' | 'variant_b' | null
+          rollout_campaign_id?: string | null
+          decided_at?: string | null
+          lock_id?: string | null
+          locked_at?: string | null
+          start_date?: string | null
+          end_date?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+      }
+      saved_segments: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          rules: Json
+          created_by: string
+          last_count: number | null
+          last_counted_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          rules: Json
+          created_by?: string
+          last_count?: number | null
+          last_counted_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          rules?: Json
+          created_by?: string
+          last_count?: number | null
+          last_counted_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      analytics_hourly_rollups: {
+        Row: {
+          bucket_start: string
+          metric: string
+          dimension: string
+          value: number
+          updated_at: string
+        }
+        Insert: {
+          bucket_start: string
+          metric: string
+          dimension?: string
+          value: number
+          updated_at?: string
+        }
+        Update: {
+          bucket_start?: string
+          metric?: string
+          dimension?: string
+          value?: number
+          updated_at?: string
+        }
+      }
+      analytics_daily_rollups: {
+        Row: {
+          bucket_start: string
+          metric: string
+          dimension: string
+          value: number
+          updated_at: string
+        }
+        Insert: {
+          bucket_start: string
+          metric: string
+          dimension?: string
+          value: number
+          updated_at?: string
+        }
+        Update: {
+          bucket_start?: string
+          metric?: string
+          dimension?: string
+          value?: number
+          updated_at?: string
+        }
+      }
+      analytics_visitor_hours: {
+        Row: {
+          bucket_start: string
+          visitor_id: string
+          sessions: number
+          page_views: number
+        }
+        Insert: {
+          bucket_start: string
+          visitor_id: string
+          sessions?: number
+          page_views?: number
+        }
+        Update: {
+          bucket_start?: string
+          visitor_id?: string
+          sessions?: number
+          page_views?: number
+        }
+      }
+      analytics_rollup_state: {
+        Row: {
+          id: string
+          rolled_up_to: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          rolled_up_to: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          rolled_up_to?: string
+          updated_at?: string
+        }
+      }
+      web_vitals: {
+        Row: {
+          id: string
+          page_path: string
+          lcp: number | null
+          fid: number | null
+          cls: number | null
+          fcp: number | null
+          ttfb: number | null
+          dom_content_loaded: number | null
+          load_complete: number | null
+          navigation_timing: Json | null
+          memory_usage: Json | null
+          score: number
+          referrer: string | null
+          user_agent_hash: string | null
+          recorded_at: string
+        }
+        Insert: {
+          id?: string
+          page_path: string
+          lcp?: number | null
+          fid?: number | null
+          cls?: number | null
+          fcp?: number | null
+          ttfb?: number | null
+          dom_content_loaded?: number | null
+          load_complete?: number | null
+          navigation_timing?: Json | null
+          memory_usage?: Json | null
+          score?: number
+          referrer?: string | null
+          user_agent_hash?: string | null
+          recorded_at?: string
+        }
+        Update: {
+          id?: string
+          page_path?: string
+          lcp?: number | null
+          fid?: number | null
+          cls?: number | null
+          fcp?: number | null
+          ttfb?: number | null
+          dom_content_loaded?: number | null
+          load_complete?: number | null
+          navigation_timing?: Json | null
+          memory_usage?: Json | null
+          score?: number
+          referrer?: string | null
+          user_agent_hash?: string | null
+          recorded_at?: string
+        }
+      }
+      client_errors: {
+        Row: {
+          id: string
+          page_path: string
+          visitor_id: string | null
+          message: string
+          stack: string | null
+          component_stack: string | null
+          error_boundary: boolean
+          severity: 'low' | 'medium' | 'high' | 'critical'
+          category: string
+          user_agent_hash: string | null
+          metadata: Json | null
+          occurred_at: string
+        }
+        Insert: {
+          id?: string
+          page_path: string
+          visitor_id?: string | null
+          message: string
+          stack?: string | null
+          component_stack?: string | null
+          error_boundary?: boolean
+          severity: 'low' | 'medium' | 'high' | 'critical'
+          category: string
+          user_agent_hash?: string | null
+          metadata?: Json | null
+          occurred_at?: string
+        }
+        Update: {
+          id?: string
+          page_path?: string
+          visitor_id?: string | null
+          message?: string
+          stack?: string | null
+          component_stack?: string | null
+          error_boundary?: boolean
+          severity?: 'low' | 'medium' | 'high' | 'critical'
+          category?: string
+          user_agent_hash?: string | null
+          metadata?: Json | null
+          occurred_at?: string
+        }
+      }
+      performance_issues: {
+        Row: {
+          id: string
+          page_path: string
+          visitor_id: string | null
+          issue_type: string
+          severity: 'low' | 'medium' | 'high' | 'critical'
+          message: string
+          metrics: Json | null
+          resolved: boolean
+          user_agent_hash: string | null
+          occurred_at: string
+        }
+        Insert: {
+          id?: string
+          page_path: string
+          visitor_id?: string | null
+          issue_type: string
+          severity: 'low' | 'medium' | 'high' | 'critical'
+          message: string
+          metrics?: Json | null
+          resolved?: boolean
+          user_agent_hash?: string | null
+          occurred_at?: string
+        }
+        Update: {
+          id?: string
+          page_path?: string
+          visitor_id?: string | null
+          issue_type?: string
+          severity?: 'low' | 'medium' | 'high' | 'critical'
+          message?: string
+          metrics?: Json | null
+          resolved?: boolean
+          user_agent_hash?: string | null
+          occurred_at?: string
+        }
+      }
+      engagement_events: {
+        Row: {
+          id: string
+          visitor_id: string
+          session_id: string | null
+          page_path: string
+          event_type: string
+          scroll_depth: number | null
+          time_on_page_ms: number | null
+          click_target: string | null
+          form_field: string | null
+          cta_position: string | null
+          mouse_movements: number | null
+          keystrokes: number | null
+          engagement_score: number
+          interaction_quality: string | null
+          user_agent_hash: string | null
+          metadata: Json | null
+          occurred_at: string
+          client_event_id: string | null
+        }
+        Insert: {
+          id?: string
+          visitor_id: string
+          session_id?: string | null
+          page_path?: string
+          event_type: string
+          scroll_depth?: number | null
+          time_on_page_ms?: number | null
+          click_target?: string | null
+          form_field?: string | null
+          cta_position?: string | null
+          mouse_movements?: number | null
+          keystrokes?: number | null
+          engagement_score?: number
+          interaction_quality?: string | null
+          user_agent_hash?: string | null
+          metadata?: Json | null
+          occurred_at?: string
+          client_event_id?: string | null
+        }
+        Update: {
+          id?: string
+          visitor_id?: string
+          session_id?: string | null
+          page_path?: string
+          event_type?: string
+          scroll_depth?: number | null
+          time_on_page_ms?: number | null
+          click_target?: string | null
+          form_field?: string | null
+          cta_position?: string | null
+          mouse_movements?: number | null
+          keystrokes?: number | null
+          engagement_score?: number
+          interaction_quality?: string | null
+          user_agent_hash?: string | null
+          metadata?: Json | null
+          occurred_at?: string
+          client_event_id?: string | null
+        }
+      }
+      system_alerts: {
+        Row: {
+          id: string
+          alert_type: string
+          severity: string
+          message: string
+          page_path: string | null
+          rule_id: string | null
+          occurrences: number | null
+          details: Json | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          alert_type: string
+          severity: string
+          message: string
+          page_path?: string | null
+          rule_id?: string | null
+          occurrences?: number | null
+          details?: Json | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          alert_type?: string
+          severity?: string
+          message?: string
+          page_path?: string | null
+          rule_id?: string | null
+          occurrences?: number | null
+          details?: Json | null
+          created_at?: string
+        }
+      }
+      analytics_salts: {
+        Row: {
+          day: string
+          salt: string
+          created_at: string
+        }
+        Insert: {
+          day: string
+          salt: string
+          created_at?: string
+        }
+        Update: {
+          day?: string
+          salt?: string
+          created_at?: string
+        }
+      }
+      consent_records: {
+        Row: {
+          id: string
+          consent_id: string
+          policy_version: string
+          action: string
+          analytics: boolean
+          performance: boolean
+          marketing: boolean
+          user_agent_hash: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          consent_id: string
+          policy_version: string
+          action: string
+          analytics: boolean
+          performance: boolean
+          marketing: boolean
+          user_agent_hash?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          consent_id?: string
+          policy_version?: string
+          action?: string
+          analytics?: boolean
+          performance?: boolean
+          marketing?: boolean
+          user_agent_hash?: string | null
+          created_at?: string
+        }
+      }
+      admin_login_attempts: {
+        Row: {
+          key: string
+          failures: number
+          last_failure_at: string
+          locked_until: string | null
+        }
+        Insert: {
+          key: string
+          failures?: number
+          last_failure_at?: string
+          locked_until?: string | null
+        }
+        Update: {
+          key?: string
+          failures?: number
+          last_failure_at?: string
+          locked_until?: string | null
+        }
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      analytics_visitor_counts: {
+        Args: {
+          range_start: string
+          range_end: string
+          extra_visitor_ids?: string[]
+        }
+        Returns: {
+          unique_visitors: number
+          returning_visitors: number
+        }[]
+      }
+      record_admin_login_failure: {
+        Args: {
+          attempt_key: string
+          free_attempts: number
+          base_delay_ms: number
+          max_delay_ms: number
+          window_ms: number
+        }
+        Returns: {
+          failure_count: number
+          locked_until_at: string | null
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
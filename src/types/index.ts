@@ -15,7 +15,8 @@ export interface BetaSignup {
     | 'large_team'
     | 'enterprise'
   signup_source?: string
-  referrer_code?: string
+  referrer_code?: string // Referral code of whoever invited this signup
+  referral_code?: string // This signup's own code for /beta?ref= invite links
   created_at: string
   email_verified: boolean
   beta_status: 'pending' | 'invited' | 'active'
@@ -23,6 +24,10 @@ export interface BetaSignup {
   notes?: string
   opted_in_marketing: boolean
   opted_in_research: boolean
+  email_status?: 'bounced' | 'spam_complaint' | 'unsubscribed'
+  bounce_reason?: string
+  updated_at?: string
+  preference_link_sent_at?: string // Throttles preference center link emails
 }
 
 export interface EmailEvent {
@@ -44,10 +49,14 @@ export interface EmailEvent {
     | 'spam_report'
     | 'unsubscribe'
     | 'group_unsubscribe'
+    | 'preference_change'
+    | 'frequency_capped' // Held back by a frequency cap, see metadata.reason
   timestamp: string
   email_subject?: string
   campaign_id?: string
   metadata?: Record<string, unknown>
+  is_test?: boolean // Sent to a seed list rather than the user
+  sg_event_id?: string // Set for events from the SendGrid webhook
 }
 
 export interface FeedbackSubmission {
@@ -72,6 +81,100 @@ export interface PageAnalytics {
   referrer?: string
   user_agent_hash?: string
   metadata?: Record<string, unknown>
+  client_event_id?: string // Set by the client event queue
+}
+
+export type IssueSeverity = 'low' | 'medium' | 'high' | 'critical'
+
+export interface WebVital {
+  id: string
+  page_path: string
+  lcp?: number // ms
+  fid?: number // ms
+  cls?: number
+  fcp?: number // ms
+  ttfb?: number // ms
+  dom_content_loaded?: number // ms
+  load_complete?: number // ms
+  navigation_timing?: Record<string, number>
+  memory_usage?: Record<string, number>
+  score: number // 0-100
+  referrer?: string
+  user_agent_hash?: string
+  recorded_at: string
+}
+
+export interface ClientError {
+  id: string
+  page_path: string
+  visitor_id?: string // Hashed IP
+  message: string
+  stack?: string
+  component_stack?: string
+  error_boundary: boolean
+  severity: IssueSeverity
+  category: string // javascript, network, api, render, user, system
+  user_agent_hash?: string
+  metadata?: Record<string, any>
+  occurred_at: string
+}
+
+export interface PerformanceIssue {
+  id: string
+  page_path: string
+  visitor_id?: string // Hashed IP
+  issue_type: string // slow-api, memory-leak, large-bundle, ...
+  severity: IssueSeverity
+  message: string
+  metrics?: Record<string, number>
+  resolved: boolean
+  user_agent_hash?: string
+  occurred_at: string
+}
+
+export interface EngagementEvent {
+  id: string
+  visitor_id: string
+  session_id?: string
+  page_path: string
+  event_type: string // scroll_depth, time_on_page, cta_click, ...
+  scroll_depth?: number // Percent
+  time_on_page_ms?: number
+  click_target?: string
+  form_field?: string
+  cta_position?: string
+  mouse_movements?: number
+  keystrokes?: number
+  engagement_score: number
+  interaction_quality?: string // minimal, low, medium, high
+  user_agent_hash?: string
+  metadata?: Record<string, any>
+  occurred_at: string
+  client_event_id?: string // Set by the client event queue
+}
+
+export interface SystemAlert {
+  id: string
+  alert_type: string // error, performance, rule
+  severity: string
+  message: string
+  page_path?: string
+  rule_id?: string // Server error alert rule that fired
+  occurrences?: number
+  details?: Record<string, any>
+  created_at: string
+}
+
+export interface ConsentRecord {
+  id: string
+  consent_id: string // Random ID stored with the choice in the browser
+  policy_version: string
+  action: 'accept_all' | 'reject_all' | 'custom'
+  analytics: boolean
+  performance: boolean
+  marketing: boolean
+  user_agent_hash?: string
+  created_at: string
 }
 
 // Phase 6: Enhanced Analytics Types
@@ -90,11 +193,59 @@ export interface AnonymousVisitor {
   utm_source?: string
   utm_medium?: string
   utm_campaign?: string
+  landing_page?: string
+  // Last touch: the latest visit with a UTM source or external referrer
+  last_referrer_domain?: string
+  last_utm_source?: string
+  last_utm_medium?: string
+  last_utm_campaign?: string
+  last_landing_page?: string
+  last_touch_at?: string
   is_returning: boolean
   created_at: string
   updated_at: string
 }
 
+// A completed PLAUSIBLE_GOALS goal with first- and last-touch attribution
+export interface GoalConversion {
+  id: string
+  goal_key: string // Key into PLAUSIBLE_GOALS, e.g. BETA_SIGNUP
+  visitor_id: string
+  session_id?: string
+  page_path?: string
+  value: number
+  first_touch_source: string
+  first_touch_medium?: string
+  first_touch_campaign?: string
+  first_touch_landing_page?: string
+  last_touch_source: string
+  last_touch_medium?: string
+  last_touch_campaign?: string
+  last_touch_landing_page?: string
+  metadata?: Record<string, any>
+  converted_at: string
+  client_event_id?: string // Set by the client event queue
+}
+
+export type SuppressionReason =
+  | 'hard_bounce'
+  | 'soft_bounce' // Repeated soft bounces, see SOFT_BOUNCE_THRESHOLD
+  | 'spam_complaint'
+  | 'manual'
+
+// An address we must not email. Active until lifted_at is set.
+export interface EmailSuppression {
+  id: string
+  email: string
+  reason: SuppressionReason
+  details?: string
+  created_by: string // Admin email, or 'system' for webhook-driven entries
+  created_at: string
+  lifted_at?: string
+  lifted_by?: string
+  lift_reason?: string
+}
+
 export interface AnalyticsSession {
   id: string
   visitor_id: string
@@ -139,6 +290,32 @@ export interface UserPreferences {
   updated_at: string
 }
 
+// Admin Types
+export type AdminRole = 'viewer' | 'marketer' | 'owner'
+
+export interface AdminUser {
+  id: string
+  email: string
+  name: string
+  role: AdminRole
+  disabled: boolean
+  created_at: string
+  last_login_at?: string
+}
+
+export interface AdminAuditEntry {
+  id: string
+  admin_user_id?: string
+  actor_email: string
+  actor_role: AdminRole
+  method: string
+  path: string
+  params?: Record<string, unknown>
+  outcome: 'allowed' | 'denied'
+  ip_hash?: string
+  created_at: string
+}
+
 // Form Types
 export interface BetaSignupFormData {
   email: string
@@ -227,7 +404,20 @@ export interface EmailCampaign {
   template_id?: string
   segment_filter: string
   scheduled_at?: string
-  status: 'draft' | 'scheduled' | 'sending' | 'sent' | 'failed'
+  status:
+    | 'draft'
+    | 'scheduled'
+    | 'sending'
+    | 'delivering' // Per-recipient deliveries queued and going out
+    | 'sent'
+    | 'failed'
+    | 'cancelled'
+  optimize_send_time?: boolean // Deliver at each recipient's best local time
+  template_data?: Record<string, any> // Shared template data for scheduled campaigns
+  html_content?: string // Sent as is by campaigns without a repo template
+  locked_at?: string // When the dispatcher claimed the campaign
+  lock_id?: string // Dispatcher run that holds the send lock
+  is_test?: boolean // Sent only to internal seed addresses
   total_recipients: number
   sent_count?: number
   error_count?: number
@@ -236,6 +426,151 @@ export interface EmailCampaign {
   updated_at?: string
 }
 
+// Drip sequence progress for one user
+export interface EmailSequenceEnrollment {
+  id: string
+  user_id: string
+  sequence_id: string
+  status: 'active' | 'completed' | 'exited'
+  current_step: number // Index of the next step to run
+  next_run_at: string
+  last_step_at?: string
+  failed_attempts: number // Consecutive failed sends of the current step
+  exit_reason?: string
+  enrolled_at: string
+  updated_at: string
+}
+
+// One recipient's copy of a campaign sent at its own time
+export interface EmailCampaignDelivery {
+  id: string
+  campaign_id: string
+  user_id: string
+  send_at: string
+  send_time_source: 'recipient' | 'segment' | 'default'
+  local_hour?: number // Recipient's local hour the send was picked for
+  timezone?: string
+  status: 'pending' | 'sending' | 'sent' | 'failed' | 'skipped'
+  error?: string
+  lock_id?: string
+  locked_at?: string
+  sent_at?: string
+  created_at: string
+}
+
+export type ABTestVariantKey = 'variant_a' | 'variant_b'
+export type ABTestMetric = 'open_rate' | 'click_rate'
+
+// Variant content for /api/ab-testing tests
+export interface ABTestVariantContent {
+  subject: string
+  content: string
+  templateId?: string
+}
+
+// An A/B test between two campaigns. With test_percentage below 100 the
+// rest of the segment is held back and sent the winner at rollout_at.
+export interface ABTest {
+  id: string
+  test_id?: string // EmailOptimizationService tests
+  test_name: string
+  test_type: string
+  status: 'running' | 'completed' | 'stopped'
+  campaign_a_id?: string
+  campaign_b_id?: string
+  variant_a?: ABTestVariantContent
+  variant_b?: ABTestVariantContent
+  variant_a_count: number
+  variant_b_count: number
+  split_percentage: number // Share of the test group that gets variant A
+  confidence_level: number // e.g. 95
+  segment_filter?: string
+  email_type?: string
+  shuffle_seed?: string // Seed for the Fisher-Yates split
+  test_percentage: number // Share of the segment in the test
+  winner_metric: ABTestMetric
+  holdout_user_ids: string[]
+  holdout_count: number
+  rollout_at?: string
+  rollout_status:
+    | 'none'
+    | 'pending'
+    | 'sending'
+    | 'sent' // Holdout deliveries queued
+    | 'failed'
+    | 'cancelled'
+  winner?: ABTestVariantKey | 'inconclusive'
+  rollout_variant?: ABTestVariantKey // Sent to the holdout
+  rollout_campaign_id?: string
+  decided_at?: string
+  lock_id?: string // Rollout run that holds the send lock
+  locked_at?: string
+  start_date?: string
+  end_date?: string
+  created_at: string
+  updated_at?: string
+}
+
+// A condition on a beta signup, combined with and/or/not into a saved
+// segment's rule tree (see src/lib/segment-rules.ts)
+export type SegmentRule =
+  | { type: 'and'; rules: SegmentRule[] }
+  | { type: 'or'; rules: SegmentRule[] }
+  | { type: 'not'; rule: SegmentRule }
+  | { type: 'beta_status'; in: Array<BetaSignup['beta_status']> }
+  | {
+      type: 'team_size'
+      in: Array<NonNullable<BetaSignup['team_size']>>
+    }
+  | { type: 'signup_source'; in: string[] }
+  | { type: 'engagement_score'; min?: number; max?: number }
+  | {
+      type: 'signed_up'
+      after?: string
+      before?: string
+      within_days?: number
+    }
+  | { type: 'has_username'; provider: 'github' | 'gitlab' }
+  // Case-insensitive substring match against the signup's list
+  | {
+      type: 'current_tools' | 'documentation_platform'
+      match: 'any' | 'all' | 'none'
+      values: string[]
+    }
+  // Number of (non-test) emails the user was sent, opened or clicked
+  | {
+      type: 'email_activity'
+      event: 'sent' | 'opened' | 'clicked'
+      min_count?: number // Defaults to 1 when neither bound is set
+      max_count?: number
+      within_days?: number
+    }
+  // Number of feedback submissions, optionally of one type or rating
+  | {
+      type: 'feedback'
+      feedback_type?: FeedbackSubmission['feedback_type']
+      min_rating?: number
+      max_rating?: number
+      min_count?: number // Defaults to 1 when neither bound is set
+      max_count?: number
+      within_days?: number
+    }
+
+// A named audience campaigns and A/B tests can target by ID. Members are
+// worked out from the rules at send time, from opted-in, verified,
+// unsuppressed signups only.
+export interface SavedSegment {
+  id: string
+  name: string
+  description?: string
+  rules: SegmentRule
+  created_by: string // Admin email, or 'api-key'
+  last_count?: number // Audience size when last previewed or resolved
+  last_counted_at?: string
+  created_at: string
+  updated_at: string
+}
+
 // Analytics Types
 export interface AnalyticsEvent {
   id?: string
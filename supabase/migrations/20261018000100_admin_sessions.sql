@@ -0,0 +1,14 @@
+-- Server-side store for signed admin session tokens
+create table if not exists public.admin_sessions (
+  id uuid primary key,
+  issued_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  revoked_at timestamptz,
+  ip_hash text,
+  user_agent_hash text
+);
+
+create index if not exists admin_sessions_expires_at_idx
+  on public.admin_sessions (expires_at);
+
+alter table public.admin_sessions enable row level security;
@@ -0,0 +1,49 @@
+-- Named admin accounts with roles
+create table if not exists public.admin_users (
+  id uuid primary key default gen_random_uuid(),
+  email text not null unique,
+  name text not null,
+  password_hash text not null,
+  role text not null default 'viewer'
+    check (role in ('viewer', 'marketer', 'owner')),
+  disabled boolean not null default false,
+  created_at timestamptz not null default now(),
+  last_login_at timestamptz
+);
+
+alter table public.admin_users enable row level security;
+
+alter table public.admin_sessions
+  add column if not exists admin_user_id uuid
+    references public.admin_users (id) on delete cascade;
+
+-- Append-only record of admin API actions
+create table if not exists public.admin_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  admin_user_id uuid references public.admin_users (id),
+  actor_email text not null,
+  actor_role text not null,
+  method text not null,
+  path text not null,
+  params jsonb,
+  outcome text not null check (outcome in ('allowed', 'denied')),
+  ip_hash text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists admin_audit_log_created_at_idx
+  on public.admin_audit_log (created_at desc);
+
+alter table public.admin_audit_log enable row level security;
+
+create or replace function public.prevent_admin_audit_log_changes()
+returns trigger language plpgsql as $$
+begin
+  raise exception 'admin_audit_log is append-only';
+end;
+$$;
+
+drop trigger if exists admin_audit_log_append_only on public.admin_audit_log;
+create trigger admin_audit_log_append_only
+  before update or delete on public.admin_audit_log
+  for each row execute function public.prevent_admin_audit_log_changes();
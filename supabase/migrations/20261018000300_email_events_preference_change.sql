@@ -0,0 +1,18 @@
+-- Preference center changes are logged to email_events alongside unsubscribes
+alter table public.email_events
+  drop constraint if exists email_events_event_type_check;
+
+alter table public.email_events
+  add constraint email_events_event_type_check check (
+    event_type in (
+      'sent',
+      'delivered',
+      'opened',
+      'clicked',
+      'bounced',
+      'spam_report',
+      'unsubscribe',
+      'group_unsubscribe',
+      'preference_change'
+    )
+  );
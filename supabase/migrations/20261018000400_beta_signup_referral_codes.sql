@@ -0,0 +1,15 @@
+-- Each signup gets its own referral code; referrer_code records who invited them
+alter table public.beta_signups
+  add column if not exists referral_code text;
+
+-- Backfill codes for existing signups
+update public.beta_signups
+set referral_code = upper(substr(md5(random()::text || id::text), 1, 8))
+where referral_code is null;
+
+create unique index if not exists beta_signups_referral_code_key
+  on public.beta_signups (referral_code);
+
+create index if not exists beta_signups_referrer_code_idx
+  on public.beta_signups (referrer_code)
+  where referrer_code is not null;
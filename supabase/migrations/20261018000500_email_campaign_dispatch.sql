@@ -0,0 +1,19 @@
+-- Scheduled campaigns are sent by the cron-triggered dispatcher. It claims a
+-- due campaign by flipping it from 'scheduled' to 'sending' together with a
+-- lock_id, so a campaign can only ever be claimed by one run.
+alter table public.email_campaigns
+  add column if not exists template_data jsonb,
+  add column if not exists locked_at timestamptz,
+  add column if not exists lock_id text;
+
+alter table public.email_campaigns
+  drop constraint if exists email_campaigns_status_check;
+
+alter table public.email_campaigns
+  add constraint email_campaigns_status_check check (
+    status in ('draft', 'scheduled', 'sending', 'sent', 'failed', 'cancelled')
+  );
+
+create index if not exists email_campaigns_due_idx
+  on public.email_campaigns (scheduled_at)
+  where status = 'scheduled';
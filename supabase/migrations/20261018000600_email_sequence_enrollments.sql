@@ -0,0 +1,22 @@
+-- Per-user progress through drip sequences (see src/lib/services/sequences.ts)
+create table if not exists public.email_sequence_enrollments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.beta_signups (id) on delete cascade,
+  sequence_id text not null,
+  status text not null default 'active'
+    check (status in ('active', 'completed', 'exited')),
+  current_step integer not null default 0,
+  next_run_at timestamptz not null default now(),
+  last_step_at timestamptz,
+  failed_attempts integer not null default 0,
+  exit_reason text,
+  enrolled_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, sequence_id)
+);
+
+create index if not exists email_sequence_enrollments_due_idx
+  on public.email_sequence_enrollments (next_run_at)
+  where status = 'active';
+
+alter table public.email_sequence_enrollments enable row level security;
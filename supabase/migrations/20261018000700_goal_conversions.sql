@@ -0,0 +1,43 @@
+-- Attribution for goal conversions. anonymous_visitors keeps the first touch
+-- in its original utm_*/referrer_domain columns; the last_* columns hold the
+-- most recent visit that arrived with a UTM source or an external referrer.
+alter table public.anonymous_visitors
+  add column if not exists landing_page text,
+  add column if not exists last_referrer_domain text,
+  add column if not exists last_utm_source text,
+  add column if not exists last_utm_medium text,
+  add column if not exists last_utm_campaign text,
+  add column if not exists last_landing_page text,
+  add column if not exists last_touch_at timestamptz;
+
+create index if not exists anonymous_visitors_last_seen_idx
+  on public.anonymous_visitors (last_seen);
+
+-- One row per completed PLAUSIBLE_GOALS goal, with the visitor's attribution
+-- copied at conversion time
+create table if not exists public.goal_conversions (
+  id uuid primary key default gen_random_uuid(),
+  goal_key text not null,
+  visitor_id text not null,
+  session_id text,
+  page_path text,
+  value numeric not null default 1,
+  first_touch_source text not null default 'direct',
+  first_touch_medium text,
+  first_touch_campaign text,
+  first_touch_landing_page text,
+  last_touch_source text not null default 'direct',
+  last_touch_medium text,
+  last_touch_campaign text,
+  last_touch_landing_page text,
+  metadata jsonb,
+  converted_at timestamptz not null default now()
+);
+
+create index if not exists goal_conversions_converted_at_idx
+  on public.goal_conversions (converted_at);
+
+create index if not exists goal_conversions_goal_key_idx
+  on public.goal_conversions (goal_key, converted_at);
+
+alter table public.goal_conversions enable row level security;
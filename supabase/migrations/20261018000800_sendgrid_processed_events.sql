@@ -0,0 +1,14 @@
+-- SendGrid retries event webhook batches that don't get a 2xx response, so
+-- the same sg_event_id can arrive more than once. Each event is claimed here
+-- before it is applied; events whose claim already exists are skipped.
+create table if not exists public.sendgrid_processed_events (
+  sg_event_id text primary key,
+  event_type text not null,
+  email text,
+  processed_at timestamptz not null default now()
+);
+
+create index if not exists sendgrid_processed_events_processed_at_idx
+  on public.sendgrid_processed_events (processed_at);
+
+alter table public.sendgrid_processed_events enable row level security;
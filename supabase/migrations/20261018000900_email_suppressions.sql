@@ -0,0 +1,33 @@
+-- Columns the bounce and complaint handlers have always written to
+alter table public.beta_signups
+  add column if not exists email_status text,
+  add column if not exists bounce_reason text,
+  add column if not exists updated_at timestamptz;
+
+-- Addresses we must not send to. A suppression stays in place until an
+-- admin lifts it; lifted rows are kept for history.
+create table if not exists public.email_suppressions (
+  id uuid primary key default gen_random_uuid(),
+  email text not null, -- Lowercased
+  reason text not null
+    check (reason in ('hard_bounce', 'soft_bounce', 'spam_complaint', 'manual')),
+  details text,
+  created_by text not null default 'system', -- Admin email, or 'system'
+  created_at timestamptz not null default now(),
+  lifted_at timestamptz,
+  lifted_by text,
+  lift_reason text
+);
+
+-- At most one active suppression per address
+create unique index if not exists email_suppressions_active_email_idx
+  on public.email_suppressions (email)
+  where lifted_at is null;
+
+create index if not exists email_suppressions_created_at_idx
+  on public.email_suppressions (created_at);
+
+create index if not exists email_bounces_email_timestamp_idx
+  on public.email_bounces (email, timestamp);
+
+alter table public.email_suppressions enable row level security;
@@ -0,0 +1,10 @@
+-- Test sends go to internal seed addresses instead of the real audience.
+-- They are flagged so campaign stats and dashboards can leave them out.
+alter table public.email_campaigns
+  add column if not exists is_test boolean not null default false;
+
+alter table public.email_events
+  add column if not exists is_test boolean not null default false;
+
+create index if not exists email_events_campaign_id_is_test_idx
+  on public.email_events (campaign_id, is_test);
@@ -0,0 +1,61 @@
+-- A/B tests. /api/ab-testing and EmailOptimizationService have always
+-- written here; this creates the table for fresh databases and adds the
+-- columns for seeded splits and winner rollouts.
+create table if not exists public.ab_tests (
+  id uuid primary key default gen_random_uuid(),
+  test_id text unique, -- EmailOptimizationService tests
+  test_name text not null,
+  test_type text not null default 'subject_line',
+  status text not null default 'running'
+    check (status in ('running', 'completed', 'stopped')),
+  campaign_id text,
+  campaign_a_id text,
+  campaign_b_id text,
+  variant_a jsonb,
+  variant_b jsonb,
+  variant_a_count integer not null default 0,
+  variant_b_count integer not null default 0,
+  split_percentage integer not null default 50,
+  sample_size integer,
+  duration_hours integer,
+  success_metric text,
+  confidence_level integer not null default 95,
+  start_date timestamptz,
+  end_date timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- The split is a Fisher-Yates shuffle seeded with shuffle_seed, so the
+-- assignment can be reproduced. With test_percentage below 100 the rest of
+-- the segment is held back in holdout_user_ids and sent the winning variant
+-- by the /api/cron/ab-test-rollouts runner once rollout_at has passed.
+alter table public.ab_tests
+  add column if not exists segment_filter text,
+  add column if not exists email_type text,
+  add column if not exists shuffle_seed text,
+  add column if not exists test_percentage integer not null default 100,
+  add column if not exists winner_metric text not null default 'open_rate'
+    check (winner_metric in ('open_rate', 'click_rate')),
+  add column if not exists holdout_user_ids jsonb not null default '[]',
+  add column if not exists holdout_count integer not null default 0,
+  add column if not exists rollout_at timestamptz,
+  add column if not exists rollout_status text not null default 'none'
+    check (rollout_status in ('none', 'pending', 'sending', 'sent', 'failed', 'cancelled')),
+  add column if not exists winner text
+    check (winner in ('variant_a', 'variant_b', 'inconclusive')),
+  add column if not exists rollout_variant text
+    check (rollout_variant in ('variant_a', 'variant_b')),
+  add column if not exists rollout_campaign_id text,
+  add column if not exists decided_at timestamptz,
+  add column if not exists lock_id text,
+  add column if not exists locked_at timestamptz,
+  add column if not exists updated_at timestamptz;
+
+create index if not exists ab_tests_rollout_due_idx
+  on public.ab_tests (rollout_at)
+  where rollout_status = 'pending';
+
+create index if not exists ab_tests_created_at_idx
+  on public.ab_tests (created_at);
+
+alter table public.ab_tests enable row level security;
@@ -0,0 +1,45 @@
+-- Scheduled campaigns can be delivered at each recipient's best local time
+-- (see src/lib/services/send-time.ts). When the dispatcher picks up such a
+-- campaign it queues one delivery per recipient, spread over the 24 hours
+-- from scheduled_at, and moves the campaign to 'delivering' until the
+-- deliveries have gone out.
+alter table public.email_campaigns
+  add column if not exists optimize_send_time boolean not null default false;
+
+alter table public.email_campaigns
+  drop constraint if exists email_campaigns_status_check;
+
+alter table public.email_campaigns
+  add constraint email_campaigns_status_check check (
+    status in (
+      'draft', 'scheduled', 'sending', 'delivering', 'sent', 'failed', 'cancelled'
+    )
+  );
+
+create table if not exists public.email_campaign_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  campaign_id text not null,
+  user_id uuid not null references public.beta_signups (id) on delete cascade,
+  send_at timestamptz not null,
+  send_time_source text not null
+    check (send_time_source in ('recipient', 'segment', 'default')),
+  local_hour integer check (local_hour between 0 and 23),
+  timezone text,
+  status text not null default 'pending'
+    check (status in ('pending', 'sending', 'sent', 'failed', 'skipped')),
+  error text,
+  lock_id text,
+  locked_at timestamptz,
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (campaign_id, user_id)
+);
+
+create index if not exists email_campaign_deliveries_due_idx
+  on public.email_campaign_deliveries (send_at)
+  where status = 'pending';
+
+create index if not exists email_campaign_deliveries_campaign_idx
+  on public.email_campaign_deliveries (campaign_id, status);
+
+alter table public.email_campaign_deliveries enable row level security;
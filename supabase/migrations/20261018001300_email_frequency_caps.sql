@@ -0,0 +1,25 @@
+-- Sends held back by a frequency cap (see src/lib/services/frequency-caps.ts)
+-- are logged to email_events with the reason in metadata
+alter table public.email_events
+  drop constraint if exists email_events_event_type_check;
+
+alter table public.email_events
+  add constraint email_events_event_type_check check (
+    event_type in (
+      'sent',
+      'delivered',
+      'opened',
+      'clicked',
+      'bounced',
+      'spam_report',
+      'unsubscribe',
+      'group_unsubscribe',
+      'preference_change',
+      'frequency_capped'
+    )
+  );
+
+-- The cap check counts each user's recent sends
+create index if not exists email_events_user_sent_idx
+  on public.email_events (user_id, timestamp)
+  where event_type = 'sent';
@@ -0,0 +1,20 @@
+-- Named audiences defined by a rule tree over signup fields, email activity
+-- and feedback history (see src/lib/segment-rules.ts). Campaigns target one
+-- with segment_filter = {"segment_id": ...} and A/B tests with segmentId;
+-- members are worked out from the rules when the email goes out.
+create table if not exists public.saved_segments (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  rules jsonb not null,
+  created_by text not null default 'system', -- Admin email, or 'api-key'
+  last_count integer, -- Audience size when last previewed or resolved
+  last_counted_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists saved_segments_name_idx
+  on public.saved_segments (lower(name));
+
+alter table public.saved_segments enable row level security;
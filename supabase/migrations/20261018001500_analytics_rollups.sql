@@ -0,0 +1,84 @@
+-- Pre-aggregated analytics, maintained by the rollup job
+-- (src/lib/services/analytics-rollups.ts, run from /api/cron/analytics-rollups).
+-- Each completed hour of page_analytics, beta_signups and email_events is
+-- summarized into one row per (metric, dimension), and each completed UTC
+-- day likewise. Dashboards read these instead of scanning raw rows, and
+-- only read raw rows newer than analytics_rollup_state.rolled_up_to.
+create table if not exists public.analytics_hourly_rollups (
+  bucket_start timestamptz not null, -- Start of the UTC hour
+  metric text not null,
+  dimension text not null default '', -- e.g. the page path; '' for totals
+  value double precision not null,
+  updated_at timestamptz not null default now(),
+  primary key (bucket_start, metric, dimension)
+);
+
+create table if not exists public.analytics_daily_rollups (
+  bucket_start timestamptz not null, -- Midnight UTC
+  metric text not null,
+  dimension text not null default '',
+  value double precision not null,
+  updated_at timestamptz not null default now(),
+  primary key (bucket_start, metric, dimension)
+);
+
+create index if not exists analytics_hourly_rollups_metric_idx
+  on public.analytics_hourly_rollups (metric, bucket_start);
+
+create index if not exists analytics_daily_rollups_metric_idx
+  on public.analytics_daily_rollups (metric, bucket_start);
+
+-- Visitors seen in each hour, so unique visitors over any range can be
+-- counted exactly rather than by adding up per-bucket counts
+create table if not exists public.analytics_visitor_hours (
+  bucket_start timestamptz not null,
+  visitor_id text not null,
+  sessions integer not null default 0, -- Distinct sessions seen that hour
+  page_views integer not null default 0,
+  primary key (bucket_start, visitor_id)
+);
+
+-- How far the rollups reach. Everything before rolled_up_to is in the
+-- rollup tables; anything after it is read raw.
+create table if not exists public.analytics_rollup_state (
+  id text primary key,
+  rolled_up_to timestamptz not null,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists page_analytics_timestamp_idx
+  on public.page_analytics (timestamp);
+
+-- Unique and returning visitors between two hour boundaries, plus visitor
+-- ids from raw rows past the rollups. Returning visitors are those with
+-- more than one session in the range.
+create or replace function public.analytics_visitor_counts(
+  range_start timestamptz,
+  range_end timestamptz,
+  extra_visitor_ids text[] default '{}'
+)
+returns table (unique_visitors bigint, returning_visitors bigint)
+language sql
+stable
+as $$
+  with rolled as (
+    select visitor_id, sum(sessions) as sessions
+    from public.analytics_visitor_hours
+    where bucket_start >= range_start and bucket_start < range_end
+    group by visitor_id
+  )
+  select
+    (
+      select count(*) from (
+        select visitor_id from rolled
+        union
+        select unnest(extra_visitor_ids)
+      ) visitors
+    ),
+    (select count(*) from rolled where sessions > 1)
+$$;
+
+alter table public.analytics_hourly_rollups enable row level security;
+alter table public.analytics_daily_rollups enable row level security;
+alter table public.analytics_visitor_hours enable row level security;
+alter table public.analytics_rollup_state enable row level security;
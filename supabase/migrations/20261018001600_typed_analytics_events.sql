@@ -0,0 +1,328 @@
+-- Typed tables for the events that used to be page_analytics rows told apart
+-- by event_type and a free-form metadata blob. page_analytics keeps page
+-- views and the general event stream; each table below is written by its
+-- own endpoint, and existing rows are moved across at the end.
+
+-- Core Web Vitals and load timings (/api/analytics/performance)
+create table if not exists public.web_vitals (
+  id uuid primary key default gen_random_uuid(),
+  page_path text not null,
+  lcp double precision, -- ms
+  fid double precision, -- ms
+  cls double precision,
+  fcp double precision, -- ms
+  ttfb double precision, -- ms
+  dom_content_loaded double precision, -- ms
+  load_complete double precision, -- ms
+  navigation_timing jsonb,
+  memory_usage jsonb,
+  score integer not null default 0, -- 0-100, see calculatePerformanceScore
+  referrer text,
+  user_agent_hash text,
+  recorded_at timestamptz not null default now()
+);
+
+create index if not exists web_vitals_recorded_at_idx
+  on public.web_vitals (recorded_at);
+
+create index if not exists web_vitals_page_path_idx
+  on public.web_vitals (page_path, recorded_at);
+
+-- Errors reported by the browser (/api/analytics/error-tracking)
+create table if not exists public.client_errors (
+  id uuid primary key default gen_random_uuid(),
+  page_path text not null,
+  visitor_id text, -- Hashed IP
+  message text not null,
+  stack text,
+  component_stack text,
+  error_boundary boolean not null default false,
+  severity text not null
+    check (severity in ('low', 'medium', 'high', 'critical')),
+  category text not null, -- javascript, network, api, render, user, system
+  user_agent_hash text,
+  metadata jsonb,
+  occurred_at timestamptz not null default now()
+);
+
+create index if not exists client_errors_occurred_at_idx
+  on public.client_errors (occurred_at);
+
+create index if not exists client_errors_severity_idx
+  on public.client_errors (severity, occurred_at);
+
+-- Slow APIs, poor vitals and the like spotted by the browser
+-- (/api/analytics/error-tracking)
+create table if not exists public.performance_issues (
+  id uuid primary key default gen_random_uuid(),
+  page_path text not null,
+  visitor_id text, -- Hashed IP
+  issue_type text not null, -- slow-api, memory-leak, large-bundle, ...
+  severity text not null
+    check (severity in ('low', 'medium', 'high', 'critical')),
+  message text not null,
+  metrics jsonb,
+  resolved boolean not null default false,
+  user_agent_hash text,
+  occurred_at timestamptz not null default now()
+);
+
+create index if not exists performance_issues_occurred_at_idx
+  on public.performance_issues (occurred_at);
+
+-- Scrolls, clicks, form interactions and time on page
+-- (/api/analytics/engagement). A visitor's running engagement score is the
+-- sum of engagement_score over their rows.
+create table if not exists public.engagement_events (
+  id uuid primary key default gen_random_uuid(),
+  visitor_id text not null,
+  session_id text,
+  page_path text not null default '/',
+  event_type text not null, -- scroll_depth, time_on_page, cta_click, ...
+  scroll_depth integer, -- Percent
+  time_on_page_ms integer,
+  click_target text,
+  form_field text,
+  cta_position text,
+  mouse_movements integer,
+  keystrokes integer,
+  engagement_score integer not null default 0,
+  interaction_quality text, -- minimal, low, medium, high
+  user_agent_hash text,
+  metadata jsonb,
+  occurred_at timestamptz not null default now()
+);
+
+create index if not exists engagement_events_occurred_at_idx
+  on public.engagement_events (occurred_at);
+
+create index if not exists engagement_events_visitor_idx
+  on public.engagement_events (visitor_id, occurred_at);
+
+-- Alerts raised for critical errors, poor performance and server error
+-- bursts (see server-error-logger alert rules)
+create table if not exists public.system_alerts (
+  id uuid primary key default gen_random_uuid(),
+  alert_type text not null, -- error, performance, rule
+  severity text not null,
+  message text not null,
+  page_path text,
+  rule_id text, -- Server error alert rule that fired
+  occurrences integer, -- Errors that tripped the rule
+  details jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists system_alerts_created_at_idx
+  on public.system_alerts (created_at);
+
+alter table public.web_vitals enable row level security;
+alter table public.client_errors enable row level security;
+alter table public.performance_issues enable row level security;
+alter table public.engagement_events enable row level security;
+alter table public.system_alerts enable row level security;
+
+-- Backfill: move existing page_analytics rows into their typed tables.
+-- Legacy metadata is free-form JSON, so these helpers turn a value of the
+-- wrong type into null rather than letting one bad row fail the migration.
+
+create function pg_temp.json_number(value jsonb) returns numeric
+language sql immutable as $$
+  select case
+    when jsonb_typeof(value) = 'number' then (value #>> '{}')::numeric
+  end
+$$;
+
+create function pg_temp.json_integer(value jsonb) returns integer
+language sql immutable as $$
+  select case
+    when abs(pg_temp.json_number(value)) < 2147483647
+      then round(pg_temp.json_number(value))::integer
+  end
+$$;
+
+create function pg_temp.json_boolean(value jsonb) returns boolean
+language sql immutable as $$
+  select case
+    when jsonb_typeof(value) = 'boolean' then (value #>> '{}')::boolean
+  end
+$$;
+
+create function pg_temp.json_object(value jsonb) returns jsonb
+language sql immutable as $$
+  select case when jsonb_typeof(value) = 'object' then value end
+$$;
+
+insert into public.web_vitals (
+  page_path, lcp, fid, cls, fcp, ttfb, dom_content_loaded, load_complete,
+  navigation_timing, memory_usage, score, referrer, user_agent_hash,
+  recorded_at
+)
+select
+  page_path,
+  pg_temp.json_number(metadata->'performance'->'lcp')::double precision,
+  pg_temp.json_number(metadata->'performance'->'fid')::double precision,
+  pg_temp.json_number(metadata->'performance'->'cls')::double precision,
+  pg_temp.json_number(metadata->'performance'->'fcp')::double precision,
+  pg_temp.json_number(metadata->'performance'->'ttfb')::double precision,
+  pg_temp.json_number(
+    metadata->'performance'->'domContentLoaded'
+  )::double precision,
+  pg_temp.json_number(
+    metadata->'performance'->'loadComplete'
+  )::double precision,
+  pg_temp.json_object(metadata->'performance'->'navigationTiming'),
+  pg_temp.json_object(metadata->'performance'->'memoryUsage'),
+  coalesce(pg_temp.json_integer(metadata->'score'), 0),
+  referrer,
+  user_agent_hash,
+  timestamp
+from public.page_analytics
+where event_type = 'performance_metrics';
+
+insert into public.client_errors (
+  page_path, visitor_id, message, stack, component_stack, error_boundary,
+  severity, category, user_agent_hash, metadata, occurred_at
+)
+select
+  page_path,
+  visitor_id,
+  coalesce(metadata->'error'->>'message', 'Unknown error'),
+  metadata->'error'->>'stack',
+  metadata->'error'->>'componentStack',
+  coalesce(pg_temp.json_boolean(metadata->'error'->'errorBoundary'), false),
+  case
+    when metadata->'error'->>'severity' in ('low', 'medium', 'high', 'critical')
+      then metadata->'error'->>'severity'
+    else 'medium'
+  end,
+  coalesce(metadata->'error'->>'category', 'javascript'),
+  user_agent_hash,
+  pg_temp.json_object(metadata->'error') - array[
+    'message', 'stack', 'componentStack', 'errorBoundary', 'severity',
+    'category'
+  ],
+  timestamp
+from public.page_analytics
+where event_type = 'error';
+
+insert into public.performance_issues (
+  page_path, visitor_id, issue_type, severity, message, metrics, resolved,
+  user_agent_hash, occurred_at
+)
+select
+  page_path,
+  visitor_id,
+  coalesce(metadata->'performance_issue'->>'type', 'unknown'),
+  case
+    when metadata->'performance_issue'->>'severity'
+      in ('low', 'medium', 'high', 'critical')
+      then metadata->'performance_issue'->>'severity'
+    else 'medium'
+  end,
+  coalesce(metadata->'performance_issue'->>'message', ''),
+  pg_temp.json_object(metadata->'performance_issue'->'metrics'),
+  coalesce(
+    pg_temp.json_boolean(metadata->'performance_issue'->'resolved'),
+    false
+  ),
+  user_agent_hash,
+  timestamp
+from public.page_analytics
+where event_type = 'performance_issue';
+
+-- Only rows from the engagement endpoint, which always scored them; the
+-- same event types sent to /api/analytics stay in page_analytics
+insert into public.engagement_events (
+  visitor_id, session_id, page_path, event_type, scroll_depth,
+  time_on_page_ms, click_target, form_field, cta_position, mouse_movements,
+  keystrokes, engagement_score, interaction_quality, user_agent_hash,
+  metadata, occurred_at
+)
+select
+  visitor_id,
+  session_id,
+  page_path,
+  event_type,
+  pg_temp.json_integer(metadata->'scroll_depth'),
+  pg_temp.json_integer(metadata->'time_on_page'),
+  metadata->>'click_target',
+  metadata->>'form_field',
+  metadata->>'cta_position',
+  pg_temp.json_integer(metadata->'mouse_movements'),
+  pg_temp.json_integer(metadata->'keystroke_count'),
+  coalesce(pg_temp.json_integer(metadata->'engagement_score'), 0),
+  metadata->>'interaction_quality',
+  user_agent_hash,
+  pg_temp.json_object(metadata) - array[
+    'scroll_depth', 'time_on_page', 'click_target', 'form_field',
+    'cta_position', 'mouse_movements', 'keystroke_count', 'engagement_score',
+    'interaction_quality', 'timestamp'
+  ],
+  timestamp
+from public.page_analytics
+where metadata ? 'engagement_score'
+  and visitor_id is not null;
+
+insert into public.system_alerts (
+  alert_type, severity, message, page_path, rule_id, occurrences, details,
+  created_at
+)
+select
+  case
+    when event_type = 'performance_alert' then 'performance'
+    when metadata->'alert' ? 'ruleId' then 'rule'
+    else coalesce(metadata->'alert'->>'type', 'error')
+  end,
+  coalesce(metadata->'alert'->>'severity', metadata->>'severity', 'medium'),
+  coalesce(
+    metadata->'alert'->>'message',
+    'Performance score ' || (metadata->>'score') || ' on ' || (metadata->>'page'),
+    'Unknown alert'
+  ),
+  coalesce(metadata->'alert'->>'page', metadata->>'page'),
+  metadata->'alert'->>'ruleId',
+  pg_temp.json_integer(metadata->'alert'->'count'),
+  case
+    when event_type = 'performance_alert' then metadata
+    else pg_temp.json_object(metadata->'alert') - array[
+      'type', 'severity', 'message', 'page', 'ruleId', 'count'
+    ]
+  end,
+  timestamp
+from public.page_analytics
+where event_type in ('system_alert', 'performance_alert');
+
+-- Beta signup conversions were logged as conversion_tracked rows until
+-- goal_conversions existed; after that they duplicate goal_conversions
+-- rows, so only the earlier ones are carried over
+insert into public.goal_conversions (
+  goal_key, visitor_id, session_id, page_path, value, first_touch_source,
+  last_touch_source, metadata, converted_at
+)
+select
+  'BETA_SIGNUP',
+  visitor_id,
+  session_id,
+  null,
+  coalesce(pg_temp.json_number(metadata->'conversion_value'), 1),
+  coalesce(metadata->>'signup_source', 'direct'),
+  coalesce(metadata->>'signup_source', 'direct'),
+  metadata,
+  timestamp
+from public.page_analytics
+where event_type = 'conversion_tracked'
+  and visitor_id is not null
+  and timestamp < coalesce(
+    (select min(converted_at) from public.goal_conversions),
+    'infinity'
+  );
+
+-- cumulative_engagement rows were running totals of engagement scores,
+-- which are now sums over engagement_events, so they go with the rest
+delete from public.page_analytics
+where event_type in (
+  'performance_metrics', 'error', 'performance_issue', 'system_alert',
+  'performance_alert', 'conversion_tracked', 'cumulative_engagement'
+)
+  or (metadata ? 'engagement_score' and visitor_id is not null);
@@ -0,0 +1,50 @@
+-- Cookieless visitor IDs. A visitor ID is a hash of the day's salt, the
+-- site, the visitor's truncated IP and their user agent (see
+-- AnonymousAnalyticsService.generateVisitorId), so the same browser gets a
+-- new ID every UTC day and visits can't be linked across days. Salts are
+-- deleted once their day is over, which makes the IDs irreversible.
+create table if not exists public.analytics_salts (
+  day date primary key, -- UTC day the salt is used for
+  salt text not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.analytics_salts enable row level security;
+
+-- With IDs that only last a day, a returning visitor is one who came back
+-- for another session on the same day. Unique visitors over a range of
+-- several days count each day's visitors separately.
+create or replace function public.analytics_visitor_counts(
+  range_start timestamptz,
+  range_end timestamptz,
+  extra_visitor_ids text[] default '{}'
+)
+returns table (unique_visitors bigint, returning_visitors bigint)
+language sql
+stable
+as $$
+  with rolled as (
+    select
+      visitor_id,
+      date_trunc('day', bucket_start at time zone 'UTC') as day,
+      sum(sessions) as sessions
+    from public.analytics_visitor_hours
+    where bucket_start >= range_start and bucket_start < range_end
+    group by visitor_id, day
+  )
+  select
+    (
+      select count(*) from (
+        select visitor_id from rolled
+        union
+        select unnest(extra_visitor_ids)
+      ) visitors
+    ),
+    (select count(*) from rolled where sessions > 1)
+$$;
+
+-- Visitor identification events stored the old cross-day fingerprint
+update public.page_analytics
+set metadata = metadata - array['fingerprint', 'timezone', 'screenResolution']
+where event_type = 'visitor_session'
+  or metadata ? 'fingerprint';
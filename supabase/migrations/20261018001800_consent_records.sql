@@ -0,0 +1,24 @@
+-- Audit log of tracking consent choices, written by /api/consent each time
+-- a visitor accepts, rejects or changes their choice. consent_id is a
+-- random ID kept in the visitor's browser alongside the choice; it groups
+-- one browser's changes without identifying anyone.
+create table if not exists public.consent_records (
+  id uuid primary key default gen_random_uuid(),
+  consent_id uuid not null,
+  policy_version text not null, -- CONSENT_POLICY_VERSION the choice was made under
+  action text not null
+    check (action in ('accept_all', 'reject_all', 'custom')),
+  analytics boolean not null,
+  performance boolean not null,
+  marketing boolean not null,
+  user_agent_hash text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists consent_records_consent_id_idx
+  on public.consent_records (consent_id, created_at);
+
+create index if not exists consent_records_created_at_idx
+  on public.consent_records (created_at);
+
+alter table public.consent_records enable row level security;
@@ -0,0 +1,62 @@
+-- Failed admin login counters, shared by every server instance. One row per
+-- throttled key: 'ip:<hash>' for a client IP, 'account:<email>' for an account
+-- and 'global' for all failures together.
+create table if not exists public.admin_login_attempts (
+  key text primary key,
+  failures integer not null default 0,
+  last_failure_at timestamptz not null default now(),
+  locked_until timestamptz
+);
+
+alter table public.admin_login_attempts enable row level security;
+
+-- Count one failed login against a key and return the resulting lockout.
+-- Failures older than window_ms are forgotten once any lockout has ended;
+-- from free_attempts on, each failure locks the key for base_delay_ms,
+-- doubled per further failure and capped at max_delay_ms.
+create or replace function public.record_admin_login_failure(
+  attempt_key text,
+  free_attempts integer,
+  base_delay_ms bigint,
+  max_delay_ms bigint,
+  window_ms bigint
+)
+returns table (failure_count integer, locked_until_at timestamptz)
+language plpgsql as $$
+declare
+  attempt public.admin_login_attempts;
+begin
+  insert into public.admin_login_attempts (key, failures, last_failure_at)
+  values (attempt_key, 0, now())
+  on conflict (key) do nothing;
+
+  select * into attempt
+  from public.admin_login_attempts
+  where key = attempt_key
+  for update;
+
+  if now() - attempt.last_failure_at > window_ms * interval '1 millisecond'
+    and coalesce(attempt.locked_until, '-infinity') <= now() then
+    attempt.failures := 0;
+    attempt.locked_until := null;
+  end if;
+
+  attempt.failures := attempt.failures + 1;
+  attempt.last_failure_at := now();
+
+  if attempt.failures >= free_attempts then
+    attempt.locked_until := now() + least(
+      base_delay_ms * power(2, attempt.failures - free_attempts),
+      max_delay_ms
+    ) * interval '1 millisecond';
+  end if;
+
+  update public.admin_login_attempts
+  set failures = attempt.failures,
+      last_failure_at = attempt.last_failure_at,
+      locked_until = attempt.locked_until
+  where key = attempt_key;
+
+  return query select attempt.failures, attempt.locked_until;
+end;
+$$;
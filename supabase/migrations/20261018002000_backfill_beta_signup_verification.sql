@@ -0,0 +1,8 @@
+-- Signups from before double opt-in never got a confirmation email, so
+-- email_verified is still at its default for them. Treat them as confirmed
+-- so the unverified-signup expiry doesn't delete them and the
+-- email_verified filters on campaigns, sequences and segments keep
+-- mailing them. Runs once, with the deploy that ships confirmation emails.
+update public.beta_signups
+set email_verified = true
+where email_verified is not true;
@@ -0,0 +1,93 @@
+-- Conversions are recorded in goal_conversions, not as page_analytics
+-- events, and the rollup job now reads them from there. Rebuild the
+-- conversion metrics of buckets that were rolled up before that, within
+-- the range the rollups already cover; later buckets get them from the job.
+do $$
+declare
+  rolled_until timestamptz;
+begin
+  select state.rolled_up_to into rolled_until
+  from public.analytics_rollup_state state
+  where state.id = 'default';
+
+  if rolled_until is null then
+    return;
+  end if;
+
+  delete from public.analytics_hourly_rollups
+  where metric in (
+      'conversions', 'conversions_by_path', 'converters', 'utm_conversions'
+    )
+    and bucket_start < rolled_until;
+
+  delete from public.analytics_daily_rollups
+  where metric in (
+      'conversions', 'conversions_by_path', 'converters', 'utm_conversions'
+    )
+    and bucket_start < rolled_until;
+
+  -- Hourly buckets
+  with conversions as (
+    select
+      date_trunc('hour', converted_at at time zone 'UTC') at time zone 'UTC'
+        as bucket_start,
+      goal_key,
+      visitor_id,
+      coalesce(page_path, 'unknown') as page_path,
+      last_touch_campaign
+    from public.goal_conversions
+    where converted_at >= (
+        select min(bucket_start) from public.analytics_hourly_rollups
+      )
+      and converted_at < date_trunc('hour', rolled_until at time zone 'UTC')
+        at time zone 'UTC'
+  )
+  insert into public.analytics_hourly_rollups
+    (bucket_start, metric, dimension, value)
+  select bucket_start, 'conversions', goal_key, count(*)
+  from conversions group by bucket_start, goal_key
+  union all
+  select bucket_start, 'conversions_by_path', page_path, count(*)
+  from conversions group by bucket_start, page_path
+  union all
+  select bucket_start, 'converters', '', count(distinct visitor_id)
+  from conversions group by bucket_start
+  union all
+  select bucket_start, 'utm_conversions', last_touch_campaign, count(*)
+  from conversions
+  where last_touch_campaign is not null
+  group by bucket_start, last_touch_campaign;
+
+  -- Daily buckets, for whole UTC days only
+  with conversions as (
+    select
+      date_trunc('day', converted_at at time zone 'UTC') at time zone 'UTC'
+        as bucket_start,
+      goal_key,
+      visitor_id,
+      coalesce(page_path, 'unknown') as page_path,
+      last_touch_campaign
+    from public.goal_conversions
+    where converted_at >= (
+        select min(bucket_start) from public.analytics_daily_rollups
+      )
+      and converted_at < date_trunc('day', rolled_until at time zone 'UTC')
+        at time zone 'UTC'
+  )
+  insert into public.analytics_daily_rollups
+    (bucket_start, metric, dimension, value)
+  select bucket_start, 'conversions', goal_key, count(*)
+  from conversions group by bucket_start, goal_key
+  union all
+  select bucket_start, 'conversions_by_path', page_path, count(*)
+  from conversions group by bucket_start, page_path
+  union all
+  select bucket_start, 'converters', '', count(distinct visitor_id)
+  from conversions group by bucket_start
+  union all
+  select bucket_start, 'utm_conversions', last_touch_campaign, count(*)
+  from conversions
+  where last_touch_campaign is not null
+  group by bucket_start, last_touch_campaign;
+end;
+$$;
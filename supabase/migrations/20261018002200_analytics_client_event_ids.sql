@@ -0,0 +1,20 @@
+-- Events from the client event queue carry an ID generated when they were
+-- queued. /api/analytics/batch writes them with ON CONFLICT DO NOTHING on
+-- this ID, so a batch resent after a partial failure stores nothing twice.
+alter table public.page_analytics
+  add column if not exists client_event_id uuid;
+
+alter table public.engagement_events
+  add column if not exists client_event_id uuid;
+
+alter table public.goal_conversions
+  add column if not exists client_event_id uuid;
+
+create unique index if not exists page_analytics_client_event_id_idx
+  on public.page_analytics (client_event_id);
+
+create unique index if not exists engagement_events_client_event_id_idx
+  on public.engagement_events (client_event_id);
+
+create unique index if not exists goal_conversions_client_event_id_idx
+  on public.goal_conversions (client_event_id);
@@ -0,0 +1,4 @@
+-- When each signup was last sent a preference center link, so the link
+-- cooldown holds across server instances and cold starts
+alter table public.beta_signups
+  add column if not exists preference_link_sent_at timestamptz;
@@ -0,0 +1,51 @@
+-- Visitor IDs written before daily salts were the same for a browser on
+-- every day, so past rows could still be linked across days. Replace each
+-- of them with a hash of a one-off random secret, the old ID and the row's
+-- UTC day. Rows from the same visitor on the same day keep matching each
+-- other, so stored counts stay consistent, but nothing links them to
+-- another day. The secret is never stored, so the old IDs can't be
+-- recovered from the new ones.
+do $$
+declare
+  secret text := gen_random_uuid()::text || gen_random_uuid()::text;
+  cutover timestamptz := now();
+begin
+  update public.page_analytics
+  set visitor_id = md5(
+      secret || '|' || visitor_id || '|'
+        || (page_analytics.timestamp at time zone 'UTC')::date::text
+    )
+  where visitor_id is not null
+    and page_analytics.timestamp < cutover;
+
+  update public.engagement_events
+  set visitor_id = md5(
+      secret || '|' || visitor_id || '|'
+        || (occurred_at at time zone 'UTC')::date::text
+    )
+  where occurred_at < cutover;
+
+  update public.goal_conversions
+  set visitor_id = md5(
+      secret || '|' || visitor_id || '|'
+        || (converted_at at time zone 'UTC')::date::text
+    )
+  where converted_at < cutover;
+
+  update public.analytics_visitor_hours
+  set visitor_id = md5(
+      secret || '|' || visitor_id || '|'
+        || (bucket_start at time zone 'UTC')::date::text
+    )
+  where bucket_start < cutover;
+
+  -- One row per old ID, which may span several days; it takes the ID of
+  -- its first day
+  update public.anonymous_visitors
+  set visitor_hash = md5(
+      secret || '|' || visitor_hash || '|'
+        || (first_seen at time zone 'UTC')::date::text
+    )
+  where first_seen < cutover;
+end;
+$$;
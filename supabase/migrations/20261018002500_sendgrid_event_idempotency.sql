@@ -0,0 +1,47 @@
+-- Rows written from SendGrid webhook events are keyed by sg_event_id and
+-- inserted with ON CONFLICT DO NOTHING, so when a batch is redelivered after
+-- a partial failure the rows that did land aren't stored twice.
+alter table public.email_events
+  add column if not exists sg_event_id text;
+
+update public.email_events
+set sg_event_id = metadata->>'sg_event_id'
+where sg_event_id is null
+  and metadata->>'sg_event_id' is not null;
+
+-- Copies left by earlier redeliveries; the first one is kept
+delete from public.email_events duplicate
+using public.email_events original
+where duplicate.sg_event_id = original.sg_event_id
+  and duplicate.ctid > original.ctid;
+
+delete from public.email_bounces duplicate
+using public.email_bounces original
+where duplicate.sg_event_id = original.sg_event_id
+  and duplicate.ctid > original.ctid;
+
+delete from public.spam_complaints duplicate
+using public.spam_complaints original
+where duplicate.sg_event_id = original.sg_event_id
+  and duplicate.ctid > original.ctid;
+
+create unique index if not exists email_events_sg_event_id_key
+  on public.email_events (sg_event_id);
+
+create unique index if not exists email_bounces_sg_event_id_key
+  on public.email_bounces (sg_event_id);
+
+create unique index if not exists spam_complaints_sg_event_id_key
+  on public.spam_complaints (sg_event_id);
+
+-- Events whose rows the database rejects (bad data or a constraint) are
+-- dead-lettered: the claim is kept so redeliveries skip them, and the error
+-- is recorded for a look by hand.
+alter table public.sendgrid_processed_events
+  add column if not exists status text not null default 'processed'
+    check (status in ('processed', 'dead_letter')),
+  add column if not exists error text;
+
+create index if not exists sendgrid_processed_events_dead_letter_idx
+  on public.sendgrid_processed_events (processed_at)
+  where status = 'dead_letter';
@@ -0,0 +1,4 @@
+-- Campaigns sent without a repo template, such as A/B test variants and
+-- their rollouts, keep their HTML here so the delivery runner can send them
+alter table public.email_campaigns
+  add column if not exists html_content text;